@@ -0,0 +1,11 @@
+-- Drop the task search index, see search-index.sql. Run before `prisma db push`, which does not
+-- know about the FTS5 table and its shadow tables.
+
+DROP TRIGGER IF EXISTS "TaskSearch_task_insert";
+DROP TRIGGER IF EXISTS "TaskSearch_task_update";
+DROP TRIGGER IF EXISTS "TaskSearch_task_delete";
+DROP TRIGGER IF EXISTS "TaskSearch_project_update";
+DROP TRIGGER IF EXISTS "TaskSearch_label_update";
+DROP TRIGGER IF EXISTS "TaskSearch_labels_insert";
+DROP TRIGGER IF EXISTS "TaskSearch_labels_delete";
+DROP TABLE IF EXISTS "TaskSearch";
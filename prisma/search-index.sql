@@ -0,0 +1,112 @@
+-- Full-text search over tasks, used by src/server/services/search.ts.
+--
+-- Prisma cannot describe FTS5 virtual tables, so this runs after `prisma db push` (see the db:push
+-- and db:search scripts) and rebuilds the index from scratch. Each row holds a task's title and
+-- description plus its project name and label names; the triggers rebuild a task's row whenever
+-- one of those changes, so every write path stays indexed.
+
+DROP TRIGGER IF EXISTS "TaskSearch_task_insert";
+DROP TRIGGER IF EXISTS "TaskSearch_task_update";
+DROP TRIGGER IF EXISTS "TaskSearch_task_delete";
+DROP TRIGGER IF EXISTS "TaskSearch_project_update";
+DROP TRIGGER IF EXISTS "TaskSearch_label_update";
+DROP TRIGGER IF EXISTS "TaskSearch_labels_insert";
+DROP TRIGGER IF EXISTS "TaskSearch_labels_delete";
+DROP TABLE IF EXISTS "TaskSearch";
+
+CREATE VIRTUAL TABLE "TaskSearch" USING fts5(
+  "taskId" UNINDEXED, "userId" UNINDEXED, "title", "description", "project", "labels",
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER "TaskSearch_task_insert" AFTER INSERT ON "Task" BEGIN
+  DELETE FROM "TaskSearch" WHERE "taskId" IN (NEW."id");
+  INSERT INTO "TaskSearch" ("taskId", "userId", "title", "description", "project", "labels")
+  SELECT t."id", t."userId", t."title", COALESCE(t."description", ''),
+    COALESCE((SELECT p."name" FROM "Project" p WHERE p."id" = t."projectId"), ''),
+    COALESCE(
+      (SELECT group_concat(l."name", ' ') FROM "Label" l
+        JOIN "_LabelToTask" lt ON lt."A" = l."id" WHERE lt."B" = t."id"),
+      ''
+    )
+  FROM "Task" t WHERE t."id" IN (NEW."id");
+END;
+
+CREATE TRIGGER "TaskSearch_task_update" AFTER UPDATE OF "title", "description", "projectId" ON "Task" BEGIN
+  DELETE FROM "TaskSearch" WHERE "taskId" IN (NEW."id");
+  INSERT INTO "TaskSearch" ("taskId", "userId", "title", "description", "project", "labels")
+  SELECT t."id", t."userId", t."title", COALESCE(t."description", ''),
+    COALESCE((SELECT p."name" FROM "Project" p WHERE p."id" = t."projectId"), ''),
+    COALESCE(
+      (SELECT group_concat(l."name", ' ') FROM "Label" l
+        JOIN "_LabelToTask" lt ON lt."A" = l."id" WHERE lt."B" = t."id"),
+      ''
+    )
+  FROM "Task" t WHERE t."id" IN (NEW."id");
+END;
+
+CREATE TRIGGER "TaskSearch_task_delete" AFTER DELETE ON "Task" BEGIN
+  DELETE FROM "TaskSearch" WHERE "taskId" = OLD."id";
+END;
+
+CREATE TRIGGER "TaskSearch_project_update" AFTER UPDATE OF "name" ON "Project" BEGIN
+  DELETE FROM "TaskSearch" WHERE "taskId" IN (SELECT "id" FROM "Task" WHERE "projectId" = NEW."id");
+  INSERT INTO "TaskSearch" ("taskId", "userId", "title", "description", "project", "labels")
+  SELECT t."id", t."userId", t."title", COALESCE(t."description", ''),
+    COALESCE((SELECT p."name" FROM "Project" p WHERE p."id" = t."projectId"), ''),
+    COALESCE(
+      (SELECT group_concat(l."name", ' ') FROM "Label" l
+        JOIN "_LabelToTask" lt ON lt."A" = l."id" WHERE lt."B" = t."id"),
+      ''
+    )
+  FROM "Task" t WHERE t."id" IN (SELECT "id" FROM "Task" WHERE "projectId" = NEW."id");
+END;
+
+CREATE TRIGGER "TaskSearch_label_update" AFTER UPDATE OF "name" ON "Label" BEGIN
+  DELETE FROM "TaskSearch" WHERE "taskId" IN (SELECT "B" FROM "_LabelToTask" WHERE "A" = NEW."id");
+  INSERT INTO "TaskSearch" ("taskId", "userId", "title", "description", "project", "labels")
+  SELECT t."id", t."userId", t."title", COALESCE(t."description", ''),
+    COALESCE((SELECT p."name" FROM "Project" p WHERE p."id" = t."projectId"), ''),
+    COALESCE(
+      (SELECT group_concat(l."name", ' ') FROM "Label" l
+        JOIN "_LabelToTask" lt ON lt."A" = l."id" WHERE lt."B" = t."id"),
+      ''
+    )
+  FROM "Task" t WHERE t."id" IN (SELECT "B" FROM "_LabelToTask" WHERE "A" = NEW."id");
+END;
+
+CREATE TRIGGER "TaskSearch_labels_insert" AFTER INSERT ON "_LabelToTask" BEGIN
+  DELETE FROM "TaskSearch" WHERE "taskId" IN (NEW."B");
+  INSERT INTO "TaskSearch" ("taskId", "userId", "title", "description", "project", "labels")
+  SELECT t."id", t."userId", t."title", COALESCE(t."description", ''),
+    COALESCE((SELECT p."name" FROM "Project" p WHERE p."id" = t."projectId"), ''),
+    COALESCE(
+      (SELECT group_concat(l."name", ' ') FROM "Label" l
+        JOIN "_LabelToTask" lt ON lt."A" = l."id" WHERE lt."B" = t."id"),
+      ''
+    )
+  FROM "Task" t WHERE t."id" IN (NEW."B");
+END;
+
+CREATE TRIGGER "TaskSearch_labels_delete" AFTER DELETE ON "_LabelToTask" BEGIN
+  DELETE FROM "TaskSearch" WHERE "taskId" IN (OLD."B");
+  INSERT INTO "TaskSearch" ("taskId", "userId", "title", "description", "project", "labels")
+  SELECT t."id", t."userId", t."title", COALESCE(t."description", ''),
+    COALESCE((SELECT p."name" FROM "Project" p WHERE p."id" = t."projectId"), ''),
+    COALESCE(
+      (SELECT group_concat(l."name", ' ') FROM "Label" l
+        JOIN "_LabelToTask" lt ON lt."A" = l."id" WHERE lt."B" = t."id"),
+      ''
+    )
+  FROM "Task" t WHERE t."id" IN (OLD."B");
+END;
+
+INSERT INTO "TaskSearch" ("taskId", "userId", "title", "description", "project", "labels")
+  SELECT t."id", t."userId", t."title", COALESCE(t."description", ''),
+    COALESCE((SELECT p."name" FROM "Project" p WHERE p."id" = t."projectId"), ''),
+    COALESCE(
+      (SELECT group_concat(l."name", ' ') FROM "Label" l
+        JOIN "_LabelToTask" lt ON lt."A" = l."id" WHERE lt."B" = t."id"),
+      ''
+    )
+  FROM "Task" t WHERE 1;
@@ -97,10 +97,11 @@ export const testDataFactory = {
   },
 
   label: {
-    create: async (overrides: Partial<any> = {}) => {
+    create: async (userId: string, overrides: Partial<any> = {}) => {
       return testDb.label.create({
         data: {
           name: `test-label-${Date.now()}`,
+          userId,
           ...overrides,
         },
       });
@@ -115,8 +116,8 @@ export const testDataFactory = {
           userId,
           labels: {
             connectOrCreate: labelNames.map(name => ({
-              where: { name },
-              create: { name },
+              where: { userId_name: { userId, name } },
+              create: { name, userId },
             })),
           },
         },
@@ -229,7 +229,7 @@ describe('Real Todoist API Integration Tests', () => {
 
       // Sync from Todoist
       const syncResult = await caller.syncFromTodoist();
-      expect(syncResult.imported).toBeGreaterThan(0);
+      expect(syncResult.tasks.imported).toBeGreaterThan(0);
 
       // Verify task was imported
       const localTasks = await caller.getAll();
@@ -343,8 +343,8 @@ describe('Real Todoist API Integration Tests', () => {
 
       // Should complete within reasonable time
       expect(duration).toBeLessThan(30000); // 30 seconds
-      expect(typeof syncResult.imported).toBe('number');
-      expect(typeof syncResult.updated).toBe('number');
+      expect(typeof syncResult.tasks.imported).toBe('number');
+      expect(typeof syncResult.tasks.updated).toBe('number');
     });
   });
 
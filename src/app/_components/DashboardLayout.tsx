@@ -1,5 +1,7 @@
 import { Navigation } from "./Navigation";
 import { QuickCapture } from "./gtd/QuickCapture";
+import { UndoShortcuts } from "./UndoShortcuts";
+import { ThemePreference } from "./ThemePreference";
 
 export function DashboardLayout({ children }: { children: React.ReactNode }) {
   return (
@@ -11,6 +13,8 @@ export function DashboardLayout({ children }: { children: React.ReactNode }) {
         </div>
       </main>
       <QuickCapture />
+      <UndoShortcuts />
+      <ThemePreference />
     </div>
   );
 }
\ No newline at end of file
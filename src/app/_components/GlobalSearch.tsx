@@ -0,0 +1,195 @@
+"use client";
+
+import { Fragment, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Search, Folder, Tag, CheckCircle2 } from "lucide-react";
+import type { TaskType } from "@prisma/client";
+
+import { api } from "~/trpc/react";
+import { cn } from "~/lib/utils";
+import { Button } from "~/components/ui/button";
+import { Badge } from "~/components/ui/badge";
+import { Input } from "~/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "~/components/ui/dialog";
+import { splitHighlights } from "~/lib/search-highlight";
+
+const SEARCH_DELAY_MS = 200;
+
+const TASK_TYPE_PAGES: Record<TaskType, string> = {
+  INBOX: "/inbox",
+  ACTION: "/next-actions",
+  PROJECT: "/projects",
+  SOMEDAY: "/someday",
+  WAITING: "/waiting",
+  REFERENCE: "/reference",
+};
+
+function Highlighted({ text }: { text: string }) {
+  return (
+    <>
+      {splitHighlights(text).map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-800">
+            {part}
+          </mark>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        ),
+      )}
+    </>
+  );
+}
+
+// Typing "/" in a field must still type a slash
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+export function GlobalSearch() {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [searchText, setSearchText] = useState("");
+  const [selected, setSelected] = useState(0);
+
+  const { data: results = [], isFetching } = api.task.search.useQuery(
+    { query: searchText, includeCompleted: true },
+    {
+      enabled: open && searchText.trim().length > 0,
+      placeholderData: (previous) => previous,
+    },
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (((e.metaKey || e.ctrlKey) && e.key === "k") || (e.key === "/" && !isEditable(e.target))) {
+        e.preventDefault();
+        setOpen(true);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  // Search once typing pauses instead of on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearchText(query), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  useEffect(() => setSelected(0), [searchText]);
+
+  const openResult = (index: number) => {
+    const result = results[index];
+    if (!result) return;
+    setOpen(false);
+    router.push(TASK_TYPE_PAGES[result.task.taskType]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setSelected((index) => Math.min(index + 1, results.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setSelected((index) => Math.max(index - 1, 0));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      openResult(selected);
+    }
+  };
+
+  const hasQuery = query.trim().length > 0;
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        className="h-9 gap-2 text-muted-foreground"
+      >
+        <Search className="h-4 w-4" />
+        <span className="hidden lg:inline">Search tasks</span>
+        <kbd className="hidden rounded border bg-muted px-1.5 font-mono text-xs lg:inline">⌘K</kbd>
+        <span className="sr-only">Search (Cmd+K)</span>
+      </Button>
+
+      <Dialog
+        open={open}
+        onOpenChange={(isOpen) => {
+          setOpen(isOpen);
+          if (!isOpen) setQuery("");
+        }}
+      >
+        <DialogContent className="sm:max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Search</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder='Search tasks, projects and labels, "quotes" for a phrase'
+            autoFocus
+          />
+
+          {hasQuery && (
+            <div className="max-h-96 space-y-1 overflow-y-auto">
+              {results.length === 0 ? (
+                <p className="py-6 text-center text-sm text-muted-foreground">
+                  {isFetching ? "Searching..." : "No matching tasks"}
+                </p>
+              ) : (
+                results.map(({ task, highlight }, index) => (
+                  <button
+                    key={task.id}
+                    type="button"
+                    onClick={() => openResult(index)}
+                    onMouseEnter={() => setSelected(index)}
+                    className={cn(
+                      "w-full rounded-md px-3 py-2 text-left text-sm",
+                      index === selected && "bg-accent",
+                    )}
+                  >
+                    <div className="flex items-center gap-2">
+                      {task.completed && <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" />}
+                      <span className={cn("font-medium", task.completed && "line-through opacity-70")}>
+                        <Highlighted text={highlight.title} />
+                      </span>
+                    </div>
+                    {highlight.snippet && (
+                      <p className="mt-1 line-clamp-2 text-xs text-muted-foreground">
+                        <Highlighted text={highlight.snippet} />
+                      </p>
+                    )}
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {task.project && (
+                        <Badge variant="outline" className="text-xs">
+                          <Folder className="mr-1 h-3 w-3" />
+                          {task.project.name}
+                        </Badge>
+                      )}
+                      {task.labels.map((label) => (
+                        <Badge key={label.id} variant="outline" className="text-xs">
+                          <Tag className="mr-1 h-3 w-3" />
+                          {label.name}
+                        </Badge>
+                      ))}
+                    </div>
+                  </button>
+                ))
+              )}
+            </div>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            Tip: Press Cmd+K (or Ctrl+K, or /) to search from anywhere. Use ↑ ↓ and Enter to open a
+            result.
+          </p>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { Fragment, useMemo } from "react";
+
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from "~/lib/markdown";
+import { cn } from "~/lib/utils";
+
+function Inline({ nodes }: { nodes: MarkdownInline[] }) {
+  return (
+    <>
+      {nodes.map((node, index) => {
+        switch (node.type) {
+          case "text":
+            return <Fragment key={index}>{node.text}</Fragment>;
+          case "break":
+            return <br key={index} />;
+          case "code":
+            return (
+              <code key={index} className="rounded bg-muted px-1 py-0.5 font-mono text-xs">
+                {node.text}
+              </code>
+            );
+          case "strong":
+            return (
+              <strong key={index}>
+                <Inline nodes={node.children} />
+              </strong>
+            );
+          case "em":
+            return (
+              <em key={index}>
+                <Inline nodes={node.children} />
+              </em>
+            );
+          case "link":
+            return (
+              <a
+                key={index}
+                href={node.href}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-primary underline underline-offset-2"
+              >
+                <Inline nodes={node.children} />
+              </a>
+            );
+        }
+      })}
+    </>
+  );
+}
+
+function Block({ block }: { block: MarkdownBlock }) {
+  switch (block.type) {
+    case "paragraph":
+      return (
+        <p>
+          <Inline nodes={block.children} />
+        </p>
+      );
+    case "heading":
+      return (
+        <p className={block.level === 1 ? "text-base font-semibold" : "font-semibold"}>
+          <Inline nodes={block.children} />
+        </p>
+      );
+    case "quote":
+      return (
+        <blockquote className="border-l-2 pl-3 text-muted-foreground">
+          <Inline nodes={block.children} />
+        </blockquote>
+      );
+    case "list": {
+      const List = block.ordered ? "ol" : "ul";
+      return (
+        <List className={cn("space-y-1 pl-5", block.ordered ? "list-decimal" : "list-disc")}>
+          {block.items.map((item, index) => (
+            <li key={index}>
+              <Inline nodes={item} />
+            </li>
+          ))}
+        </List>
+      );
+    }
+    case "code":
+      return (
+        <pre className="overflow-x-auto rounded bg-muted p-2 font-mono text-xs">{block.text}</pre>
+      );
+  }
+}
+
+// Comment text as Markdown, built from elements rather than HTML
+export function Markdown({ source, className }: { source: string; className?: string }) {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  return (
+    <div className={cn("space-y-2 break-words text-sm", className)}>
+      {blocks.map((block, index) => (
+        <Block key={index} block={block} />
+      ))}
+    </div>
+  );
+}
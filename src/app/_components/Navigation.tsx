@@ -3,8 +3,18 @@
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { cn } from "~/lib/utils";
+import { api } from "~/trpc/react";
 import { Button } from "~/components/ui/button";
 import { Badge } from "~/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "~/components/ui/dropdown-menu";
+import { GlobalSearch } from "./GlobalSearch";
 import { 
   Inbox, 
   CheckSquare, 
@@ -14,22 +24,37 @@ import {
   Archive,
   Calendar,
   Home,
-  Settings
+  Settings,
+  Tag,
+  Filter,
+  Star,
+  Trash2,
+  BookOpen,
+  Target,
+  CalendarClock,
+  Users
 } from "lucide-react";
 
 const navItems = [
   { href: "/", label: "Home", icon: Home },
   { href: "/inbox", label: "Inbox", icon: Inbox },
   { href: "/next-actions", label: "Next Actions", icon: CheckSquare },
+  { href: "/engage", label: "Engage", icon: Target },
   { href: "/projects", label: "Projects", icon: FolderOpen },
   { href: "/someday", label: "Someday/Maybe", icon: Lightbulb },
   { href: "/waiting", label: "Waiting For", icon: Clock },
+  { href: "/people", label: "People", icon: Users },
+  { href: "/tickler", label: "Tickler", icon: CalendarClock },
+  { href: "/reference", label: "Reference", icon: BookOpen },
+  { href: "/labels", label: "Labels", icon: Tag },
   { href: "/archive", label: "Archive", icon: Archive },
   { href: "/review", label: "Weekly Review", icon: Calendar },
+  { href: "/trash", label: "Trash", icon: Trash2 },
 ];
 
 export function Navigation() {
   const pathname = usePathname();
+  const { data: savedFilters } = api.filter.getAll.useQuery();
 
   return (
     <nav className="sticky top-0 z-50 border-b bg-background/80 backdrop-blur-md supports-[backdrop-filter]:bg-background/60">
@@ -74,10 +99,46 @@ export function Navigation() {
                   </Button>
                 );
               })}
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant={pathname === "/filters" ? "secondary" : "ghost"}
+                    size="sm"
+                    className="flex items-center gap-2 px-3"
+                  >
+                    <Filter className={cn("h-4 w-4", pathname === "/filters" && "text-primary")} />
+                    <span className="text-sm font-medium">Filters</span>
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start" className="w-56">
+                  {savedFilters && savedFilters.length > 0 && (
+                    <>
+                      <DropdownMenuLabel>Saved filters</DropdownMenuLabel>
+                      {savedFilters.map((filter) => (
+                        <DropdownMenuItem key={filter.id} asChild>
+                          <Link href={`/filters?id=${filter.id}`} className="flex items-center gap-2">
+                            {filter.isFavorite ? (
+                              <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+                            ) : (
+                              <Filter className="h-4 w-4" />
+                            )}
+                            <span className="truncate">{filter.name}</span>
+                          </Link>
+                        </DropdownMenuItem>
+                      ))}
+                      <DropdownMenuSeparator />
+                    </>
+                  )}
+                  <DropdownMenuItem asChild>
+                    <Link href="/filters">Manage filters</Link>
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
           </div>
           
           <div className="flex items-center gap-3">
+            <GlobalSearch />
             <Button asChild variant="ghost" size="icon" className="h-9 w-9">
               <Link href="/settings">
                 <Settings className="h-5 w-5" />
@@ -0,0 +1,34 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+import { api } from "~/trpc/react";
+import { useTheme } from "~/lib/theme";
+
+/**
+ * Keeps the theme in step with the account: the saved theme is applied when a page loads, and
+ * picking another one (with the theme toggle or in the settings) saves it.
+ */
+export function ThemePreference() {
+  const { theme, setTheme } = useTheme();
+  const loaded = useRef(false);
+
+  const utils = api.useUtils();
+  const { data: settings } = api.settings.get.useQuery();
+  const saved = settings?.preferences.theme;
+  const { mutate: savePreferences } = api.settings.updatePreferences.useMutation({
+    onSuccess: () => void utils.settings.get.invalidate(),
+  });
+
+  useEffect(() => {
+    if (!saved) return;
+    if (!loaded.current) {
+      loaded.current = true;
+      if (theme !== saved) setTheme(saved);
+      return;
+    }
+    if (theme !== saved) savePreferences({ theme });
+  }, [saved, theme, setTheme, savePreferences]);
+
+  return null;
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { useEffect } from "react";
+import { toast } from "sonner";
+
+import { api } from "~/trpc/react";
+
+// Keep the browser's own undo in text fields
+const isEditing = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+export function useUndo() {
+  const utils = api.useUtils();
+
+  // An undone change can touch any list
+  const refresh = () => {
+    void utils.task.invalidate();
+    void utils.project.invalidate();
+    void utils.section.invalidate();
+    void utils.review.invalidate();
+    void utils.trash.invalidate();
+    void utils.undo.invalidate();
+  };
+
+  const undo = api.undo.undo.useMutation({
+    onSuccess: (operation) => {
+      refresh();
+      if (operation) {
+        toast.success(`Undone: ${operation.description}`, {
+          action: { label: "Redo", onClick: () => redo.mutate() },
+        });
+      } else {
+        toast("Nothing to undo");
+      }
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const redo = api.undo.redo.useMutation({
+    onSuccess: (operation) => {
+      refresh();
+      if (operation) {
+        toast.success(`Redone: ${operation.description}`);
+      } else {
+        toast("Nothing to redo");
+      }
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  // Confirm a change with a toast that can take it back
+  const notify = (message: string) =>
+    toast.success(message, {
+      action: { label: "Undo", onClick: () => undo.mutate() },
+    });
+
+  return { undo: () => undo.mutate(), redo: () => redo.mutate(), notify };
+}
+
+export function UndoShortcuts() {
+  const { undo, redo } = useUndo();
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || isEditing(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  return null;
+}
@@ -0,0 +1,265 @@
+"use client";
+
+import { useState } from "react";
+import { Archive, CheckSquare, FolderOpen, RotateCcw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { api } from "~/trpc/react";
+import { useUndo } from "~/app/_components/UndoShortcuts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CLEANUP_AGES = [
+  { days: 30, label: "30 days" },
+  { days: 90, label: "3 months" },
+  { days: 180, label: "6 months" },
+  { days: 365, label: "1 year" },
+];
+
+// Date inputs give local calendar days; the range covers the whole of the last day
+const toRange = (from: string, to: string) => ({
+  from: from ? new Date(`${from}T00:00:00`) : undefined,
+  to: to ? new Date(`${to}T23:59:59.999`) : undefined,
+});
+
+export function ArchiveList() {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [cleanupDays, setCleanupDays] = useState(String(CLEANUP_AGES[2]!.days));
+
+  const { notify } = useUndo();
+  const utils = api.useUtils();
+  const { data: archive, isLoading } = api.archive.getAll.useQuery(toRange(from, to));
+
+  const refresh = () => {
+    void utils.archive.getAll.invalidate();
+    void utils.project.invalidate();
+    void utils.task.invalidate();
+  };
+
+  const unarchiveProject = api.project.unarchiveProject.useMutation({
+    onSuccess: (project) => {
+      refresh();
+      notify(`Restored "${project.name}" from the archive`);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const reopenTask = api.task.update.useMutation({
+    onSuccess: (task) => {
+      refresh();
+      notify(`Reopened "${task.title}"`);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const deleteOlderThan = api.archive.deleteOlderThan.useMutation({
+    onSuccess: (result) => {
+      refresh();
+      void utils.trash.getAll.invalidate();
+      toast.success(
+        `Moved ${result.projects} projects and ${result.tasks} tasks to the trash`,
+      );
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const handleCleanup = () => {
+    const age = CLEANUP_AGES.find((option) => String(option.days) === cleanupDays);
+    if (!age) return;
+    if (confirm(`Move everything archived or completed over ${age.label} ago to the trash?`)) {
+      deleteOlderThan.mutate({ before: new Date(Date.now() - age.days * DAY_MS) });
+    }
+  };
+
+  const filtered = !!from || !!to;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="flex flex-wrap items-end gap-4 py-4">
+          <div>
+            <Label htmlFor="archive-from">From</Label>
+            <Input
+              id="archive-from"
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="archive-to">To</Label>
+            <Input
+              id="archive-to"
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+          {filtered && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setFrom("");
+                setTo("");
+              }}
+            >
+              Clear dates
+            </Button>
+          )}
+
+          <div className="ml-auto flex items-end gap-2">
+            <div>
+              <Label htmlFor="archive-cleanup">Clean up items older than</Label>
+              <Select value={cleanupDays} onValueChange={setCleanupDays}>
+                <SelectTrigger id="archive-cleanup" className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CLEANUP_AGES.map((age) => (
+                    <SelectItem key={age.days} value={String(age.days)}>
+                      {age.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={handleCleanup}
+              disabled={deleteOlderThan.isPending}
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Move to trash
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading && <p className="py-4 text-center text-muted-foreground">Loading...</p>}
+
+      {archive && (
+        <>
+          <section className="space-y-3">
+            <h2 className="flex items-center gap-2 text-lg font-semibold">
+              <Archive className="h-5 w-5" />
+              Archived projects
+              <span className="text-sm font-normal text-muted-foreground">
+                {archive.projects.length}
+              </span>
+            </h2>
+            {archive.projects.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {filtered ? "No projects were archived in this period." : "No archived projects."}
+              </p>
+            ) : (
+              <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                {archive.projects.map((project) => (
+                  <Card key={project.id}>
+                    <CardHeader className="pb-3">
+                      <div className="flex items-start gap-2">
+                        <FolderOpen className="mt-0.5 h-5 w-5 text-muted-foreground" />
+                        <div className="flex-1">
+                          <CardTitle className="text-base">{project.name}</CardTitle>
+                          <CardDescription className="mt-1">
+                            {project.archivedAt
+                              ? `Archived ${project.archivedAt.toLocaleDateString()}`
+                              : "Archived"}{" "}
+                            · {project._count.tasks} tasks
+                          </CardDescription>
+                        </div>
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="flex items-center justify-between gap-2">
+                        {project.archivedFromType && (
+                          <Badge variant="outline" className="text-xs">
+                            Was {project.archivedFromType.toLowerCase()}
+                          </Badge>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="ml-auto"
+                          onClick={() => unarchiveProject.mutate({ id: project.id })}
+                          disabled={unarchiveProject.isPending}
+                        >
+                          <RotateCcw className="mr-2 h-4 w-4" />
+                          Restore
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </section>
+
+          <section className="space-y-3">
+            <h2 className="flex items-center gap-2 text-lg font-semibold">
+              <CheckSquare className="h-5 w-5" />
+              Completed tasks
+              <span className="text-sm font-normal text-muted-foreground">
+                {archive.tasks.length}
+              </span>
+            </h2>
+            {archive.tasks.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {filtered ? "No tasks were completed in this period." : "No completed tasks."}
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {archive.tasks.map((task) => (
+                  <Card key={task.id}>
+                    <CardContent className="flex items-center gap-3 py-3">
+                      <CheckSquare className="h-4 w-4 text-green-500" />
+                      <div className="min-w-0 flex-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="truncate text-muted-foreground line-through">
+                            {task.title}
+                          </span>
+                          {task.project && (
+                            <Badge variant="outline" className="text-xs">
+                              {task.project.name}
+                            </Badge>
+                          )}
+                          {task.labels.map((label) => (
+                            <Badge key={label.id} variant="secondary" className="text-xs">
+                              {label.name}
+                            </Badge>
+                          ))}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Completed {task.updatedAt.toLocaleDateString()}
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => reopenTask.mutate({ id: task.id, completed: false })}
+                        disabled={reopenTask.isPending}
+                      >
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                        Reopen
+                      </Button>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import {
+  BookOpen,
+  Briefcase,
+  Car,
+  Coffee,
+  Computer,
+  Dumbbell,
+  Home,
+  Mail,
+  MapPin,
+  Phone,
+  ShoppingCart,
+  Users,
+  type LucideIcon,
+} from "lucide-react";
+import { isContextIcon, type ContextIcon as ContextIconName } from "~/lib/contexts";
+
+const ICONS: Record<ContextIconName, LucideIcon> = {
+  home: Home,
+  briefcase: Briefcase,
+  phone: Phone,
+  computer: Computer,
+  "shopping-cart": ShoppingCart,
+  car: Car,
+  users: Users,
+  mail: Mail,
+  "book-open": BookOpen,
+  coffee: Coffee,
+  dumbbell: Dumbbell,
+  "map-pin": MapPin,
+};
+
+// A context's icon in its color, a pin when it has none
+export function ContextIcon({
+  context,
+  className = "h-4 w-4",
+}: {
+  context: { icon: string | null; color: string | null };
+  className?: string;
+}) {
+  const Icon = isContextIcon(context.icon) ? ICONS[context.icon] : MapPin;
+  return <Icon className={className} style={{ color: context.color ?? undefined }} />;
+}
@@ -0,0 +1,236 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "~/trpc/react";
+import { useUndo } from "~/app/_components/UndoShortcuts";
+import type { EnergyLevel } from "@prisma/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Label } from "~/components/ui/label";
+import { Calendar, Check, ChevronLeft, Clock, RotateCcw, SkipForward } from "lucide-react";
+import { cn } from "~/lib/utils";
+import { contextLabel } from "~/lib/contexts";
+import { ContextIcon } from "./ContextIcon";
+
+const ENERGY_LEVELS = [
+  { value: "HIGH", label: "High Energy", icon: "🔥" },
+  { value: "MEDIUM", label: "Medium Energy", icon: "⚡" },
+  { value: "LOW", label: "Low Energy", icon: "🌱" },
+];
+
+const AVAILABLE_TIMES = [
+  { value: "5", label: "5 minutes" },
+  { value: "15", label: "15 minutes" },
+  { value: "30", label: "30 minutes" },
+  { value: "60", label: "1 hour" },
+  { value: "120", label: "2 hours" },
+];
+
+export function EngageMode() {
+  const [contextId, setContextId] = useState("");
+  const [energyLevel, setEnergyLevel] = useState<EnergyLevel | "">("");
+  const [availableMinutes, setAvailableMinutes] = useState("");
+  const [index, setIndex] = useState(0);
+
+  const { notify } = useUndo();
+  const { data: contexts } = api.context.getAll.useQuery();
+  const { data: recommendations, refetch, isLoading } = api.task.recommendNextAction.useQuery({
+    contextId: contextId || undefined,
+    energyLevel: energyLevel || undefined,
+    availableMinutes: availableMinutes ? parseInt(availableMinutes) : undefined,
+    timezoneOffset: new Date().getTimezoneOffset(),
+    limit: 20,
+  });
+
+  const updateTask = api.task.update.useMutation({
+    onSuccess: (task) => {
+      // The completed task drops out, the next one takes its place
+      void refetch();
+      notify(`Completed "${task.title}"`);
+    },
+  });
+
+  // A new situation starts over with the best fit
+  const changeSituation = <T,>(set: (value: T) => void) => (value: T) => {
+    set(value);
+    setIndex(0);
+  };
+
+  const current = recommendations?.[index];
+
+  return (
+    <div className="mx-auto max-w-2xl space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Where are you, and what do you have?</CardTitle>
+          <CardDescription>
+            Actions are suggested one at a time, best fit first
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+            <div>
+              <Label htmlFor="engage-context">Context</Label>
+              <Select value={contextId} onValueChange={changeSituation(setContextId)}>
+                <SelectTrigger id="engage-context">
+                  <SelectValue placeholder="Anywhere" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="">Anywhere</SelectItem>
+                  {contexts?.map((ctx) => (
+                    <SelectItem key={ctx.id} value={ctx.id}>
+                      <div className="flex items-center gap-2">
+                        <ContextIcon context={ctx} />
+                        {contextLabel(ctx.name)}
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="engage-energy">Energy</Label>
+              <Select
+                value={energyLevel}
+                onValueChange={changeSituation((v: string) => setEnergyLevel(v as EnergyLevel | ""))}
+              >
+                <SelectTrigger id="engage-energy">
+                  <SelectValue placeholder="Not sure" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="">Not sure</SelectItem>
+                  {ENERGY_LEVELS.map((level) => (
+                    <SelectItem key={level.value} value={level.value}>
+                      {level.icon} {level.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="engage-time">Time available</Label>
+              <Select value={availableMinutes} onValueChange={changeSituation(setAvailableMinutes)}>
+                <SelectTrigger id="engage-time">
+                  <SelectValue placeholder="No limit" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="">No limit</SelectItem>
+                  {AVAILABLE_TIMES.map((time) => (
+                    <SelectItem key={time.value} value={time.value}>
+                      {time.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? null : !current ? (
+        <Card>
+          <CardContent className="space-y-4 py-8 text-center">
+            <p className="text-muted-foreground">
+              {recommendations?.length
+                ? "That was every suggestion for now."
+                : "Nothing fits right now. Try another context or more time."}
+            </p>
+            {!!recommendations?.length && (
+              <Button variant="outline" onClick={() => setIndex(0)}>
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Start over
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardDescription>
+              Suggestion {index + 1} of {recommendations.length}
+            </CardDescription>
+            <CardTitle className="text-2xl">{current.task.title}</CardTitle>
+            {current.task.description && (
+              <p className="text-muted-foreground">{current.task.description}</p>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex flex-wrap gap-2">
+              {current.task.context && (
+                <Badge variant="outline">
+                  <ContextIcon context={current.task.context} className="mr-1 h-3 w-3" />
+                  {current.task.context.name}
+                </Badge>
+              )}
+              {current.task.timeEstimate && (
+                <Badge variant="outline">
+                  <Clock className="mr-1 h-3 w-3" />
+                  {current.task.timeEstimate}m
+                </Badge>
+              )}
+              {current.task.dueDate && (
+                <Badge variant="outline">
+                  <Calendar className="mr-1 h-3 w-3" />
+                  {new Date(current.task.dueDate).toLocaleDateString()}
+                </Badge>
+              )}
+              {current.task.project && <Badge variant="secondary">{current.task.project.name}</Badge>}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Why this one · score {current.score}</p>
+              {current.reasons.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing stands out, it is simply next</p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {current.reasons.map((reason) => (
+                    <li key={reason.factor} className="flex justify-between gap-4">
+                      <span>{reason.explanation}</span>
+                      <span
+                        className={cn(
+                          "font-mono",
+                          reason.points > 0 ? "text-green-600" : "text-red-600",
+                        )}
+                      >
+                        {reason.points > 0 ? "+" : ""}
+                        {reason.points}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="flex justify-between gap-2">
+              <Button
+                variant="ghost"
+                onClick={() => setIndex(index - 1)}
+                disabled={index === 0}
+              >
+                <ChevronLeft className="mr-1 h-4 w-4" />
+                Previous
+              </Button>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setIndex(index + 1)}>
+                  <SkipForward className="mr-1 h-4 w-4" />
+                  Skip
+                </Button>
+                <Button
+                  onClick={() => updateTask.mutate({ id: current.task.id, completed: true })}
+                  disabled={updateTask.isPending}
+                >
+                  <Check className="mr-1 h-4 w-4" />
+                  Done
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
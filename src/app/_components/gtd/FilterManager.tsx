@@ -0,0 +1,289 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Filter, Star, Trash2, Plus, AlertTriangle, Calendar } from "lucide-react";
+import { toast } from "sonner";
+
+import { api } from "~/trpc/react";
+import { cn } from "~/lib/utils";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+
+const PREVIEW_DELAY_MS = 300;
+
+const SYNTAX = [
+  ["@phone", "Context"],
+  ["#Project, /Section, +label", "Project, section or label by name"],
+  ["p1 - p4", "Priority"],
+  ["today, tomorrow, overdue, no date", "Due date"],
+  ["due: +2d, due before: +3d, due after: 2024-06-20", "Due date, relative or exact"],
+  ["energy: low, time under: 30m", "Energy level and time estimate"],
+  ["type: waiting, next action, recurring", "GTD type and state"],
+  ["search: invoice", "Title or description contains"],
+  ["&  |  !  ( )", "And, or, not, grouping"],
+];
+
+export function FilterManager({ initialFilterId }: { initialFilterId?: string }) {
+  const router = useRouter();
+  const [selectedId, setSelectedId] = useState<string | null>(initialFilterId ?? null);
+  const [name, setName] = useState("");
+  const [query, setQuery] = useState("");
+  const [previewQuery, setPreviewQuery] = useState("");
+
+  const utils = api.useUtils();
+  const { data: filters } = api.filter.getAll.useQuery();
+  const selectedFilter = filters?.find((filter) => filter.id === selectedId);
+
+  const { data: tasks, error: previewError } = api.filter.preview.useQuery(
+    { query: previewQuery },
+    {
+      enabled: previewQuery.trim().length > 0,
+      placeholderData: (previous) => previous,
+      retry: false,
+    },
+  );
+
+  const refresh = () => {
+    void utils.filter.getAll.invalidate();
+    void utils.filter.getTasks.invalidate();
+  };
+
+  const createFilter = api.filter.create.useMutation({
+    onSuccess: (filter) => {
+      refresh();
+      setSelectedId(filter.id);
+      toast.success("Filter saved");
+    },
+    onError: (error) => {
+      if (!error.data?.zodError) toast.error(error.message);
+    },
+  });
+
+  const updateFilter = api.filter.update.useMutation({
+    onSuccess: () => refresh(),
+    onError: (error) => {
+      if (!error.data?.zodError) toast.error(error.message);
+    },
+  });
+
+  const deleteFilter = api.filter.delete.useMutation({
+    onSuccess: (filter) => {
+      if (filter.id === selectedId) setSelectedId(null);
+      refresh();
+      toast.success("Filter deleted");
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  // Load the picked filter into the editor
+  useEffect(() => {
+    setName(selectedFilter?.name ?? "");
+    setQuery(selectedFilter?.query ?? "");
+    setPreviewQuery(selectedFilter?.query ?? "");
+  }, [selectedFilter?.id, selectedFilter?.name, selectedFilter?.query]);
+
+  // Preview once typing pauses instead of on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setPreviewQuery(query), PREVIEW_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const saveError = createFilter.error ?? updateFilter.error;
+  const queryError =
+    saveError?.data?.zodError?.fieldErrors.query?.[0] ??
+    (query.trim() ? previewError?.data?.zodError?.fieldErrors.query?.[0] : undefined);
+  const nameError = saveError?.data?.zodError?.fieldErrors.name?.[0];
+
+  const handleSelect = (id: string | null) => {
+    setSelectedId(id);
+    createFilter.reset();
+    updateFilter.reset();
+    router.replace(id ? `/filters?id=${id}` : "/filters");
+  };
+
+  const handleSave = () => {
+    if (selectedFilter) {
+      updateFilter.mutate({ id: selectedFilter.id, name, query });
+    } else {
+      createFilter.mutate({ name, query });
+    }
+  };
+
+  const handleDelete = (id: string, filterName: string) => {
+    if (confirm(`Delete the filter "${filterName}"?`)) {
+      deleteFilter.mutate({ id });
+    }
+  };
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[320px_1fr]">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Filter className="h-5 w-5" />
+            Saved Filters
+          </CardTitle>
+          <CardDescription>Favorites are listed in the navigation</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <Button variant="outline" className="w-full" onClick={() => handleSelect(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Filter
+          </Button>
+
+          {filters?.length === 0 && (
+            <p className="py-4 text-center text-sm text-muted-foreground">No saved filters yet.</p>
+          )}
+
+          <div className="space-y-1">
+            {filters?.map((filter) => (
+              <div
+                key={filter.id}
+                className={cn(
+                  "group flex items-center gap-2 rounded-md px-2 py-1.5 hover:bg-muted/50",
+                  selectedId === filter.id && "bg-muted",
+                )}
+              >
+                <button className="min-w-0 flex-1 text-left" onClick={() => handleSelect(filter.id)}>
+                  <p className="truncate text-sm">{filter.name}</p>
+                  <p className="truncate font-mono text-xs text-muted-foreground">{filter.query}</p>
+                </button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  title={filter.isFavorite ? "Remove from favorites" : "Add to favorites"}
+                  onClick={() => updateFilter.mutate({ id: filter.id, isFavorite: !filter.isFavorite })}
+                >
+                  <Star className={cn("h-4 w-4", filter.isFavorite && "fill-yellow-400 text-yellow-400")} />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7 opacity-0 group-hover:opacity-100"
+                  title="Delete"
+                  onClick={() => handleDelete(filter.id, filter.name)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>{selectedFilter ? selectedFilter.name : "New Filter"}</CardTitle>
+            <CardDescription>Combine terms with & (and), | (or) and ! (not)</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-[200px_1fr]">
+              <div className="space-y-1">
+                <Label htmlFor="filter-name">Name</Label>
+                <Input
+                  id="filter-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Urgent calls"
+                />
+                {nameError && <p className="text-xs text-destructive">{nameError}</p>}
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="filter-query">Query</Label>
+                <Input
+                  id="filter-query"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleSave()}
+                  placeholder="@phone & p1 & due before: +3d & !#Someday"
+                  className={cn("font-mono", queryError && "border-destructive")}
+                />
+                {queryError && (
+                  <p className="flex items-center gap-1 text-xs text-destructive">
+                    <AlertTriangle className="h-3 w-3" />
+                    {queryError}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                onClick={handleSave}
+                disabled={!name.trim() || !query.trim() || createFilter.isPending || updateFilter.isPending}
+              >
+                {selectedFilter ? "Save Changes" : "Save Filter"}
+              </Button>
+            </div>
+
+            <details className="text-sm">
+              <summary className="cursor-pointer text-muted-foreground">Filter syntax</summary>
+              <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+                {SYNTAX.map(([example, meaning]) => (
+                  <div key={example} className="contents">
+                    <dt className="font-mono text-xs">{example}</dt>
+                    <dd className="text-xs text-muted-foreground">{meaning}</dd>
+                  </div>
+                ))}
+              </dl>
+            </details>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Matching Tasks</CardTitle>
+            <CardDescription>
+              {previewQuery.trim() && tasks
+                ? `${tasks.length} open tasks match`
+                : "Write a query to see the tasks it matches"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {previewQuery.trim() && tasks?.length === 0 && (
+              <p className="py-8 text-center text-muted-foreground">No tasks match this filter.</p>
+            )}
+            <div className="space-y-2">
+              {previewQuery.trim() &&
+                tasks?.map((task) => (
+                  <div key={task.id} className="flex flex-wrap items-center gap-2 rounded-lg border p-3">
+                    <span className="flex-1">{task.title}</span>
+                    <Badge variant="secondary" className="text-xs">
+                      P{task.priority}
+                    </Badge>
+                    {task.dueDate && (
+                      <Badge variant="outline" className="text-xs">
+                        <Calendar className="mr-1 h-3 w-3" />
+                        {task.dueDate.toLocaleDateString(undefined, { timeZone: "UTC" })}
+                      </Badge>
+                    )}
+                    {task.context && (
+                      <Badge variant="outline" className="text-xs">
+                        {task.context.name}
+                      </Badge>
+                    )}
+                    {task.project && (
+                      <Badge variant="outline" className="text-xs">
+                        {task.project.name}
+                      </Badge>
+                    )}
+                    {task.labels.map((label) => (
+                      <Badge key={label.id} variant="secondary" className="text-xs">
+                        {label.name}
+                      </Badge>
+                    ))}
+                  </div>
+                ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { api } from "~/trpc/react";
+import { useUndo } from "~/app/_components/UndoShortcuts";
 import { TaskType, EnergyLevel } from "@prisma/client";
 import { Button } from "~/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
@@ -10,15 +11,9 @@ import { Input } from "~/components/ui/input";
 import { Label } from "~/components/ui/label";
 import { Badge } from "~/components/ui/badge";
 import { Textarea } from "~/components/ui/textarea";
-import { Clock, Zap, Phone, Home, Briefcase, Computer, ShoppingCart, Inbox, CheckSquare, Archive } from "lucide-react";
-
-const CONTEXTS = [
-  { value: "@home", label: "Home", icon: Home },
-  { value: "@office", label: "Office", icon: Briefcase },
-  { value: "@phone", label: "Phone", icon: Phone },
-  { value: "@computer", label: "Computer", icon: Computer },
-  { value: "@errands", label: "Errands", icon: ShoppingCart },
-];
+import { Clock, Zap, Inbox, CheckSquare, Archive, BookOpen, CalendarClock, User } from "lucide-react";
+import { contextLabel } from "~/lib/contexts";
+import { ContextIcon } from "./ContextIcon";
 
 const ENERGY_LEVELS = [
   { value: "HIGH", label: "High Energy", color: "text-red-500" },
@@ -31,16 +26,31 @@ export function InboxProcessor() {
   const [processingNotes, setProcessingNotes] = useState("");
   const [showActionableOptions, setShowActionableOptions] = useState(false);
   const [showNonActionableOptions, setShowNonActionableOptions] = useState(false);
-  const [context, setContext] = useState<string>("");
+  const [contextId, setContextId] = useState("");
+  const [personId, setPersonId] = useState("");
   const [energyLevel, setEnergyLevel] = useState<EnergyLevel | "">("");
   const [timeEstimate, setTimeEstimate] = useState("");
   const [waitingFor, setWaitingFor] = useState("");
   const [isNextAction, setIsNextAction] = useState(false);
+  const [resourceId, setResourceId] = useState("");
+  const [startDate, setStartDate] = useState("");
   
+  const { notify } = useUndo();
   const { data: inboxTasks, refetch } = api.task.getInbox.useQuery();
+  const { data: settings } = api.settings.get.useQuery();
+  const { data: contexts } = api.context.getAll.useQuery();
+  const { data: people } = api.person.getAll.useQuery(undefined, {
+    enabled: showActionableOptions,
+  });
+  const preferences = settings?.preferences;
+  const { data: resources } = api.project.getByType.useQuery(
+    { projectType: "RESOURCE" },
+    { enabled: showNonActionableOptions },
+  );
   const processTask = api.task.processInboxItem.useMutation({
-    onSuccess: () => {
+    onSuccess: (task) => {
       void refetch();
+      notify(`Processed "${task.title}"`);
       resetForm();
       if (inboxTasks && currentIndex >= inboxTasks.length - 1) {
         setCurrentIndex(0);
@@ -48,9 +58,18 @@ export function InboxProcessor() {
     },
   });
 
+  const deferTask = api.task.update.useMutation({
+    onSuccess: (task) => {
+      void refetch();
+      notify(`Deferred "${task.title}" to ${task.startDate?.toLocaleDateString()}`);
+      resetForm();
+    },
+  });
+
   const deleteTask = api.task.delete.useMutation({
-    onSuccess: () => {
+    onSuccess: (task) => {
       void refetch();
+      notify(`Moved "${task.title}" to the trash`);
       resetForm();
     },
   });
@@ -61,11 +80,14 @@ export function InboxProcessor() {
     setProcessingNotes("");
     setShowActionableOptions(false);
     setShowNonActionableOptions(false);
-    setContext("");
+    setContextId("");
+    setPersonId("");
     setEnergyLevel("");
     setTimeEstimate("");
     setWaitingFor("");
     setIsNextAction(false);
+    setResourceId("");
+    setStartDate("");
   };
 
   if (!inboxTasks || inboxTasks.length === 0) {
@@ -86,10 +108,17 @@ export function InboxProcessor() {
 
   if (!currentTask) return null;
 
+  const handleShowActionableOptions = () => {
+    setEnergyLevel((current) => current || (preferences?.defaultEnergyLevel ?? ""));
+    setTimeEstimate((current) => current || (preferences?.defaultTimeEstimate?.toString() ?? ""));
+    setShowActionableOptions(true);
+  };
+
   const handleProcess = (
     taskType: TaskType,
     options?: {
-      context?: string;
+      contextId?: string;
+      personId?: string;
       energyLevel?: EnergyLevel;
       timeEstimate?: number;
       isNextAction?: boolean;
@@ -105,6 +134,11 @@ export function InboxProcessor() {
     });
   };
 
+  // Out of the inbox until midnight of the chosen day, then back to be processed again
+  const handleDefer = () => {
+    deferTask.mutate({ id: currentTask.id, startDate: new Date(`${startDate}T00:00`) });
+  };
+
   const handleDelete = () => {
     if (confirm("Are you sure you want to delete this task?")) {
       deleteTask.mutate({ id: currentTask.id });
@@ -203,7 +237,7 @@ export function InboxProcessor() {
               <Button
                 size="lg"
                 variant="default"
-                onClick={() => setShowActionableOptions(true)}
+                onClick={handleShowActionableOptions}
                 className="h-32 flex-col gap-3 text-base"
               >
                 <CheckSquare className="h-8 w-8" />
@@ -238,16 +272,16 @@ export function InboxProcessor() {
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <Label htmlFor="context">Context</Label>
-                <Select value={context} onValueChange={setContext}>
+                <Select value={contextId} onValueChange={setContextId}>
                   <SelectTrigger id="context">
                     <SelectValue placeholder="Select context" />
                   </SelectTrigger>
                   <SelectContent>
-                    {CONTEXTS.map((ctx) => (
-                      <SelectItem key={ctx.value} value={ctx.value}>
+                    {contexts?.map((ctx) => (
+                      <SelectItem key={ctx.id} value={ctx.id}>
                         <div className="flex items-center gap-2">
-                          <ctx.icon className="h-4 w-4" />
-                          {ctx.label}
+                          <ContextIcon context={ctx} />
+                          {contextLabel(ctx.name)}
                         </div>
                       </SelectItem>
                     ))}
@@ -285,6 +319,26 @@ export function InboxProcessor() {
                 />
               </div>
 
+              <div>
+                <Label htmlFor="person">Agenda for</Label>
+                <Select value={personId} onValueChange={setPersonId}>
+                  <SelectTrigger id="person">
+                    <SelectValue placeholder="Nobody" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="">Nobody</SelectItem>
+                    {people?.map((person) => (
+                      <SelectItem key={person.id} value={person.id}>
+                        <div className="flex items-center gap-2">
+                          <User className="h-4 w-4" />
+                          {person.name}
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="flex items-center space-x-2">
                 <input
                   type="checkbox"
@@ -303,12 +357,13 @@ export function InboxProcessor() {
               <Button
                 variant="default"
                 onClick={() => handleProcess("ACTION", {
-                  context,
+                  contextId,
+                  personId: personId || undefined,
                   energyLevel: energyLevel as EnergyLevel || undefined,
                   timeEstimate: timeEstimate ? parseInt(timeEstimate) : undefined,
                   isNextAction,
                 })}
-                disabled={!context}
+                disabled={!contextId}
               >
                 Process as Single Action
               </Button>
@@ -316,7 +371,7 @@ export function InboxProcessor() {
               <Button
                 variant="outline"
                 onClick={() => handleProcess("PROJECT", {
-                  context,
+                  contextId: contextId || undefined,
                   energyLevel: energyLevel as EnergyLevel || undefined,
                   isNextAction: true, // Projects always need a next action
                 })}
@@ -327,8 +382,10 @@ export function InboxProcessor() {
               <Button
                 variant="outline"
                 onClick={() => {
-                  const who = prompt("Who are you waiting for?");
+                  const selected = people?.find((person) => person.id === personId);
+                  const who = prompt("Who are you waiting for?", selected?.name);
                   if (who) {
+                    // The person is created when they are new
                     handleProcess("WAITING", { waitingFor: who });
                   }
                 }}
@@ -346,11 +403,30 @@ export function InboxProcessor() {
             <CardTitle>Process as Non-Actionable</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
+            <div>
+              <Label htmlFor="resource">File reference in</Label>
+              <Select value={resourceId} onValueChange={setResourceId}>
+                <SelectTrigger id="resource">
+                  <SelectValue placeholder="No resource (keep unfiled)" />
+                </SelectTrigger>
+                <SelectContent>
+                  {resources?.map((resource) => (
+                    <SelectItem key={resource.id} value={resource.id}>
+                      <div className="flex items-center gap-2">
+                        <BookOpen className="h-4 w-4" />
+                        {resource.name}
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="grid grid-cols-3 gap-4">
               <Button
                 size="lg"
                 variant="outline"
-                onClick={() => handleProcess("REFERENCE")}
+                onClick={() => handleProcess("REFERENCE", resourceId ? { projectId: resourceId } : undefined)}
                 className="h-24"
               >
                 Reference Material
@@ -372,6 +448,23 @@ export function InboxProcessor() {
                 Delete/Trash
               </Button>
             </div>
+
+            <div className="flex items-end gap-4">
+              <div className="flex-1">
+                <Label htmlFor="start-date">Not now, bring it back on</Label>
+                <Input
+                  id="start-date"
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  className="mt-2"
+                />
+              </div>
+              <Button variant="outline" onClick={handleDefer} disabled={!startDate}>
+                <CalendarClock className="mr-2 h-4 w-4" />
+                Tickler
+              </Button>
+            </div>
           </CardContent>
         </Card>
       )}
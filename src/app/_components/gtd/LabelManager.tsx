@@ -0,0 +1,256 @@
+"use client";
+
+import { useState } from "react";
+import { Tag, Star, Pencil, Trash2, Merge, Plus, Check } from "lucide-react";
+import { toast } from "sonner";
+
+import { api } from "~/trpc/react";
+import { cn } from "~/lib/utils";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
+
+export function LabelManager() {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newLabelName, setNewLabelName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+
+  const utils = api.useUtils();
+  const { data: labels } = api.label.getAll.useQuery();
+  const { data: tasks } = api.label.getTasks.useQuery(
+    { id: selectedId ?? "" },
+    { enabled: !!selectedId },
+  );
+  const selectedLabel = labels?.find((label) => label.id === selectedId);
+
+  const refresh = () => {
+    void utils.label.getAll.invalidate();
+    void utils.label.getTasks.invalidate();
+    void utils.task.getAll.invalidate();
+  };
+
+  const createLabel = api.label.create.useMutation({
+    onSuccess: () => {
+      refresh();
+      setNewLabelName("");
+      toast.success("Label created");
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const updateLabel = api.label.update.useMutation({
+    onSuccess: () => {
+      refresh();
+      setEditingId(null);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const deleteLabel = api.label.delete.useMutation({
+    onSuccess: (label) => {
+      if (label.id === selectedId) setSelectedId(null);
+      refresh();
+      toast.success("Label deleted");
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const mergeLabels = api.label.merge.useMutation({
+    onSuccess: (result) => {
+      setSelectedId(null);
+      refresh();
+      toast.success(`Merged into label, ${result.tasks} tasks updated`);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const handleCreate = () => {
+    if (!newLabelName.trim()) return;
+    createLabel.mutate({ name: newLabelName.trim() });
+  };
+
+  const handleRename = (id: string) => {
+    if (!editName.trim()) return;
+    updateLabel.mutate({ id, name: editName.trim() });
+  };
+
+  const handleDelete = (id: string, name: string) => {
+    if (confirm(`Delete the label "${name}"? It will be removed from all its tasks.`)) {
+      deleteLabel.mutate({ id });
+    }
+  };
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[320px_1fr]">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Tag className="h-5 w-5" />
+            Labels
+          </CardTitle>
+          <CardDescription>Pick a label to see its tasks</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex gap-2">
+            <Input
+              value={newLabelName}
+              onChange={(e) => setNewLabelName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+              placeholder="New label"
+            />
+            <Button size="icon" onClick={handleCreate} disabled={createLabel.isPending}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {labels?.length === 0 && (
+            <p className="py-4 text-center text-sm text-muted-foreground">No labels yet.</p>
+          )}
+
+          <div className="space-y-1">
+            {labels?.map((label) => (
+              <div
+                key={label.id}
+                className={cn(
+                  "group flex items-center gap-2 rounded-md px-2 py-1.5 hover:bg-muted/50",
+                  selectedId === label.id && "bg-muted",
+                )}
+              >
+                <div
+                  className="h-3 w-3 shrink-0 rounded-full"
+                  style={{ backgroundColor: label.color ?? "#6366f1" }}
+                />
+                {editingId === label.id ? (
+                  <>
+                    <Input
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") handleRename(label.id);
+                        if (e.key === "Escape") setEditingId(null);
+                      }}
+                      className="h-7"
+                      autoFocus
+                    />
+                    <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => handleRename(label.id)}>
+                      <Check className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      className="flex-1 truncate text-left text-sm"
+                      onClick={() => setSelectedId(label.id)}
+                    >
+                      {label.name}
+                    </button>
+                    <Badge variant="secondary" className="text-xs">
+                      {label._count.tasks}
+                    </Badge>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      title={label.isFavorite ? "Remove from favorites" : "Add to favorites"}
+                      onClick={() => updateLabel.mutate({ id: label.id, isFavorite: !label.isFavorite })}
+                    >
+                      <Star className={cn("h-4 w-4", label.isFavorite && "fill-yellow-400 text-yellow-400")} />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7 opacity-0 group-hover:opacity-100"
+                      title="Rename"
+                      onClick={() => {
+                        setEditingId(label.id);
+                        setEditName(label.name);
+                      }}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7 opacity-0 group-hover:opacity-100"
+                      title="Delete"
+                      onClick={() => handleDelete(label.id, label.name)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>{selectedLabel ? selectedLabel.name : "Tasks"}</CardTitle>
+              <CardDescription>
+                {selectedLabel
+                  ? `${tasks?.length ?? 0} tasks with this label`
+                  : "Select a label to filter tasks"}
+              </CardDescription>
+            </div>
+            {selectedLabel && labels && labels.length > 1 && (
+              <Select
+                value=""
+                onValueChange={(targetId) =>
+                  mergeLabels.mutate({ sourceIds: [selectedLabel.id], targetId })
+                }
+                disabled={mergeLabels.isPending}
+              >
+                <SelectTrigger className="w-48">
+                  <Merge className="h-4 w-4" />
+                  <SelectValue placeholder="Merge into..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {labels
+                    .filter((label) => label.id !== selectedLabel.id)
+                    .map((label) => (
+                      <SelectItem key={label.id} value={label.id}>
+                        {label.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {selectedLabel && tasks?.length === 0 && (
+            <p className="py-8 text-center text-muted-foreground">No tasks with this label.</p>
+          )}
+          <div className="space-y-2">
+            {tasks?.map((task) => (
+              <div key={task.id} className="flex items-center gap-3 rounded-lg border p-3">
+                <span className={cn("flex-1", task.completed && "text-muted-foreground line-through")}>
+                  {task.title}
+                </span>
+                {task.project && (
+                  <Badge variant="outline" className="text-xs">
+                    {task.project.name}
+                  </Badge>
+                )}
+                {task.labels
+                  .filter((label) => label.id !== selectedId)
+                  .map((label) => (
+                    <Badge key={label.id} variant="secondary" className="text-xs">
+                      {label.name}
+                    </Badge>
+                  ))}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { api } from "~/trpc/react";
+import { useUndo } from "~/app/_components/UndoShortcuts";
 import { EnergyLevel } from "@prisma/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
@@ -9,15 +10,9 @@ import { Badge } from "~/components/ui/badge";
 import { Button } from "~/components/ui/button";
 import { Checkbox } from "~/components/ui/checkbox";
 import { Label } from "~/components/ui/label";
-import { Clock, Zap, Phone, Home, Briefcase, Computer, ShoppingCart, Calendar } from "lucide-react";
-
-const CONTEXTS = [
-  { value: "@home", label: "Home", icon: Home },
-  { value: "@office", label: "Office", icon: Briefcase },
-  { value: "@phone", label: "Phone", icon: Phone },
-  { value: "@computer", label: "Computer", icon: Computer },
-  { value: "@errands", label: "Errands", icon: ShoppingCart },
-];
+import { Clock, Zap, Calendar, MapPin } from "lucide-react";
+import { contextLabel, isContextAvailable } from "~/lib/contexts";
+import { ContextIcon } from "./ContextIcon";
 
 const ENERGY_LEVELS = [
   { value: "HIGH", label: "High Energy", color: "text-red-500", icon: "🔥" },
@@ -26,32 +21,43 @@ const ENERGY_LEVELS = [
 ];
 
 export function NextActionsList() {
-  const [selectedContext, setSelectedContext] = useState<string>("");
+  const [selectedContextId, setSelectedContextId] = useState<string>("");
   const [selectedEnergy, setSelectedEnergy] = useState<EnergyLevel | "">("");
   const [maxTime, setMaxTime] = useState<string>("");
+  const [availableNow, setAvailableNow] = useState(false);
 
+  const { notify } = useUndo();
+  const { data: contexts } = api.context.getAll.useQuery();
   const { data: nextActions, refetch } = api.task.getNextActions.useQuery({
-    context: selectedContext || undefined,
+    contextId: selectedContextId || undefined,
     energyLevel: selectedEnergy as EnergyLevel || undefined,
     maxTime: maxTime ? parseInt(maxTime) : undefined,
   });
 
   const updateTask = api.task.update.useMutation({
-    onSuccess: () => void refetch(),
+    onSuccess: (task) => {
+      void refetch();
+      notify(`Completed "${task.title}"`);
+    },
   });
 
   const handleComplete = (taskId: string) => {
     updateTask.mutate({ id: taskId, completed: true });
   };
 
-  const groupedActions = nextActions?.reduce((acc, task) => {
-    const context = task.context || "No Context";
+  // Actions without a context can be done anywhere, at any time
+  const visibleActions = availableNow
+    ? nextActions?.filter((task) => !task.context || isContextAvailable(task.context, new Date()))
+    : nextActions;
+
+  const groupedActions = visibleActions?.reduce((acc, task) => {
+    const context = task.context?.name ?? "No Context";
     if (!acc[context]) {
-      acc[context] = [];
+      acc[context] = { context: task.context, tasks: [] };
     }
-    acc[context].push(task);
+    acc[context].tasks.push(task);
     return acc;
-  }, {} as Record<string, NonNullable<typeof nextActions>>);
+  }, {} as Record<string, { context: NonNullable<typeof nextActions>[number]["context"]; tasks: NonNullable<typeof nextActions> }>);
 
   return (
     <div className="space-y-6">
@@ -66,17 +72,17 @@ export function NextActionsList() {
           <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
             <div>
               <Label htmlFor="context-filter">Context</Label>
-              <Select value={selectedContext} onValueChange={setSelectedContext}>
+              <Select value={selectedContextId} onValueChange={setSelectedContextId}>
                 <SelectTrigger id="context-filter">
                   <SelectValue placeholder="All contexts" />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="">All contexts</SelectItem>
-                  {CONTEXTS.map((ctx) => (
-                    <SelectItem key={ctx.value} value={ctx.value}>
+                  {contexts?.map((ctx) => (
+                    <SelectItem key={ctx.id} value={ctx.id}>
                       <div className="flex items-center gap-2">
-                        <ctx.icon className="h-4 w-4" />
-                        {ctx.label}
+                        <ContextIcon context={ctx} />
+                        {contextLabel(ctx.name)}
                       </div>
                     </SelectItem>
                   ))}
@@ -120,10 +126,20 @@ export function NextActionsList() {
               </Select>
             </div>
           </div>
+          <div className="mt-4 flex items-center gap-2">
+            <Checkbox
+              id="available-now"
+              checked={availableNow}
+              onCheckedChange={(checked) => setAvailableNow(checked === true)}
+            />
+            <Label htmlFor="available-now" className="cursor-pointer">
+              Only contexts available now
+            </Label>
+          </div>
         </CardContent>
       </Card>
 
-      {!nextActions || nextActions.length === 0 ? (
+      {!visibleActions || visibleActions.length === 0 ? (
         <Card>
           <CardContent className="py-8 text-center">
             <p className="text-muted-foreground">
@@ -133,19 +149,20 @@ export function NextActionsList() {
         </Card>
       ) : (
         <div className="space-y-4">
-          {Object.entries(groupedActions || {}).map(([context, tasks]) => (
-            <Card key={context}>
+          {Object.entries(groupedActions || {}).map(([name, { context, tasks }]) => (
+            <Card key={name}>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
-                  {CONTEXTS.find(c => c.value === context)?.icon && (
-                    <>{(() => {
-                      const Icon = CONTEXTS.find(c => c.value === context)!.icon;
-                      return <Icon className="h-5 w-5" />;
-                    })()}</>
-                  )}
-                  {context}
+                  {context && <ContextIcon context={context} className="h-5 w-5" />}
+                  {name}
                   <Badge variant="secondary">{tasks.length}</Badge>
                 </CardTitle>
+                {context?.location && (
+                  <CardDescription className="flex items-center gap-1">
+                    <MapPin className="h-3 w-3" />
+                    {context.location}
+                  </CardDescription>
+                )}
               </CardHeader>
               <CardContent>
                 <div className="space-y-3">
@@ -0,0 +1,333 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "~/trpc/react";
+import { useUndo } from "~/app/_components/UndoShortcuts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Textarea } from "~/components/ui/textarea";
+import { BellRing, Check, Clock, Mail, Pencil, Plus, Send, Trash2, X } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { cn } from "~/lib/utils";
+
+interface Draft {
+  name: string;
+  email: string;
+  notes: string;
+}
+
+export function PeopleList() {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const { notify } = useUndo();
+  const utils = api.useUtils();
+  const { data: people } = api.person.getAll.useQuery();
+  const personId = selectedId ?? people?.[0]?.id;
+  const { data: agenda } = api.person.getAgenda.useQuery(
+    { id: personId! },
+    { enabled: !!personId },
+  );
+
+  const refresh = () => {
+    void utils.person.getAll.invalidate();
+    void utils.person.getAgenda.invalidate();
+    void utils.task.getWaitingFor.invalidate();
+  };
+
+  const createPerson = api.person.create.useMutation({
+    onSuccess: (person) => {
+      refresh();
+      setNewName("");
+      setSelectedId(person.id);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const updatePerson = api.person.update.useMutation({
+    onSuccess: () => {
+      refresh();
+      setDraft(null);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const deletePerson = api.person.delete.useMutation({
+    onSuccess: (person) => {
+      refresh();
+      setSelectedId(null);
+      toast.success(`Deleted ${person.name}`);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const updateTask = api.task.update.useMutation({
+    onSuccess: (task) => {
+      refresh();
+      notify(`Completed "${task.title}"`);
+    },
+  });
+
+  const nudge = api.task.nudge.useMutation({
+    onSuccess: (task) => {
+      refresh();
+      toast.success(`Followed up on "${task.title}"`);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  if (!people) return null;
+
+  const handleSave = () => {
+    if (!agenda || !draft) return;
+    updatePerson.mutate({
+      id: agenda.person.id,
+      name: draft.name,
+      email: draft.email.trim() || null,
+      notes: draft.notes.trim() || null,
+    });
+  };
+
+  const handleDelete = () => {
+    if (agenda && confirm(`Delete ${agenda.person.name}? Their tasks are kept.`)) {
+      deletePerson.mutate({ id: agenda.person.id });
+    }
+  };
+
+  const now = new Date();
+
+  return (
+    <div className="grid gap-6 md:grid-cols-[280px_1fr]">
+      <Card>
+        <CardHeader>
+          <CardTitle>People</CardTitle>
+          <CardDescription>Who you delegate to and meet with</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-1">
+            {people.map((person) => (
+              <button
+                key={person.id}
+                type="button"
+                onClick={() => {
+                  setSelectedId(person.id);
+                  setDraft(null);
+                }}
+                className={cn(
+                  "flex w-full items-center justify-between rounded-md px-3 py-2 text-left text-sm hover:bg-muted",
+                  person.id === personId && "bg-muted font-medium",
+                )}
+              >
+                {person.name}
+                <Badge variant="secondary">{person._count.tasks}</Badge>
+              </button>
+            ))}
+            {people.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No people yet. Waiting for someone in the inbox adds them too.
+              </p>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && newName.trim() && createPerson.mutate({ name: newName })}
+              placeholder="Name"
+              aria-label="New person"
+            />
+            <Button
+              variant="outline"
+              size="icon"
+              aria-label="Add person"
+              onClick={() => createPerson.mutate({ name: newName })}
+              disabled={!newName.trim() || createPerson.isPending}
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {agenda && (
+        <div className="space-y-4">
+          <Card>
+            <CardHeader>
+              {draft ? (
+                <div className="space-y-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="person-name">Name</Label>
+                    <Input
+                      id="person-name"
+                      value={draft.name}
+                      onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="person-email">Email</Label>
+                    <Input
+                      id="person-email"
+                      type="email"
+                      value={draft.email}
+                      onChange={(e) => setDraft({ ...draft, email: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="person-notes">Notes</Label>
+                    <Textarea
+                      id="person-notes"
+                      value={draft.notes}
+                      onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                      rows={3}
+                    />
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+                      <X className="mr-1 h-4 w-4" />
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={handleSave}
+                      disabled={!draft.name.trim() || updatePerson.isPending}
+                    >
+                      <Check className="mr-1 h-4 w-4" />
+                      Save
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <CardTitle>{agenda.person.name}</CardTitle>
+                    {agenda.person.email && (
+                      <a
+                        href={`mailto:${agenda.person.email}`}
+                        className="flex items-center gap-1 text-sm text-muted-foreground hover:underline"
+                      >
+                        <Mail className="h-3 w-3" />
+                        {agenda.person.email}
+                      </a>
+                    )}
+                    {agenda.person.notes && (
+                      <p className="whitespace-pre-wrap text-sm text-muted-foreground">
+                        {agenda.person.notes}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Edit ${agenda.person.name}`}
+                      onClick={() =>
+                        setDraft({
+                          name: agenda.person.name,
+                          email: agenda.person.email ?? "",
+                          notes: agenda.person.notes ?? "",
+                        })
+                      }
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Delete ${agenda.person.name}`}
+                      onClick={handleDelete}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardHeader>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Waiting on {agenda.person.name}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {agenda.waiting.length === 0 && (
+                <p className="text-sm text-muted-foreground">Nothing delegated</p>
+              )}
+              {agenda.waiting.map((task) => (
+                <div key={task.id} className="flex items-center gap-3 rounded-lg border p-3">
+                  <div className="flex-1 space-y-1">
+                    <p className="font-medium">{task.title}</p>
+                    <div className="flex flex-wrap gap-2">
+                      <Badge variant="outline" className="text-xs">
+                        <Clock className="mr-1 h-3 w-3" />
+                        {formatDistanceToNow(task.delegatedAt ?? task.createdAt)}
+                      </Badge>
+                      {task.followUpAt && (
+                        <Badge
+                          variant={task.followUpAt <= now ? "destructive" : "outline"}
+                          className="text-xs"
+                        >
+                          <BellRing className="mr-1 h-3 w-3" />
+                          Follow up {task.followUpAt.toLocaleDateString()}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => nudge.mutate({ id: task.id })}
+                    disabled={nudge.isPending}
+                  >
+                    <Send className="mr-1 h-3 w-3" />
+                    Nudge
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">To raise with {agenda.person.name}</CardTitle>
+              <CardDescription>Next actions processed with them as the person</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {agenda.actions.length === 0 && (
+                <p className="text-sm text-muted-foreground">Nothing on the agenda</p>
+              )}
+              {agenda.actions.map((task) => (
+                <div key={task.id} className="flex items-start gap-3 rounded-lg border p-3">
+                  <Checkbox
+                    checked={task.completed}
+                    onCheckedChange={() => updateTask.mutate({ id: task.id, completed: true })}
+                  />
+                  <div className="flex-1 space-y-1">
+                    <p className="font-medium">{task.title}</p>
+                    <div className="flex flex-wrap gap-2">
+                      {task.context && (
+                        <Badge variant="outline" className="text-xs">
+                          {task.context.name}
+                        </Badge>
+                      )}
+                      {task.project && (
+                        <Badge variant="secondary" className="text-xs">
+                          {task.project.name}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import { Fragment } from "react";
+import { Ban, CheckCircle2, Link2, Star, X } from "lucide-react";
+import { toast } from "sonner";
+
+import { api } from "~/trpc/react";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
+
+interface ProjectDependenciesProps {
+  projectId: string;
+  projectName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ProjectDependencies({
+  projectId,
+  projectName,
+  open,
+  onOpenChange,
+}: ProjectDependenciesProps) {
+  const utils = api.useUtils();
+  const { data: tasks, isLoading } = api.dependency.getByProject.useQuery(
+    { projectId },
+    { enabled: open },
+  );
+
+  const refresh = () => {
+    void utils.dependency.getByProject.invalidate({ projectId });
+    void utils.task.getNextActions.invalidate();
+  };
+
+  const addDependency = api.dependency.add.useMutation({
+    onSuccess: refresh,
+    onError: (error) => toast.error(error.message),
+  });
+
+  const removeDependency = api.dependency.remove.useMutation({
+    onSuccess: refresh,
+    onError: (error) => toast.error(error.message),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[80vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Dependencies in {projectName}</DialogTitle>
+          <DialogDescription>
+            Open tasks in the order they can start. Blocked tasks stay out of your next actions.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && <p className="py-4 text-center text-muted-foreground">Loading...</p>}
+        {tasks?.length === 0 && (
+          <p className="py-4 text-center text-muted-foreground">This project has no open tasks.</p>
+        )}
+
+        <div className="space-y-2">
+          {tasks?.map((task, index) => (
+            <Fragment key={task.id}>
+              {task.stage !== tasks[index - 1]?.stage && (
+                <p className="pt-2 text-xs font-medium uppercase text-muted-foreground">
+                  Step {task.stage + 1}
+                  {task.stage === 0 && " · can start now"}
+                </p>
+              )}
+              <div className="space-y-2 rounded-lg border p-3">
+                <div className="flex items-center gap-2">
+                  {task.blocked ? (
+                    <Ban className="h-4 w-4 text-orange-500" />
+                  ) : (
+                    <CheckCircle2 className="h-4 w-4 text-green-500" />
+                  )}
+                  <span className="flex-1 font-medium">{task.title}</span>
+                  {task.isNextAction && !task.blocked && (
+                    <Badge variant="secondary" className="text-xs">
+                      <Star className="mr-1 h-3 w-3" />
+                      Next action
+                    </Badge>
+                  )}
+                  {task.blocked && (
+                    <Badge variant="outline" className="text-xs">
+                      Blocked
+                    </Badge>
+                  )}
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2 pl-6">
+                  {task.blockedBy.map((blocker) => (
+                    <Badge
+                      key={blocker.id}
+                      variant="outline"
+                      className={`text-xs ${blocker.completed ? "line-through opacity-60" : ""}`}
+                    >
+                      <Link2 className="mr-1 h-3 w-3" />
+                      {blocker.title}
+                      <button
+                        className="ml-1"
+                        title="Remove dependency"
+                        onClick={() =>
+                          removeDependency.mutate({
+                            blockingTaskId: blocker.id,
+                            blockedTaskId: task.id,
+                          })
+                        }
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                  <Select
+                    value=""
+                    onValueChange={(blockingTaskId) =>
+                      addDependency.mutate({ blockingTaskId, blockedTaskId: task.id })
+                    }
+                  >
+                    <SelectTrigger className="h-7 w-44 text-xs">
+                      <SelectValue placeholder="Waits for..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {tasks
+                        .filter(
+                          (other) =>
+                            other.id !== task.id &&
+                            !task.blockedBy.some((blocker) => blocker.id === other.id),
+                        )
+                        .map((other) => (
+                          <SelectItem key={other.id} value={other.id}>
+                            {other.title}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </Fragment>
+          ))}
+        </div>
+
+        {tasks && tasks.length > 0 && (
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Done
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,6 +8,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "~/components/ui/tabs";
 import { Badge } from "~/components/ui/badge";
 import { Button } from "~/components/ui/button";
 import { Progress } from "~/components/ui/progress";
+import { ProjectDependencies } from "./ProjectDependencies";
 import { 
   FolderOpen, 
   Target, 
@@ -17,7 +18,10 @@ import {
   MoreVertical,
   CheckCircle2,
   Clock,
-  AlertCircle
+  AlertCircle,
+  GitBranch,
+  RotateCcw,
+  CalendarClock
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -55,6 +59,9 @@ const PROJECT_TYPE_CONFIG = {
 
 export function ProjectsList() {
   const [selectedType, setSelectedType] = useState<ProjectType>("PROJECT");
+  const [dependencyProject, setDependencyProject] = useState<{ id: string; name: string } | null>(
+    null,
+  );
   
   const { data: projects, refetch } = api.project.getByType.useQuery({
     projectType: selectedType,
@@ -65,10 +72,26 @@ export function ProjectsList() {
     onSuccess: () => void refetch(),
   });
 
+  const unarchiveProject = api.project.unarchiveProject.useMutation({
+    onSuccess: () => void refetch(),
+  });
+
   const convertType = api.project.convertProjectType.useMutation({
     onSuccess: () => void refetch(),
   });
 
+  const deferProject = api.project.update.useMutation({
+    onSuccess: () => void refetch(),
+  });
+
+  // Its tasks leave the next actions until midnight of that day
+  const handleDefer = (id: string) => {
+    const day = prompt("Defer until (YYYY-MM-DD)");
+    if (day && /^\d{4}-\d{2}-\d{2}$/.test(day)) {
+      deferProject.mutate({ id, startDate: new Date(`${day}T00:00`) });
+    }
+  };
+
   const getProjectProgress = (project: any) => {
     if (!project._count?.tasks || project._count.tasks === 0) return 0;
     const completedTasks = project.tasks?.filter((t: any) => t.completed).length || 0;
@@ -143,8 +166,18 @@ export function ProjectsList() {
                             </Button>
                           </DropdownMenuTrigger>
                           <DropdownMenuContent align="end">
+                            <DropdownMenuItem
+                              onClick={() => setDependencyProject({ id: project.id, name: project.name })}
+                            >
+                              <GitBranch className="mr-2 h-4 w-4" />
+                              Dependencies
+                            </DropdownMenuItem>
                             {selectedType !== "ARCHIVE" && (
                               <>
+                                <DropdownMenuItem onClick={() => handleDefer(project.id)}>
+                                  <CalendarClock className="mr-2 h-4 w-4" />
+                                  Defer
+                                </DropdownMenuItem>
                                 <DropdownMenuItem
                                   onClick={() => archiveProject.mutate({ id: project.id })}
                                 >
@@ -175,6 +208,14 @@ export function ProjectsList() {
                                 )}
                               </>
                             )}
+                            {selectedType === "ARCHIVE" && (
+                              <DropdownMenuItem
+                                onClick={() => unarchiveProject.mutate({ id: project.id })}
+                              >
+                                <RotateCcw className="mr-2 h-4 w-4" />
+                                Unarchive
+                              </DropdownMenuItem>
+                            )}
                           </DropdownMenuContent>
                         </DropdownMenu>
                       </div>
@@ -201,6 +242,13 @@ export function ProjectsList() {
                           </div>
                         )}
 
+                        {project.startDate && project.startDate > new Date() && (
+                          <Badge variant="outline" className="text-xs">
+                            <CalendarClock className="mr-1 h-3 w-3" />
+                            Starts {project.startDate.toLocaleDateString()}
+                          </Badge>
+                        )}
+
                         {project.reviewInterval && (
                           <Badge variant="outline" className="text-xs">
                             Review: {project.reviewInterval.toLowerCase()}
@@ -215,6 +263,15 @@ export function ProjectsList() {
           </TabsContent>
         ))}
       </Tabs>
+
+      {dependencyProject && (
+        <ProjectDependencies
+          projectId={dependencyProject.id}
+          projectName={dependencyProject.name}
+          open
+          onOpenChange={(open) => !open && setDependencyProject(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -4,22 +4,44 @@ import { useState, useEffect } from "react";
 import { api } from "~/trpc/react";
 import { Button } from "~/components/ui/button";
 import { Input } from "~/components/ui/input";
+import { Badge } from "~/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "~/components/ui/dialog";
-import { Plus } from "lucide-react";
+import { Plus, Folder, Calendar, Clock, Tag, Zap, AlertTriangle } from "lucide-react";
 import { toast } from "sonner";
 
+const PREVIEW_DELAY_MS = 250;
+
+// Dates without a time are stored at midnight UTC and must not shift a day in the user's timezone
+const formatDueDate = (date: Date) =>
+  date.getUTCHours() === 0 && date.getUTCMinutes() === 0
+    ? date.toLocaleDateString(undefined, { dateStyle: "medium", timeZone: "UTC" })
+    : date.toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
 export function QuickCapture() {
   const [open, setOpen] = useState(false);
   const [title, setTitle] = useState("");
-  
-  const createTask = api.task.create.useMutation({
+  const [previewText, setPreviewText] = useState("");
+
+  const utils = api.useUtils();
+  const timezoneOffset = new Date().getTimezoneOffset();
+
+  const { data: preview } = api.task.parseQuickCapture.useQuery(
+    { text: previewText, timezoneOffset },
+    {
+      enabled: open && previewText.trim().length > 0,
+      placeholderData: (previous) => previous,
+    },
+  );
+
+  const createTask = api.task.quickCapture.useMutation({
     onSuccess: () => {
+      void utils.task.invalidate();
       toast.success("Task added to inbox");
       setTitle("");
       setOpen(false);
     },
-    onError: () => {
-      toast.error("Failed to create task");
+    onError: (error) => {
+      toast.error(`Failed to create task: ${error.message}`);
     },
   });
 
@@ -35,13 +57,21 @@ export function QuickCapture() {
     return () => window.removeEventListener("keydown", handleKeyDown);
   }, []);
 
+  // Parse once typing pauses instead of on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setPreviewText(title), PREVIEW_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [title]);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (title.trim()) {
-      createTask.mutate({ title: title.trim() });
+      createTask.mutate({ text: title.trim(), timezoneOffset });
     }
   };
 
+  const showPreview = !!preview && title.trim().length > 0;
+
   return (
     <>
       <Button
@@ -66,6 +96,65 @@ export function QuickCapture() {
               autoFocus
               disabled={createTask.isPending}
             />
+            {showPreview && (
+              <div className="space-y-2 rounded-md border bg-muted/50 p-3 text-sm">
+                <p className="font-medium">{preview.title || "No title yet"}</p>
+                <div className="flex flex-wrap gap-2">
+                  {preview.project && (
+                    <Badge variant="outline" className="text-xs">
+                      <Folder className="mr-1 h-3 w-3" />
+                      {preview.project.name}
+                      {preview.section && ` / ${preview.section.name}`}
+                    </Badge>
+                  )}
+                  {!preview.project && preview.section && (
+                    <Badge variant="outline" className="text-xs">
+                      📂 {preview.section.name}
+                    </Badge>
+                  )}
+                  {preview.dueDate && (
+                    <Badge variant="outline" className="text-xs">
+                      <Calendar className="mr-1 h-3 w-3" />
+                      {formatDueDate(preview.dueDate)}
+                    </Badge>
+                  )}
+                  {preview.context && (
+                    <Badge variant="outline" className="text-xs">
+                      {preview.context}
+                    </Badge>
+                  )}
+                  {preview.labels.length > 0 && (
+                    <Badge variant="outline" className="text-xs">
+                      <Tag className="mr-1 h-3 w-3" />
+                      {preview.labels.join(", ")}
+                    </Badge>
+                  )}
+                  {preview.priority && (
+                    <Badge variant="secondary" className="text-xs">
+                      P{preview.priority}
+                    </Badge>
+                  )}
+                  {!!preview.timeEstimate && (
+                    <Badge variant="outline" className="text-xs">
+                      <Clock className="mr-1 h-3 w-3" />
+                      {preview.timeEstimate}m
+                    </Badge>
+                  )}
+                  {preview.energyLevel && (
+                    <Badge variant="outline" className="text-xs capitalize">
+                      <Zap className="mr-1 h-3 w-3" />
+                      {preview.energyLevel.toLowerCase()} energy
+                    </Badge>
+                  )}
+                </div>
+                {preview.unmatched.length > 0 && (
+                  <p className="flex items-center gap-1 text-xs text-yellow-600">
+                    <AlertTriangle className="h-3 w-3" />
+                    Not found, ignored: {preview.unmatched.join(", ")}
+                  </p>
+                )}
+              </div>
+            )}
             <div className="flex justify-end gap-2">
               <Button
                 type="button"
@@ -84,10 +173,12 @@ export function QuickCapture() {
             </div>
           </form>
           <p className="text-xs text-muted-foreground">
-            Tip: Press Cmd+N (or Ctrl+N) to quickly capture a task
+            Tip: Press Cmd+N (or Ctrl+N) to quickly capture a task. Add #Project, /Section,
+            @context, +label, p1-p4, ~30m, !high and dates like &quot;tomorrow 3pm&quot; or
+            &quot;next friday&quot;.
           </p>
         </DialogContent>
       </Dialog>
     </>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { api, type RouterOutputs } from "~/trpc/react";
+import { useUndo } from "~/app/_components/UndoShortcuts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { BookOpen, FileText, Inbox, Search, Trash2 } from "lucide-react";
+
+type ReferenceItem = RouterOutputs["task"]["getReference"]["items"][number];
+
+const SEARCH_DELAY_MS = 200;
+
+export function ReferenceList() {
+  const { notify } = useUndo();
+  const [query, setQuery] = useState("");
+  const [search, setSearch] = useState("");
+  const [labelId, setLabelId] = useState<string | null>(null);
+
+  // Search once typing pauses instead of on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(query.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const { data, refetch } = api.task.getReference.useQuery(
+    { search: search || undefined, labelId: labelId ?? undefined },
+    { placeholderData: (previous) => previous },
+  );
+
+  const updateTask = api.task.update.useMutation({
+    onSuccess: (task) => {
+      void refetch();
+      notify(`Moved "${task.title}" back to the inbox`);
+    },
+  });
+
+  const deleteTask = api.task.delete.useMutation({
+    onSuccess: (task) => {
+      void refetch();
+      notify(`Moved "${task.title}" to the trash`);
+    },
+  });
+
+  const handleDelete = (taskId: string) => {
+    if (confirm("Are you sure you want to delete this item?")) {
+      deleteTask.mutate({ id: taskId });
+    }
+  };
+
+  const filtering = !!search || !!labelId;
+  const items = data?.items ?? [];
+  const resources = data?.resources ?? [];
+  const inResource = (item: ReferenceItem) => item.project?.projectType === "RESOURCE";
+  const unfiled = items.filter((item) => !inResource(item));
+
+  // Empty resources only get in the way of search results
+  const groups = resources
+    .map((resource) => ({
+      resource,
+      items: items.filter((item) => item.projectId === resource.id),
+    }))
+    .filter((group) => !filtering || group.items.length > 0);
+
+  const renderItem = (item: ReferenceItem) => (
+    <Card key={item.id}>
+      <CardHeader className="pb-3">
+        <div className="flex items-start gap-2">
+          <FileText className="mt-0.5 h-5 w-5 text-blue-500" />
+          <div className="flex-1">
+            <CardTitle className="text-base">{item.title}</CardTitle>
+            {item.description && (
+              <CardDescription className="mt-1 line-clamp-3">{item.description}</CardDescription>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {item.labels.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {item.labels.map((label) => (
+                <Badge key={label.id} variant="secondary" className="text-xs">
+                  {label.name}
+                </Badge>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => updateTask.mutate({ id: item.id, taskType: "INBOX" })}
+              className="flex-1"
+            >
+              <Inbox className="mr-2 h-4 w-4" />
+              Back to Inbox
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => handleDelete(item.id)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div className="relative max-w-md">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search reference material..."
+            className="pl-9"
+          />
+        </div>
+        {!!data?.labels.length && (
+          <div className="flex flex-wrap gap-2">
+            <Badge
+              variant={labelId ? "outline" : "default"}
+              className="cursor-pointer"
+              onClick={() => setLabelId(null)}
+            >
+              All
+            </Badge>
+            {data.labels.map((label) => (
+              <Badge
+                key={label.id}
+                variant={labelId === label.id ? "default" : "outline"}
+                className="cursor-pointer gap-1"
+                onClick={() => setLabelId(labelId === label.id ? null : label.id)}
+              >
+                <span
+                  className="h-2 w-2 rounded-full"
+                  style={{ backgroundColor: label.color ?? "#6366f1" }}
+                />
+                {label.name}
+                <span className="opacity-70">{label._count.tasks}</span>
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {items.length === 0 && groups.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center">
+            <p className="text-muted-foreground">
+              {filtering ? "No reference material matches." : "No reference material yet."}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {groups.map(({ resource, items: resourceItems }) => (
+            <section key={resource.id} className="space-y-3">
+              <h2 className="flex items-center gap-2 text-lg font-semibold">
+                <BookOpen className="h-5 w-5" style={{ color: resource.color ?? undefined }} />
+                {resource.name}
+                <span className="text-sm font-normal text-muted-foreground">
+                  {resourceItems.length}
+                </span>
+              </h2>
+              {resourceItems.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing filed here yet.</p>
+              ) : (
+                <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                  {resourceItems.map(renderItem)}
+                </div>
+              )}
+            </section>
+          ))}
+          {unfiled.length > 0 && (
+            <section className="space-y-3">
+              <h2 className="flex items-center gap-2 text-lg font-semibold">
+                <FileText className="h-5 w-5" />
+                Unfiled
+                <span className="text-sm font-normal text-muted-foreground">{unfiled.length}</span>
+              </h2>
+              <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                {unfiled.map(renderItem)}
+              </div>
+            </section>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,20 +1,28 @@
 "use client";
 
 import { api } from "~/trpc/react";
+import { useUndo } from "~/app/_components/UndoShortcuts";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
 import { Badge } from "~/components/ui/badge";
 import { Button } from "~/components/ui/button";
 import { Lightbulb, ArrowRight, Trash2 } from "lucide-react";
 
 export function SomedayMaybeList() {
+  const { notify } = useUndo();
   const { data: somedayTasks, refetch } = api.task.getSomedayMaybe.useQuery();
   
   const updateTask = api.task.update.useMutation({
-    onSuccess: () => void refetch(),
+    onSuccess: (task) => {
+      void refetch();
+      notify(`Moved "${task.title}" back to the inbox`);
+    },
   });
 
   const deleteTask = api.task.delete.useMutation({
-    onSuccess: () => void refetch(),
+    onSuccess: (task) => {
+      void refetch();
+      notify(`Moved "${task.title}" to the trash`);
+    },
   });
 
   const handleActivate = (taskId: string) => {
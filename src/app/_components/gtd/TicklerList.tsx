@@ -0,0 +1,155 @@
+"use client";
+
+import { api } from "~/trpc/react";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { CalendarClock, FolderOpen, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+
+// Start dates picked in the app are midnight in the user's time zone
+const toStartDate = (value: string) => new Date(`${value}T00:00`);
+
+const toInputValue = (date: Date) =>
+  [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+    .map((part) => String(part).padStart(2, "0"))
+    .join("-");
+
+function dayTitle(day: Date) {
+  const today = new Date();
+  const tomorrow = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
+  if (day.toDateString() === today.toDateString()) return "Later today";
+  if (day.toDateString() === tomorrow.toDateString()) return "Tomorrow";
+  return day.toLocaleDateString(undefined, { weekday: "long", month: "long", day: "numeric" });
+}
+
+export function TicklerList() {
+  const utils = api.useUtils();
+  const { data: tickler, refetch } = api.task.getTickler.useQuery();
+
+  const refresh = () => {
+    void refetch();
+    void utils.task.getInbox.invalidate();
+    void utils.task.getNextActions.invalidate();
+  };
+
+  const updateTask = api.task.update.useMutation({
+    onSuccess: refresh,
+    onError: (error) => toast.error(error.message),
+  });
+
+  const updateProject = api.project.update.useMutation({
+    onSuccess: refresh,
+    onError: (error) => toast.error(error.message),
+  });
+
+  if (!tickler) return null;
+
+  const items = [
+    ...tickler.tasks.map((task) => ({ kind: "task" as const, id: task.id, startDate: task.startDate!, task })),
+    ...tickler.projects.map((project) => ({
+      kind: "project" as const,
+      id: project.id,
+      startDate: project.startDate!,
+      project,
+    })),
+  ].sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+
+  if (items.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center">
+          <p className="text-muted-foreground">
+            Nothing is deferred. Defer an inbox item or a project to see it here until its day.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const days = items.reduce(
+    (acc, item) => {
+      const key = item.startDate.toDateString();
+      (acc[key] ??= []).push(item);
+      return acc;
+    },
+    {} as Record<string, typeof items>,
+  );
+
+  // Moving the start date to now brings the item back on the next read
+  const reschedule = (item: (typeof items)[number], startDate: Date) => {
+    if (item.kind === "task") {
+      updateTask.mutate({ id: item.id, startDate });
+    } else {
+      updateProject.mutate({ id: item.id, startDate });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {Object.entries(days).map(([key, dayItems]) => (
+        <Card key={key}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              {dayTitle(dayItems[0]!.startDate)}
+              <Badge variant="secondary">{dayItems.length}</Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {dayItems.map((item) => (
+                <div key={item.id} className="flex items-center gap-3 rounded-lg border p-3">
+                  <div className="min-w-0 flex-1 space-y-1">
+                    {item.kind === "task" ? (
+                      <>
+                        <p className="font-medium">{item.task.title}</p>
+                        <div className="flex flex-wrap gap-2">
+                          <Badge variant="outline" className="text-xs">
+                            {item.task.taskType.toLowerCase()}
+                          </Badge>
+                          {item.task.project && (
+                            <Badge variant="secondary" className="text-xs">
+                              {item.task.project.name}
+                            </Badge>
+                          )}
+                          {item.task.context && (
+                            <Badge variant="outline" className="text-xs">
+                              {item.task.context.name}
+                            </Badge>
+                          )}
+                        </div>
+                      </>
+                    ) : (
+                      <>
+                        <p className="flex items-center gap-2 font-medium">
+                          <FolderOpen className="h-4 w-4" />
+                          {item.project.name}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Project, {item.project._count.tasks} open tasks
+                        </p>
+                      </>
+                    )}
+                  </div>
+                  <Input
+                    type="date"
+                    aria-label="Start date"
+                    value={toInputValue(item.startDate)}
+                    onChange={(e) => e.target.value && reschedule(item, toStartDate(e.target.value))}
+                    className="w-40"
+                  />
+                  <Button variant="outline" size="sm" onClick={() => reschedule(item, new Date())}>
+                    <Undo2 className="mr-1 h-4 w-4" />
+                    Bring back now
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CheckSquare, FolderOpen, LayoutList, RotateCcw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { api } from "~/trpc/react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+
+const typeIcons = {
+  TASK: CheckSquare,
+  SECTION: LayoutList,
+  PROJECT: FolderOpen,
+};
+
+const typeLabels = {
+  TASK: "Task",
+  SECTION: "Section",
+  PROJECT: "Project",
+};
+
+export function TrashList() {
+  const [retentionDays, setRetentionDays] = useState("");
+
+  const utils = api.useUtils();
+  const { data: trash, isLoading } = api.trash.getAll.useQuery();
+
+  useEffect(() => {
+    if (trash) setRetentionDays(String(trash.retentionDays));
+  }, [trash]);
+
+  // Restored and purged items show up in (or leave) every list
+  const refresh = () => {
+    void utils.trash.getAll.invalidate();
+    void utils.task.invalidate();
+    void utils.project.invalidate();
+    void utils.section.invalidate();
+  };
+
+  const restoreItem = api.trash.restore.useMutation({
+    onSuccess: () => {
+      refresh();
+      toast.success("Item restored");
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const purgeItem = api.trash.purge.useMutation({
+    onSuccess: () => {
+      refresh();
+      toast.success("Item deleted forever");
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const emptyTrash = api.trash.empty.useMutation({
+    onSuccess: (result) => {
+      refresh();
+      toast.success(`${result.purged} items deleted forever`);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const updateRetention = api.trash.updateRetention.useMutation({
+    onSuccess: () => {
+      void utils.trash.getAll.invalidate();
+      toast.success("Retention period saved");
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const handleSaveRetention = () => {
+    const days = Number(retentionDays);
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      toast.error("Keep items between 1 and 365 days");
+      return;
+    }
+    updateRetention.mutate({ days });
+  };
+
+  const handlePurge = (type: "TASK" | "SECTION" | "PROJECT", id: string, name: string) => {
+    if (confirm(`Delete "${name}" forever? This cannot be undone.`)) {
+      purgeItem.mutate({ type, id });
+    }
+  };
+
+  const handleEmpty = () => {
+    if (confirm("Delete everything in the trash forever? This cannot be undone.")) {
+      emptyTrash.mutate();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Retention</CardTitle>
+          <CardDescription>
+            Items are deleted forever, in Todoist as well, once they have been in the trash this
+            long.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={1}
+              max={365}
+              value={retentionDays}
+              onChange={(e) => setRetentionDays(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSaveRetention()}
+              className="w-24"
+            />
+            <span className="text-sm text-muted-foreground">days</span>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleSaveRetention}
+              disabled={updateRetention.isPending}
+            >
+              Save
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading && <p className="py-4 text-center text-muted-foreground">Loading...</p>}
+
+      {trash?.items.length === 0 && (
+        <Card>
+          <CardContent className="py-8 text-center">
+            <p className="text-muted-foreground">The trash is empty.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {trash && trash.items.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              variant="destructive"
+              onClick={handleEmpty}
+              disabled={emptyTrash.isPending}
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Empty trash
+            </Button>
+          </div>
+
+          {trash.items.map((item) => {
+            const Icon = typeIcons[item.type];
+            return (
+              <Card key={`${item.type}-${item.id}`}>
+                <CardContent className="flex items-center gap-3 py-4">
+                  <Icon className="h-5 w-5 text-muted-foreground" />
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{item.name}</span>
+                      <Badge variant="secondary" className="text-xs">
+                        {typeLabels[item.type]}
+                      </Badge>
+                      {item.project && (
+                        <Badge variant="outline" className="text-xs">
+                          {item.project}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Deleted {item.deletedAt.toLocaleDateString()} · deleted forever on{" "}
+                      {item.purgeAt.toLocaleDateString()}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => restoreItem.mutate({ type: item.type, id: item.id })}
+                    disabled={restoreItem.isPending}
+                  >
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    Restore
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handlePurge(item.type, item.id, item.name)}
+                    disabled={purgeItem.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
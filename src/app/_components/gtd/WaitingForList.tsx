@@ -1,17 +1,49 @@
 "use client";
 
 import { api } from "~/trpc/react";
+import { useUndo } from "~/app/_components/UndoShortcuts";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
 import { Badge } from "~/components/ui/badge";
 import { Button } from "~/components/ui/button";
-import { Clock, User, Calendar } from "lucide-react";
+import { Input } from "~/components/ui/input";
+import { Clock, User, Calendar, BellRing, Send } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+
+// Follow-up dates picked in the app are midnight in the user's time zone
+const toInputValue = (date: Date | null) =>
+  date
+    ? [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+        .map((part) => String(part).padStart(2, "0"))
+        .join("-")
+    : "";
 
 export function WaitingForList() {
+  const { notify } = useUndo();
   const { data: waitingTasks, refetch } = api.task.getWaitingFor.useQuery();
+
+  // Logs the follow-up in the task's activity and asks again in a few days
+  const nudge = api.task.nudge.useMutation({
+    onSuccess: (task) => {
+      void refetch();
+      toast.success(
+        `Followed up with ${task.person?.name ?? task.waitingFor ?? "them"}, next on ${task.followUpAt?.toLocaleDateString()}`,
+      );
+    },
+    onError: (error) => toast.error(error.message),
+  });
   
   const updateTask = api.task.update.useMutation({
-    onSuccess: () => void refetch(),
+    onSuccess: (task, variables) => {
+      void refetch();
+      notify(
+        variables.completed
+          ? `Completed "${task.title}"`
+          : variables.followUpAt !== undefined
+            ? `Changed when to follow up on "${task.title}"`
+            : `Moved "${task.title}" to next actions`,
+      );
+    },
   });
 
   const handleComplete = (taskId: string) => {
@@ -29,6 +61,10 @@ export function WaitingForList() {
     });
   };
 
+  const handleFollowUpDate = (taskId: string, value: string) => {
+    updateTask.mutate({ id: taskId, followUpAt: value ? new Date(`${value}T00:00`) : null });
+  };
+
   if (!waitingTasks || waitingTasks.length === 0) {
     return (
       <Card>
@@ -41,62 +77,103 @@ export function WaitingForList() {
     );
   }
 
+  const now = new Date();
+  const dueTasks = waitingTasks
+    .filter((task) => task.followUpAt && task.followUpAt <= now)
+    .sort((a, b) => a.followUpAt!.getTime() - b.followUpAt!.getTime());
+  const otherTasks = waitingTasks.filter((task) => !dueTasks.includes(task));
+
+  const renderTask = (task: (typeof waitingTasks)[number]) => (
+    <Card key={task.id}>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div className="flex-1">
+            <CardTitle className="text-lg">{task.title}</CardTitle>
+            {task.description && (
+              <CardDescription className="mt-1">
+                {task.description}
+              </CardDescription>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => nudge.mutate({ id: task.id })}
+              disabled={nudge.isPending}
+            >
+              <Send className="mr-1 h-3 w-3" />
+              Nudge
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => handleConvertToAction(task.id)}
+            >
+              Convert to Action
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => handleComplete(task.id)}
+            >
+              Complete
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap items-center gap-3">
+          {(task.person ?? task.waitingFor) && (
+            <Badge variant="secondary" className="flex items-center gap-1">
+              <User className="h-3 w-3" />
+              {task.person?.name ?? task.waitingFor}
+            </Badge>
+          )}
+          <Badge variant="outline" className="flex items-center gap-1">
+            <Clock className="h-3 w-3" />
+            Waiting for {formatDistanceToNow(task.delegatedAt ?? task.createdAt)}
+          </Badge>
+          {task.dueDate && (
+            <Badge variant="outline" className="flex items-center gap-1">
+              <Calendar className="h-3 w-3" />
+              Due: {new Date(task.dueDate).toLocaleDateString()}
+            </Badge>
+          )}
+          {task.project && (
+            <Badge>{task.project.name}</Badge>
+          )}
+          <label className="ml-auto flex items-center gap-2 text-sm text-muted-foreground">
+            Follow up
+            <Input
+              type="date"
+              value={toInputValue(task.followUpAt)}
+              onChange={(e) => handleFollowUpDate(task.id, e.target.value)}
+              className="h-8 w-40"
+            />
+          </label>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
   return (
-    <div className="space-y-4">
-      {waitingTasks.map((task) => (
-        <Card key={task.id}>
-          <CardHeader>
-            <div className="flex items-start justify-between">
-              <div className="flex-1">
-                <CardTitle className="text-lg">{task.title}</CardTitle>
-                {task.description && (
-                  <CardDescription className="mt-1">
-                    {task.description}
-                  </CardDescription>
-                )}
-              </div>
-              <div className="flex gap-2">
-                <Button
-                  size="sm"
-                  variant="outline"
-                  onClick={() => handleConvertToAction(task.id)}
-                >
-                  Convert to Action
-                </Button>
-                <Button
-                  size="sm"
-                  onClick={() => handleComplete(task.id)}
-                >
-                  Complete
-                </Button>
-              </div>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <div className="flex flex-wrap gap-3">
-              {task.waitingFor && (
-                <Badge variant="secondary" className="flex items-center gap-1">
-                  <User className="h-3 w-3" />
-                  {task.waitingFor}
-                </Badge>
-              )}
-              <Badge variant="outline" className="flex items-center gap-1">
-                <Clock className="h-3 w-3" />
-                Waiting for {formatDistanceToNow(new Date(task.createdAt))}
-              </Badge>
-              {task.dueDate && (
-                <Badge variant="outline" className="flex items-center gap-1">
-                  <Calendar className="h-3 w-3" />
-                  Due: {new Date(task.dueDate).toLocaleDateString()}
-                </Badge>
-              )}
-              {task.project && (
-                <Badge>{task.project.name}</Badge>
-              )}
-            </div>
-          </CardContent>
-        </Card>
-      ))}
+    <div className="space-y-6">
+      {dueTasks.length > 0 && (
+        <div className="space-y-4">
+          <h2 className="flex items-center gap-2 text-lg font-semibold">
+            <BellRing className="h-5 w-5 text-orange-500" />
+            Follow-ups due
+            <Badge variant="destructive">{dueTasks.length}</Badge>
+          </h2>
+          {dueTasks.map(renderTask)}
+        </div>
+      )}
+      {otherTasks.length > 0 && (
+        <div className="space-y-4">
+          {dueTasks.length > 0 && <h2 className="text-lg font-semibold">Waiting for</h2>}
+          {otherTasks.map(renderTask)}
+        </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,397 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { api } from "~/trpc/react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
+import { Label } from "~/components/ui/label";
+import { Progress } from "~/components/ui/progress";
+import { Textarea } from "~/components/ui/textarea";
+import {
+  Inbox,
+  Target,
+  Clock,
+  Lightbulb,
+  CheckSquare,
+  CheckCircle2,
+  AlertCircle,
+  Flame,
+  Trophy,
+} from "lucide-react";
+
+const STEPS = [
+  { key: "inbox", label: "Get Clear", icon: Inbox },
+  { key: "projects", label: "Review Projects", icon: Target },
+  { key: "lists", label: "Waiting & Someday", icon: Clock },
+  { key: "nextActions", label: "Next Actions", icon: CheckSquare },
+  { key: "complete", label: "Complete", icon: CheckCircle2 },
+] as const;
+
+export function WeeklyReview() {
+  const [startedAt] = useState(() => new Date());
+  const [stepIndex, setStepIndex] = useState(0);
+  const [notes, setNotes] = useState("");
+  const [confirmedActions, setConfirmedActions] = useState<Set<string>>(new Set());
+
+  const utils = api.useUtils();
+  const { data: overview } = api.review.getOverview.useQuery();
+  const { data: projects, refetch: refetchProjects } = api.review.getActiveProjects.useQuery();
+  const { data: waitingTasks } = api.task.getWaitingFor.useQuery();
+  const { data: somedayTasks } = api.task.getSomedayMaybe.useQuery();
+  const { data: nextActions } = api.task.getNextActions.useQuery();
+  const { data: stats } = api.review.getStats.useQuery();
+  const { data: history } = api.review.getHistory.useQuery({ limit: 5 });
+
+  const markProjectReviewed = api.review.markProjectReviewed.useMutation({
+    onSuccess: () => void refetchProjects(),
+  });
+
+  const markNextActionsReviewed = api.review.markNextActionsReviewed.useMutation();
+
+  const completeReview = api.review.complete.useMutation({
+    onSuccess: (review) => {
+      void utils.review.invalidate();
+      toast.success(
+        `Weekly review recorded: ${review.projectsReviewed} projects and ` +
+        `${review.nextActionsReviewed} next actions reviewed`
+      );
+      setStepIndex(0);
+      setNotes("");
+      setConfirmedActions(new Set());
+    },
+    onError: (error) => {
+      toast.error(`Failed to record review: ${error.message}`);
+    },
+  });
+
+  const step = STEPS[stepIndex]!;
+  const reviewedProjects = projects?.filter(
+    (project) => project.reviewedAt && project.reviewedAt >= startedAt,
+  ).length ?? 0;
+
+  const toggleAction = (taskId: string) => {
+    setConfirmedActions((current) => {
+      const next = new Set(current);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+  };
+
+  const handleNext = async () => {
+    if (step.key === "nextActions" && confirmedActions.size > 0) {
+      await markNextActionsReviewed.mutateAsync({ ids: Array.from(confirmedActions) });
+    }
+    setStepIndex((index) => Math.min(STEPS.length - 1, index + 1));
+  };
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-3">
+      <div className="space-y-6 lg:col-span-2">
+        {/* Step indicator */}
+        <Card>
+          <CardContent className="space-y-4 pt-6">
+            <div className="flex flex-wrap gap-2">
+              {STEPS.map((s, index) => {
+                const Icon = s.icon;
+                return (
+                  <Badge
+                    key={s.key}
+                    variant={index === stepIndex ? "default" : index < stepIndex ? "secondary" : "outline"}
+                    className="flex items-center gap-1"
+                  >
+                    <Icon className="h-3 w-3" />
+                    {s.label}
+                  </Badge>
+                );
+              })}
+            </div>
+            <Progress value={(stepIndex / (STEPS.length - 1)) * 100} className="h-2" />
+          </CardContent>
+        </Card>
+
+        {step.key === "inbox" && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Get your inbox to zero</CardTitle>
+              <CardDescription>
+                Collect loose papers, notes and open loops, then process every inbox item
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {overview?.inboxCount === 0 ? (
+                <div className="flex items-center gap-2 text-green-600">
+                  <CheckCircle2 className="h-5 w-5" />
+                  <span className="font-medium">Inbox zero reached</span>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between rounded-lg border p-4">
+                  <div className="flex items-center gap-2">
+                    <AlertCircle className="h-5 w-5 text-yellow-500" />
+                    <span>
+                      {overview?.inboxCount ?? 0} items still need processing
+                    </span>
+                  </div>
+                  <Button asChild variant="outline" size="sm">
+                    <Link href="/inbox">Process Inbox</Link>
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {step.key === "projects" && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Review every active project</CardTitle>
+              <CardDescription>
+                Make sure each project still matters and has at least one next action.
+                {" "}{reviewedProjects} of {projects?.length ?? 0} reviewed.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {!projects || projects.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No active projects.</p>
+              ) : (
+                projects.map((project) => {
+                  const isReviewed = !!project.reviewedAt && project.reviewedAt >= startedAt;
+                  const hasNextAction = project.tasks.some((task) => task.isNextAction);
+                  return (
+                    <div key={project.id} className="flex items-start justify-between rounded-lg border p-3">
+                      <div className="space-y-1">
+                        <p className="font-medium">{project.name}</p>
+                        {project.outcome && (
+                          <p className="text-sm text-muted-foreground">{project.outcome}</p>
+                        )}
+                        <div className="flex flex-wrap gap-2">
+                          <Badge variant="outline" className="text-xs">
+                            {project.tasks.length} open tasks
+                          </Badge>
+                          {!hasNextAction && (
+                            <Badge variant="destructive" className="text-xs">
+                              No next action
+                            </Badge>
+                          )}
+                          {project.reviewedAt && (
+                            <Badge variant="secondary" className="text-xs">
+                              Reviewed {formatDistanceToNow(project.reviewedAt)} ago
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant={isReviewed ? "secondary" : "default"}
+                        disabled={isReviewed || markProjectReviewed.isPending}
+                        onClick={() => markProjectReviewed.mutate({ id: project.id })}
+                      >
+                        {isReviewed ? "Reviewed" : "Mark Reviewed"}
+                      </Button>
+                    </div>
+                  );
+                })
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {step.key === "lists" && (
+          <div className="grid gap-4 md:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Clock className="h-5 w-5" />
+                  Waiting For
+                  <Badge variant="secondary">{waitingTasks?.length ?? 0}</Badge>
+                </CardTitle>
+                <CardDescription>Follow up on anything that has waited too long</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {waitingTasks?.map((task) => (
+                  <div key={task.id} className="flex items-center justify-between text-sm">
+                    <span>{task.title}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {task.waitingFor} · {formatDistanceToNow(task.createdAt)}
+                    </span>
+                  </div>
+                ))}
+                <Button asChild variant="link" size="sm" className="px-0">
+                  <Link href="/waiting">Open Waiting For</Link>
+                </Button>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Lightbulb className="h-5 w-5" />
+                  Someday/Maybe
+                  <Badge variant="secondary">{somedayTasks?.length ?? 0}</Badge>
+                </CardTitle>
+                <CardDescription>Activate anything that is ready to move forward</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {somedayTasks?.map((task) => (
+                  <div key={task.id} className="text-sm">
+                    {task.title}
+                  </div>
+                ))}
+                <Button asChild variant="link" size="sm" className="px-0">
+                  <Link href="/someday">Open Someday/Maybe</Link>
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {step.key === "nextActions" && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Confirm your next actions</CardTitle>
+              <CardDescription>
+                Check each action that is still current. {confirmedActions.size} of{" "}
+                {nextActions?.length ?? 0} confirmed.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {nextActions && nextActions.length > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setConfirmedActions(new Set(nextActions.map((task) => task.id)))}
+                >
+                  Confirm All
+                </Button>
+              )}
+              {nextActions?.map((task) => (
+                <div key={task.id} className="flex items-center gap-3 rounded-lg border p-3">
+                  <Checkbox
+                    id={`review-${task.id}`}
+                    checked={confirmedActions.has(task.id)}
+                    onCheckedChange={() => toggleAction(task.id)}
+                  />
+                  <Label htmlFor={`review-${task.id}`} className="flex-1 cursor-pointer">
+                    {task.title}
+                  </Label>
+                  {task.context && (
+                    <Badge variant="outline" className="text-xs">{task.context.name}</Badge>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {step.key === "complete" && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Wrap up</CardTitle>
+              <CardDescription>
+                {overview?.inboxCount === 0 ? "Inbox is at zero" : `${overview?.inboxCount ?? 0} inbox items left`}
+                {" · "}{reviewedProjects} projects reviewed
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label htmlFor="review-notes">Review Notes (Optional)</Label>
+                <Textarea
+                  id="review-notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="What went well? What needs attention next week?"
+                  className="mt-2"
+                  rows={4}
+                />
+              </div>
+              <Button
+                onClick={() => completeReview.mutate({ startedAt, notes: notes || undefined })}
+                disabled={completeReview.isPending}
+              >
+                {completeReview.isPending ? "Saving..." : "Complete Weekly Review"}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="flex justify-between">
+          <Button
+            variant="ghost"
+            onClick={() => setStepIndex((index) => Math.max(0, index - 1))}
+            disabled={stepIndex === 0}
+          >
+            Back
+          </Button>
+          {step.key !== "complete" && (
+            <Button onClick={() => void handleNext()} disabled={markNextActionsReviewed.isPending}>
+              Next Step
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Flame className="h-5 w-5 text-orange-500" />
+              Review Streak
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <p className="text-3xl font-bold">
+              {stats?.currentStreak ?? 0} <span className="text-base font-normal text-muted-foreground">weeks</span>
+            </p>
+            <p className="flex items-center gap-1 text-sm text-muted-foreground">
+              <Trophy className="h-4 w-4" />
+              Longest: {stats?.longestStreak ?? 0} weeks · {stats?.totalReviews ?? 0} total
+            </p>
+            {stats?.reviewedThisWeek && (
+              <Badge variant="secondary">Done for this week</Badge>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Reviews</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {!history || history.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No reviews yet.</p>
+            ) : (
+              history.map((review) => (
+                <div key={review.id} className="space-y-1 border-b pb-2 last:border-0">
+                  <p className="text-sm font-medium">
+                    {new Date(review.completedAt).toLocaleDateString()}
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {review.inboxZero && (
+                      <Badge variant="secondary" className="text-xs">Inbox zero</Badge>
+                    )}
+                    <Badge variant="outline" className="text-xs">
+                      {review.projectsReviewed} projects
+                    </Badge>
+                    <Badge variant="outline" className="text-xs">
+                      {review.nextActionsReviewed} actions
+                    </Badge>
+                  </div>
+                  {review.notes && (
+                    <p className="text-xs text-muted-foreground">{review.notes}</p>
+                  )}
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+"use client";
+
+import { useTheme } from "~/lib/theme";
+import { THEMES, isTheme } from "~/lib/preferences";
+import { Label } from "~/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
+
+const THEME_LABELS = {
+  light: "Light",
+  dark: "Dark",
+  system: "Same as the system",
+};
+
+// ThemePreference saves the choice to the account
+export function AppearanceSettings() {
+  const { theme, setTheme } = useTheme();
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="theme">Theme</Label>
+      <Select value={theme} onValueChange={(value) => isTheme(value) && setTheme(value)}>
+        <SelectTrigger id="theme" className="w-60">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {THEMES.map((option) => (
+            <SelectItem key={option} value={option}>
+              {THEME_LABELS[option]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Check, Clock, MapPin, Pencil, Plus, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+
+import { api } from "~/trpc/react";
+import { CONTEXT_ICONS, contextLabel, isContextIcon } from "~/lib/contexts";
+import { ContextIcon } from "~/app/_components/gtd/ContextIcon";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
+
+interface Draft {
+  name: string;
+  icon: string;
+  color: string;
+  location: string;
+  availableFrom: string;
+  availableUntil: string;
+}
+
+const DEFAULT_COLOR = "#6366f1";
+
+export function ContextSettings() {
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const utils = api.useUtils();
+  const { data: contexts } = api.context.getAll.useQuery();
+
+  const refresh = () => {
+    void utils.context.getAll.invalidate();
+    void utils.task.getNextActions.invalidate();
+  };
+
+  const createContext = api.context.create.useMutation({
+    onSuccess: () => {
+      refresh();
+      setNewName("");
+      toast.success("Context created");
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const updateContext = api.context.update.useMutation({
+    onSuccess: () => {
+      refresh();
+      setEditingId(null);
+      setDraft(null);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const reorderContexts = api.context.reorder.useMutation({
+    onSuccess: refresh,
+    onError: (error) => toast.error(error.message),
+  });
+
+  const deleteContext = api.context.delete.useMutation({
+    onSuccess: () => {
+      refresh();
+      toast.success("Context deleted");
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  if (!contexts) return null;
+
+  const handleEdit = (context: (typeof contexts)[number]) => {
+    setEditingId(context.id);
+    setDraft({
+      name: context.name,
+      icon: context.icon ?? "map-pin",
+      color: context.color ?? DEFAULT_COLOR,
+      location: context.location ?? "",
+      availableFrom: context.availableFrom ?? "",
+      availableUntil: context.availableUntil ?? "",
+    });
+  };
+
+  const handleSave = (id: string) => {
+    if (!draft) return;
+    updateContext.mutate({
+      id,
+      name: draft.name,
+      icon: isContextIcon(draft.icon) ? draft.icon : null,
+      color: draft.color,
+      location: draft.location.trim() || null,
+      availableFrom: draft.availableFrom || null,
+      availableUntil: draft.availableUntil || null,
+    });
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const ids = contexts.map((context) => context.id);
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved!);
+    reorderContexts.mutate({ ids });
+  };
+
+  const handleDelete = (id: string, name: string, openTasks: number) => {
+    const message =
+      openTasks > 0
+        ? `Delete ${name}? ${openTasks} open ${openTasks === 1 ? "task loses" : "tasks lose"} their context.`
+        : `Delete ${name}?`;
+    if (confirm(message)) {
+      deleteContext.mutate({ id });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {contexts.map((context, index) =>
+          editingId === context.id && draft ? (
+            <div key={context.id} className="space-y-3 rounded-lg border p-3">
+              <div className="grid gap-3 sm:grid-cols-[1fr_auto_auto]">
+                <div className="space-y-1">
+                  <Label htmlFor="context-name">Name</Label>
+                  <Input
+                    id="context-name"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="context-icon">Icon</Label>
+                  <Select value={draft.icon} onValueChange={(icon) => setDraft({ ...draft, icon })}>
+                    <SelectTrigger id="context-icon" className="w-20">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CONTEXT_ICONS.map((icon) => (
+                        <SelectItem key={icon} value={icon} aria-label={icon}>
+                          <ContextIcon context={{ icon, color: draft.color }} />
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="context-color">Color</Label>
+                  <Input
+                    id="context-color"
+                    type="color"
+                    value={draft.color}
+                    onChange={(e) => setDraft({ ...draft, color: e.target.value })}
+                    className="w-16 p-1"
+                  />
+                </div>
+              </div>
+              <div className="grid gap-3 sm:grid-cols-3">
+                <div className="space-y-1">
+                  <Label htmlFor="context-location">Location</Label>
+                  <Input
+                    id="context-location"
+                    value={draft.location}
+                    onChange={(e) => setDraft({ ...draft, location: e.target.value })}
+                    placeholder="Anywhere"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="context-from">Available from</Label>
+                  <Input
+                    id="context-from"
+                    type="time"
+                    value={draft.availableFrom}
+                    onChange={(e) => setDraft({ ...draft, availableFrom: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="context-until">Until</Label>
+                  <Input
+                    id="context-until"
+                    type="time"
+                    value={draft.availableUntil}
+                    onChange={(e) => setDraft({ ...draft, availableUntil: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                  <X className="mr-1 h-4 w-4" />
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => handleSave(context.id)}
+                  disabled={!draft.name.trim() || updateContext.isPending}
+                >
+                  <Check className="mr-1 h-4 w-4" />
+                  Save
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div key={context.id} className="flex items-center gap-3 rounded-lg border p-3">
+              <ContextIcon context={context} />
+              <div className="min-w-0 flex-1">
+                <p className="font-medium">
+                  {context.name}
+                  <span className="ml-2 text-sm font-normal text-muted-foreground">
+                    {context._count.tasks} open
+                  </span>
+                </p>
+                {(context.location ?? context.availableFrom ?? context.availableUntil) && (
+                  <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+                    {context.location && (
+                      <span className="flex items-center gap-1">
+                        <MapPin className="h-3 w-3" />
+                        {context.location}
+                      </span>
+                    )}
+                    {(context.availableFrom ?? context.availableUntil) && (
+                      <span className="flex items-center gap-1">
+                        <Clock className="h-3 w-3" />
+                        {context.availableFrom ?? "00:00"}–{context.availableUntil ?? "24:00"}
+                      </span>
+                    )}
+                  </div>
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={`Move ${contextLabel(context.name)} up`}
+                onClick={() => handleMove(index, -1)}
+                disabled={index === 0 || reorderContexts.isPending}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={`Move ${contextLabel(context.name)} down`}
+                onClick={() => handleMove(index, 1)}
+                disabled={index === contexts.length - 1 || reorderContexts.isPending}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={`Edit ${contextLabel(context.name)}`}
+                onClick={() => handleEdit(context)}
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={`Delete ${contextLabel(context.name)}`}
+                onClick={() => handleDelete(context.id, context.name, context._count.tasks)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ),
+        )}
+        {contexts.length === 0 && <p className="text-sm text-muted-foreground">No contexts yet</p>}
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && newName.trim() && createContext.mutate({ name: newName })}
+          placeholder="e.g. @car or Deep work"
+          aria-label="New context"
+        />
+        <Button
+          variant="outline"
+          onClick={() => createContext.mutate({ name: newName })}
+          disabled={!newName.trim() || createContext.isPending}
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
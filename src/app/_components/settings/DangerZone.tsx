@@ -0,0 +1,94 @@
+"use client";
+
+import { useState } from "react";
+import { Trash2, Unlink } from "lucide-react";
+import { toast } from "sonner";
+
+import { api } from "~/trpc/react";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+
+const CONFIRMATION = "DELETE";
+
+export function DangerZone() {
+  const [confirmation, setConfirmation] = useState("");
+
+  const utils = api.useUtils();
+
+  const unlinkTodoist = api.settings.unlinkTodoist.useMutation({
+    onSuccess: () => {
+      void utils.task.invalidate();
+      void utils.project.invalidate();
+      toast.success("Todoist disconnected, your items are kept here");
+    },
+    onError: (error) => toast.error(`Failed to disconnect Todoist: ${error.message}`),
+  });
+
+  const deleteAccount = api.settings.deleteAccount.useMutation({
+    onSuccess: () => {
+      // The sessions went with the account
+      window.location.href = "/";
+    },
+    onError: (error) => toast.error(`Failed to delete account: ${error.message}`),
+  });
+
+  const handleUnlink = () => {
+    if (
+      confirm(
+        "Disconnect Todoist and forget which items came from it? Nothing will sync any more, " +
+          "and connecting again imports your Todoist items as new ones.",
+      )
+    ) {
+      unlinkTodoist.mutate();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="font-medium">Unlink Todoist</p>
+          <p className="text-sm text-muted-foreground">
+            Removes the token and every link to Todoist items, including changes waiting to be
+            pushed.
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={handleUnlink}
+          disabled={unlinkTodoist.isPending}
+          className="shrink-0"
+        >
+          <Unlink className="mr-2 h-4 w-4" />
+          Unlink
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <p className="font-medium">Delete account</p>
+        <p className="text-sm text-muted-foreground">
+          Deletes your account with all tasks, projects, labels, comments and files. Nothing is
+          deleted in Todoist.
+        </p>
+        <Label htmlFor="delete-confirmation">Type {CONFIRMATION} to confirm</Label>
+        <div className="flex gap-2">
+          <Input
+            id="delete-confirmation"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            className="max-w-48"
+          />
+          <Button
+            variant="destructive"
+            onClick={() => deleteAccount.mutate({ confirmation: CONFIRMATION })}
+            disabled={confirmation !== CONFIRMATION || deleteAccount.isPending}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete account
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
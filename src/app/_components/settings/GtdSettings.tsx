@@ -0,0 +1,94 @@
+"use client";
+
+import { useState } from "react";
+import { Zap } from "lucide-react";
+import { toast } from "sonner";
+import { type EnergyLevel } from "@prisma/client";
+
+import { api } from "~/trpc/react";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
+
+const NO_DEFAULT = "none";
+
+const ENERGY_LEVELS = [
+  { value: "HIGH", label: "High Energy", color: "text-red-500" },
+  { value: "MEDIUM", label: "Medium Energy", color: "text-yellow-500" },
+  { value: "LOW", label: "Low Energy", color: "text-green-500" },
+];
+
+export function GtdSettings() {
+  const [timeEstimate, setTimeEstimate] = useState<string | null>(null);
+
+  const utils = api.useUtils();
+  const { data: settings } = api.settings.get.useQuery();
+  const preferences = settings?.preferences;
+
+  const updatePreferences = api.settings.updatePreferences.useMutation({
+    onSuccess: () => {
+      void utils.settings.get.invalidate();
+      toast.success("Preferences saved");
+    },
+    onError: (error) => toast.error(`Failed to save preferences: ${error.message}`),
+  });
+
+  if (!preferences) return null;
+
+  const handleSaveTimeEstimate = () => {
+    if (timeEstimate === null) return;
+    const minutes = timeEstimate.trim() ? Number(timeEstimate) : null;
+    if (minutes !== null && (!Number.isInteger(minutes) || minutes < 1 || minutes > 1440)) {
+      toast.error("Estimates are between 1 and 1440 minutes");
+      return;
+    }
+    updatePreferences.mutate({ defaultTimeEstimate: minutes });
+    setTimeEstimate(null);
+  };
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      <div className="space-y-2">
+        <Label htmlFor="default-energy">Default energy level</Label>
+        <Select
+          value={preferences.defaultEnergyLevel ?? NO_DEFAULT}
+          onValueChange={(value) =>
+            updatePreferences.mutate({
+              defaultEnergyLevel: value === NO_DEFAULT ? null : (value as EnergyLevel),
+            })
+          }
+        >
+          <SelectTrigger id="default-energy">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_DEFAULT}>No default</SelectItem>
+            {ENERGY_LEVELS.map((level) => (
+              <SelectItem key={level.value} value={level.value}>
+                <div className="flex items-center gap-2">
+                  <Zap className={`h-4 w-4 ${level.color}`} />
+                  {level.label}
+                </div>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="default-time">Default time estimate (minutes)</Label>
+        <Input
+          id="default-time"
+          type="number"
+          min={1}
+          max={1440}
+          value={timeEstimate ?? preferences.defaultTimeEstimate?.toString() ?? ""}
+          onChange={(e) => setTimeEstimate(e.target.value)}
+          onBlur={handleSaveTimeEstimate}
+          onKeyDown={(e) => e.key === "Enter" && handleSaveTimeEstimate()}
+          placeholder="No default"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import { toast } from "sonner";
+
+import { api } from "~/trpc/react";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+
+export function ProfileSettings() {
+  const [name, setName] = useState("");
+
+  const utils = api.useUtils();
+  const { data: settings } = api.settings.get.useQuery();
+
+  useEffect(() => {
+    if (settings) setName(settings.profile.name ?? "");
+  }, [settings]);
+
+  const updateProfile = api.settings.updateProfile.useMutation({
+    onSuccess: () => {
+      void utils.settings.get.invalidate();
+      toast.success("Profile saved");
+    },
+    onError: (error) => toast.error(`Failed to save profile: ${error.message}`),
+  });
+
+  return (
+    <div className="flex items-start gap-4">
+      {settings?.profile.image && (
+        // Avatars come from the sign-in provider's host, so they are not optimized
+        <Image
+          src={settings.profile.image}
+          alt=""
+          width={56}
+          height={56}
+          unoptimized
+          className="h-14 w-14 rounded-full"
+        />
+      )}
+      <div className="flex-1 space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="profile-name">Name</Label>
+          <div className="flex gap-2">
+            <Input
+              id="profile-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && updateProfile.mutate({ name })}
+            />
+            <Button
+              variant="outline"
+              onClick={() => updateProfile.mutate({ name })}
+              disabled={updateProfile.isPending || !name.trim()}
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label>Email</Label>
+          <p className="text-sm text-muted-foreground">
+            {settings?.profile.email ?? "No email on this account"}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { XCircle } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+
+import { api } from "~/trpc/react";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+
+const OPERATION_LABELS: Record<string, string> = {
+  CREATE: "Create",
+  UPDATE: "Update",
+  MOVE: "Move",
+  CLOSE: "Complete",
+  REOPEN: "Reopen",
+  DELETE: "Delete",
+};
+
+export function FailedTodoistChanges() {
+  const utils = api.useUtils();
+  const { data: pendingChanges } = api.task.getPendingTodoistChanges.useQuery();
+
+  const pushTodoistChanges = api.task.pushTodoistChanges.useMutation({
+    onSuccess: (result) => {
+      void utils.task.getPendingTodoistChanges.invalidate();
+      if (result.failed > 0) {
+        toast.error(`Pushed ${result.pushed} changes, ${result.failed} failed again`);
+      } else {
+        toast.success(`Pushed ${result.pushed} changes to Todoist`);
+      }
+    },
+    onError: (error) => {
+      toast.error(`Failed to push changes: ${error.message}`);
+    },
+  });
+
+  const discardTodoistChange = api.task.discardTodoistChange.useMutation({
+    onSuccess: () => {
+      void utils.task.getPendingTodoistChanges.invalidate();
+      toast.success("Change discarded");
+    },
+    onError: (error) => {
+      toast.error(`Failed to discard change: ${error.message}`);
+    },
+  });
+
+  if (!pendingChanges?.failed.length) return null;
+
+  return (
+    <Card className="border-destructive/50">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <XCircle className="h-5 w-5 text-destructive" />
+              Failed Todoist Changes
+            </CardTitle>
+            <CardDescription>
+              These changes kept failing and are no longer retried. Later changes to the same items
+              wait behind them.
+            </CardDescription>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={pushTodoistChanges.isPending}
+            onClick={() => pushTodoistChanges.mutate()}
+          >
+            Retry all
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {pendingChanges.failed.map((entry) => (
+          <div key={entry.id} className="flex items-start justify-between gap-4 rounded-lg border p-3">
+            <div className="min-w-0">
+              <p className="text-sm font-medium">
+                {OPERATION_LABELS[entry.operation] ?? entry.operation} {entry.entityType.toLowerCase()}{" "}
+                <span className="text-muted-foreground">
+                  · {formatDistanceToNow(entry.createdAt, { addSuffix: true })}
+                </span>
+              </p>
+              <p className="text-sm break-words text-muted-foreground">
+                {entry.lastError} ({entry.attempts} attempts)
+              </p>
+            </div>
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled={discardTodoistChange.isPending}
+              onClick={() => discardTodoistChange.mutate({ id: entry.id })}
+            >
+              Discard
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import { useState } from "react";
+import { Repeat } from "lucide-react";
+import { toast } from "sonner";
+
+import { api } from "~/trpc/react";
+import { getNextOccurrence, parseRecurrence } from "~/lib/recurrence";
+import { Button } from "~/components/ui/button";
+import { Badge } from "~/components/ui/badge";
+import { Input } from "~/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "~/components/ui/dialog";
+
+const EXAMPLES = ["every day", "every weekday", "every mon, thu", "every 2 weeks", "every! 3 days"];
+
+interface RecurrenceDialogProps {
+  taskId: string;
+  recurrence: string | null;
+  dueDate: Date | null;
+}
+
+export function RecurrenceDialog({ taskId, recurrence, dueDate }: RecurrenceDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [rule, setRule] = useState(recurrence ?? "");
+
+  const utils = api.useUtils();
+  const updateTask = api.task.update.useMutation({
+    onSuccess: (task) => {
+      void utils.task.getAll.invalidate();
+      toast.success(task.recurrence ? `Repeats ${task.recurrence}` : "Task no longer repeats");
+      setOpen(false);
+    },
+    onError: (error) => {
+      toast.error(`Failed to update repeat: ${error.message}`);
+    },
+  });
+
+  const parsed = rule.trim() ? parseRecurrence(rule) : null;
+  const preview = parsed
+    ? getNextOccurrence(parsed, { dueDate, completedAt: dueDate ?? new Date() })
+    : null;
+
+  const handleSave = () => {
+    if (!parsed) return;
+    updateTask.mutate({
+      id: taskId,
+      recurrence: rule.trim(),
+      // A repeating task needs a first date to repeat from
+      ...(!dueDate && { dueDate: new Date() }),
+    });
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (isOpen) setRule(recurrence ?? "");
+      }}
+    >
+      <DialogTrigger asChild>
+        {recurrence ? (
+          <Badge variant="outline" className="cursor-pointer text-xs">
+            <Repeat className="mr-1 h-3 w-3" />
+            {recurrence}
+          </Badge>
+        ) : (
+          <Button variant="ghost" size="sm" title="Repeat">
+            <Repeat className="h-4 w-4" />
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Repeat</DialogTitle>
+          <DialogDescription>
+            Write the rule the way Todoist does. Completing the task schedules the next one.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          value={rule}
+          onChange={(e) => setRule(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleSave()}
+          placeholder="every weekday"
+          autoFocus
+        />
+        <p className="text-sm text-muted-foreground">
+          {!rule.trim()
+            ? `Try ${EXAMPLES.map((example) => `"${example}"`).join(", ")}`
+            : preview
+              ? `Next after ${dueDate ? "the current due date" : "today"}: ${preview.toLocaleDateString()}`
+              : "This rule is not supported"}
+        </p>
+
+        <DialogFooter className="gap-2">
+          {recurrence && (
+            <Button
+              variant="outline"
+              onClick={() => updateTask.mutate({ id: taskId, recurrence: null })}
+              disabled={updateTask.isPending}
+            >
+              Stop Repeating
+            </Button>
+          )}
+          <Button onClick={handleSave} disabled={!parsed || updateTask.isPending}>
+            {updateTask.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { AlertTriangle } from "lucide-react";
+import { toast } from "sonner";
+
+import { api } from "~/trpc/react";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  description: "Description",
+  priority: "Priority",
+  dueDate: "Due date",
+  recurrence: "Repeat",
+  labels: "Labels",
+};
+
+const formatValue = (value: unknown) => {
+  if (Array.isArray(value)) return value.length ? value.join(", ") : "No labels";
+  if (value === null || value === "") return "None";
+  return String(value as string | number);
+};
+
+export function SyncConflicts() {
+  const utils = api.useUtils();
+  const { data: conflicts } = api.conflict.getAll.useQuery();
+
+  const resolveConflict = api.conflict.resolve.useMutation({
+    onSuccess: () => {
+      void utils.conflict.getAll.invalidate();
+      void utils.task.getAll.invalidate();
+      void utils.task.getPendingTodoistChanges.invalidate();
+      toast.success("Conflict resolved");
+    },
+    onError: (error) => {
+      toast.error(`Failed to resolve conflict: ${error.message}`);
+    },
+  });
+
+  if (!conflicts?.length) return null;
+
+  return (
+    <Card className="border-yellow-500/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-yellow-500" />
+          Sync Conflicts
+        </CardTitle>
+        <CardDescription>
+          These fields were changed both here and in Todoist. Pick the value to keep.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {conflicts.map((conflict) => (
+          <div key={conflict.id} className="rounded-lg border p-3">
+            <p className="text-sm font-medium">
+              {conflict.task.title}{" "}
+              <span className="text-muted-foreground">· {FIELD_LABELS[conflict.field] ?? conflict.field}</span>
+            </p>
+            <div className="mt-2 grid gap-2 sm:grid-cols-2">
+              <div className="rounded-md bg-muted/50 p-2">
+                <p className="text-xs text-muted-foreground">This app</p>
+                <p className="text-sm break-words">{formatValue(conflict.localValue)}</p>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="mt-2"
+                  disabled={resolveConflict.isPending}
+                  onClick={() => resolveConflict.mutate({ id: conflict.id, keep: "LOCAL" })}
+                >
+                  Keep this
+                </Button>
+              </div>
+              <div className="rounded-md bg-muted/50 p-2">
+                <p className="text-xs text-muted-foreground">Todoist</p>
+                <p className="text-sm break-words">{formatValue(conflict.remoteValue)}</p>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="mt-2"
+                  disabled={resolveConflict.isPending}
+                  onClick={() => resolveConflict.mutate({ id: conflict.id, keep: "REMOTE" })}
+                >
+                  Use Todoist
+                </Button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
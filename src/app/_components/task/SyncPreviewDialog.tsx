@@ -0,0 +1,178 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Eye, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+
+import { api, type RouterOutputs } from "~/trpc/react";
+import { Button } from "~/components/ui/button";
+import { Badge } from "~/components/ui/badge";
+import { Checkbox } from "~/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "~/components/ui/dialog";
+
+type SyncAction = RouterOutputs["task"]["previewSync"]["tasks"][number]["action"];
+
+const ACTION_VARIANTS: Record<SyncAction, "default" | "secondary" | "outline" | "destructive"> = {
+  create: "default",
+  update: "secondary",
+  complete: "outline",
+  delete: "destructive",
+};
+
+export function SyncPreviewDialog() {
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const utils = api.useUtils();
+  const {
+    data: preview,
+    isFetching,
+    error,
+  } = api.task.previewSync.useQuery(undefined, {
+    enabled: open,
+    refetchOnWindowFocus: false,
+  });
+
+  const groups = preview
+    ? [
+        { title: "Projects", changes: preview.projects },
+        { title: "Sections", changes: preview.sections },
+        { title: "Tasks", changes: preview.tasks },
+      ]
+    : [];
+  const allKeys = groups.flatMap((group) => group.changes.map((change) => change.key));
+
+  // Everything is selected whenever a new preview arrives
+  useEffect(() => {
+    if (!preview) return;
+    setSelected(
+      new Set(
+        [...preview.projects, ...preview.sections, ...preview.tasks].map((change) => change.key),
+      ),
+    );
+  }, [preview]);
+
+  const applySync = api.task.syncAllFromTodoist.useMutation({
+    onSuccess: (result) => {
+      void utils.task.getAll.invalidate();
+      void utils.project.getAll.invalidate();
+      void utils.task.getPendingTodoistChanges.invalidate();
+      void utils.conflict.getAll.invalidate();
+      void utils.task.previewSync.invalidate();
+      toast.success(
+        result.skipped > 0
+          ? `Applied selected changes, ${result.skipped} left for later`
+          : "Sync complete!",
+      );
+      setOpen(false);
+    },
+    onError: (error) => {
+      toast.error(`Sync failed: ${error.message}`);
+    },
+  });
+
+  const toggle = (key: string, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Eye className="h-4 w-4" />
+          Preview Sync
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Sync Preview</DialogTitle>
+          <DialogDescription>
+            {preview?.fullSync
+              ? "Everything in your Todoist account will be imported."
+              : "Changes made in Todoist since the last sync."}{" "}
+            Nothing is changed until you apply.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isFetching && (
+          <div className="flex items-center justify-center py-6 text-sm text-muted-foreground">
+            <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+            Loading changes...
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error.message}</p>}
+
+        {preview && !isFetching && allKeys.length === 0 && (
+          <p className="py-6 text-center text-sm text-muted-foreground">Everything is up to date.</p>
+        )}
+
+        {!isFetching &&
+          groups
+            .filter((group) => group.changes.length > 0)
+            .map((group) => (
+              <div key={group.title} className="space-y-2">
+                <p className="text-sm font-medium">
+                  {group.title} ({group.changes.length})
+                </p>
+                {group.changes.map((change) => (
+                  <label key={change.key} className="flex items-start gap-2 rounded-md border p-2 text-sm">
+                    <Checkbox
+                      checked={selected.has(change.key)}
+                      onCheckedChange={(checked) => toggle(change.key, Boolean(checked))}
+                    />
+                    <div className="flex-1 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <Badge variant={ACTION_VARIANTS[change.action]} className="text-xs capitalize">
+                          {change.action}
+                        </Badge>
+                        <span>{change.name}</span>
+                      </div>
+                      {change.fields.length > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          Changes: {change.fields.join(", ")}
+                        </p>
+                      )}
+                      {change.conflicts.length > 0 && (
+                        <p className="text-xs text-yellow-600">
+                          Also edited here: {change.conflicts.join(", ")}
+                        </p>
+                      )}
+                    </div>
+                  </label>
+                ))}
+              </div>
+            ))}
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={() => applySync.mutate({ only: [...selected] })}
+            disabled={applySync.isPending || isFetching || selected.size === 0}
+          >
+            Apply Selected ({selected.size})
+          </Button>
+          <Button
+            onClick={() => applySync.mutate()}
+            disabled={applySync.isPending || isFetching || !preview}
+          >
+            {applySync.isPending ? "Applying..." : "Apply All"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import { useRef, useState } from "react";
+import Image from "next/image";
+import { FileText, Paperclip, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+
+import { api } from "~/trpc/react";
+import { ATTACHMENT_TYPES, formatFileSize, isImageAttachment } from "~/lib/attachments";
+import { Button } from "~/components/ui/button";
+
+interface TaskAttachmentsProps {
+  taskId: string;
+  enabled: boolean;
+}
+
+const attachmentUrl = (id: string) => `/api/attachments/${id}`;
+
+export function TaskAttachments({ taskId, enabled }: TaskAttachmentsProps) {
+  const utils = api.useUtils();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const { data: attachments, isLoading } = api.attachment.getByTask.useQuery(
+    { taskId },
+    { enabled },
+  );
+  const { data: usage } = api.attachment.getUsage.useQuery(undefined, { enabled });
+
+  const refresh = () => {
+    void utils.attachment.getByTask.invalidate({ taskId });
+    void utils.attachment.getUsage.invalidate();
+  };
+
+  const deleteAttachment = api.attachment.delete.useMutation({
+    onSuccess: refresh,
+    onError: (error) => {
+      toast.error(`Failed to delete attachment: ${error.message}`);
+    },
+  });
+
+  // Files go through the upload route, tRPC only speaks JSON
+  const handleUpload = async (file: File) => {
+    const form = new FormData();
+    form.append("file", file);
+    form.append("taskId", taskId);
+
+    setUploading(true);
+    try {
+      const response = await fetch("/api/attachments", { method: "POST", body: form });
+      if (!response.ok) {
+        const { error } = (await response.json().catch(() => ({}))) as { error?: string };
+        throw new Error(error ?? response.statusText);
+      }
+      refresh();
+    } catch (error) {
+      toast.error(
+        `Failed to upload ${file.name}: ${error instanceof Error ? error.message : "unknown error"}`,
+      );
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const images = attachments?.filter((attachment) => isImageAttachment(attachment.contentType));
+  const files = attachments?.filter((attachment) => !isImageAttachment(attachment.contentType));
+
+  const deleteButton = (id: string, fileName: string) => (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="h-6 w-6"
+      aria-label={`Delete ${fileName}`}
+      onClick={() => {
+        if (confirm(`Delete ${fileName}?`)) {
+          deleteAttachment.mutate({ id });
+        }
+      }}
+    >
+      <Trash2 className="h-3 w-3" />
+    </Button>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="flex items-center gap-2 text-sm font-medium">
+          <Paperclip className="h-4 w-4" />
+          Attachments
+        </h4>
+        <input
+          ref={fileInput}
+          type="file"
+          className="hidden"
+          accept={ATTACHMENT_TYPES.join(",")}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) void handleUpload(file);
+          }}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={uploading}
+          onClick={() => fileInput.current?.click()}
+        >
+          <Upload className="mr-1 h-3 w-3" />
+          {uploading ? "Uploading..." : "Attach file"}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading attachments...</p>
+      ) : !attachments?.length ? (
+        <p className="text-sm text-muted-foreground">No files attached</p>
+      ) : (
+        <>
+          {!!images?.length && (
+            <div className="grid grid-cols-4 gap-2">
+              {images.map((image) => (
+                <div key={image.id} className="group relative">
+                  <a
+                    href={attachmentUrl(image.id)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="relative block aspect-square w-full"
+                  >
+                    {/* Served as is by the attachment route, which checks who may see it */}
+                    <Image
+                      src={attachmentUrl(image.id)}
+                      alt={image.fileName}
+                      fill
+                      unoptimized
+                      sizes="25vw"
+                      className="rounded-md border object-cover"
+                    />
+                  </a>
+                  <div className="absolute right-1 top-1 hidden rounded bg-background/80 group-hover:block">
+                    {deleteButton(image.id, image.fileName)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          {!!files?.length && (
+            <ul className="space-y-1">
+              {files.map((file) => (
+                <li key={file.id} className="flex items-center justify-between gap-2 text-sm">
+                  <a
+                    href={attachmentUrl(file.id)}
+                    className="flex min-w-0 items-center gap-2 hover:underline"
+                  >
+                    <FileText className="h-4 w-4 shrink-0" />
+                    <span className="truncate">{file.fileName}</span>
+                    <span className="shrink-0 text-xs text-muted-foreground">
+                      {formatFileSize(file.size)}
+                    </span>
+                  </a>
+                  {deleteButton(file.id, file.fileName)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+
+      {usage && (
+        <p className="text-xs text-muted-foreground">
+          {formatFileSize(usage.used)} of {formatFileSize(usage.quota)} used, files up to{" "}
+          {formatFileSize(usage.maxFileSize)}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { useState } from "react";
+import { MessageSquare, Pencil, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { api } from "~/trpc/react";
+import { Button } from "~/components/ui/button";
+import { Textarea } from "~/components/ui/textarea";
+import { Markdown } from "~/app/_components/Markdown";
+
+interface TaskCommentsProps {
+  taskId: string;
+  enabled: boolean;
+}
+
+export function TaskComments({ taskId, enabled }: TaskCommentsProps) {
+  const utils = api.useUtils();
+  const [draft, setDraft] = useState("");
+  const [editing, setEditing] = useState<{ id: string; content: string } | null>(null);
+
+  const { data: comments, isLoading } = api.comment.getByTask.useQuery(
+    { taskId },
+    { enabled },
+  );
+
+  const refresh = () => {
+    void utils.comment.getByTask.invalidate({ taskId });
+    void utils.task.getPendingTodoistChanges.invalidate();
+  };
+
+  const createComment = api.comment.create.useMutation({
+    onSuccess: () => {
+      setDraft("");
+      refresh();
+    },
+    onError: (error) => {
+      toast.error(`Failed to add comment: ${error.message}`);
+    },
+  });
+
+  const updateComment = api.comment.update.useMutation({
+    onSuccess: () => {
+      setEditing(null);
+      refresh();
+    },
+    onError: (error) => {
+      toast.error(`Failed to update comment: ${error.message}`);
+    },
+  });
+
+  const deleteComment = api.comment.delete.useMutation({
+    onSuccess: refresh,
+    onError: (error) => {
+      toast.error(`Failed to delete comment: ${error.message}`);
+    },
+  });
+
+  return (
+    <div className="space-y-3">
+      <h4 className="flex items-center gap-2 text-sm font-medium">
+        <MessageSquare className="h-4 w-4" />
+        Comments
+      </h4>
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading comments...</p>
+      ) : !comments?.length ? (
+        <p className="text-sm text-muted-foreground">No comments yet</p>
+      ) : (
+        <ul className="space-y-3">
+          {comments.map((comment) => (
+            <li key={comment.id} className="space-y-1 rounded-md border p-3">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs text-muted-foreground">
+                  {new Date(comment.createdAt).toLocaleString()}
+                </span>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    aria-label="Edit comment"
+                    onClick={() => setEditing({ id: comment.id, content: comment.content })}
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    aria-label="Delete comment"
+                    onClick={() => {
+                      if (confirm("Delete this comment?")) {
+                        deleteComment.mutate({ id: comment.id });
+                      }
+                    }}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+              {editing?.id === comment.id ? (
+                <div className="space-y-2">
+                  <Textarea
+                    value={editing.content}
+                    onChange={(e) => setEditing({ id: comment.id, content: e.target.value })}
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setEditing(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={!editing.content.trim() || updateComment.isPending}
+                      onClick={() => updateComment.mutate(editing)}
+                    >
+                      Save
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <Markdown source={comment.content} />
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="space-y-2">
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Add a comment, Markdown is supported..."
+        />
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            disabled={!draft.trim() || createComment.isPending}
+            onClick={() => createComment.mutate({ taskId, content: draft })}
+          >
+            Comment
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import { useState } from "react";
+import { Calendar, Folder, History, Tag } from "lucide-react";
+
+import { api } from "~/trpc/react";
+import { describeChanges, getEventTitle } from "~/lib/task-activity";
+import { Badge } from "~/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "~/components/ui/dialog";
+import { TaskComments } from "~/app/_components/task/TaskComments";
+import { TaskAttachments } from "~/app/_components/task/TaskAttachments";
+
+interface TaskDetailDialogProps {
+  task: {
+    id: string;
+    title: string;
+    description: string | null;
+    completed: boolean;
+    dueDate: Date | null;
+    project: { name: string } | null;
+    section: { name: string } | null;
+    labels: { name: string }[];
+  };
+}
+
+export function TaskDetailDialog({ task }: TaskDetailDialogProps) {
+  const [open, setOpen] = useState(false);
+
+  const { data: events, isLoading } = api.task.getActivity.useQuery(
+    { id: task.id },
+    { enabled: open },
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <button
+          type="button"
+          className={`text-left font-medium leading-none hover:underline ${
+            task.completed ? "text-muted-foreground line-through" : ""
+          }`}
+        >
+          {task.title}
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{task.title}</DialogTitle>
+          <DialogDescription>{task.description ?? "No description"}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          {task.project && (
+            <Badge variant="outline" className="text-xs">
+              <Folder className="mr-1 h-3 w-3" />
+              {task.project.name}
+              {task.section && ` / ${task.section.name}`}
+            </Badge>
+          )}
+          {task.dueDate && (
+            <Badge variant="outline" className="text-xs">
+              <Calendar className="mr-1 h-3 w-3" />
+              {new Date(task.dueDate).toLocaleDateString()}
+            </Badge>
+          )}
+          {task.labels.length > 0 && (
+            <Badge variant="outline" className="text-xs">
+              <Tag className="mr-1 h-3 w-3" />
+              {task.labels.map((label) => label.name).join(", ")}
+            </Badge>
+          )}
+        </div>
+
+        <TaskAttachments taskId={task.id} enabled={open} />
+
+        <TaskComments taskId={task.id} enabled={open} />
+
+        <div className="space-y-3">
+          <h4 className="flex items-center gap-2 text-sm font-medium">
+            <History className="h-4 w-4" />
+            Activity
+          </h4>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading activity...</p>
+          ) : !events?.length ? (
+            <p className="text-sm text-muted-foreground">No activity recorded yet</p>
+          ) : (
+            <ol className="space-y-3 border-l pl-4">
+              {events.map((event) => (
+                <li key={event.id} className="space-y-1">
+                  <div className="flex items-baseline justify-between gap-2">
+                    <span className="text-sm font-medium">{getEventTitle(event)}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(event.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                  {describeChanges(event.changes).map((line) => (
+                    <p key={line} className="text-sm text-muted-foreground">
+                      {line}
+                    </p>
+                  ))}
+                  {event.note && <p className="text-sm italic">{event.note}</p>}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
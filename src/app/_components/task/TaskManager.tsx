@@ -1,29 +1,51 @@
 "use client";
 
 import { useState } from "react";
-import { Plus, Settings, RefreshCw, Trash2, Calendar, Tag, Smartphone, FolderPlus, Folder } from "lucide-react";
+import Link from "next/link";
+import {
+  Plus,
+  Settings,
+  RefreshCw,
+  Trash2,
+  Calendar,
+  Tag,
+  Smartphone,
+  FolderPlus,
+  Folder,
+  IndentIncrease,
+  IndentDecrease,
+  ListPlus,
+} from "lucide-react";
 import { toast } from "sonner";
 
 import { api } from "~/trpc/react";
-import { TodoistSettings } from "./TodoistSettings";
+import { SyncConflicts } from "./SyncConflicts";
+import { FailedTodoistChanges } from "./FailedTodoistChanges";
+import { RecurrenceDialog } from "./RecurrenceDialog";
+import { TaskDetailDialog } from "./TaskDetailDialog";
+import { isValidRecurrence } from "~/lib/recurrence";
+import { flattenTaskTree, getSubtaskProgress } from "~/lib/task-tree";
 import { Button } from "~/components/ui/button";
 import { Input } from "~/components/ui/input";
 import { Checkbox } from "~/components/ui/checkbox";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
 import { Badge } from "~/components/ui/badge";
-import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "~/components/ui/dialog";
+import { Progress } from "~/components/ui/progress";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
 import { ThemeToggle } from "~/components/theme-toggle";
 
 export function TaskManager() {
   const [newTaskTitle, setNewTaskTitle] = useState("");
+  const [newTaskDueDate, setNewTaskDueDate] = useState("");
+  const [newTaskRecurrence, setNewTaskRecurrence] = useState("");
   const [syncToTodoist, setSyncToTodoist] = useState(false);
-  const [showSettings, setShowSettings] = useState(false);
   const [selectedProjectId, setSelectedProjectId] = useState<string | undefined>(undefined);
   const [newProjectName, setNewProjectName] = useState("");
   const [syncProjectToTodoist, setSyncProjectToTodoist] = useState(false);
   const [showProjectForm, setShowProjectForm] = useState(false);
   const [filterProjectId, setFilterProjectId] = useState<string>("all");
+  const [subtaskParentId, setSubtaskParentId] = useState<string | null>(null);
+  const [newSubtaskTitle, setNewSubtaskTitle] = useState("");
 
   const utils = api.useUtils();
 
@@ -31,12 +53,18 @@ export function TaskManager() {
   const { data: tasks, isLoading } = api.task.getAll.useQuery();
   const { data: projects, isLoading: projectsLoading } = api.project.getAll.useQuery();
   const { data: todoistStatus } = api.task.getTodoistStatus.useQuery();
+  const { data: pendingChanges } = api.task.getPendingTodoistChanges.useQuery(undefined, {
+    enabled: !!todoistStatus?.connected,
+    refetchInterval: 30 * 1000,
+  });
 
   // Mutations
   const createTask = api.task.create.useMutation({
     onSuccess: () => {
       void utils.task.getAll.invalidate();
       setNewTaskTitle("");
+      setNewTaskDueDate("");
+      setNewTaskRecurrence("");
       toast.success("Task created successfully!");
     },
     onError: (error) => {
@@ -54,10 +82,30 @@ export function TaskManager() {
     },
   });
 
+  const createSubtask = api.task.create.useMutation({
+    onSuccess: () => {
+      void utils.task.getAll.invalidate();
+      setNewSubtaskTitle("");
+      setSubtaskParentId(null);
+    },
+    onError: (error) => {
+      toast.error(`Failed to add subtask: ${error.message}`);
+    },
+  });
+
+  const moveTask = api.task.move.useMutation({
+    onSuccess: () => {
+      void utils.task.getAll.invalidate();
+    },
+    onError: (error) => {
+      toast.error(`Failed to move task: ${error.message}`);
+    },
+  });
+
   const deleteTask = api.task.delete.useMutation({
     onSuccess: () => {
       void utils.task.getAll.invalidate();
-      toast.success("Task deleted!");
+      toast.success("Task moved to the trash");
     },
     onError: (error) => {
       toast.error(`Failed to delete task: ${error.message}`);
@@ -77,15 +125,35 @@ export function TaskManager() {
     },
   });
 
+  const pushTodoistChanges = api.task.pushTodoistChanges.useMutation({
+    onSuccess: (result) => {
+      void utils.task.getPendingTodoistChanges.invalidate();
+      if (result.failed > 0) {
+        toast.error(`Pushed ${result.pushed} changes, ${result.pending} still pending`);
+      } else {
+        toast.success(`Pushed ${result.pushed} changes to Todoist`);
+      }
+    },
+    onError: (error) => {
+      toast.error(`Failed to push changes: ${error.message}`);
+    },
+  });
+
   // Unified sync mutation
   const syncAllFromTodoist = api.task.syncAllFromTodoist.useMutation({
     onSuccess: (result) => {
       void utils.task.getAll.invalidate();
       void utils.project.getAll.invalidate();
+      void utils.task.getPendingTodoistChanges.invalidate();
+      void utils.conflict.getAll.invalidate();
       toast.success(
         `Sync complete! Projects: ${result.projects.imported}/${result.projects.updated}, ` +
         `Sections: ${result.sections.imported}/${result.sections.updated}, ` +
-        `Tasks: ${result.tasks.imported}/${result.tasks.updated} (imported/updated)`
+        `Tasks: ${result.tasks.imported}/${result.tasks.updated} (imported/updated)` +
+        (result.tasks.completed + result.tasks.deleted > 0
+          ? `. Removed in Todoist: ${result.tasks.completed} completed, ${result.tasks.deleted} deleted`
+          : "") +
+        (result.conflicts > 0 ? `. ${result.conflicts} conflicts need your attention` : "")
       );
     },
     onError: (error) => {
@@ -98,6 +166,11 @@ export function TaskManager() {
       toast.error("Please enter a task title");
       return;
     }
+    const recurrence = newTaskRecurrence.trim();
+    if (recurrence && !isValidRecurrence(recurrence)) {
+      toast.error(`"${recurrence}" is not a supported repeat rule`);
+      return;
+    }
 
     createTask.mutate({
       title: newTaskTitle,
@@ -105,6 +178,8 @@ export function TaskManager() {
       priority: 2,
       labels: [],
       projectId: selectedProjectId,
+      dueDate: newTaskDueDate ? new Date(newTaskDueDate) : recurrence ? new Date() : undefined,
+      recurrence: recurrence || undefined,
     });
   };
 
@@ -127,6 +202,43 @@ export function TaskManager() {
     });
   };
 
+  const handleCreateSubtask = (parentId: string) => {
+    if (!newSubtaskTitle.trim()) return;
+
+    createSubtask.mutate({
+      title: newSubtaskTitle,
+      parentId,
+      syncToTodoist,
+      labels: [],
+    });
+  };
+
+  const filteredTasks = tasks?.filter((task) => {
+    if (filterProjectId === "all") return true;
+    if (filterProjectId === "no-project") return !task.projectId;
+    return task.projectId === filterProjectId;
+  });
+  const taskRows = flattenTaskTree(filteredTasks ?? []);
+  const subtaskProgress = getSubtaskProgress(tasks ?? []);
+
+  // Indenting puts a task under the task above it on the same level
+  const handleIndent = (index: number) => {
+    const { task, depth } = taskRows[index]!;
+    const above = taskRows
+      .slice(0, index)
+      .reverse()
+      .find((row) => row.depth <= depth);
+    if (above?.depth !== depth) return;
+
+    moveTask.mutate({ id: task.id, parentId: above.task.id });
+  };
+
+  // Outdenting moves a subtask up to its parent's level
+  const handleOutdent = (taskId: string, parentId: string) => {
+    const parent = tasks?.find((task) => task.id === parentId);
+    moveTask.mutate({ id: taskId, parentId: parent?.parentId ?? null });
+  };
+
   if (isLoading || projectsLoading) {
     return (
       <div className="flex h-32 items-center justify-center">
@@ -158,28 +270,28 @@ export function TaskManager() {
                     Syncing...
                   </Badge>
                 )}
+                {!!pendingChanges?.pending && (
+                  <Badge
+                    variant={pendingChanges.lastError ? "destructive" : "outline"}
+                    className="ml-2 cursor-pointer"
+                    title={pendingChanges.lastError ?? "Click to push now"}
+                    onClick={() => !pushTodoistChanges.isPending && pushTodoistChanges.mutate()}
+                  >
+                    <RefreshCw className={`h-3 w-3 mr-1 ${pushTodoistChanges.isPending ? 'animate-spin' : ''}`} />
+                    {pendingChanges.pending} {pendingChanges.pending === 1 ? "change" : "changes"} pending
+                  </Badge>
+                )}
               </CardDescription>
             </div>
             <div className="flex items-center gap-2">
               <ThemeToggle />
               
-              <Dialog open={showSettings} onOpenChange={setShowSettings}>
-                <DialogTrigger asChild>
-                  <Button variant="outline" size="sm">
-                    <Settings className="h-4 w-4" />
-                    Settings
-                  </Button>
-                </DialogTrigger>
-                <DialogContent>
-                  <DialogHeader>
-                    <DialogTitle>Todoist Settings</DialogTitle>
-                    <DialogDescription>
-                      Configure your Todoist integration
-                    </DialogDescription>
-                  </DialogHeader>
-                  <TodoistSettings />
-                </DialogContent>
-              </Dialog>
+              <Button asChild variant="outline" size="sm">
+                <Link href="/settings">
+                  <Settings className="h-4 w-4" />
+                  Settings
+                </Link>
+              </Button>
               
               {todoistStatus?.connected && (
                 <Button
@@ -197,6 +309,12 @@ export function TaskManager() {
         </CardHeader>
       </Card>
 
+      {/* Sync Conflicts */}
+      {todoistStatus?.connected && <SyncConflicts />}
+
+      {/* Changes that failed to reach Todoist */}
+      {todoistStatus?.connected && <FailedTodoistChanges />}
+
       {/* Project Management */}
       <Card>
         <CardHeader>
@@ -346,6 +464,22 @@ export function TaskManager() {
                 {createTask.isPending ? "Adding..." : "Add Task"}
               </Button>
             </div>
+            <div className="flex gap-3">
+              <Input
+                type="date"
+                value={newTaskDueDate}
+                onChange={(e) => setNewTaskDueDate(e.target.value)}
+                className="w-44"
+                aria-label="Due date"
+              />
+              <Input
+                value={newTaskRecurrence}
+                onChange={(e) => setNewTaskRecurrence(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleCreateTask()}
+                placeholder="Repeat, e.g. every weekday"
+                className="w-64"
+              />
+            </div>
             <div className="flex items-center space-x-2">
               <Checkbox
                 id="sync-todoist"
@@ -398,90 +532,159 @@ export function TaskManager() {
 
       {/* Tasks List */}
       <div className="space-y-3">
-        {tasks?.filter((task) => {
-          if (filterProjectId === "all") return true;
-          if (filterProjectId === "no-project") return !task.projectId;
-          return task.projectId === filterProjectId;
-        }).map((task) => (
-          <Card key={task.id} className="transition-all hover:shadow-md">
-            <CardContent className="pt-6">
-              <div className="flex items-start justify-between">
-                <div className="flex items-start gap-3 flex-1">
-                  <Checkbox
-                    checked={task.completed}
-                    onCheckedChange={() => toggleTaskComplete(task.id, task.completed)}
-                    className="mt-1"
-                  />
-                  <div className="flex-1 space-y-2">
-                    <h3 className={`font-medium leading-none ${
-                      task.completed ? "text-muted-foreground line-through" : ""
-                    }`}>
-                      {task.title}
-                    </h3>
-                    {task.description && (
-                      <p className="text-sm text-muted-foreground">
-                        {task.description}
-                      </p>
-                    )}
-                    <div className="flex flex-wrap gap-2">
-                      {task.project && (
-                        <Badge variant="outline" className="text-xs">
-                          <Folder className="h-3 w-3 mr-1" />
-                          {task.project.name}
-                        </Badge>
-                      )}
-                      {task.section && (
-                        <Badge variant="outline" className="text-xs">
-                          📂 {task.section.name}
-                        </Badge>
-                      )}
-                      {task.todoistId && (
-                        <Badge variant="outline" className="text-xs">
-                          <Smartphone className="h-3 w-3 mr-1" />
-                          Synced
-                        </Badge>
-                      )}
-                      {task.dueDate && (
-                        <Badge variant="outline" className="text-xs">
-                          <Calendar className="h-3 w-3 mr-1" />
-                          {new Date(task.dueDate).toLocaleDateString()}
-                        </Badge>
+        {taskRows.map(({ task, depth }, index) => {
+          const progress = subtaskProgress.get(task.id);
+          return (
+            <Card
+              key={task.id}
+              className="transition-all hover:shadow-md"
+              style={{ marginLeft: depth * 24 }}
+            >
+              <CardContent className="pt-6">
+                <div className="flex items-start justify-between">
+                  <div className="flex items-start gap-3 flex-1">
+                    <Checkbox
+                      checked={task.completed}
+                      onCheckedChange={() => toggleTaskComplete(task.id, task.completed)}
+                      className="mt-1"
+                    />
+                    <div className="flex-1 space-y-2">
+                      <h3>
+                        <TaskDetailDialog task={task} />
+                      </h3>
+                      {task.description && (
+                        <p className="text-sm text-muted-foreground">
+                          {task.description}
+                        </p>
                       )}
-                      {task.labels && task.labels.length > 0 && (
-                        <Badge variant="outline" className="text-xs">
-                          <Tag className="h-3 w-3 mr-1" />
-                          {task.labels.map((label) => label.name).join(", ")}
-                        </Badge>
+                      <div className="flex flex-wrap gap-2">
+                        {task.project && (
+                          <Badge variant="outline" className="text-xs">
+                            <Folder className="h-3 w-3 mr-1" />
+                            {task.project.name}
+                          </Badge>
+                        )}
+                        {task.section && (
+                          <Badge variant="outline" className="text-xs">
+                            📂 {task.section.name}
+                          </Badge>
+                        )}
+                        {task.todoistId && (
+                          <Badge variant="outline" className="text-xs">
+                            <Smartphone className="h-3 w-3 mr-1" />
+                            Synced
+                          </Badge>
+                        )}
+                        {task.dueDate && (
+                          <Badge variant="outline" className="text-xs">
+                            <Calendar className="h-3 w-3 mr-1" />
+                            {new Date(task.dueDate).toLocaleDateString()}
+                          </Badge>
+                        )}
+                        {task.recurrence && (
+                          <RecurrenceDialog
+                            taskId={task.id}
+                            recurrence={task.recurrence}
+                            dueDate={task.dueDate}
+                          />
+                        )}
+                        {task.labels && task.labels.length > 0 && (
+                          <Badge variant="outline" className="text-xs">
+                            <Tag className="h-3 w-3 mr-1" />
+                            {task.labels.map((label) => label.name).join(", ")}
+                          </Badge>
+                        )}
+                        {task.priority > 1 && (
+                          <Badge variant="secondary" className="text-xs">
+                            P{task.priority}
+                          </Badge>
+                        )}
+                        {progress && (
+                          <Badge variant="outline" className="text-xs">
+                            {progress.completed}/{progress.total} subtasks
+                          </Badge>
+                        )}
+                      </div>
+                      {progress && (
+                        <Progress value={(progress.completed / progress.total) * 100} className="h-1" />
                       )}
-                      {task.priority > 1 && (
-                        <Badge variant="secondary" className="text-xs">
-                          P{task.priority}
-                        </Badge>
+                      {subtaskParentId === task.id && (
+                        <div className="flex gap-2">
+                          <Input
+                            value={newSubtaskTitle}
+                            onChange={(e) => setNewSubtaskTitle(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") handleCreateSubtask(task.id);
+                              if (e.key === "Escape") setSubtaskParentId(null);
+                            }}
+                            placeholder="Subtask title"
+                            className="h-8"
+                            autoFocus
+                          />
+                          <Button
+                            onClick={() => handleCreateSubtask(task.id)}
+                            disabled={createSubtask.isPending}
+                            size="sm"
+                          >
+                            Add
+                          </Button>
+                        </div>
                       )}
                     </div>
                   </div>
+                  <div className="flex items-center">
+                    {!task.completed && (
+                      <Button
+                        onClick={() => setSubtaskParentId(subtaskParentId === task.id ? null : task.id)}
+                        variant="ghost"
+                        size="sm"
+                        title="Add subtask"
+                      >
+                        <ListPlus className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {task.parentId && (
+                      <Button
+                        onClick={() => handleOutdent(task.id, task.parentId!)}
+                        disabled={moveTask.isPending}
+                        variant="ghost"
+                        size="sm"
+                        title="Outdent"
+                      >
+                        <IndentDecrease className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      onClick={() => handleIndent(index)}
+                      disabled={moveTask.isPending}
+                      variant="ghost"
+                      size="sm"
+                      title="Indent"
+                    >
+                      <IndentIncrease className="h-4 w-4" />
+                    </Button>
+                    {!task.recurrence && !task.completed && (
+                      <RecurrenceDialog taskId={task.id} recurrence={null} dueDate={task.dueDate} />
+                    )}
+                    <Button
+                      onClick={() => deleteTask.mutate({ id: task.id })}
+                      disabled={deleteTask.isPending}
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
                 </div>
-                <Button
-                  onClick={() => deleteTask.mutate({ id: task.id })}
-                  disabled={deleteTask.isPending}
-                  variant="ghost"
-                  size="sm"
-                  className="text-destructive hover:text-destructive"
-                >
-                  <Trash2 className="h-4 w-4" />
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
-        ))}
+              </CardContent>
+            </Card>
+          );
+        })}
       </div>
 
       {/* Empty State */}
-      {tasks?.filter((task) => {
-        if (filterProjectId === "all") return true;
-        if (filterProjectId === "no-project") return !task.projectId;
-        return task.projectId === filterProjectId;
-      }).length === 0 && tasks && tasks.length > 0 && (
+      {filteredTasks?.length === 0 && tasks && tasks.length > 0 && (
         <Card>
           <CardContent className="pt-6">
             <div className="text-center py-8">
@@ -3,12 +3,27 @@
 import { useState } from "react";
 import { Eye, EyeOff, Link, Unlink, AlertCircle, CheckCircle } from "lucide-react";
 import { toast } from "sonner";
+import { TodoistConflictStrategy, TodoistRemovalPolicy } from "@prisma/client";
 
 import { api } from "~/trpc/react";
+import { SyncPreviewDialog } from "./SyncPreviewDialog";
 import { Button } from "~/components/ui/button";
 import { Input } from "~/components/ui/input";
 import { Label } from "~/components/ui/label";
 import { Badge } from "~/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "~/components/ui/select";
+
+const REMOVAL_POLICIES = [
+  { value: TodoistRemovalPolicy.COMPLETE, label: "Mark as completed" },
+  { value: TodoistRemovalPolicy.DELETE, label: "Delete locally" },
+];
+
+const CONFLICT_STRATEGIES = [
+  { value: TodoistConflictStrategy.REMOTE, label: "Todoist wins" },
+  { value: TodoistConflictStrategy.LOCAL, label: "This app wins" },
+  { value: TodoistConflictStrategy.NEWEST, label: "Most recent edit wins" },
+  { value: TodoistConflictStrategy.ASK, label: "Ask me" },
+];
 
 export function TodoistSettings() {
   const [apiToken, setApiToken] = useState("");
@@ -28,6 +43,26 @@ export function TodoistSettings() {
     },
   });
 
+  const updateRemovalPolicy = api.task.updateTodoistRemovalPolicy.useMutation({
+    onSuccess: () => {
+      void utils.task.getTodoistStatus.invalidate();
+      toast.success("Sync policy updated");
+    },
+    onError: (error) => {
+      toast.error(`Failed to update sync policy: ${error.message}`);
+    },
+  });
+
+  const updateConflictStrategy = api.task.updateTodoistConflictStrategy.useMutation({
+    onSuccess: () => {
+      void utils.task.getTodoistStatus.invalidate();
+      toast.success("Sync policy updated");
+    },
+    onError: (error) => {
+      toast.error(`Failed to update sync policy: ${error.message}`);
+    },
+  });
+
   const handleUpdateToken = () => {
     updateToken.mutate({ token: apiToken || undefined });
   };
@@ -54,6 +89,13 @@ export function TodoistSettings() {
             Not connected
           </Badge>
         )}
+        {todoistStatus?.connected && (
+          <span className="text-sm text-muted-foreground">
+            {todoistStatus.lastSyncAt
+              ? `Last synced ${new Date(todoistStatus.lastSyncAt).toLocaleString()}`
+              : "Not synced yet"}
+          </span>
+        )}
       </div>
 
       {/* API Token Input */}
@@ -121,8 +163,66 @@ export function TodoistSettings() {
             Disconnect
           </Button>
         )}
+
+        {todoistStatus?.connected && <SyncPreviewDialog />}
       </div>
 
+      {/* Removal Policy */}
+      {todoistStatus?.connected && (
+        <div className="space-y-2">
+          <Label htmlFor="removal-policy">When a task is deleted or completed in Todoist</Label>
+          <Select
+            value={todoistStatus.removalPolicy}
+            onValueChange={(policy) =>
+              updateRemovalPolicy.mutate({ policy: policy as TodoistRemovalPolicy })
+            }
+            disabled={updateRemovalPolicy.isPending}
+          >
+            <SelectTrigger id="removal-policy">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {REMOVAL_POLICIES.map((policy) => (
+                <SelectItem key={policy.value} value={policy.value}>
+                  {policy.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground">
+            Also applies to projects. Sections removed in Todoist are always removed here.
+          </p>
+        </div>
+      )}
+
+      {/* Conflict Strategy */}
+      {todoistStatus?.connected && (
+        <div className="space-y-2">
+          <Label htmlFor="conflict-strategy">When a task was edited in both places</Label>
+          <Select
+            value={todoistStatus.conflictStrategy}
+            onValueChange={(strategy) =>
+              updateConflictStrategy.mutate({ strategy: strategy as TodoistConflictStrategy })
+            }
+            disabled={updateConflictStrategy.isPending}
+          >
+            <SelectTrigger id="conflict-strategy">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CONFLICT_STRATEGIES.map((strategy) => (
+                <SelectItem key={strategy.value} value={strategy.value}>
+                  {strategy.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground">
+            Compared field by field. Fields changed on one side only are always kept.
+          </p>
+        </div>
+      )}
+
       {/* Information Panel */}
       {todoistStatus?.connected && (
         <div className="rounded-lg border bg-muted/50 p-4">
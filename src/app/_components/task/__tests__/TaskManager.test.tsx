@@ -22,6 +22,18 @@ vi.mock("lucide-react", () => ({
   Smartphone: () => <div data-testid="smartphone-icon" />,
   FolderPlus: () => <div data-testid="folder-plus-icon" />,
   Folder: () => <div data-testid="folder-icon" />,
+  IndentIncrease: () => <div data-testid="indent-icon" />,
+  IndentDecrease: () => <div data-testid="outdent-icon" />,
+  ListPlus: () => <div data-testid="list-plus-icon" />,
+  History: () => <div data-testid="history-icon" />,
+  MessageSquare: () => <div data-testid="message-icon" />,
+  Pencil: () => <div data-testid="pencil-icon" />,
+  Paperclip: () => <div data-testid="paperclip-icon" />,
+  FileText: () => <div data-testid="file-icon" />,
+  Upload: () => <div data-testid="upload-icon" />,
+  Sun: () => <div data-testid="sun-icon" />,
+  Moon: () => <div data-testid="moon-icon" />,
+  Repeat: () => <div data-testid="repeat-icon" />,
 }));
 
 // Mock shadcn UI components
@@ -95,6 +107,9 @@ vi.mock("~/components/ui/dialog", () => ({
   DialogDescription: ({ children }: any) => (
     <div data-testid="dialog-description">{children}</div>
   ),
+  DialogFooter: ({ children }: any) => (
+    <div data-testid="dialog-footer">{children}</div>
+  ),
   DialogHeader: ({ children }: any) => (
     <div data-testid="dialog-header">{children}</div>
   ),
@@ -140,6 +155,9 @@ vi.mock("~/trpc/react", () => ({
       getTodoistStatus: {
         useQuery: vi.fn(),
       },
+      getActivity: {
+        useQuery: vi.fn(() => ({ data: [], isLoading: false })),
+      },
       create: {
         useMutation: vi.fn(),
       },
@@ -149,12 +167,46 @@ vi.mock("~/trpc/react", () => ({
       delete: {
         useMutation: vi.fn(),
       },
+      move: {
+        useMutation: vi.fn(),
+      },
       syncFromTodoist: {
         useMutation: vi.fn(),
       },
       syncAllFromTodoist: {
         useMutation: vi.fn(),
       },
+      getPendingTodoistChanges: {
+        useQuery: vi.fn(),
+      },
+      pushTodoistChanges: {
+        useMutation: vi.fn(),
+      },
+    },
+    attachment: {
+      getByTask: {
+        useQuery: vi.fn(() => ({ data: [], isLoading: false })),
+      },
+      getUsage: {
+        useQuery: vi.fn(() => ({ data: undefined })),
+      },
+      delete: {
+        useMutation: vi.fn(() => ({ mutate: vi.fn() })),
+      },
+    },
+    comment: {
+      getByTask: {
+        useQuery: vi.fn(() => ({ data: [], isLoading: false })),
+      },
+      create: {
+        useMutation: vi.fn(() => ({ mutate: vi.fn() })),
+      },
+      update: {
+        useMutation: vi.fn(() => ({ mutate: vi.fn() })),
+      },
+      delete: {
+        useMutation: vi.fn(() => ({ mutate: vi.fn() })),
+      },
     },
     project: {
       getAll: {
@@ -182,11 +234,14 @@ vi.mock("~/trpc/react", () => ({
   },
 }));
 
-// Mock TodoistSettings component
-vi.mock("../TodoistSettings", () => ({
-  TodoistSettings: () => (
-    <div data-testid="todoist-settings">Todoist Settings</div>
-  ),
+// Mock SyncConflicts component
+vi.mock("../SyncConflicts", () => ({
+  SyncConflicts: () => null,
+}));
+
+// Mock FailedTodoistChanges component
+vi.mock("../FailedTodoistChanges", () => ({
+  FailedTodoistChanges: () => null,
 }));
 
 describe("TaskManager", () => {
@@ -315,12 +370,23 @@ describe("TaskManager", () => {
     (api.task.create.useMutation as any).mockReturnValue(mockCreateMutation);
     (api.task.update.useMutation as any).mockReturnValue(mockUpdateMutation);
     (api.task.delete.useMutation as any).mockReturnValue(mockDeleteMutation);
+    (api.task.move.useMutation as any).mockReturnValue({
+      mutate: vi.fn(),
+      isPending: false,
+    });
     (api.task.syncFromTodoist.useMutation as any).mockReturnValue(
       mockSyncMutation,
     );
     (api.task.syncAllFromTodoist.useMutation as any).mockReturnValue(
       mockSyncAllMutation,
     );
+    (api.task.getPendingTodoistChanges.useQuery as any).mockReturnValue({
+      data: { pending: 0, lastError: null, nextAttemptAt: null },
+    });
+    (api.task.pushTodoistChanges.useMutation as any).mockReturnValue({
+      mutate: vi.fn(),
+      isPending: false,
+    });
     
     // Setup project mocks
     (api.project.getAll.useQuery as any).mockReturnValue({
@@ -519,9 +585,9 @@ describe("TaskManager", () => {
   });
 
   describe("Settings", () => {
-    it.skip("should toggle settings visibility", () => {
-      // Skipping this test as dialog behavior is complex to mock properly
-      // The functionality works in the actual application
+    it("should link to the settings page", () => {
+      render(<TaskManager />);
+      expect(screen.getByRole("link", { name: /settings/i })).toHaveAttribute("href", "/settings");
     });
   });
 
@@ -14,10 +14,21 @@ vi.mock("~/trpc/react", () => ({
       updateTodoistToken: {
         useMutation: vi.fn(),
       },
+      updateTodoistRemovalPolicy: {
+        useMutation: vi.fn(),
+      },
+      updateTodoistConflictStrategy: {
+        useMutation: vi.fn(),
+      },
     },
   },
 }));
 
+// Mock SyncPreviewDialog component
+vi.mock("../SyncPreviewDialog", () => ({
+  SyncPreviewDialog: () => <button>Preview Sync</button>,
+}));
+
 // Mock window.alert and window.confirm
 global.alert = vi.fn();
 global.confirm = vi.fn();
@@ -42,6 +53,14 @@ describe("TodoistSettings", () => {
     vi.mocked(api.task.updateTodoistToken.useMutation).mockReturnValue(
       mockUpdateToken as any,
     );
+    vi.mocked(api.task.updateTodoistRemovalPolicy.useMutation).mockReturnValue({
+      mutate: vi.fn(),
+      isPending: false,
+    } as any);
+    vi.mocked(api.task.updateTodoistConflictStrategy.useMutation).mockReturnValue({
+      mutate: vi.fn(),
+      isPending: false,
+    } as any);
   });
 
   describe("when not connected to Todoist", () => {
@@ -84,10 +103,18 @@ describe("TodoistSettings", () => {
   describe("when connected to Todoist", () => {
     beforeEach(() => {
       vi.mocked(api.task.getTodoistStatus.useQuery).mockReturnValue({
-        data: { connected: true },
+        data: { connected: true, removalPolicy: "COMPLETE", conflictStrategy: "REMOTE" },
       } as any);
     });
 
+    it("shows the removal policy selector when connected", () => {
+      render(<TodoistSettings />);
+
+      expect(
+        screen.getByLabelText("When a task is deleted or completed in Todoist"),
+      ).toBeInTheDocument();
+    });
+
     it("renders the settings panel with connected status", () => {
       render(<TodoistSettings />);
 
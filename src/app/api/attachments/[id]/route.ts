@@ -0,0 +1,40 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { auth } from "~/server/auth";
+import { db } from "~/server/db";
+import { isImageAttachment } from "~/lib/attachments";
+import { createAttachmentStorage } from "~/server/services/attachment-storage";
+
+/**
+ * Download one of the user's attachments. Images and PDFs open in the browser, anything else is
+ * downloaded; the sandbox keeps uploaded files from running scripts on this origin.
+ */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const attachment = await db.attachment.findFirst({
+    where: { id, userId: session.user.id },
+  });
+  const data = attachment && (await createAttachmentStorage().get(attachment.storageKey));
+  if (!attachment || !data) {
+    return NextResponse.json({ error: "Attachment not found" }, { status: 404 });
+  }
+
+  const inline =
+    isImageAttachment(attachment.contentType) || attachment.contentType === "application/pdf";
+  const fileName = encodeURIComponent(attachment.fileName);
+  return new NextResponse(data, {
+    headers: {
+      "Content-Type": attachment.contentType,
+      "Content-Length": String(data.byteLength),
+      "Content-Disposition": `${inline ? "inline" : "attachment"}; filename*=UTF-8''${fileName}`,
+      "Content-Security-Policy": "sandbox",
+      "X-Content-Type-Options": "nosniff",
+      "Cache-Control": "private, max-age=86400",
+    },
+  });
+}
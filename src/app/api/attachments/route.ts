@@ -0,0 +1,67 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { formatFileSize } from "~/lib/attachments";
+import { auth } from "~/server/auth";
+import { db } from "~/server/db";
+import { createAttachmentStorage } from "~/server/services/attachment-storage";
+import {
+  AttachmentError,
+  getAttachmentLimits,
+  saveAttachment,
+} from "~/server/services/attachments";
+
+// Room for the multipart boundaries and the other form fields around the file
+const FORM_OVERHEAD = 64 * 1024;
+
+const formValue = (form: FormData, name: string) => {
+  const value = form.get(name);
+  return typeof value === "string" && value ? value : null;
+};
+
+/**
+ * Upload a file to a task or project as multipart form data with a `file` field and either a
+ * `taskId` or a `projectId`. Answers with the attachment record.
+ */
+export async function POST(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // Refuse oversized uploads before reading them into memory
+  const limits = getAttachmentLimits();
+  const tooLarge = () =>
+    NextResponse.json(
+      { error: `Files can be at most ${formatFileSize(limits.maxFileSize)}` },
+      { status: 413 },
+    );
+  const contentLength = Number(req.headers.get("content-length"));
+  if (contentLength > limits.maxFileSize + FORM_OVERHEAD) {
+    return tooLarge();
+  }
+
+  const form = await req.formData().catch(() => null);
+  const file = form?.get("file");
+  if (!form || !(file instanceof File)) {
+    return NextResponse.json({ error: "No file uploaded" }, { status: 400 });
+  }
+  if (file.size > limits.maxFileSize) {
+    return tooLarge();
+  }
+
+  try {
+    const attachment = await saveAttachment(db, createAttachmentStorage(), session.user.id, {
+      fileName: file.name,
+      contentType: file.type,
+      data: new Uint8Array(await file.arrayBuffer()),
+      taskId: formValue(form, "taskId"),
+      projectId: formValue(form, "projectId"),
+    });
+    return NextResponse.json(attachment, { status: 201 });
+  } catch (error) {
+    if (error instanceof AttachmentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,24 @@
+import { EngageMode } from "~/app/_components/gtd/EngageMode";
+import { DashboardLayout } from "~/app/_components/DashboardLayout";
+import { auth } from "~/server/auth";
+import { redirect } from "next/navigation";
+
+export default async function EngagePage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/api/auth/signin");
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold tracking-tight">Engage</h1>
+        <p className="mt-2 text-muted-foreground">
+          What should you do now? The next action that fits best, and why
+        </p>
+      </div>
+      <EngageMode />
+    </DashboardLayout>
+  );
+}
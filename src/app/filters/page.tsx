@@ -0,0 +1,25 @@
+import { FilterManager } from "~/app/_components/gtd/FilterManager";
+import { DashboardLayout } from "~/app/_components/DashboardLayout";
+import { auth } from "~/server/auth";
+import { redirect } from "next/navigation";
+
+export default async function FiltersPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ id?: string }>;
+}) {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/api/auth/signin");
+  }
+
+  const { id } = await searchParams;
+
+  return (
+    <DashboardLayout>
+      <h1 className="mb-8 text-3xl font-bold">Filters</h1>
+      <FilterManager initialFilterId={id} />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,19 @@
+import { LabelManager } from "~/app/_components/gtd/LabelManager";
+import { DashboardLayout } from "~/app/_components/DashboardLayout";
+import { auth } from "~/server/auth";
+import { redirect } from "next/navigation";
+
+export default async function LabelsPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/api/auth/signin");
+  }
+
+  return (
+    <DashboardLayout>
+      <h1 className="mb-8 text-3xl font-bold">Labels</h1>
+      <LabelManager />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,24 @@
+import { PeopleList } from "~/app/_components/gtd/PeopleList";
+import { DashboardLayout } from "~/app/_components/DashboardLayout";
+import { auth } from "~/server/auth";
+import { redirect } from "next/navigation";
+
+export default async function PeoplePage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/api/auth/signin");
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold tracking-tight">People</h1>
+        <p className="mt-2 text-muted-foreground">
+          An agenda for everyone: what you wait on them for and what to raise with them
+        </p>
+      </div>
+      <PeopleList />
+    </DashboardLayout>
+  );
+}
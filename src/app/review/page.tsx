@@ -0,0 +1,24 @@
+import { WeeklyReview } from "~/app/_components/gtd/WeeklyReview";
+import { DashboardLayout } from "~/app/_components/DashboardLayout";
+import { auth } from "~/server/auth";
+import { redirect } from "next/navigation";
+
+export default async function WeeklyReviewPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/api/auth/signin");
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold tracking-tight">Weekly Review</h1>
+        <p className="mt-2 text-muted-foreground">
+          Get clear, get current, and get creative with a guided review of your system
+        </p>
+      </div>
+      <WeeklyReview />
+    </DashboardLayout>
+  );
+}
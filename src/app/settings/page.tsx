@@ -0,0 +1,86 @@
+import { DashboardLayout } from "~/app/_components/DashboardLayout";
+import { TodoistSettings } from "~/app/_components/task/TodoistSettings";
+import { ProfileSettings } from "~/app/_components/settings/ProfileSettings";
+import { GtdSettings } from "~/app/_components/settings/GtdSettings";
+import { ContextSettings } from "~/app/_components/settings/ContextSettings";
+import { AppearanceSettings } from "~/app/_components/settings/AppearanceSettings";
+import { DangerZone } from "~/app/_components/settings/DangerZone";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { auth } from "~/server/auth";
+import { redirect } from "next/navigation";
+
+export default async function SettingsPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/api/auth/signin");
+  }
+
+  return (
+    <DashboardLayout>
+      <h1 className="mb-8 text-3xl font-bold">Settings</h1>
+      <div className="mx-auto max-w-3xl space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Profile</CardTitle>
+            <CardDescription>How you appear in the app</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ProfileSettings />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Todoist</CardTitle>
+            <CardDescription>Connect your Todoist account and choose how syncing behaves</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TodoistSettings />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>GTD</CardTitle>
+            <CardDescription>Defaults used when processing the inbox</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <GtdSettings />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Contexts</CardTitle>
+            <CardDescription>
+              Where, with what or with whom your next actions can be done, and when
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ContextSettings />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Appearance</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <AppearanceSettings />
+          </CardContent>
+        </Card>
+
+        <Card className="border-destructive/50">
+          <CardHeader>
+            <CardTitle className="text-destructive">Danger zone</CardTitle>
+            <CardDescription>These actions cannot be undone</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <DangerZone />
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,24 @@
+import { TicklerList } from "~/app/_components/gtd/TicklerList";
+import { DashboardLayout } from "~/app/_components/DashboardLayout";
+import { auth } from "~/server/auth";
+import { redirect } from "next/navigation";
+
+export default async function TicklerPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/api/auth/signin");
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold tracking-tight">Tickler</h1>
+        <p className="mt-2 text-muted-foreground">
+          Deferred items by day. Each one comes back to your inbox on its date
+        </p>
+      </div>
+      <TicklerList />
+    </DashboardLayout>
+  );
+}
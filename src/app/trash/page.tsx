@@ -0,0 +1,22 @@
+import { TrashList } from "~/app/_components/gtd/TrashList";
+import { DashboardLayout } from "~/app/_components/DashboardLayout";
+import { auth } from "~/server/auth";
+import { redirect } from "next/navigation";
+
+export default async function TrashPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect("/api/auth/signin");
+  }
+
+  return (
+    <DashboardLayout>
+      <h1 className="mb-2 text-3xl font-bold">Trash</h1>
+      <p className="mb-8 text-muted-foreground">
+        Deleted tasks, sections and projects. Restore them or delete them forever.
+      </p>
+      <TrashList />
+    </DashboardLayout>
+  );
+}
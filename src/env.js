@@ -19,6 +19,10 @@ export const env = createEnv({
       .default("development"),
     TODOIST_API_KEY: z.string().optional(),
     TODOIST_TOKEN: z.string().optional(),
+    ATTACHMENT_STORAGE: z.enum(["local"]).default("local"),
+    ATTACHMENT_DIR: z.string().default("./uploads"),
+    ATTACHMENT_MAX_SIZE_MB: z.coerce.number().positive().default(10),
+    ATTACHMENT_QUOTA_MB: z.coerce.number().positive().default(100),
   },
 
   /**
@@ -42,6 +46,10 @@ export const env = createEnv({
     NODE_ENV: process.env.NODE_ENV,
     TODOIST_API_KEY: process.env.TODOIST_API_KEY || process.env.TODOIST_TOKEN,
     TODOIST_TOKEN: process.env.TODOIST_TOKEN,
+    ATTACHMENT_STORAGE: process.env.ATTACHMENT_STORAGE,
+    ATTACHMENT_DIR: process.env.ATTACHMENT_DIR,
+    ATTACHMENT_MAX_SIZE_MB: process.env.ATTACHMENT_MAX_SIZE_MB,
+    ATTACHMENT_QUOTA_MB: process.env.ATTACHMENT_QUOTA_MB,
   },
   /**
    * Run `build` or `dev` with `SKIP_ENV_VALIDATION` to skip env validation. This is especially
@@ -0,0 +1,23 @@
+export async function register() {
+  // The background workers need Prisma, which only runs in the Node.js runtime
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { db } = await import("~/server/db");
+    const { migrateAllLegacyLabels } = await import("~/server/services/labels");
+    const { migrateAllLegacyContexts } = await import("~/server/services/contexts");
+    // Labels from before they were per user are split up, and free text contexts turned into
+    // records, before anything reads them
+    await migrateAllLegacyLabels(db).catch((error) =>
+      console.error("Failed to migrate shared labels:", error),
+    );
+    await migrateAllLegacyContexts(db).catch((error) =>
+      console.error("Failed to migrate contexts:", error),
+    );
+
+    const { startTodoistOutboxWorker } = await import("~/server/services/todoist-outbox");
+    const { startTrashWorker } = await import("~/server/services/trash");
+    const { startTicklerWorker } = await import("~/server/services/tickler");
+    startTodoistOutboxWorker(db);
+    startTrashWorker(db);
+    startTicklerWorker(db);
+  }
+}
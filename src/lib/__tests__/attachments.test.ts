@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { formatFileSize, isAllowedAttachmentType, isImageAttachment } from "../attachments";
+
+describe("isAllowedAttachmentType", () => {
+  it("should allow documents and images but not scripts", () => {
+    expect(isAllowedAttachmentType("application/pdf")).toBe(true);
+    expect(isAllowedAttachmentType("image/png")).toBe(true);
+    expect(isAllowedAttachmentType("image/svg+xml")).toBe(false);
+    expect(isAllowedAttachmentType("text/html")).toBe(false);
+  });
+});
+
+describe("isImageAttachment", () => {
+  it("should only treat pictures as images", () => {
+    expect(isImageAttachment("image/webp")).toBe(true);
+    expect(isImageAttachment("application/pdf")).toBe(false);
+  });
+});
+
+describe("formatFileSize", () => {
+  it("should pick the largest fitting unit", () => {
+    expect(formatFileSize(512)).toBe("512 B");
+    expect(formatFileSize(1536)).toBe("1.5 KB");
+    expect(formatFileSize(10 * 1024 * 1024)).toBe("10 MB");
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import {
+  contextLabel,
+  isContextAvailable,
+  normalizeContext,
+  normalizeContexts,
+} from "../contexts";
+
+describe("normalizeContext", () => {
+  it("should add the @ and join words with dashes", () => {
+    expect(normalizeContext("Deep  Work")).toBe("@deep-work");
+    expect(normalizeContext("@@Phone")).toBe("@phone");
+  });
+
+  it("should reject empty names", () => {
+    expect(normalizeContext("  @ ")).toBeNull();
+  });
+});
+
+describe("normalizeContexts", () => {
+  it("should drop empty names and duplicates", () => {
+    expect(normalizeContexts(["@home", "Home", "", "car"])).toEqual(["@home", "@car"]);
+  });
+});
+
+describe("contextLabel", () => {
+  it("should read like a name", () => {
+    expect(contextLabel("@deep-work")).toBe("Deep work");
+  });
+});
+
+describe("isContextAvailable", () => {
+  const at = (time: string) => new Date(`2024-01-15T${time}:00`);
+
+  it("should always be available without hours", () => {
+    expect(isContextAvailable({ availableFrom: null, availableUntil: null }, at("03:00"))).toBe(true);
+  });
+
+  it("should check the window", () => {
+    const office = { availableFrom: "09:00", availableUntil: "17:30" };
+    expect(isContextAvailable(office, at("09:00"))).toBe(true);
+    expect(isContextAvailable(office, at("17:30"))).toBe(false);
+    expect(isContextAvailable(office, at("08:59"))).toBe(false);
+  });
+
+  it("should handle windows running overnight", () => {
+    const night = { availableFrom: "22:00", availableUntil: "06:00" };
+    expect(isContextAvailable(night, at("23:15"))).toBe(true);
+    expect(isContextAvailable(night, at("05:59"))).toBe(true);
+    expect(isContextAvailable(night, at("12:00"))).toBe(false);
+  });
+
+  it("should treat a missing end as open until midnight", () => {
+    expect(isContextAvailable({ availableFrom: "18:00", availableUntil: null }, at("23:59"))).toBe(
+      true,
+    );
+    expect(isContextAvailable({ availableFrom: "18:00", availableUntil: null }, at("17:00"))).toBe(
+      false,
+    );
+  });
+});
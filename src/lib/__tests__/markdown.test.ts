@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { parseInline, parseMarkdown } from "../markdown";
+
+describe("parseInline", () => {
+  it("should parse bold, italics and code", () => {
+    expect(parseInline("Ask **Bob** about *the* `fence`")).toEqual([
+      { type: "text", text: "Ask " },
+      { type: "strong", children: [{ type: "text", text: "Bob" }] },
+      { type: "text", text: " about " },
+      { type: "em", children: [{ type: "text", text: "the" }] },
+      { type: "text", text: " " },
+      { type: "code", text: "fence" },
+    ]);
+  });
+
+  it("should link labelled and bare URLs", () => {
+    expect(parseInline("[Quote](https://example.com/q) or https://example.com")).toEqual([
+      { type: "link", href: "https://example.com/q", children: [{ type: "text", text: "Quote" }] },
+      { type: "text", text: " or " },
+      {
+        type: "link",
+        href: "https://example.com",
+        children: [{ type: "text", text: "https://example.com" }],
+      },
+    ]);
+  });
+
+  it("should show links with unsafe targets as text", () => {
+    expect(parseInline("[click](javascript:alert(1))")).toEqual([
+      { type: "text", text: "click" },
+      { type: "text", text: ")" },
+    ]);
+  });
+
+  it("should leave markup inside code alone", () => {
+    expect(parseInline("`**not bold**`")).toEqual([{ type: "code", text: "**not bold**" }]);
+  });
+});
+
+describe("parseMarkdown", () => {
+  it("should split paragraphs on blank lines and keep line breaks", () => {
+    expect(parseMarkdown("Called Bob\nNo answer\n\nTry again Monday")).toEqual([
+      {
+        type: "paragraph",
+        children: [
+          { type: "text", text: "Called Bob" },
+          { type: "break" },
+          { type: "text", text: "No answer" },
+        ],
+      },
+      { type: "paragraph", children: [{ type: "text", text: "Try again Monday" }] },
+    ]);
+  });
+
+  it("should parse headings, lists and quotes", () => {
+    expect(parseMarkdown("## Options\n- Paint\n- Replace\n1. Ask\n2. Decide\n> Cheaper")).toEqual([
+      { type: "heading", level: 2, children: [{ type: "text", text: "Options" }] },
+      {
+        type: "list",
+        ordered: false,
+        items: [[{ type: "text", text: "Paint" }], [{ type: "text", text: "Replace" }]],
+      },
+      {
+        type: "list",
+        ordered: true,
+        items: [[{ type: "text", text: "Ask" }], [{ type: "text", text: "Decide" }]],
+      },
+      { type: "quote", children: [{ type: "text", text: "Cheaper" }] },
+    ]);
+  });
+
+  it("should keep code blocks verbatim", () => {
+    expect(parseMarkdown("```\n# not a heading\n  *x*\n```\nAfter")).toEqual([
+      { type: "code", text: "# not a heading\n  *x*" },
+      { type: "paragraph", children: [{ type: "text", text: "After" }] },
+    ]);
+  });
+});
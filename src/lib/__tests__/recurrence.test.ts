@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { getNextOccurrence, parseRecurrence } from "../recurrence";
+
+const next = (rule: string, dueDate: string | null, completedAt: string) =>
+  getNextOccurrence(parseRecurrence(rule)!, {
+    dueDate: dueDate ? new Date(dueDate) : null,
+    completedAt: new Date(completedAt),
+  })
+    .toISOString()
+    .split("T")[0];
+
+describe("parseRecurrence", () => {
+  it("should parse intervals", () => {
+    expect(parseRecurrence("every day")).toEqual({
+      interval: 1,
+      unit: "day",
+      weekdays: [],
+      fromCompletion: false,
+    });
+    expect(parseRecurrence("Every 3 weeks")).toMatchObject({ interval: 3, unit: "week" });
+    expect(parseRecurrence("every other month")).toMatchObject({ interval: 2, unit: "month" });
+    expect(parseRecurrence("yearly")).toMatchObject({ interval: 1, unit: "year" });
+  });
+
+  it("should parse weekdays", () => {
+    expect(parseRecurrence("every weekday")?.weekdays).toEqual([1, 2, 3, 4, 5]);
+    expect(parseRecurrence("every fri, mon and wednesday")?.weekdays).toEqual([1, 3, 5]);
+  });
+
+  it("should repeat from completion with every! and after", () => {
+    expect(parseRecurrence("every! 2 days")?.fromCompletion).toBe(true);
+    expect(parseRecurrence("after 1 week")?.fromCompletion).toBe(true);
+  });
+
+  it("should ignore times and start dates", () => {
+    expect(parseRecurrence("every day at 9am")).toMatchObject({ unit: "day" });
+    expect(parseRecurrence("every monday starting 2024-06-10")?.weekdays).toEqual([1]);
+  });
+
+  it("should reject rules outside the supported subset", () => {
+    expect(parseRecurrence("tomorrow")).toBeNull();
+    expect(parseRecurrence("every 0 days")).toBeNull();
+    expect(parseRecurrence("every full moon")).toBeNull();
+  });
+});
+
+describe("getNextOccurrence", () => {
+  it("should step from the due date", () => {
+    expect(next("every 2 weeks", "2024-06-10", "2024-06-10T18:00:00Z")).toBe("2024-06-24");
+    expect(next("every weekday", "2024-06-14", "2024-06-14T18:00:00Z")).toBe("2024-06-17");
+  });
+
+  it("should skip occurrences that are already past", () => {
+    expect(next("every day", "2024-06-01", "2024-06-10T18:00:00Z")).toBe("2024-06-11");
+  });
+
+  it("should step from the completion date with every!", () => {
+    expect(next("every! 3 days", "2024-06-01", "2024-06-10T18:00:00Z")).toBe("2024-06-13");
+  });
+
+  it("should clamp to the end of shorter months", () => {
+    expect(next("every month", "2024-01-31", "2024-01-31T12:00:00Z")).toBe("2024-02-29");
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { describeChanges, formatActivityValue, getEventTitle } from "../task-activity";
+
+describe("getEventTitle", () => {
+  it("should tell imports apart from synced changes", () => {
+    expect(getEventTitle({ type: "SYNCED", changes: null })).toBe("Imported from Todoist");
+    expect(getEventTitle({ type: "SYNCED", changes: { title: { from: "a", to: "b" } } })).toBe(
+      "Synced from Todoist",
+    );
+  });
+});
+
+describe("formatActivityValue", () => {
+  it("should show empty values as none", () => {
+    expect(formatActivityValue(null)).toBe("none");
+    expect(formatActivityValue("")).toBe("none");
+    expect(formatActivityValue([])).toBe("none");
+  });
+
+  it("should show dates without their time", () => {
+    expect(formatActivityValue("2024-06-20T00:00:00.000Z")).toBe(
+      new Date("2024-06-20").toLocaleDateString(undefined, { timeZone: "UTC" }),
+    );
+  });
+
+  it("should list labels and spell out flags", () => {
+    expect(formatActivityValue(["work", "phone"])).toBe("work, phone");
+    expect(formatActivityValue(true)).toBe("yes");
+  });
+});
+
+describe("describeChanges", () => {
+  it("should describe each changed field", () => {
+    expect(
+      describeChanges({
+        priority: { from: 1, to: 3 },
+        project: { from: null, to: "Garden" },
+        estimate: { from: 5, to: 10 },
+      }),
+    ).toEqual(["Priority: 1 → 3", "Project: none → Garden", "estimate: 5 → 10"]);
+  });
+
+  it("should return nothing for events without changes", () => {
+    expect(describeChanges(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { flattenTaskTree, getSubtaskProgress } from "../task-tree";
+
+const task = (id: string, parentId: string | null = null, order = 0, completed = false) => ({
+  id,
+  parentId,
+  order,
+  completed,
+});
+
+describe("flattenTaskTree", () => {
+  it("should put subtasks right after their parent in order", () => {
+    const rows = flattenTaskTree([
+      task("b"),
+      task("a-2", "a", 2),
+      task("a"),
+      task("a-1", "a", 1),
+      task("a-1-1", "a-1"),
+    ]);
+
+    expect(rows.map(({ task, depth }) => [task.id, depth])).toEqual([
+      ["b", 0],
+      ["a", 0],
+      ["a-1", 1],
+      ["a-1-1", 2],
+      ["a-2", 1],
+    ]);
+  });
+
+  it("should show subtasks whose parent is not in the list at the top level", () => {
+    const rows = flattenTaskTree([task("child", "filtered-out"), task("other")]);
+
+    expect(rows).toEqual([
+      { task: task("child", "filtered-out"), depth: 0 },
+      { task: task("other"), depth: 0 },
+    ]);
+  });
+});
+
+describe("getSubtaskProgress", () => {
+  it("should count subtasks on every level below a task", () => {
+    const progress = getSubtaskProgress([
+      task("a"),
+      task("a-1", "a", 0, true),
+      task("a-2", "a", 1),
+      task("a-2-1", "a-2", 0, true),
+      task("b"),
+    ]);
+
+    expect(progress.get("a")).toEqual({ completed: 2, total: 3 });
+    expect(progress.get("a-2")).toEqual({ completed: 1, total: 1 });
+    expect(progress.has("b")).toBe(false);
+  });
+});
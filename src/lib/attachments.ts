@@ -0,0 +1,38 @@
+/**
+ * File types attachments may have, shared by the upload route and the upload form. SVGs are left
+ * out since they can carry scripts.
+ */
+export const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+export const ATTACHMENT_TYPES = [
+  ...IMAGE_TYPES,
+  "application/pdf",
+  "text/plain",
+  "text/markdown",
+  "text/csv",
+  "application/zip",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+];
+
+export const isAllowedAttachmentType = (contentType: string) =>
+  ATTACHMENT_TYPES.includes(contentType);
+
+/** Whether the task view can show the attachment as a thumbnail. */
+export const isImageAttachment = (contentType: string) => IMAGE_TYPES.includes(contentType);
+
+const UNITS = ["B", "KB", "MB", "GB"];
+
+/** A size in bytes the way people read it, e.g. `1.5 MB`. */
+export function formatFileSize(bytes: number) {
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < UNITS.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? size : Number(size.toFixed(1))} ${UNITS[unit]}`;
+}
@@ -0,0 +1,74 @@
+/** Icons a context can show, by name; the app maps them to Lucide icons. */
+export const CONTEXT_ICONS = [
+  "home",
+  "briefcase",
+  "phone",
+  "computer",
+  "shopping-cart",
+  "car",
+  "users",
+  "mail",
+  "book-open",
+  "coffee",
+  "dumbbell",
+  "map-pin",
+] as const;
+
+export type ContextIcon = (typeof CONTEXT_ICONS)[number];
+
+export const isContextIcon = (value: unknown): value is ContextIcon =>
+  CONTEXT_ICONS.includes(value as ContextIcon);
+
+/** The contexts every user starts with. */
+export const DEFAULT_CONTEXTS: { name: string; icon: ContextIcon }[] = [
+  { name: "@home", icon: "home" },
+  { name: "@office", icon: "briefcase" },
+  { name: "@phone", icon: "phone" },
+  { name: "@computer", icon: "computer" },
+  { name: "@errands", icon: "shopping-cart" },
+];
+
+/** A time of day as "HH:MM", 24-hour clock. */
+export const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/** Contexts are written with a leading @, in lower case, e.g. "Deep Work" becomes "@deep-work". */
+export function normalizeContext(name: string) {
+  const words = name.trim().replace(/^@+/, "").toLowerCase().split(/\s+/).filter(Boolean);
+  return words.length > 0 ? `@${words.join("-")}` : null;
+}
+
+/** Normalize a list of contexts, dropping empty names and duplicates. */
+export const normalizeContexts = (names: string[]) => [
+  ...new Set(names.flatMap((name) => normalizeContext(name) ?? [])),
+];
+
+/** "@deep-work" reads as "Deep work". */
+export function contextLabel(context: string) {
+  const name = context.replace(/^@/, "").replace(/-/g, " ");
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+const toMinutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+/**
+ * Whether a context is open at a time of day, in minutes since midnight. Without hours it always
+ * is; a window that ends before it starts runs overnight, e.g. 22:00 to 06:00.
+ */
+export function isContextAvailableAt(
+  context: { availableFrom: string | null; availableUntil: string | null },
+  minutes: number,
+) {
+  if (!context.availableFrom && !context.availableUntil) return true;
+
+  const from = context.availableFrom ? toMinutes(context.availableFrom) : 0;
+  const until = context.availableUntil ? toMinutes(context.availableUntil) : 24 * 60;
+  return from <= until
+    ? minutes >= from && minutes < until
+    : minutes >= from || minutes < until;
+}
+
+/** Whether a context is open at the given local time. */
+export const isContextAvailable = (
+  context: { availableFrom: string | null; availableUntil: string | null },
+  now: Date,
+) => isContextAvailableAt(context, now.getHours() * 60 + now.getMinutes());
@@ -0,0 +1,122 @@
+/**
+ * A small Markdown parser for comments, covering what Todoist renders: headings, lists, quotes,
+ * code blocks, bold, italics, inline code and links. It returns a tree for the client to turn
+ * into elements, so comment text never reaches the page as HTML.
+ */
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "break" }
+  | { type: "code"; text: string }
+  | { type: "strong" | "em"; children: MarkdownInline[] }
+  | { type: "link"; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "heading"; level: number; children: MarkdownInline[] }
+  | { type: "quote"; children: MarkdownInline[] }
+  | { type: "list"; ordered: boolean; items: MarkdownInline[][] }
+  | { type: "code"; text: string };
+
+const isFence = (line: string) => line.startsWith("```");
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+
+// Code, bold, links, italics and bare URLs, in order of precedence
+const INLINE =
+  /`([^`]+)`|\*\*(.+?)\*\*|\[([^\]]+)\]\(([^)\s]+)\)|\*([^*\s][^*]*)\*|\b_([^_]+)_\b|(https?:\/\/[^\s<>()]+)/g;
+
+// Links to anything else, e.g. javascript:, are shown as plain text
+const SAFE_HREF = /^(https?:|mailto:)/i;
+
+/** Bold, italics, code and links within one block. */
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE)) {
+    const [source, code, strong, label, href, star, underscore, url] = match;
+    if (match.index > last) nodes.push({ type: "text", text: text.slice(last, match.index) });
+    last = match.index + source.length;
+
+    if (code !== undefined) nodes.push({ type: "code", text: code });
+    else if (strong !== undefined) nodes.push({ type: "strong", children: parseInline(strong) });
+    else if (label !== undefined && href !== undefined) {
+      nodes.push(
+        SAFE_HREF.test(href)
+          ? { type: "link", href, children: parseInline(label) }
+          : { type: "text", text: label },
+      );
+    } else if (url !== undefined) {
+      nodes.push({ type: "link", href: url, children: [{ type: "text", text: url }] });
+    } else {
+      nodes.push({ type: "em", children: parseInline(star ?? underscore ?? "") });
+    }
+  }
+
+  if (last < text.length) nodes.push({ type: "text", text: text.slice(last) });
+  return nodes;
+}
+
+// Lines of a paragraph or quote, kept apart by line breaks like Todoist does
+const joinLines = (lines: string[]) =>
+  lines.flatMap((line, index): MarkdownInline[] => [
+    ...(index > 0 ? [{ type: "break" } as const] : []),
+    ...parseInline(line),
+  ]);
+
+const startsBlock = (line: string) =>
+  isFence(line) || [HEADING, QUOTE, BULLET, NUMBERED].some((pattern) => pattern.test(line));
+
+/** Split Markdown into blocks; blank lines separate paragraphs. */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  // Consume lines while they match, returning their captured text
+  const takeWhile = (pattern: RegExp) => {
+    const taken: string[] = [];
+    let match: RegExpExecArray | null;
+    while (i < lines.length && (match = pattern.exec(lines[i]!))) {
+      taken.push(match[1] ?? "");
+      i++;
+    }
+    return taken;
+  };
+
+  while (i < lines.length) {
+    const line = lines[i]!;
+
+    if (!line.trim()) {
+      i++;
+    } else if (isFence(line)) {
+      // An unclosed fence runs to the end of the comment
+      const end = lines.findIndex((next, index) => index > i && isFence(next));
+      const close = end === -1 ? lines.length : end;
+      blocks.push({ type: "code", text: lines.slice(i + 1, close).join("\n") });
+      i = close + 1;
+    } else if (HEADING.test(line)) {
+      const [, hashes, text] = HEADING.exec(line)!;
+      blocks.push({ type: "heading", level: hashes!.length, children: parseInline(text!) });
+      i++;
+    } else if (QUOTE.test(line)) {
+      blocks.push({ type: "quote", children: joinLines(takeWhile(QUOTE)) });
+    } else if (BULLET.test(line)) {
+      blocks.push({ type: "list", ordered: false, items: takeWhile(BULLET).map(parseInline) });
+    } else if (NUMBERED.test(line)) {
+      blocks.push({ type: "list", ordered: true, items: takeWhile(NUMBERED).map(parseInline) });
+    } else {
+      const paragraph: string[] = [];
+      while (i < lines.length && lines[i]!.trim() && !startsBlock(lines[i]!)) {
+        paragraph.push(lines[i]!);
+        i++;
+      }
+      blocks.push({ type: "paragraph", children: joinLines(paragraph) });
+    }
+  }
+
+  return blocks;
+}
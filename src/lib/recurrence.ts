@@ -0,0 +1,164 @@
+/**
+ * Recurrence rules written the way Todoist writes them in `due.string`, e.g. "every day",
+ * "every 2 weeks", "every mon, fri", "every weekday" or "every! 3 days". Rules starting with
+ * `every!` (or `after`) repeat from the completion date instead of the due date.
+ */
+
+export type RecurrenceUnit = "day" | "week" | "month" | "year";
+
+export interface RecurrenceRule {
+  interval: number;
+  unit: RecurrenceUnit;
+  /** Days of the week (0 = Sunday) the task falls on, only for weekly rules */
+  weekdays: number[];
+  fromCompletion: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0,
+  sunday: 0,
+  mon: 1,
+  monday: 1,
+  tue: 2,
+  tues: 2,
+  tuesday: 2,
+  wed: 3,
+  wednesday: 3,
+  thu: 4,
+  thur: 4,
+  thurs: 4,
+  thursday: 4,
+  fri: 5,
+  friday: 5,
+  sat: 6,
+  saturday: 6,
+};
+
+const UNIT_ALIASES: Record<string, RecurrenceUnit> = {
+  day: "day",
+  days: "day",
+  week: "week",
+  weeks: "week",
+  month: "month",
+  months: "month",
+  year: "year",
+  years: "year",
+};
+
+const SHORTHANDS: Record<string, RecurrenceUnit> = {
+  daily: "day",
+  weekly: "week",
+  monthly: "month",
+  yearly: "year",
+  annually: "year",
+};
+
+/** Parse a rule, returning null for anything outside the supported subset. */
+export function parseRecurrence(text: string): RecurrenceRule | null {
+  const rule = text
+    .trim()
+    .toLowerCase()
+    // Times and start dates do not change which day comes next
+    .replace(/\s+(at|starting|from|until|for)\s.*$/, "");
+
+  const shorthand = SHORTHANDS[rule];
+  if (shorthand) {
+    return { interval: 1, unit: shorthand, weekdays: [], fromCompletion: false };
+  }
+
+  const match = /^(every!|every|after)\s+(.+)$/.exec(rule);
+  if (!match) return null;
+
+  const fromCompletion = match[1] !== "every";
+  const body = match[2]!;
+
+  if (body === "weekday" || body === "workday") {
+    return { interval: 1, unit: "week", weekdays: [1, 2, 3, 4, 5], fromCompletion };
+  }
+  if (body === "weekend") {
+    return { interval: 1, unit: "week", weekdays: [0, 6], fromCompletion };
+  }
+
+  const intervalMatch = /^(other|\d+)?\s*([a-z]+)$/.exec(body);
+  if (intervalMatch) {
+    const unit = UNIT_ALIASES[intervalMatch[2]!];
+    const count = intervalMatch[1];
+    const interval = count === "other" ? 2 : count ? Number(count) : 1;
+    if (unit && interval > 0) {
+      return { interval, unit, weekdays: [], fromCompletion };
+    }
+  }
+
+  const days = body.split(/\s*(?:,|\band\b)\s*/).filter(Boolean);
+  const weekdays = days.flatMap((day) => WEEKDAYS[day] ?? []);
+  if (days.length > 0 && weekdays.length === days.length) {
+    return {
+      interval: 1,
+      unit: "week",
+      weekdays: [...new Set(weekdays)].sort((a, b) => a - b),
+      fromCompletion,
+    };
+  }
+
+  return null;
+}
+
+export const isValidRecurrence = (text: string) => parseRecurrence(text) !== null;
+
+const startOfDay = (date: Date) =>
+  Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+// Add whole months, clamping to the last day of shorter months (Jan 31 -> Feb 28)
+function addMonths(date: Date, months: number) {
+  const next = new Date(date);
+  const day = date.getUTCDate();
+  next.setUTCDate(1);
+  next.setUTCMonth(next.getUTCMonth() + months);
+  const lastDay = new Date(
+    Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+  next.setUTCDate(Math.min(day, lastDay));
+  return next;
+}
+
+function step(rule: RecurrenceRule, date: Date) {
+  if (rule.weekdays.length > 0) {
+    let next = new Date(date.getTime() + DAY_MS);
+    while (!rule.weekdays.includes(next.getUTCDay())) {
+      next = new Date(next.getTime() + DAY_MS);
+    }
+    return next;
+  }
+
+  switch (rule.unit) {
+    case "day":
+      return new Date(date.getTime() + rule.interval * DAY_MS);
+    case "week":
+      return new Date(date.getTime() + rule.interval * 7 * DAY_MS);
+    case "month":
+      return addMonths(date, rule.interval);
+    case "year":
+      return addMonths(date, rule.interval * 12);
+  }
+}
+
+/**
+ * The due date of the occurrence after the one completed at `completedAt`. Like Todoist, the
+ * result is always after the completion day, so finishing an overdue daily task schedules it for
+ * tomorrow rather than another day in the past.
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  { dueDate, completedAt }: { dueDate: Date | null; completedAt: Date },
+) {
+  let next = step(
+    rule,
+    rule.fromCompletion || !dueDate ? new Date(startOfDay(completedAt)) : dueDate,
+  );
+  while (startOfDay(next) <= startOfDay(completedAt)) {
+    next = step(rule, next);
+  }
+  return next;
+}
@@ -0,0 +1,7 @@
+// Search matches are wrapped in control characters rather than HTML, the client turns them into <mark>s
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_END = "\u0003";
+
+/** Split highlighted text into alternating plain and matched parts, starting with a plain one. */
+export const splitHighlights = (text: string) =>
+  text.split(new RegExp(`[${HIGHLIGHT_START}${HIGHLIGHT_END}]`));
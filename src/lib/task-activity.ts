@@ -0,0 +1,78 @@
+import type { TaskEventType } from "@prisma/client";
+
+/**
+ * Helpers for showing the activity history of a task. Events come from the API with the fields
+ * they changed as `{ field: { from, to } }`; dates arrive as ISO strings.
+ */
+
+type FieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+const EVENT_TITLES: Record<TaskEventType, string> = {
+  CREATED: "Created",
+  UPDATED: "Edited",
+  PROCESSED: "Processed from the inbox",
+  MOVED: "Moved",
+  COMPLETED: "Completed",
+  REOPENED: "Reopened",
+  DELETED: "Moved to the trash",
+  RESTORED: "Restored from the trash",
+  SYNCED: "Synced from Todoist",
+  RESURFACED: "Back from the tickler",
+  FOLLOWED_UP: "Followed up",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  description: "Description",
+  priority: "Priority",
+  dueDate: "Due date",
+  startDate: "Start date",
+  recurrence: "Repeat",
+  labels: "Labels",
+  project: "Project",
+  section: "Section",
+  parent: "Parent task",
+  taskType: "List",
+  context: "Context",
+  energyLevel: "Energy",
+  timeEstimate: "Time estimate",
+  isNextAction: "Next action",
+  waitingFor: "Waiting for",
+  person: "Person",
+  delegatedAt: "Delegated",
+  followUpAt: "Follow up",
+  completed: "Completed",
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T[\d:.]+Z)?$/;
+
+/** What an event did, e.g. "Moved" or "Imported from Todoist". */
+export function getEventTitle(event: { type: TaskEventType; changes: unknown }) {
+  // Records created by a sync have nothing to compare against
+  if (event.type === "SYNCED" && !event.changes) return "Imported from Todoist";
+  return EVENT_TITLES[event.type];
+}
+
+/** A changed value the way the task detail shows it. */
+export function formatActivityValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "none";
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.map((item) => formatActivityValue(item)).join(", ") : "none";
+  }
+  if (typeof value === "boolean") return value ? "yes" : "no";
+  if (typeof value === "string" && ISO_DATE.test(value)) {
+    return new Date(value).toLocaleDateString(undefined, { timeZone: "UTC" });
+  }
+  if (typeof value === "string" || typeof value === "number") return String(value);
+  return JSON.stringify(value);
+}
+
+/** One line per changed field, e.g. `Priority: 1 → 3`. */
+export function describeChanges(changes: unknown): string[] {
+  if (!changes || typeof changes !== "object") return [];
+
+  return Object.entries(changes as FieldChanges).map(
+    ([field, { from, to }]) =>
+      `${FIELD_LABELS[field] ?? field}: ${formatActivityValue(from)} → ${formatActivityValue(to)}`,
+  );
+}
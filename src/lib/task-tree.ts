@@ -0,0 +1,67 @@
+/**
+ * Helpers for showing subtasks under their parents. They work on flat task lists as returned by
+ * the API; tasks whose parent is not in the list are shown at the top level.
+ */
+
+interface TreeTask {
+  id: string;
+  parentId: string | null;
+  completed: boolean;
+  order?: number | null;
+}
+
+export interface SubtaskProgress {
+  completed: number;
+  total: number;
+}
+
+function childrenByParent<T extends TreeTask>(tasks: T[]) {
+  const ids = new Set(tasks.map((task) => task.id));
+  const children = new Map<string | null, T[]>();
+
+  for (const task of tasks) {
+    const parentId = task.parentId && ids.has(task.parentId) ? task.parentId : null;
+    children.set(parentId, [...(children.get(parentId) ?? []), task]);
+  }
+  return children;
+}
+
+/**
+ * Tasks in tree order, every subtask right after its parent, with the depth to indent it by.
+ * Top-level tasks keep the order of the list; subtasks are sorted by their `order`.
+ */
+export function flattenTaskTree<T extends TreeTask>(tasks: T[]): { task: T; depth: number }[] {
+  const children = childrenByParent(tasks);
+  const rows: { task: T; depth: number }[] = [];
+
+  const visit = (task: T, depth: number) => {
+    rows.push({ task, depth });
+    const subtasks = [...(children.get(task.id) ?? [])].sort(
+      (a, b) => (a.order ?? 0) - (b.order ?? 0),
+    );
+    for (const subtask of subtasks) visit(subtask, depth + 1);
+  };
+
+  for (const task of children.get(null) ?? []) visit(task, 0);
+  return rows;
+}
+
+/** Completed and total subtasks of every task that has some, counting every level below it. */
+export function getSubtaskProgress(tasks: TreeTask[]): Map<string, SubtaskProgress> {
+  const children = childrenByParent(tasks);
+  const progress = new Map<string, SubtaskProgress>();
+
+  const visit = (task: TreeTask): SubtaskProgress => {
+    const total = { completed: 0, total: 0 };
+    for (const subtask of children.get(task.id) ?? []) {
+      const below = visit(subtask);
+      total.completed += below.completed + (subtask.completed ? 1 : 0);
+      total.total += below.total + 1;
+    }
+    if (total.total > 0) progress.set(task.id, total);
+    return total;
+  };
+
+  for (const task of children.get(null) ?? []) visit(task);
+  return progress;
+}
@@ -1,6 +1,19 @@
 import { taskRouter } from "~/server/api/routers/task";
 import { projectRouter } from "~/server/api/routers/project";
 import { sectionRouter } from "~/server/api/routers/section";
+import { reviewRouter } from "~/server/api/routers/review";
+import { conflictRouter } from "~/server/api/routers/conflict";
+import { labelRouter } from "~/server/api/routers/label";
+import { filterRouter } from "~/server/api/routers/filter";
+import { dependencyRouter } from "~/server/api/routers/dependency";
+import { trashRouter } from "~/server/api/routers/trash";
+import { undoRouter } from "~/server/api/routers/undo";
+import { commentRouter } from "~/server/api/routers/comment";
+import { attachmentRouter } from "~/server/api/routers/attachment";
+import { archiveRouter } from "~/server/api/routers/archive";
+import { settingsRouter } from "~/server/api/routers/settings";
+import { contextRouter } from "~/server/api/routers/context";
+import { personRouter } from "~/server/api/routers/person";
 import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
 
 /**
@@ -12,6 +25,19 @@ export const appRouter = createTRPCRouter({
   task: taskRouter,
   project: projectRouter,
   section: sectionRouter,
+  review: reviewRouter,
+  conflict: conflictRouter,
+  label: labelRouter,
+  filter: filterRouter,
+  dependency: dependencyRouter,
+  trash: trashRouter,
+  undo: undoRouter,
+  comment: commentRouter,
+  attachment: attachmentRouter,
+  archive: archiveRouter,
+  settings: settingsRouter,
+  context: contextRouter,
+  person: personRouter,
 });
 
 // export type definition of API
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createCallerFactory } from "../../trpc";
+import { archiveRouter } from "../archive";
+import type { PrismaClient } from "@prisma/client";
+
+// Mock auth module
+vi.mock("~/server/auth", () => ({
+  auth: vi.fn(),
+  getServerAuthSession: vi.fn(),
+}));
+
+// Create a mock context
+const createMockContext = (overrides?: any) => ({
+  session: {
+    user: {
+      id: "test-user-id",
+      name: "Test User",
+      email: "test@example.com",
+    },
+  },
+  db: {
+    task: {
+      findMany: vi.fn().mockResolvedValue([]),
+      updateMany: vi.fn(),
+    },
+    section: {
+      updateMany: vi.fn(),
+    },
+    project: {
+      findMany: vi.fn().mockResolvedValue([]),
+      update: vi.fn(),
+    },
+    taskEvent: {
+      createMany: vi.fn(),
+    },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  } as unknown as PrismaClient,
+  ...overrides,
+});
+
+describe("archiveRouter", () => {
+  const createCaller = createCallerFactory(archiveRouter);
+  let mockContext: ReturnType<typeof createMockContext>;
+  let caller: ReturnType<typeof createCaller>;
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    caller = createCaller(mockContext);
+    vi.clearAllMocks();
+  });
+
+  describe("getAll", () => {
+    it("should return archived projects and completed tasks", async () => {
+      const projects = [{ id: "project-1", name: "Old launch", _count: { tasks: 3 } }];
+      const tasks = [{ id: "task-1", title: "Send invoice", completed: true }];
+      mockContext.db.project.findMany.mockResolvedValue(projects);
+      mockContext.db.task.findMany.mockResolvedValue(tasks);
+
+      const result = await caller.getAll();
+
+      expect(result).toEqual({ projects, tasks });
+      expect(mockContext.db.project.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: "test-user-id",
+          deletedAt: null,
+          status: "ARCHIVED",
+          archivedAt: undefined,
+        },
+        orderBy: [{ archivedAt: "desc" }, { updatedAt: "desc" }],
+        include: { _count: { select: { tasks: { where: { deletedAt: null } } } } },
+      });
+      expect(mockContext.db.task.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: "test-user-id",
+          deletedAt: null,
+          completed: true,
+          updatedAt: undefined,
+        },
+        orderBy: { updatedAt: "desc" },
+        include: { labels: true, project: true, section: true },
+      });
+    });
+
+    it("should limit both lists to the date range", async () => {
+      const from = new Date("2024-01-01T00:00:00Z");
+      const to = new Date("2024-01-31T23:59:59Z");
+
+      await caller.getAll({ from, to });
+
+      expect(mockContext.db.project.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ archivedAt: { gte: from, lte: to } }),
+        }),
+      );
+      expect(mockContext.db.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ updatedAt: { gte: from, lte: to } }),
+        }),
+      );
+    });
+  });
+
+  describe("deleteOlderThan", () => {
+    it("should move old archived projects and completed tasks to the trash", async () => {
+      const before = new Date("2024-01-01T00:00:00Z");
+      mockContext.db.project.findMany.mockResolvedValue([{ id: "project-1" }]);
+      mockContext.db.task.findMany
+        .mockResolvedValueOnce([{ id: "task-1" }]) // old completed tasks
+        .mockResolvedValueOnce([]); // subtasks of task-1
+
+      const result = await caller.deleteOlderThan({ before });
+
+      expect(result).toEqual({ projects: 1, tasks: 1 });
+      expect(mockContext.db.project.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: "test-user-id",
+          deletedAt: null,
+          status: "ARCHIVED",
+          archivedAt: { lt: before },
+        },
+        select: { id: true },
+      });
+      expect(mockContext.db.project.update).toHaveBeenCalledWith({
+        where: { id: "project-1" },
+        data: { deletedAt: expect.any(Date) },
+      });
+      expect(mockContext.db.task.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: "test-user-id",
+          deletedAt: null,
+          completed: true,
+          updatedAt: { lt: before },
+        },
+        select: { id: true },
+      });
+      expect(mockContext.db.task.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ["task-1"] }, deletedAt: null },
+        data: { deletedAt: expect.any(Date) },
+      });
+      expect(mockContext.db.taskEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          { projectId: "project-1", type: "DELETED", userId: "test-user-id" },
+          { taskId: "task-1", type: "DELETED", userId: "test-user-id" },
+        ],
+      });
+    });
+
+    it("should not trash a subtask twice", async () => {
+      mockContext.db.task.findMany
+        .mockResolvedValueOnce([{ id: "task-1" }, { id: "task-2" }])
+        .mockResolvedValueOnce([{ id: "task-2" }]) // task-2 is a subtask of task-1
+        .mockResolvedValueOnce([]);
+
+      const result = await caller.deleteOlderThan({ before: new Date() });
+
+      expect(result).toEqual({ projects: 0, tasks: 2 });
+      expect(mockContext.db.task.updateMany).toHaveBeenCalledTimes(1);
+    });
+  });
+});
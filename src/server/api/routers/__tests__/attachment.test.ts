@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createCallerFactory } from "../../trpc";
+import { attachmentRouter } from "../attachment";
+import type { PrismaClient } from "@prisma/client";
+
+// Mock auth module
+vi.mock("~/server/auth", () => ({
+  auth: vi.fn(),
+  getServerAuthSession: vi.fn(),
+}));
+
+const storage = { put: vi.fn(), get: vi.fn(), delete: vi.fn() };
+
+vi.mock("~/server/services/attachment-storage", () => ({
+  createAttachmentStorage: () => storage,
+}));
+
+vi.mock("~/env", () => ({
+  env: {
+    ATTACHMENT_MAX_SIZE_MB: 10,
+    ATTACHMENT_QUOTA_MB: 100,
+  },
+}));
+
+// Create a mock context
+const createMockContext = (overrides?: any) => ({
+  session: {
+    user: {
+      id: "test-user-id",
+      name: "Test User",
+      email: "test@example.com",
+    },
+  },
+  db: {
+    attachment: {
+      findMany: vi.fn(),
+      deleteMany: vi.fn(),
+      aggregate: vi.fn(),
+    },
+  } as unknown as PrismaClient,
+  ...overrides,
+});
+
+describe("attachmentRouter", () => {
+  const createCaller = createCallerFactory(attachmentRouter);
+  let mockContext: ReturnType<typeof createMockContext>;
+  let caller: ReturnType<typeof createCaller>;
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    caller = createCaller(mockContext);
+    vi.clearAllMocks();
+  });
+
+  describe("getByTask", () => {
+    it("should only return the user's files, newest first", async () => {
+      mockContext.db.attachment.findMany.mockResolvedValue([]);
+
+      await caller.getByTask({ taskId: "task-1" });
+
+      expect(mockContext.db.attachment.findMany).toHaveBeenCalledWith({
+        where: { taskId: "task-1", userId: "test-user-id" },
+        orderBy: { createdAt: "desc" },
+      });
+    });
+  });
+
+  describe("getUsage", () => {
+    it("should report the space used against the quota", async () => {
+      mockContext.db.attachment.aggregate.mockResolvedValue({ _sum: { size: 2048 } });
+
+      expect(await caller.getUsage()).toEqual({
+        used: 2048,
+        maxFileSize: 10 * 1024 * 1024,
+        quota: 100 * 1024 * 1024,
+      });
+    });
+  });
+
+  describe("delete", () => {
+    it("should delete the attachment and its file", async () => {
+      mockContext.db.attachment.findMany.mockResolvedValue([
+        { id: "attachment-1", storageKey: "test-user-id/file-1" },
+      ]);
+
+      await caller.delete({ id: "attachment-1" });
+
+      expect(mockContext.db.attachment.findMany).toHaveBeenCalledWith({
+        where: { id: "attachment-1", userId: "test-user-id" },
+        select: { id: true, storageKey: true },
+      });
+      expect(storage.delete).toHaveBeenCalledWith("test-user-id/file-1");
+    });
+
+    it("should throw NOT_FOUND for another user's attachment", async () => {
+      mockContext.db.attachment.findMany.mockResolvedValue([]);
+
+      await expect(caller.delete({ id: "attachment-1" })).rejects.toMatchObject({
+        code: "NOT_FOUND",
+      });
+      expect(storage.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createCallerFactory } from "../../trpc";
+import { commentRouter } from "../comment";
+import type { PrismaClient } from "@prisma/client";
+
+// Mock auth module
+vi.mock("~/server/auth", () => ({
+  auth: vi.fn(),
+  getServerAuthSession: vi.fn(),
+}));
+
+// Create a mock context
+const createMockContext = (overrides?: any) => ({
+  session: {
+    user: {
+      id: "test-user-id",
+      name: "Test User",
+      email: "test@example.com",
+    },
+  },
+  db: {
+    comment: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    task: {
+      findFirst: vi.fn(),
+    },
+    project: {
+      findFirst: vi.fn(),
+    },
+    todoistOutboxEntry: {
+      create: vi.fn(),
+      findFirst: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  } as unknown as PrismaClient,
+  ...overrides,
+});
+
+const createComment = (overrides: Record<string, unknown> = {}) => ({
+  id: "comment-1",
+  todoistId: "todoist-comment-1",
+  content: "Ask about **pricing**",
+  taskId: "task-1",
+  projectId: null,
+  userId: "test-user-id",
+  ...overrides,
+});
+
+describe("commentRouter", () => {
+  const createCaller = createCallerFactory(commentRouter);
+  let mockContext: ReturnType<typeof createMockContext>;
+  let caller: ReturnType<typeof createCaller>;
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    caller = createCaller(mockContext);
+    vi.clearAllMocks();
+  });
+
+  describe("getByTask", () => {
+    it("should return the task's comments oldest first", async () => {
+      mockContext.db.task.findFirst.mockResolvedValue({ id: "task-1", todoistId: null });
+      mockContext.db.comment.findMany.mockResolvedValue([createComment()]);
+
+      const result = await caller.getByTask({ taskId: "task-1" });
+
+      expect(result).toHaveLength(1);
+      expect(mockContext.db.comment.findMany).toHaveBeenCalledWith({
+        where: { taskId: "task-1", userId: "test-user-id" },
+        orderBy: { createdAt: "asc" },
+      });
+    });
+
+    it("should throw NOT_FOUND for another user's task", async () => {
+      mockContext.db.task.findFirst.mockResolvedValue(null);
+
+      await expect(caller.getByTask({ taskId: "task-1" })).rejects.toMatchObject({
+        code: "NOT_FOUND",
+      });
+    });
+  });
+
+  describe("create", () => {
+    it("should queue comments on linked tasks for Todoist", async () => {
+      mockContext.db.task.findFirst.mockResolvedValue({
+        id: "task-1",
+        todoistId: "todoist-task-1",
+      });
+      mockContext.db.comment.create.mockResolvedValue(createComment({ todoistId: null }));
+
+      await caller.create({ taskId: "task-1", content: " Ask about **pricing** " });
+
+      expect(mockContext.db.comment.create).toHaveBeenCalledWith({
+        data: { content: "Ask about **pricing**", taskId: "task-1", userId: "test-user-id" },
+      });
+      expect(mockContext.db.todoistOutboxEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          entityType: "COMMENT",
+          operation: "CREATE",
+          entityId: "comment-1",
+          payload: { content: "Ask about **pricing**" },
+        }),
+      });
+    });
+
+    it("should keep comments on local projects out of Todoist", async () => {
+      mockContext.db.project.findFirst.mockResolvedValue({ id: "project-1", todoistId: null });
+      mockContext.db.todoistOutboxEntry.findFirst.mockResolvedValue(null);
+      mockContext.db.comment.create.mockResolvedValue(
+        createComment({ taskId: null, projectId: "project-1", todoistId: null }),
+      );
+
+      await caller.create({ projectId: "project-1", content: "Kickoff notes" });
+
+      expect(mockContext.db.comment.create).toHaveBeenCalledWith({
+        data: { content: "Kickoff notes", projectId: "project-1", userId: "test-user-id" },
+      });
+      expect(mockContext.db.todoistOutboxEntry.create).not.toHaveBeenCalled();
+    });
+
+    it("should require exactly one of a task and a project", async () => {
+      await expect(
+        caller.create({ taskId: "task-1", projectId: "project-1", content: "Both" }),
+      ).rejects.toThrow();
+      await expect(caller.create({ content: "Neither" })).rejects.toThrow();
+      expect(mockContext.db.comment.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("update", () => {
+    it("should push the new text to Todoist", async () => {
+      mockContext.db.comment.findFirst.mockResolvedValue(createComment());
+      mockContext.db.comment.update.mockResolvedValue(createComment({ content: "Done" }));
+
+      await caller.update({ id: "comment-1", content: "Done" });
+
+      expect(mockContext.db.comment.update).toHaveBeenCalledWith({
+        where: { id: "comment-1" },
+        data: { content: "Done" },
+      });
+      expect(mockContext.db.todoistOutboxEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          entityType: "COMMENT",
+          operation: "UPDATE",
+          todoistId: "todoist-comment-1",
+          payload: { content: "Done" },
+        }),
+      });
+    });
+  });
+
+  describe("delete", () => {
+    it("should delete the comment in Todoist too", async () => {
+      mockContext.db.comment.findFirst.mockResolvedValue(createComment());
+      mockContext.db.comment.delete.mockResolvedValue(createComment());
+
+      await caller.delete({ id: "comment-1" });
+
+      expect(mockContext.db.comment.delete).toHaveBeenCalledWith({ where: { id: "comment-1" } });
+      expect(mockContext.db.todoistOutboxEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          entityType: "COMMENT",
+          operation: "DELETE",
+          todoistId: "todoist-comment-1",
+        }),
+      });
+    });
+
+    it("should throw NOT_FOUND for another user's comment", async () => {
+      mockContext.db.comment.findFirst.mockResolvedValue(null);
+
+      await expect(caller.delete({ id: "comment-1" })).rejects.toMatchObject({
+        code: "NOT_FOUND",
+      });
+      expect(mockContext.db.comment.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TRPCError } from "@trpc/server";
+import { createCallerFactory } from "../../trpc";
+import { conflictRouter } from "../conflict";
+import type { PrismaClient } from "@prisma/client";
+
+// Mock auth module
+vi.mock("~/server/auth", () => ({
+  auth: vi.fn(),
+  getServerAuthSession: vi.fn(),
+}));
+
+// Create a mock context
+const createMockContext = (overrides?: any) => ({
+  session: {
+    user: {
+      id: "test-user-id",
+      name: "Test User",
+      email: "test@example.com",
+    },
+  },
+  db: {
+    syncConflict: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      delete: vi.fn(),
+    },
+    task: {
+      update: vi.fn(),
+    },
+    todoistOutboxEntry: {
+      create: vi.fn(),
+    },
+    taskEvent: {
+      createMany: vi.fn(),
+    },
+  } as unknown as PrismaClient,
+  ...overrides,
+});
+
+const createConflict = (overrides: Record<string, unknown> = {}) => ({
+  id: "conflict-1",
+  field: "title",
+  localValue: JSON.stringify("Local title"),
+  remoteValue: JSON.stringify("Todoist title"),
+  baseValue: JSON.stringify("Original title"),
+  createdAt: new Date("2024-06-01T10:00:00Z"),
+  taskId: "task-1",
+  userId: "test-user-id",
+  task: { id: "task-1", title: "Local title", todoistId: "todoist-task-1" },
+  ...overrides,
+});
+
+describe("conflictRouter", () => {
+  const createCaller = createCallerFactory(conflictRouter);
+  let mockContext: ReturnType<typeof createMockContext>;
+  let caller: ReturnType<typeof createCaller>;
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    caller = createCaller(mockContext);
+    vi.clearAllMocks();
+  });
+
+  describe("getAll", () => {
+    it("should return conflicts with decoded values", async () => {
+      mockContext.db.syncConflict.findMany.mockResolvedValue([
+        createConflict(),
+        createConflict({
+          id: "conflict-2",
+          field: "labels",
+          localValue: JSON.stringify(["home"]),
+          remoteValue: JSON.stringify(["work"]),
+          baseValue: JSON.stringify([]),
+        }),
+      ]);
+
+      const result = await caller.getAll();
+
+      expect(mockContext.db.syncConflict.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { userId: "test-user-id" } }),
+      );
+      expect(result[0]).toMatchObject({
+        field: "title",
+        localValue: "Local title",
+        remoteValue: "Todoist title",
+        baseValue: "Original title",
+      });
+      expect(result[1]).toMatchObject({
+        field: "labels",
+        localValue: ["home"],
+        remoteValue: ["work"],
+      });
+    });
+  });
+
+  describe("resolve", () => {
+    it("should write the Todoist value to the task", async () => {
+      mockContext.db.syncConflict.findFirst.mockResolvedValue(
+        createConflict({
+          field: "dueDate",
+          localValue: JSON.stringify("2024-06-10"),
+          remoteValue: JSON.stringify("2024-06-12"),
+        }),
+      );
+
+      await caller.resolve({ id: "conflict-1", keep: "REMOTE" });
+
+      expect(mockContext.db.task.update).toHaveBeenCalledWith({
+        where: { id: "task-1" },
+        data: { dueDate: new Date("2024-06-12") },
+      });
+      expect(mockContext.db.todoistOutboxEntry.create).not.toHaveBeenCalled();
+      expect(mockContext.db.syncConflict.delete).toHaveBeenCalledWith({
+        where: { id: "conflict-1" },
+      });
+    });
+
+    it("should replace labels with the Todoist labels", async () => {
+      mockContext.db.syncConflict.findFirst.mockResolvedValue(
+        createConflict({
+          field: "labels",
+          localValue: JSON.stringify(["home"]),
+          remoteValue: JSON.stringify(["work"]),
+        }),
+      );
+
+      await caller.resolve({ id: "conflict-1", keep: "REMOTE" });
+
+      expect(mockContext.db.task.update).toHaveBeenNthCalledWith(1, {
+        where: { id: "task-1" },
+        data: { labels: { set: [] } },
+      });
+      expect(mockContext.db.task.update).toHaveBeenNthCalledWith(2, {
+        where: { id: "task-1" },
+        data: {
+          labels: {
+            connectOrCreate: [
+              {
+                where: { userId_name: { userId: "test-user-id", name: "work" } },
+                create: { name: "work", userId: "test-user-id" },
+              },
+            ],
+          },
+        },
+      });
+    });
+
+    it("should queue the local value for Todoist", async () => {
+      mockContext.db.syncConflict.findFirst.mockResolvedValue(
+        createConflict({
+          field: "priority",
+          localValue: JSON.stringify(4),
+          remoteValue: JSON.stringify(2),
+        }),
+      );
+
+      await caller.resolve({ id: "conflict-1", keep: "LOCAL" });
+
+      expect(mockContext.db.task.update).not.toHaveBeenCalled();
+      expect(mockContext.db.todoistOutboxEntry.create).toHaveBeenCalledWith({
+        data: {
+          entityType: "TASK",
+          operation: "UPDATE",
+          entityId: "task-1",
+          todoistId: "todoist-task-1",
+          payload: { priority: 1 },
+          userId: "test-user-id",
+        },
+      });
+      expect(mockContext.db.syncConflict.delete).toHaveBeenCalled();
+    });
+
+    it("should send the local rule together with the task's due date", async () => {
+      mockContext.db.syncConflict.findFirst.mockResolvedValue(
+        createConflict({
+          field: "recurrence",
+          localValue: JSON.stringify("every monday"),
+          remoteValue: JSON.stringify("every day"),
+          task: {
+            todoistId: "todoist-task-1",
+            dueDate: new Date("2024-06-10"),
+            recurrence: "every monday",
+          },
+        }),
+      );
+
+      await caller.resolve({ id: "conflict-1", keep: "LOCAL" });
+
+      expect(mockContext.db.todoistOutboxEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          payload: { due_string: "every monday starting 2024-06-10" },
+        }),
+      });
+    });
+
+    it("should throw NOT_FOUND for conflicts of other users", async () => {
+      mockContext.db.syncConflict.findFirst.mockResolvedValue(null);
+
+      await expect(caller.resolve({ id: "conflict-1", keep: "LOCAL" })).rejects.toThrow(
+        TRPCError,
+      );
+      expect(mockContext.db.syncConflict.findFirst).toHaveBeenCalledWith({
+        where: { id: "conflict-1", userId: "test-user-id" },
+        include: { task: { select: { todoistId: true, dueDate: true, recurrence: true } } },
+      });
+      expect(mockContext.db.syncConflict.delete).not.toHaveBeenCalled();
+    });
+  });
+});
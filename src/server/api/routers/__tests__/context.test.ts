@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TRPCError } from "@trpc/server";
+import { createCallerFactory } from "../../trpc";
+import { contextRouter } from "../context";
+import type { PrismaClient } from "@prisma/client";
+
+// Mock auth module
+vi.mock("~/server/auth", () => ({
+  auth: vi.fn(),
+  getServerAuthSession: vi.fn(),
+}));
+
+// Create a mock context
+const createMockContext = (overrides?: any) => ({
+  session: {
+    user: {
+      id: "test-user-id",
+      name: "Test User",
+      email: "test@example.com",
+    },
+  },
+  db: {
+    context: {
+      findMany: vi.fn().mockResolvedValue([]),
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      delete: vi.fn(),
+      count: vi.fn(),
+    },
+    userPreferences: {
+      findUnique: vi.fn().mockResolvedValue({ contextsSeededAt: new Date("2024-01-01") }),
+    },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  } as unknown as PrismaClient,
+  ...overrides,
+});
+
+describe("contextRouter", () => {
+  const createCaller = createCallerFactory(contextRouter);
+  let mockContext: ReturnType<typeof createMockContext>;
+  let caller: ReturnType<typeof createCaller>;
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    caller = createCaller(mockContext);
+    vi.clearAllMocks();
+  });
+
+  describe("getAll", () => {
+    it("should return the contexts in order with their open task counts", async () => {
+      const contexts = [{ id: "context-1", name: "@phone", _count: { tasks: 2 } }];
+      mockContext.db.context.findMany.mockResolvedValue(contexts);
+
+      const result = await caller.getAll();
+
+      expect(result).toEqual(contexts);
+      expect(mockContext.db.context.findMany).toHaveBeenCalledWith({
+        where: { userId: "test-user-id" },
+        orderBy: [{ order: "asc" }, { name: "asc" }],
+        include: {
+          _count: {
+            select: { tasks: { where: { completed: false, deletedAt: null } } },
+          },
+        },
+      });
+    });
+  });
+
+  describe("create", () => {
+    it("should normalize the name and add the context at the end", async () => {
+      mockContext.db.context.findFirst.mockResolvedValue(null);
+      mockContext.db.context.count.mockResolvedValue(3);
+      mockContext.db.context.create.mockResolvedValue({ id: "context-1" });
+
+      await caller.create({
+        name: "Deep Work",
+        icon: "book-open",
+        availableFrom: "08:00",
+        availableUntil: "12:00",
+      });
+
+      expect(mockContext.db.context.create).toHaveBeenCalledWith({
+        data: {
+          name: "@deep-work",
+          icon: "book-open",
+          availableFrom: "08:00",
+          availableUntil: "12:00",
+          order: 3,
+          userId: "test-user-id",
+        },
+      });
+    });
+
+    it("should reject duplicate names", async () => {
+      mockContext.db.context.findFirst.mockResolvedValue({ id: "context-1", name: "@phone" });
+
+      await expect(caller.create({ name: "Phone" })).rejects.toThrow(
+        new TRPCError({ code: "CONFLICT", message: 'A context named "@phone" already exists' }),
+      );
+      expect(mockContext.db.context.create).not.toHaveBeenCalled();
+    });
+
+    it("should reject times that are not HH:MM", async () => {
+      await expect(caller.create({ name: "@office", availableFrom: "9am" })).rejects.toThrow();
+      expect(mockContext.db.context.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("update", () => {
+    it("should throw NOT_FOUND for contexts of other users", async () => {
+      mockContext.db.context.findFirst.mockResolvedValue(null);
+
+      await expect(caller.update({ id: "other", location: "Office" })).rejects.toThrow(
+        new TRPCError({ code: "NOT_FOUND", message: "Context not found" }),
+      );
+      expect(mockContext.db.context.update).not.toHaveBeenCalled();
+    });
+
+    it("should clear the hours", async () => {
+      mockContext.db.context.findFirst.mockResolvedValue({ id: "context-1", name: "@office" });
+
+      await caller.update({ id: "context-1", availableFrom: null, availableUntil: null });
+
+      expect(mockContext.db.context.update).toHaveBeenCalledWith({
+        where: { id: "context-1" },
+        data: { availableFrom: null, availableUntil: null },
+      });
+    });
+  });
+
+  describe("reorder", () => {
+    it("should number the user's contexts in the given order", async () => {
+      await caller.reorder({ ids: ["context-2", "context-1"] });
+
+      expect(mockContext.db.context.updateMany).toHaveBeenCalledWith({
+        where: { id: "context-2", userId: "test-user-id" },
+        data: { order: 0 },
+      });
+      expect(mockContext.db.context.updateMany).toHaveBeenCalledWith({
+        where: { id: "context-1", userId: "test-user-id" },
+        data: { order: 1 },
+      });
+    });
+  });
+
+  describe("delete", () => {
+    it("should delete one of the user's contexts", async () => {
+      mockContext.db.context.findFirst.mockResolvedValue({ id: "context-1" });
+
+      await caller.delete({ id: "context-1" });
+
+      expect(mockContext.db.context.findFirst).toHaveBeenCalledWith({
+        where: { id: "context-1", userId: "test-user-id" },
+      });
+      expect(mockContext.db.context.delete).toHaveBeenCalledWith({ where: { id: "context-1" } });
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TRPCError } from "@trpc/server";
+import { createCallerFactory } from "../../trpc";
+import { dependencyRouter } from "../dependency";
+import type { PrismaClient } from "@prisma/client";
+
+// Mock auth module
+vi.mock("~/server/auth", () => ({
+  auth: vi.fn(),
+  getServerAuthSession: vi.fn(),
+}));
+
+// Create a mock context
+const createMockContext = (overrides?: any) => ({
+  session: {
+    user: {
+      id: "test-user-id",
+      name: "Test User",
+      email: "test@example.com",
+    },
+  },
+  db: {
+    task: {
+      findMany: vi.fn().mockResolvedValue([]),
+      findFirst: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    project: {
+      findFirst: vi.fn(),
+    },
+  } as unknown as PrismaClient,
+  ...overrides,
+});
+
+const createTask = (overrides: Record<string, unknown> = {}) => ({
+  id: "task-1",
+  title: "Draft outline",
+  completed: false,
+  isNextAction: false,
+  taskType: "ACTION",
+  userId: "test-user-id",
+  ...overrides,
+});
+
+describe("dependencyRouter", () => {
+  const createCaller = createCallerFactory(dependencyRouter);
+  let mockContext: ReturnType<typeof createMockContext>;
+  let caller: ReturnType<typeof createCaller>;
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    caller = createCaller(mockContext);
+    vi.clearAllMocks();
+  });
+
+  describe("getByProject", () => {
+    it("should order the project's open tasks by the blockers before them", async () => {
+      mockContext.db.project.findFirst.mockResolvedValue({ id: "project-1" });
+      mockContext.db.task.findMany.mockResolvedValue([
+        createTask({
+          id: "task-2",
+          blockedBy: [{ id: "task-1", title: "Draft outline", completed: false }],
+          blocking: [],
+        }),
+        createTask({ id: "task-1", blockedBy: [], blocking: [] }),
+      ]);
+
+      const result = await caller.getByProject({ projectId: "project-1" });
+
+      expect(result.map(({ id, stage, blocked }) => ({ id, stage, blocked }))).toEqual([
+        { id: "task-1", stage: 0, blocked: false },
+        { id: "task-2", stage: 1, blocked: true },
+      ]);
+      expect(mockContext.db.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: "test-user-id",
+            projectId: "project-1",
+            completed: false,
+            deletedAt: null,
+          },
+        }),
+      );
+    });
+
+    it("should throw NOT_FOUND for projects of other users", async () => {
+      mockContext.db.project.findFirst.mockResolvedValue(null);
+
+      await expect(caller.getByProject({ projectId: "other-project" })).rejects.toThrow(
+        new TRPCError({ code: "NOT_FOUND", message: "Project not found" }),
+      );
+    });
+  });
+
+  describe("add", () => {
+    it("should make a task wait for another one", async () => {
+      mockContext.db.task.findFirst
+        .mockResolvedValueOnce(createTask())
+        .mockResolvedValueOnce(createTask({ id: "task-2", title: "Write chapter" }));
+      mockContext.db.task.update.mockResolvedValue(createTask({ id: "task-2" }));
+
+      await caller.add({ blockingTaskId: "task-1", blockedTaskId: "task-2" });
+
+      expect(mockContext.db.task.update).toHaveBeenCalledWith({
+        where: { id: "task-2" },
+        data: { blockedBy: { connect: { id: "task-1" } } },
+        include: expect.any(Object),
+      });
+    });
+
+    it("should reject dependencies that would form a cycle", async () => {
+      mockContext.db.task.findFirst
+        .mockResolvedValueOnce(createTask())
+        .mockResolvedValueOnce(createTask({ id: "task-2", title: "Write chapter" }));
+      // task-2 already blocks task-1
+      mockContext.db.task.findMany.mockResolvedValueOnce([{ id: "task-1" }]);
+
+      await expect(
+        caller.add({ blockingTaskId: "task-1", blockedTaskId: "task-2" }),
+      ).rejects.toThrow(
+        new TRPCError({
+          code: "BAD_REQUEST",
+          message: '"Draft outline" already waits for "Write chapter"',
+        }),
+      );
+      expect(mockContext.db.task.update).not.toHaveBeenCalled();
+    });
+
+    it("should throw NOT_FOUND for tasks of other users", async () => {
+      mockContext.db.task.findFirst.mockResolvedValue(null);
+
+      await expect(
+        caller.add({ blockingTaskId: "other-task", blockedTaskId: "task-2" }),
+      ).rejects.toThrow(new TRPCError({ code: "NOT_FOUND", message: "Task not found" }));
+    });
+  });
+
+  describe("remove", () => {
+    it("should promote the task when its open blocker is removed", async () => {
+      mockContext.db.task.findFirst
+        .mockResolvedValueOnce(createTask())
+        .mockResolvedValueOnce(createTask({ id: "task-2" }));
+      mockContext.db.task.update.mockResolvedValue(createTask({ id: "task-2" }));
+      mockContext.db.task.findMany.mockResolvedValue([{ id: "task-2" }]);
+
+      await caller.remove({ blockingTaskId: "task-1", blockedTaskId: "task-2" });
+
+      expect(mockContext.db.task.update).toHaveBeenCalledWith({
+        where: { id: "task-2" },
+        data: { blockedBy: { disconnect: { id: "task-1" } } },
+        include: expect.any(Object),
+      });
+      expect(mockContext.db.task.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ["task-2"] } },
+        data: { isNextAction: true },
+      });
+    });
+
+    it("should leave the task alone when the blocker was already completed", async () => {
+      mockContext.db.task.findFirst
+        .mockResolvedValueOnce(createTask({ completed: true }))
+        .mockResolvedValueOnce(createTask({ id: "task-2" }));
+      mockContext.db.task.update.mockResolvedValue(createTask({ id: "task-2" }));
+
+      await caller.remove({ blockingTaskId: "task-1", blockedTaskId: "task-2" });
+
+      expect(mockContext.db.task.findMany).not.toHaveBeenCalled();
+      expect(mockContext.db.task.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
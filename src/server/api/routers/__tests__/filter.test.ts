@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TRPCError } from "@trpc/server";
+import { ZodError } from "zod";
+import { createCallerFactory } from "../../trpc";
+import { filterRouter } from "../filter";
+import type { PrismaClient } from "@prisma/client";
+
+// Mock auth module
+vi.mock("~/server/auth", () => ({
+  auth: vi.fn(),
+  getServerAuthSession: vi.fn(),
+}));
+
+// Create a mock context
+const createMockContext = (overrides?: any) => ({
+  session: {
+    user: {
+      id: "test-user-id",
+      name: "Test User",
+      email: "test@example.com",
+    },
+  },
+  db: {
+    savedFilter: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    task: {
+      findMany: vi.fn(),
+    },
+    project: {
+      findMany: vi.fn(),
+    },
+    section: {
+      findMany: vi.fn(),
+    },
+    label: {
+      findMany: vi.fn(),
+    },
+  } as unknown as PrismaClient,
+  ...overrides,
+});
+
+const createFilter = (overrides: Record<string, unknown> = {}) => ({
+  id: "filter-1",
+  name: "Urgent calls",
+  query: "@phone & p1",
+  color: null,
+  order: 0,
+  isFavorite: false,
+  userId: "test-user-id",
+  ...overrides,
+});
+
+describe("filterRouter", () => {
+  const createCaller = createCallerFactory(filterRouter);
+  let mockContext: ReturnType<typeof createMockContext>;
+  let caller: ReturnType<typeof createCaller>;
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    caller = createCaller(mockContext);
+    vi.clearAllMocks();
+  });
+
+  describe("getAll", () => {
+    it("should only return filters of the current user", async () => {
+      mockContext.db.savedFilter.findMany.mockResolvedValue([]);
+
+      await caller.getAll();
+
+      expect(mockContext.db.savedFilter.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { userId: "test-user-id" } }),
+      );
+    });
+  });
+
+  describe("getTasks", () => {
+    it("should return the open tasks matching the saved query", async () => {
+      mockContext.db.savedFilter.findFirst.mockResolvedValue(
+        createFilter({ query: "@phone & #Calls" }),
+      );
+      mockContext.db.project.findMany.mockResolvedValue([{ id: "project-1", name: "calls" }]);
+      mockContext.db.task.findMany.mockResolvedValue([{ id: "task-1" }]);
+
+      const result = await caller.getTasks({ id: "filter-1" });
+
+      expect(result).toEqual([{ id: "task-1" }]);
+      expect(mockContext.db.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: "test-user-id",
+            AND: [{ AND: [{ context: { name: "@phone" } }, { projectId: { in: ["project-1"] } }] }],
+            deletedAt: null,
+            completed: false,
+          },
+        }),
+      );
+    });
+
+    it("should throw NOT_FOUND for filters of other users", async () => {
+      mockContext.db.savedFilter.findFirst.mockResolvedValue(null);
+
+      await expect(caller.getTasks({ id: "other-filter" })).rejects.toThrow(
+        new TRPCError({ code: "NOT_FOUND", message: "Filter not found" }),
+      );
+      expect(mockContext.db.savedFilter.findFirst).toHaveBeenCalledWith({
+        where: { id: "other-filter", userId: "test-user-id" },
+      });
+    });
+  });
+
+  describe("preview", () => {
+    it("should reject queries that do not parse with a validation error", async () => {
+      const error = await caller.preview({ query: "@phone & pp1" }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(TRPCError);
+      expect((error as TRPCError).code).toBe("BAD_REQUEST");
+      expect((error as TRPCError).cause).toBeInstanceOf(ZodError);
+      expect(((error as TRPCError).cause as ZodError).flatten().fieldErrors).toEqual({
+        query: ['Unknown filter "pp1" at position 10'],
+      });
+      expect(mockContext.db.task.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("create", () => {
+    it("should save a filter at the end of the list", async () => {
+      mockContext.db.savedFilter.findFirst.mockResolvedValue(null);
+      mockContext.db.savedFilter.count.mockResolvedValue(2);
+      mockContext.db.savedFilter.create.mockResolvedValue(createFilter({ order: 2 }));
+
+      await caller.create({ name: " Urgent calls ", query: " @phone & p1 " });
+
+      expect(mockContext.db.savedFilter.create).toHaveBeenCalledWith({
+        data: {
+          name: "Urgent calls",
+          query: "@phone & p1",
+          color: undefined,
+          isFavorite: false,
+          order: 2,
+          userId: "test-user-id",
+        },
+      });
+    });
+
+    it("should reject a name that is already taken", async () => {
+      mockContext.db.savedFilter.findFirst.mockResolvedValue(createFilter());
+
+      await expect(caller.create({ name: "Urgent calls", query: "p1" })).rejects.toMatchObject({
+        code: "CONFLICT",
+      });
+      expect(mockContext.db.savedFilter.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("update", () => {
+    it("should update the query of a saved filter", async () => {
+      mockContext.db.savedFilter.findFirst.mockResolvedValue(createFilter());
+      mockContext.db.savedFilter.update.mockResolvedValue(createFilter({ query: "p1 | p2" }));
+
+      await caller.update({ id: "filter-1", query: "p1 | p2" });
+
+      expect(mockContext.db.savedFilter.update).toHaveBeenCalledWith({
+        where: { id: "filter-1" },
+        data: { query: "p1 | p2" },
+      });
+    });
+  });
+
+  describe("delete", () => {
+    it("should delete a filter of the current user", async () => {
+      mockContext.db.savedFilter.findFirst.mockResolvedValue(createFilter());
+      mockContext.db.savedFilter.delete.mockResolvedValue(createFilter());
+
+      await caller.delete({ id: "filter-1" });
+
+      expect(mockContext.db.savedFilter.delete).toHaveBeenCalledWith({
+        where: { id: "filter-1" },
+      });
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TRPCError } from "@trpc/server";
+import { createCallerFactory } from "../../trpc";
+import { labelRouter } from "../label";
+import type { PrismaClient } from "@prisma/client";
+
+// Mock auth module
+vi.mock("~/server/auth", () => ({
+  auth: vi.fn(),
+  getServerAuthSession: vi.fn(),
+}));
+
+// Create a mock context
+const createMockContext = (overrides?: any) => ({
+  session: {
+    user: {
+      id: "test-user-id",
+      name: "Test User",
+      email: "test@example.com",
+    },
+  },
+  db: {
+    label: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    task: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    user: {
+      findUnique: vi.fn(),
+    },
+    todoistOutboxEntry: {
+      create: vi.fn(),
+      findFirst: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  } as unknown as PrismaClient,
+  ...overrides,
+});
+
+const createLabel = (overrides: Record<string, unknown> = {}) => ({
+  id: "label-1",
+  todoistId: "todoist-label-1",
+  name: "errands",
+  color: null,
+  order: 0,
+  isFavorite: false,
+  userId: "test-user-id",
+  tasks: [{ id: "task-1" }],
+  ...overrides,
+});
+
+describe("labelRouter", () => {
+  const createCaller = createCallerFactory(labelRouter);
+  let mockContext: ReturnType<typeof createMockContext>;
+  let caller: ReturnType<typeof createCaller>;
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    caller = createCaller(mockContext);
+    vi.clearAllMocks();
+  });
+
+  describe("getAll", () => {
+    it("should only return labels of the current user", async () => {
+      mockContext.db.label.findMany.mockResolvedValue([]);
+
+      await caller.getAll();
+
+      expect(mockContext.db.label.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { userId: "test-user-id" } }),
+      );
+    });
+
+    it("should only count open tasks outside the trash", async () => {
+      mockContext.db.label.findMany.mockResolvedValue([]);
+
+      await caller.getAll();
+
+      expect(mockContext.db.label.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          include: {
+            _count: {
+              select: { tasks: { where: { completed: false, deletedAt: null } } },
+            },
+          },
+        }),
+      );
+    });
+  });
+
+  describe("create", () => {
+    it("should create a label and queue it for Todoist", async () => {
+      mockContext.db.label.findFirst.mockResolvedValue(null);
+      mockContext.db.label.count.mockResolvedValue(2);
+      mockContext.db.label.create.mockResolvedValue(
+        createLabel({ id: "label-3", todoistId: null, name: "calls", order: 2 }),
+      );
+      mockContext.db.user.findUnique.mockResolvedValue({ todoistApiToken: "token" });
+
+      await caller.create({ name: " calls " });
+
+      expect(mockContext.db.label.create).toHaveBeenCalledWith({
+        data: {
+          name: "calls",
+          color: undefined,
+          isFavorite: false,
+          order: 2,
+          userId: "test-user-id",
+        },
+      });
+      expect(mockContext.db.todoistOutboxEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          entityType: "LABEL",
+          operation: "CREATE",
+          entityId: "label-3",
+          payload: { name: "calls", color: undefined, is_favorite: false },
+        }),
+      });
+    });
+
+    it("should reject a name the user already has", async () => {
+      mockContext.db.label.findFirst.mockResolvedValue(createLabel());
+
+      await expect(caller.create({ name: "errands" })).rejects.toMatchObject({
+        code: "CONFLICT",
+      });
+      expect(mockContext.db.label.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("update", () => {
+    it("should rename the label on its linked tasks", async () => {
+      mockContext.db.label.findFirst
+        .mockResolvedValueOnce(createLabel())
+        .mockResolvedValueOnce(null);
+      mockContext.db.label.update.mockResolvedValue(createLabel({ name: "shopping" }));
+      mockContext.db.task.findMany.mockResolvedValue([
+        { id: "task-1", todoistId: "todoist-task-1", labels: [{ name: "shopping" }] },
+      ]);
+
+      await caller.update({ id: "label-1", name: "shopping" });
+
+      expect(mockContext.db.label.update).toHaveBeenCalledWith({
+        where: { id: "label-1" },
+        data: { name: "shopping" },
+      });
+      expect(mockContext.db.todoistOutboxEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          entityType: "LABEL",
+          operation: "UPDATE",
+          todoistId: "todoist-label-1",
+          payload: { name: "shopping" },
+        }),
+      });
+      expect(mockContext.db.todoistOutboxEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          entityType: "TASK",
+          operation: "UPDATE",
+          entityId: "task-1",
+          payload: { labels: ["shopping"] },
+        }),
+      });
+    });
+
+    it("should not touch tasks when only the color changes", async () => {
+      mockContext.db.label.findFirst.mockResolvedValue(createLabel());
+      mockContext.db.label.update.mockResolvedValue(createLabel({ color: "red" }));
+
+      await caller.update({ id: "label-1", color: "red" });
+
+      expect(mockContext.db.task.findMany).not.toHaveBeenCalled();
+      expect(mockContext.db.todoistOutboxEntry.create).toHaveBeenCalledTimes(1);
+    });
+
+    it("should throw NOT_FOUND for labels of other users", async () => {
+      mockContext.db.label.findFirst.mockResolvedValue(null);
+
+      await expect(caller.update({ id: "label-1", name: "x" })).rejects.toThrow(TRPCError);
+      expect(mockContext.db.label.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("delete", () => {
+    it("should delete the label and queue the Todoist delete", async () => {
+      mockContext.db.label.findFirst.mockResolvedValue(createLabel());
+      mockContext.db.label.delete.mockResolvedValue(createLabel());
+      mockContext.db.task.findMany.mockResolvedValue([
+        { id: "task-1", todoistId: "todoist-task-1", labels: [] },
+      ]);
+
+      await caller.delete({ id: "label-1" });
+
+      expect(mockContext.db.label.delete).toHaveBeenCalledWith({ where: { id: "label-1" } });
+      expect(mockContext.db.todoistOutboxEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ entityType: "TASK", payload: { labels: [] } }),
+      });
+      expect(mockContext.db.todoistOutboxEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          entityType: "LABEL",
+          operation: "DELETE",
+          todoistId: "todoist-label-1",
+        }),
+      });
+    });
+  });
+
+  describe("merge", () => {
+    it("should move tasks to the target label and delete the sources", async () => {
+      mockContext.db.label.findFirst.mockResolvedValue(createLabel({ id: "label-target" }));
+      mockContext.db.label.findMany.mockResolvedValue([
+        createLabel({ id: "label-1", tasks: [{ id: "task-1" }, { id: "task-2" }] }),
+        createLabel({ id: "label-2", todoistId: "todoist-label-2", tasks: [{ id: "task-2" }] }),
+      ]);
+      mockContext.db.task.findMany.mockResolvedValue([]);
+
+      const result = await caller.merge({
+        sourceIds: ["label-1", "label-2", "label-target"],
+        targetId: "label-target",
+      });
+
+      expect(result).toEqual({ merged: 2, tasks: 2 });
+      expect(mockContext.db.task.update).toHaveBeenCalledTimes(2);
+      expect(mockContext.db.task.update).toHaveBeenCalledWith({
+        where: { id: "task-2" },
+        data: {
+          labels: {
+            connect: { id: "label-target" },
+            disconnect: [{ id: "label-1" }, { id: "label-2" }],
+          },
+        },
+      });
+      expect(mockContext.db.label.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ["label-1", "label-2"] }, userId: "test-user-id" },
+      });
+      expect(mockContext.db.$transaction).toHaveBeenCalled();
+      expect(mockContext.db.todoistOutboxEntry.create).toHaveBeenCalledTimes(2);
+    });
+
+    it("should reject sources that are not the user's labels", async () => {
+      mockContext.db.label.findFirst.mockResolvedValue(createLabel({ id: "label-target" }));
+      mockContext.db.label.findMany.mockResolvedValue([]);
+
+      await expect(
+        caller.merge({ sourceIds: ["label-other"], targetId: "label-target" }),
+      ).rejects.toThrow("Label not found");
+      expect(mockContext.db.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
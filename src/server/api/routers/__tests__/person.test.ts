@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TRPCError } from "@trpc/server";
+import { createCallerFactory } from "../../trpc";
+import { personRouter } from "../person";
+import type { PrismaClient } from "@prisma/client";
+
+// Mock auth module
+vi.mock("~/server/auth", () => ({
+  auth: vi.fn(),
+  getServerAuthSession: vi.fn(),
+}));
+
+// Create a mock context
+const createMockContext = (overrides?: any) => ({
+  session: {
+    user: {
+      id: "test-user-id",
+      name: "Test User",
+      email: "test@example.com",
+    },
+  },
+  db: {
+    person: {
+      findMany: vi.fn().mockResolvedValue([]),
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    task: {
+      findMany: vi.fn().mockResolvedValue([]),
+      updateMany: vi.fn(),
+    },
+  } as unknown as PrismaClient,
+  ...overrides,
+});
+
+describe("personRouter", () => {
+  const createCaller = createCallerFactory(personRouter);
+  let mockContext: ReturnType<typeof createMockContext>;
+  let caller: ReturnType<typeof createCaller>;
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    caller = createCaller(mockContext);
+    vi.clearAllMocks();
+  });
+
+  describe("getAll", () => {
+    it("should return people by name with their open task counts", async () => {
+      const people = [{ id: "person-1", name: "Alice", _count: { tasks: 2 } }];
+      mockContext.db.person.findMany.mockResolvedValue(people);
+
+      const result = await caller.getAll();
+
+      expect(result).toEqual(people);
+      expect(mockContext.db.person.findMany).toHaveBeenCalledWith({
+        where: { userId: "test-user-id" },
+        orderBy: { name: "asc" },
+        include: {
+          _count: {
+            select: { tasks: { where: { completed: false, deletedAt: null } } },
+          },
+        },
+      });
+    });
+
+    it("should link waiting tasks that only name who they wait for", async () => {
+      mockContext.db.task.findMany.mockResolvedValueOnce([{ waitingFor: "Bob" }]);
+      mockContext.db.person.findUnique.mockResolvedValue({ id: "person-2", name: "Bob" });
+
+      await caller.getAll();
+
+      expect(mockContext.db.person.create).not.toHaveBeenCalled();
+      expect(mockContext.db.task.updateMany).toHaveBeenCalledWith({
+        where: { userId: "test-user-id", personId: null, waitingFor: "Bob" },
+        data: { personId: "person-2" },
+      });
+    });
+  });
+
+  describe("getAgenda", () => {
+    it("should return what the user waits on and what to raise with the person", async () => {
+      const person = { id: "person-1", name: "Alice" };
+      mockContext.db.person.findFirst.mockResolvedValue(person);
+      mockContext.db.task.findMany
+        .mockResolvedValueOnce([{ id: "task-1", taskType: "WAITING" }])
+        .mockResolvedValueOnce([{ id: "task-2", taskType: "ACTION" }]);
+
+      const result = await caller.getAgenda({ id: "person-1" });
+
+      expect(result).toEqual({
+        person,
+        waiting: [{ id: "task-1", taskType: "WAITING" }],
+        actions: [{ id: "task-2", taskType: "ACTION" }],
+      });
+      expect(mockContext.db.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: "test-user-id",
+            personId: "person-1",
+            taskType: "WAITING",
+            completed: false,
+            deletedAt: null,
+          },
+          orderBy: [{ followUpAt: "asc" }, { createdAt: "asc" }],
+        }),
+      );
+    });
+
+    it("should throw NOT_FOUND for another user's person", async () => {
+      mockContext.db.person.findFirst.mockResolvedValue(null);
+
+      await expect(caller.getAgenda({ id: "person-1" })).rejects.toThrow(
+        new TRPCError({ code: "NOT_FOUND", message: "Person not found" }),
+      );
+      expect(mockContext.db.task.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("create", () => {
+    it("should create a person with a trimmed name", async () => {
+      mockContext.db.person.findFirst.mockResolvedValue(null);
+      mockContext.db.person.create.mockResolvedValue({ id: "person-1" });
+
+      await caller.create({ name: " Alice ", email: "alice@example.com" });
+
+      expect(mockContext.db.person.create).toHaveBeenCalledWith({
+        data: { name: "Alice", email: "alice@example.com", userId: "test-user-id" },
+      });
+    });
+
+    it("should reject a name already in use", async () => {
+      mockContext.db.person.findFirst.mockResolvedValue({ id: "person-1", name: "Alice" });
+
+      await expect(caller.create({ name: "Alice" })).rejects.toThrow(
+        new TRPCError({ code: "CONFLICT", message: 'A person named "Alice" already exists' }),
+      );
+      expect(mockContext.db.person.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("update", () => {
+    it("should rename a person when the name is free", async () => {
+      mockContext.db.person.findFirst
+        .mockResolvedValueOnce({ id: "person-1", name: "Alice" })
+        .mockResolvedValueOnce(null);
+
+      await caller.update({ id: "person-1", name: "Alice Smith", notes: null });
+
+      expect(mockContext.db.person.findFirst).toHaveBeenLastCalledWith({
+        where: { userId: "test-user-id", name: "Alice Smith", id: { not: "person-1" } },
+      });
+      expect(mockContext.db.person.update).toHaveBeenCalledWith({
+        where: { id: "person-1" },
+        data: { name: "Alice Smith", notes: null },
+      });
+    });
+  });
+
+  describe("delete", () => {
+    it("should delete the user's person", async () => {
+      mockContext.db.person.findFirst.mockResolvedValue({ id: "person-1" });
+
+      await caller.delete({ id: "person-1" });
+
+      expect(mockContext.db.person.delete).toHaveBeenCalledWith({ where: { id: "person-1" } });
+    });
+  });
+});
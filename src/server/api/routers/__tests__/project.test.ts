@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 import { createCallerFactory } from "../../trpc";
 import { projectRouter } from "../project";
 import { createTodoistService } from "../../../services/todoist";
+import { syncTodoistChanges } from "../../../services/todoist-sync";
 import type { PrismaClient } from "@prisma/client";
 
 // Mock auth module
@@ -15,6 +16,10 @@ vi.mock("../../../services/todoist", () => ({
   createTodoistService: vi.fn(),
 }));
 
+vi.mock("../../../services/todoist-sync", () => ({
+  syncTodoistChanges: vi.fn(),
+}));
+
 // Create a mock context
 const createMockContext = (overrides?: any) => ({
   session: {
@@ -30,11 +35,35 @@ const createMockContext = (overrides?: any) => ({
       findFirst: vi.fn(),
       create: vi.fn(),
       update: vi.fn(),
+      updateMany: vi.fn(),
       delete: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    section: {
+      updateMany: vi.fn(),
+    },
+    task: {
+      updateMany: vi.fn(),
     },
     user: {
       findUnique: vi.fn(),
     },
+    todoistOutboxEntry: {
+      findFirst: vi.fn(),
+      findMany: vi.fn().mockResolvedValue([]),
+      create: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    taskEvent: {
+      createMany: vi.fn(),
+      findMany: vi.fn(),
+    },
+    operation: {
+      create: vi.fn(),
+      deleteMany: vi.fn(),
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
   } as unknown as PrismaClient,
   ...overrides,
 });
@@ -74,17 +103,18 @@ describe("projectRouter", () => {
 
       expect(result).toEqual(mockProjects);
       expect(mockContext.db.project.findMany).toHaveBeenCalledWith({
-        where: { userId: "test-user-id" },
+        where: { userId: "test-user-id", deletedAt: null },
         include: {
           sections: {
+            where: { deletedAt: null },
             orderBy: { order: "asc" },
           },
           tasks: {
-            where: { sectionId: null },
+            where: { sectionId: null, deletedAt: null },
             orderBy: { order: "asc" },
           },
           _count: {
-            select: { tasks: true },
+            select: { tasks: { where: { deletedAt: null } } },
           },
         },
         orderBy: { order: "asc" },
@@ -116,11 +146,14 @@ describe("projectRouter", () => {
         where: {
           id: "1",
           userId: "test-user-id",
+          deletedAt: null,
         },
         include: {
           sections: {
+            where: { deletedAt: null },
             include: {
               tasks: {
+                where: { deletedAt: null },
                 include: { labels: true },
                 orderBy: { order: "asc" },
               },
@@ -128,7 +161,7 @@ describe("projectRouter", () => {
             orderBy: { order: "asc" },
           },
           tasks: {
-            where: { sectionId: null },
+            where: { sectionId: null, deletedAt: null },
             include: { labels: true },
             orderBy: { order: "asc" },
           },
@@ -172,28 +205,19 @@ describe("projectRouter", () => {
           isFavorite: true,
           order: 6,
           userId: "test-user-id",
-          todoistId: undefined,
-          syncedAt: null,
           parentId: undefined,
         },
         include: {
           sections: true,
           _count: {
-            select: { tasks: true },
+            select: { tasks: { where: { deletedAt: null } } },
           },
         },
       });
     });
 
-    it("should create a project with Todoist sync", async () => {
-      const mockTodoistService = {
-        createProject: vi.fn().mockResolvedValue({
-          id: "todoist-project-id",
-          name: "New Project",
-          color: "blue",
-        }),
-      };
-      (createTodoistService as any).mockReturnValue(mockTodoistService);
+    it("should queue the project for Todoist when sync is requested", async () => {
+      (createTodoistService as any).mockReturnValue({});
 
       mockContext.db.user.findUnique.mockResolvedValue({
         id: "test-user-id",
@@ -205,8 +229,7 @@ describe("projectRouter", () => {
       const mockCreatedProject = {
         id: "new-project-id",
         name: "New Project",
-        todoistId: "todoist-project-id",
-        syncedAt: new Date(),
+        todoistId: null,
         sections: [],
         _count: { tasks: 0 },
       };
@@ -218,45 +241,28 @@ describe("projectRouter", () => {
       });
 
       expect(result).toEqual(mockCreatedProject);
-      expect(mockTodoistService.createProject).toHaveBeenCalledWith({
-        name: "New Project",
-        color: "blue",
-        is_favorite: true,
-        parent_id: undefined,
+      expect(mockContext.db.todoistOutboxEntry.create).toHaveBeenCalledWith({
+        data: {
+          entityType: "PROJECT",
+          operation: "CREATE",
+          entityId: "new-project-id",
+          todoistId: undefined,
+          payload: { name: "New Project", color: "blue", is_favorite: true },
+          userId: "test-user-id",
+        },
       });
     });
 
-    it("should handle Todoist sync failure gracefully", async () => {
-      const mockTodoistService = {
-        createProject: vi.fn().mockRejectedValue(new Error("API Error")),
-      };
-      (createTodoistService as any).mockReturnValue(mockTodoistService);
-
-      mockContext.db.user.findUnique.mockResolvedValue({
-        id: "test-user-id",
-        todoistApiToken: "test-api-token",
-      });
-
+    it("should not queue the project when Todoist is not configured", async () => {
+      (createTodoistService as any).mockReturnValue(null);
+      mockContext.db.user.findUnique.mockResolvedValue({ todoistApiToken: null });
       mockContext.db.project.findFirst.mockResolvedValue({ order: 5 });
+      mockContext.db.project.create.mockResolvedValue({ id: "new-project-id" });
 
-      const mockCreatedProject = {
-        id: "new-project-id",
-        name: "New Project",
-        todoistId: null,
-        syncedAt: null,
-        sections: [],
-        _count: { tasks: 0 },
-      };
-      mockContext.db.project.create.mockResolvedValue(mockCreatedProject);
+      await caller.create({ ...createInput, syncToTodoist: true });
 
-      const result = await caller.create({
-        ...createInput,
-        syncToTodoist: true,
-      });
-
-      expect(result).toEqual(mockCreatedProject);
-      // Should still create locally even if Todoist fails
       expect(mockContext.db.project.create).toHaveBeenCalled();
+      expect(mockContext.db.todoistOutboxEntry.create).not.toHaveBeenCalled();
     });
   });
 
@@ -286,17 +292,58 @@ describe("projectRouter", () => {
         data: {
           id: "1",
           name: "Updated Project",
-          syncedAt: undefined,
         },
         include: {
           sections: true,
           _count: {
-            select: { tasks: true },
+            select: { tasks: { where: { deletedAt: null } } },
           },
         },
       });
     });
 
+    it("should log the renamed fields in the project's activity", async () => {
+      mockContext.db.project.findFirst.mockResolvedValue({
+        id: "1",
+        name: "Garden",
+        color: "green",
+        todoistId: null,
+      });
+      mockContext.db.project.update.mockResolvedValue({ id: "1", name: "Yard", color: "green" });
+
+      await caller.update({ id: "1", name: "Yard", color: "green" });
+
+      expect(mockContext.db.taskEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            projectId: "1",
+            type: "UPDATED",
+            changes: { name: { from: "Garden", to: "Yard" } },
+            userId: "test-user-id",
+          },
+        ],
+      });
+    });
+
+    it("should queue changes for linked projects", async () => {
+      mockContext.db.project.findFirst.mockResolvedValue({
+        id: "1",
+        todoistId: "todoist-project-id",
+      });
+      mockContext.db.project.update.mockResolvedValue({ id: "1" });
+
+      await caller.update({ id: "1", name: "Renamed", isFavorite: false });
+
+      expect(mockContext.db.todoistOutboxEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          entityType: "PROJECT",
+          operation: "UPDATE",
+          todoistId: "todoist-project-id",
+          payload: { name: "Renamed", is_favorite: false },
+        }),
+      });
+    });
+
     it("should throw error when project not found", async () => {
       mockContext.db.project.findFirst.mockResolvedValue(null);
 
@@ -307,87 +354,163 @@ describe("projectRouter", () => {
   });
 
   describe("delete", () => {
-    it("should delete a project", async () => {
-      mockContext.db.project.findFirst.mockResolvedValue({
-        id: "1",
-        todoistId: null,
-      });
+    it("should move the project with its sections and tasks to the trash", async () => {
+      mockContext.db.project.findFirst.mockResolvedValue({ id: "1" });
 
       await caller.delete({ id: "1" });
 
-      expect(mockContext.db.project.delete).toHaveBeenCalledWith({
+      expect(mockContext.db.project.update).toHaveBeenCalledWith({
         where: { id: "1" },
+        data: { deletedAt: expect.any(Date) },
+      });
+      const { deletedAt } = mockContext.db.project.update.mock.calls[0][0].data;
+      expect(mockContext.db.section.updateMany).toHaveBeenCalledWith({
+        where: { projectId: "1", deletedAt: null },
+        data: { deletedAt },
       });
+      expect(mockContext.db.task.updateMany).toHaveBeenCalledWith({
+        where: { projectId: "1", deletedAt: null },
+        data: { deletedAt },
+      });
+      expect(mockContext.db.project.delete).not.toHaveBeenCalled();
+    });
+
+    it("should not tell Todoist until the project is purged", async () => {
+      mockContext.db.project.findFirst.mockResolvedValue({ id: "1" });
+
+      await caller.delete({ id: "1" });
+
+      expect(mockContext.db.todoistOutboxEntry.create).not.toHaveBeenCalled();
     });
+  });
 
-    it("should delete a project with Todoist sync", async () => {
-      const mockTodoistService = {
-        deleteProject: vi.fn().mockResolvedValue(undefined),
+  describe("archiveProject", () => {
+    it("should remember the type and status the project had", async () => {
+      const project = {
+        id: "project-1",
+        name: "Garden",
+        projectType: "AREA",
+        status: "ON_HOLD",
+        archivedAt: null,
+        archivedFromType: null,
+        archivedFromStatus: null,
       };
-      (createTodoistService as any).mockReturnValue(mockTodoistService);
+      mockContext.db.project.findFirst.mockResolvedValue(project);
+      mockContext.db.project.update.mockImplementation(({ data }: any) => ({ ...project, ...data }));
+
+      await caller.archiveProject({ id: "project-1" });
+
+      expect(mockContext.db.project.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            status: "ARCHIVED",
+            projectType: "ARCHIVE",
+            archivedAt: expect.any(Date),
+            archivedFromType: "AREA",
+            archivedFromStatus: "ON_HOLD",
+          },
+        }),
+      );
+    });
+  });
 
-      mockContext.db.user.findUnique.mockResolvedValue({
-        id: "test-user-id",
-        todoistApiToken: "test-api-token",
+  describe("unarchiveProject", () => {
+    const archived = {
+      id: "project-1",
+      name: "Garden",
+      projectType: "ARCHIVE",
+      status: "ARCHIVED",
+      archivedAt: new Date("2024-01-01T00:00:00Z"),
+      archivedFromType: "AREA",
+      archivedFromStatus: "ON_HOLD",
+    };
+
+    it("should restore the previous type and status", async () => {
+      mockContext.db.project.findFirst.mockResolvedValue(archived);
+      mockContext.db.project.update.mockImplementation(({ data }: any) => ({ ...archived, ...data }));
+
+      const result = await caller.unarchiveProject({ id: "project-1" });
+
+      expect(result).toMatchObject({ projectType: "AREA", status: "ON_HOLD", archivedAt: null });
+      expect(mockContext.db.project.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            status: "ON_HOLD",
+            projectType: "AREA",
+            archivedAt: null,
+            archivedFromType: null,
+            archivedFromStatus: null,
+          },
+        }),
+      );
+      expect(mockContext.db.operation.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          description: 'Unarchive "Garden"',
+          before: expect.objectContaining({ projectType: "ARCHIVE", archivedFromType: "AREA" }),
+          after: expect.objectContaining({ projectType: "AREA", archivedFromType: null }),
+        }),
       });
+    });
 
+    it("should fall back to an active project when nothing was remembered", async () => {
       mockContext.db.project.findFirst.mockResolvedValue({
-        id: "1",
-        todoistId: "todoist-project-id",
+        ...archived,
+        archivedFromType: null,
+        archivedFromStatus: null,
       });
+      mockContext.db.project.update.mockResolvedValue(archived);
 
-      await caller.delete({ id: "1" });
+      await caller.unarchiveProject({ id: "project-1" });
 
-      expect(mockTodoistService.deleteProject).toHaveBeenCalledWith(
-        "todoist-project-id",
+      expect(mockContext.db.project.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ status: "ACTIVE", projectType: "PROJECT" }),
+        }),
       );
-      expect(mockContext.db.project.delete).toHaveBeenCalledWith({
-        where: { id: "1" },
+    });
+
+    it("should reject projects that are not archived", async () => {
+      mockContext.db.project.findFirst.mockResolvedValue({
+        ...archived,
+        projectType: "PROJECT",
+        status: "ACTIVE",
       });
+
+      await expect(caller.unarchiveProject({ id: "project-1" })).rejects.toThrow(
+        "Project is not archived",
+      );
+      expect(mockContext.db.project.update).not.toHaveBeenCalled();
     });
   });
 
   describe("syncFromTodoist", () => {
-    it("should sync projects from Todoist", async () => {
-      const mockTodoistService = {
-        getProjects: vi.fn().mockResolvedValue([
-          {
-            id: "todoist-1",
-            name: "Todoist Project 1",
-            color: "red",
-            is_favorite: false,
-            is_inbox_project: false,
-            view_style: "list",
-            order: 1,
-          },
-          {
-            id: "todoist-2", 
-            name: "Todoist Project 2",
-            color: "blue",
-            is_favorite: true,
-            is_inbox_project: false,
-            view_style: "list",
-            order: 2,
-          },
-        ]),
-      };
-      (createTodoistService as any).mockReturnValue(mockTodoistService);
-
+    it("should push local changes and pull like the full sync", async () => {
+      const todoistService = {};
+      (createTodoistService as any).mockReturnValue(todoistService);
       mockContext.db.user.findUnique.mockResolvedValue({
         id: "test-user-id",
         todoistApiToken: "test-api-token",
       });
-
-      // Mock existing project
-      mockContext.db.project.findFirst
-        .mockResolvedValueOnce({ id: "existing-1" })
-        .mockResolvedValueOnce(null);
+      const summary = {
+        fullSync: false,
+        conflicts: 0,
+        skipped: 0,
+        projects: { imported: 1, updated: 1, completed: 0, deleted: 1 },
+        sections: { imported: 0, updated: 0, deleted: 0 },
+        tasks: { imported: 0, updated: 0, completed: 0, deleted: 0 },
+        comments: { imported: 0, updated: 0, deleted: 0 },
+      };
+      (syncTodoistChanges as any).mockResolvedValue(summary);
 
       const result = await caller.syncFromTodoist();
 
-      expect(result).toEqual({ imported: 1, updated: 1 });
-      expect(mockContext.db.project.update).toHaveBeenCalledTimes(1);
-      expect(mockContext.db.project.create).toHaveBeenCalledTimes(1);
+      expect(result).toEqual(summary);
+      expect(mockContext.db.todoistOutboxEntry.findMany).toHaveBeenCalled();
+      expect(syncTodoistChanges).toHaveBeenCalledWith(
+        mockContext.db,
+        "test-user-id",
+        todoistService,
+      );
     });
 
     it("should throw error when no API token", async () => {
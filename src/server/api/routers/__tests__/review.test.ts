@@ -0,0 +1,246 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { TRPCError } from "@trpc/server";
+import { createCallerFactory } from "../../trpc";
+import { reviewRouter } from "../review";
+import type { PrismaClient } from "@prisma/client";
+
+// Mock auth module
+vi.mock("~/server/auth", () => ({
+  auth: vi.fn(),
+  getServerAuthSession: vi.fn(),
+}));
+
+// Create a mock context
+const createMockContext = (overrides?: any) => ({
+  session: {
+    user: {
+      id: "test-user-id",
+      name: "Test User",
+      email: "test@example.com",
+    },
+  },
+  db: {
+    task: {
+      count: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    project: {
+      count: vi.fn(),
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      update: vi.fn(),
+    },
+    weeklyReview: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+    },
+  } as unknown as PrismaClient,
+  ...overrides,
+});
+
+describe("reviewRouter", () => {
+  const createCaller = createCallerFactory(reviewRouter);
+  let mockContext: ReturnType<typeof createMockContext>;
+  let caller: ReturnType<typeof createCaller>;
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    caller = createCaller(mockContext);
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("getOverview", () => {
+    it("should return counts for each list", async () => {
+      mockContext.db.task.count
+        .mockResolvedValueOnce(3) // inbox
+        .mockResolvedValueOnce(2) // waiting for
+        .mockResolvedValueOnce(5) // someday
+        .mockResolvedValueOnce(7); // next actions
+      mockContext.db.project.count.mockResolvedValue(4);
+
+      const result = await caller.getOverview();
+
+      expect(result).toEqual({
+        inboxCount: 3,
+        activeProjectCount: 4,
+        waitingForCount: 2,
+        somedayCount: 5,
+        nextActionCount: 7,
+      });
+      expect(mockContext.db.project.count).toHaveBeenCalledWith({
+        where: {
+          userId: "test-user-id",
+          deletedAt: null,
+          projectType: "PROJECT",
+          status: "ACTIVE",
+        },
+      });
+    });
+  });
+
+  describe("markProjectReviewed", () => {
+    it("should stamp the project with the review time", async () => {
+      mockContext.db.project.findFirst.mockResolvedValue({ id: "project-1" });
+      mockContext.db.project.update.mockResolvedValue({ id: "project-1" });
+
+      await caller.markProjectReviewed({ id: "project-1" });
+
+      expect(mockContext.db.project.findFirst).toHaveBeenCalledWith({
+        where: { id: "project-1", userId: "test-user-id", deletedAt: null },
+      });
+      expect(mockContext.db.project.update).toHaveBeenCalledWith({
+        where: { id: "project-1" },
+        data: { reviewedAt: expect.any(Date) },
+      });
+    });
+
+    it("should throw error when project not found", async () => {
+      mockContext.db.project.findFirst.mockResolvedValue(null);
+
+      await expect(
+        caller.markProjectReviewed({ id: "invalid-id" }),
+      ).rejects.toThrow(
+        new TRPCError({
+          code: "NOT_FOUND",
+          message: "Project not found",
+        }),
+      );
+    });
+  });
+
+  describe("markNextActionsReviewed", () => {
+    it("should only update the user's next actions", async () => {
+      mockContext.db.task.updateMany.mockResolvedValue({ count: 2 });
+
+      const result = await caller.markNextActionsReviewed({ ids: ["1", "2"] });
+
+      expect(result).toEqual({ reviewed: 2 });
+      expect(mockContext.db.task.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: { in: ["1", "2"] },
+          userId: "test-user-id",
+          isNextAction: true,
+        },
+        data: { reviewedAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe("complete", () => {
+    it("should record a review with real counts", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date(2024, 5, 13, 10)); // Thursday
+
+      const startedAt = new Date(2024, 5, 13, 9);
+      mockContext.db.task.count
+        .mockResolvedValueOnce(0) // inbox
+        .mockResolvedValueOnce(6); // next actions reviewed
+      mockContext.db.project.count.mockResolvedValue(3);
+      mockContext.db.weeklyReview.create.mockResolvedValue({ id: "review-1" });
+
+      await caller.complete({ startedAt, notes: "Good week" });
+
+      expect(mockContext.db.project.count).toHaveBeenCalledWith({
+        where: { userId: "test-user-id", reviewedAt: { gte: startedAt } },
+      });
+      expect(mockContext.db.weeklyReview.create).toHaveBeenCalledWith({
+        data: {
+          weekStartDate: new Date(2024, 5, 10),
+          completedAt: new Date(2024, 5, 13, 10),
+          inboxZero: true,
+          projectsReviewed: 3,
+          nextActionsReviewed: 6,
+          notes: "Good week",
+          userId: "test-user-id",
+        },
+      });
+    });
+
+    it("should not report inbox zero when items remain", async () => {
+      mockContext.db.task.count.mockResolvedValueOnce(4).mockResolvedValueOnce(0);
+      mockContext.db.project.count.mockResolvedValue(0);
+      mockContext.db.weeklyReview.create.mockResolvedValue({ id: "review-1" });
+
+      await caller.complete({ startedAt: new Date(Date.now() - 1000) });
+
+      expect(mockContext.db.weeklyReview.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ inboxZero: false }),
+      });
+    });
+
+    it("should reject a start time in the future", async () => {
+      await expect(
+        caller.complete({ startedAt: new Date(Date.now() + 60_000) }),
+      ).rejects.toThrow("Review cannot start in the future");
+      expect(mockContext.db.weeklyReview.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getStats", () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date(2024, 5, 13, 10)); // Thursday, week of June 10
+    });
+
+    it("should count consecutive weeks including the current one", async () => {
+      mockContext.db.weeklyReview.findMany.mockResolvedValue([
+        { weekStartDate: new Date(2024, 5, 10), completedAt: new Date(2024, 5, 12) },
+        { weekStartDate: new Date(2024, 5, 3), completedAt: new Date(2024, 5, 7) },
+        { weekStartDate: new Date(2024, 4, 27), completedAt: new Date(2024, 4, 31) },
+        { weekStartDate: new Date(2024, 4, 6), completedAt: new Date(2024, 4, 10) },
+      ]);
+
+      const result = await caller.getStats();
+
+      expect(result).toEqual({
+        totalReviews: 4,
+        currentStreak: 3,
+        longestStreak: 3,
+        lastReviewAt: new Date(2024, 5, 12),
+        reviewedThisWeek: true,
+      });
+    });
+
+    it("should keep the streak alive when last week was reviewed", async () => {
+      mockContext.db.weeklyReview.findMany.mockResolvedValue([
+        { weekStartDate: new Date(2024, 5, 3), completedAt: new Date(2024, 5, 7) },
+        { weekStartDate: new Date(2024, 4, 27), completedAt: new Date(2024, 4, 31) },
+      ]);
+
+      const result = await caller.getStats();
+
+      expect(result.currentStreak).toBe(2);
+      expect(result.reviewedThisWeek).toBe(false);
+    });
+
+    it("should reset the streak after a skipped week", async () => {
+      mockContext.db.weeklyReview.findMany.mockResolvedValue([
+        { weekStartDate: new Date(2024, 4, 27), completedAt: new Date(2024, 4, 31) },
+        { weekStartDate: new Date(2024, 4, 20), completedAt: new Date(2024, 4, 24) },
+      ]);
+
+      const result = await caller.getStats();
+
+      expect(result.currentStreak).toBe(0);
+      expect(result.longestStreak).toBe(2);
+    });
+
+    it("should return empty stats when there are no reviews", async () => {
+      mockContext.db.weeklyReview.findMany.mockResolvedValue([]);
+
+      const result = await caller.getStats();
+
+      expect(result).toEqual({
+        totalReviews: 0,
+        currentStreak: 0,
+        longestStreak: 0,
+        lastReviewAt: null,
+        reviewedThisWeek: false,
+      });
+    });
+  });
+});
@@ -35,9 +35,21 @@ const createMockContext = (overrides?: any) => ({
       update: vi.fn(),
       delete: vi.fn(),
     },
+    task: {
+      updateMany: vi.fn(),
+    },
     user: {
       findUnique: vi.fn(),
     },
+    todoistOutboxEntry: {
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    taskEvent: {
+      createMany: vi.fn(),
+    },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
   } as unknown as PrismaClient,
   ...overrides,
 });
@@ -86,17 +98,19 @@ describe("sectionRouter", () => {
         where: {
           id: "project-1",
           userId: "test-user-id",
+          deletedAt: null,
         },
       });
       expect(mockContext.db.section.findMany).toHaveBeenCalledWith({
-        where: { projectId: "project-1" },
+        where: { projectId: "project-1", deletedAt: null },
         include: {
           tasks: {
+            where: { deletedAt: null },
             include: { labels: true },
             orderBy: { order: "asc" },
           },
           _count: {
-            select: { tasks: true },
+            select: { tasks: { where: { deletedAt: null } } },
           },
         },
         orderBy: { order: "asc" },
@@ -150,29 +164,22 @@ describe("sectionRouter", () => {
           name: "New Section",
           projectId: "project-1",
           order: 4,
-          todoistId: undefined,
-          syncedAt: null,
         },
         include: {
           tasks: {
+            where: { deletedAt: null },
             include: { labels: true },
             orderBy: { order: "asc" },
           },
           _count: {
-            select: { tasks: true },
+            select: { tasks: { where: { deletedAt: null } } },
           },
         },
       });
     });
 
-    it("should create a section with Todoist sync", async () => {
-      const mockTodoistService = {
-        createSection: vi.fn().mockResolvedValue({
-          id: "todoist-section-id",
-          name: "New Section",
-        }),
-      };
-      (createTodoistService as any).mockReturnValue(mockTodoistService);
+    it("should queue the section for Todoist when its project is synced", async () => {
+      (createTodoistService as any).mockReturnValue({});
 
       // Mock project verification with Todoist ID
       mockContext.db.project.findFirst.mockResolvedValue({
@@ -191,8 +198,7 @@ describe("sectionRouter", () => {
       const mockCreatedSection = {
         id: "new-section-id",
         name: "New Section",
-        todoistId: "todoist-section-id",
-        syncedAt: new Date(),
+        todoistId: null,
         tasks: [],
         _count: { tasks: 0 },
       };
@@ -204,49 +210,52 @@ describe("sectionRouter", () => {
       });
 
       expect(result).toEqual(mockCreatedSection);
-      expect(mockTodoistService.createSection).toHaveBeenCalledWith({
-        name: "New Section",
-        project_id: "todoist-project-id",
+      expect(mockContext.db.todoistOutboxEntry.create).toHaveBeenCalledWith({
+        data: {
+          entityType: "SECTION",
+          operation: "CREATE",
+          entityId: "new-section-id",
+          todoistId: undefined,
+          payload: { name: "New Section" },
+          userId: "test-user-id",
+        },
       });
     });
 
-    it("should handle Todoist sync failure gracefully", async () => {
-      const mockTodoistService = {
-        createSection: vi.fn().mockRejectedValue(new Error("API Error")),
-      };
-      (createTodoistService as any).mockReturnValue(mockTodoistService);
+    it("should queue the section while its project waits to be created in Todoist", async () => {
+      (createTodoistService as any).mockReturnValue({});
+      mockContext.db.project.findFirst.mockResolvedValue({ id: "project-1", todoistId: null });
+      mockContext.db.user.findUnique.mockResolvedValue({ todoistApiToken: "test-api-token" });
+      mockContext.db.section.findFirst.mockResolvedValue({ order: 3 });
+      mockContext.db.section.create.mockResolvedValue({ id: "new-section-id" });
+      mockContext.db.todoistOutboxEntry.findFirst.mockResolvedValue({ id: "entry-1" });
 
-      mockContext.db.project.findFirst.mockResolvedValue({
-        id: "project-1",
-        userId: "test-user-id",
-        todoistId: "todoist-project-id",
-      });
+      await caller.create({ ...createInput, syncToTodoist: true });
 
-      mockContext.db.user.findUnique.mockResolvedValue({
-        id: "test-user-id",
-        todoistApiToken: "test-api-token",
+      expect(mockContext.db.todoistOutboxEntry.findFirst).toHaveBeenCalledWith({
+        where: {
+          userId: "test-user-id",
+          entityType: "PROJECT",
+          entityId: "project-1",
+          operation: "CREATE",
+        },
+        select: { id: true },
       });
+      expect(mockContext.db.todoistOutboxEntry.create).toHaveBeenCalled();
+    });
 
+    it("should not queue the section when its project is local only", async () => {
+      (createTodoistService as any).mockReturnValue({});
+      mockContext.db.project.findFirst.mockResolvedValue({ id: "project-1", todoistId: null });
+      mockContext.db.user.findUnique.mockResolvedValue({ todoistApiToken: "test-api-token" });
       mockContext.db.section.findFirst.mockResolvedValue({ order: 3 });
+      mockContext.db.section.create.mockResolvedValue({ id: "new-section-id" });
+      mockContext.db.todoistOutboxEntry.findFirst.mockResolvedValue(null);
 
-      const mockCreatedSection = {
-        id: "new-section-id",
-        name: "New Section",
-        todoistId: null,
-        syncedAt: null,
-        tasks: [],
-        _count: { tasks: 0 },
-      };
-      mockContext.db.section.create.mockResolvedValue(mockCreatedSection);
-
-      const result = await caller.create({
-        ...createInput,
-        syncToTodoist: true,
-      });
+      await caller.create({ ...createInput, syncToTodoist: true });
 
-      expect(result).toEqual(mockCreatedSection);
-      // Should still create locally even if Todoist fails
       expect(mockContext.db.section.create).toHaveBeenCalled();
+      expect(mockContext.db.todoistOutboxEntry.create).not.toHaveBeenCalled();
     });
   });
 
@@ -279,15 +288,15 @@ describe("sectionRouter", () => {
         data: {
           id: "1",
           name: "Updated Section",
-          syncedAt: undefined,
         },
         include: {
           tasks: {
+            where: { deletedAt: null },
             include: { labels: true },
             orderBy: { order: "asc" },
           },
           _count: {
-            select: { tasks: true },
+            select: { tasks: { where: { deletedAt: null } } },
           },
         },
       });
@@ -303,49 +312,47 @@ describe("sectionRouter", () => {
   });
 
   describe("delete", () => {
-    it("should delete a section", async () => {
-      mockContext.db.section.findFirst.mockResolvedValue({
-        id: "1",
-        todoistId: null,
-        project: {
-          todoistId: null,
-        },
-      });
+    const trashableSection = {
+      id: "1",
+      todoistId: "todoist-section-id",
+      project: {
+        todoistId: "todoist-project-id",
+        userId: "test-user-id",
+      },
+    };
+
+    it("should move the section and its tasks to the trash", async () => {
+      mockContext.db.section.findFirst.mockResolvedValue(trashableSection);
 
       await caller.delete({ id: "1" });
 
-      expect(mockContext.db.section.delete).toHaveBeenCalledWith({
+      expect(mockContext.db.section.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: "1", deletedAt: null } }),
+      );
+      expect(mockContext.db.section.update).toHaveBeenCalledWith({
         where: { id: "1" },
+        data: { deletedAt: expect.any(Date) },
+      });
+      const { deletedAt } = mockContext.db.section.update.mock.calls[0][0].data;
+      expect(mockContext.db.task.updateMany).toHaveBeenCalledWith({
+        where: { sectionId: "1", deletedAt: null },
+        data: { deletedAt },
       });
+      expect(mockContext.db.section.delete).not.toHaveBeenCalled();
     });
 
-    it("should delete a section with Todoist sync", async () => {
-      const mockTodoistService = {
-        deleteSection: vi.fn().mockResolvedValue(undefined),
-      };
-      (createTodoistService as any).mockReturnValue(mockTodoistService);
+    it("should not tell Todoist until the section is purged", async () => {
+      mockContext.db.section.findFirst.mockResolvedValue(trashableSection);
 
-      mockContext.db.user.findUnique.mockResolvedValue({
-        id: "test-user-id",
-        todoistApiToken: "test-api-token",
-      });
+      await caller.delete({ id: "1" });
 
-      mockContext.db.section.findFirst.mockResolvedValue({
-        id: "1",
-        todoistId: "todoist-section-id",
-        project: {
-          todoistId: "todoist-project-id",
-        },
-      });
+      expect(mockContext.db.todoistOutboxEntry.create).not.toHaveBeenCalled();
+    });
 
-      await caller.delete({ id: "1" });
+    it("should throw error when section not found", async () => {
+      mockContext.db.section.findFirst.mockResolvedValue(null);
 
-      expect(mockTodoistService.deleteSection).toHaveBeenCalledWith(
-        "todoist-section-id",
-      );
-      expect(mockContext.db.section.delete).toHaveBeenCalledWith({
-        where: { id: "1" },
-      });
+      await expect(caller.delete({ id: "999" })).rejects.toThrow("Section not found");
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Prisma, type PrismaClient } from "@prisma/client";
+import { createCallerFactory } from "../../trpc";
+import { settingsRouter } from "../settings";
+
+// Mock auth module
+vi.mock("~/server/auth", () => ({
+  auth: vi.fn(),
+  getServerAuthSession: vi.fn(),
+}));
+
+const storage = { put: vi.fn(), get: vi.fn(), delete: vi.fn() };
+
+vi.mock("~/server/services/attachment-storage", () => ({
+  createAttachmentStorage: () => storage,
+}));
+
+// Create a mock context
+const createMockContext = (overrides?: any) => ({
+  session: {
+    user: {
+      id: "test-user-id",
+      name: "Test User",
+      email: "test@example.com",
+    },
+  },
+  db: {
+    user: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    userPreferences: {
+      upsert: vi.fn(),
+    },
+    todoistOutboxEntry: { deleteMany: vi.fn() },
+    syncConflict: { deleteMany: vi.fn() },
+    task: { updateMany: vi.fn() },
+    project: { updateMany: vi.fn() },
+    section: { updateMany: vi.fn() },
+    label: { updateMany: vi.fn() },
+    comment: { updateMany: vi.fn() },
+    attachment: {
+      findMany: vi.fn().mockResolvedValue([]),
+      deleteMany: vi.fn(),
+    },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  } as unknown as PrismaClient,
+  ...overrides,
+});
+
+describe("settingsRouter", () => {
+  const createCaller = createCallerFactory(settingsRouter);
+  let mockContext: ReturnType<typeof createMockContext>;
+  let caller: ReturnType<typeof createCaller>;
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    caller = createCaller(mockContext);
+    vi.clearAllMocks();
+  });
+
+  describe("get", () => {
+    it("should fill in defaults when nothing was saved", async () => {
+      mockContext.db.user.findUnique.mockResolvedValue({
+        name: "Test User",
+        email: "test@example.com",
+        image: null,
+        preferences: null,
+      });
+
+      const result = await caller.get();
+
+      expect(result).toEqual({
+        profile: { name: "Test User", email: "test@example.com", image: null },
+        preferences: {
+          defaultEnergyLevel: null,
+          defaultTimeEstimate: null,
+          theme: "system",
+        },
+      });
+    });
+
+    it("should return saved preferences", async () => {
+      mockContext.db.user.findUnique.mockResolvedValue({
+        name: "Test User",
+        email: "test@example.com",
+        image: null,
+        preferences: {
+          defaultEnergyLevel: "LOW",
+          defaultTimeEstimate: 15,
+          theme: "dark",
+        },
+      });
+
+      const result = await caller.get();
+
+      expect(result.preferences).toEqual({
+        defaultEnergyLevel: "LOW",
+        defaultTimeEstimate: 15,
+        theme: "dark",
+      });
+    });
+  });
+
+  describe("updatePreferences", () => {
+    it("should save only the preferences given", async () => {
+      mockContext.db.userPreferences.upsert.mockImplementation(({ create }: any) =>
+        Promise.resolve({ theme: "system", ...create }),
+      );
+
+      const result = await caller.updatePreferences({ defaultEnergyLevel: "HIGH" });
+
+      expect(mockContext.db.userPreferences.upsert).toHaveBeenCalledWith({
+        where: { userId: "test-user-id" },
+        update: { defaultEnergyLevel: "HIGH" },
+        create: { defaultEnergyLevel: "HIGH", userId: "test-user-id" },
+      });
+      expect(result.defaultEnergyLevel).toBe("HIGH");
+      expect(result.theme).toBe("system");
+    });
+
+    it("should reject time estimates over a day", async () => {
+      await expect(caller.updatePreferences({ defaultTimeEstimate: 1441 })).rejects.toThrow();
+      expect(mockContext.db.userPreferences.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("unlinkTodoist", () => {
+    it("should clear the token and every Todoist link", async () => {
+      await caller.unlinkTodoist();
+
+      expect(mockContext.db.user.update).toHaveBeenCalledWith({
+        where: { id: "test-user-id" },
+        data: { todoistApiToken: null, todoistSyncToken: null, todoistLastSyncAt: null },
+      });
+      expect(mockContext.db.todoistOutboxEntry.deleteMany).toHaveBeenCalledWith({
+        where: { userId: "test-user-id" },
+      });
+      expect(mockContext.db.task.updateMany).toHaveBeenCalledWith({
+        where: { userId: "test-user-id" },
+        data: { todoistId: null, syncedAt: null, syncSnapshot: Prisma.DbNull },
+      });
+      expect(mockContext.db.section.updateMany).toHaveBeenCalledWith({
+        where: { project: { userId: "test-user-id" } },
+        data: { todoistId: null, syncedAt: null },
+      });
+      expect(mockContext.db.$transaction).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("deleteAccount", () => {
+    it("should delete stored files before the user", async () => {
+      mockContext.db.attachment.findMany.mockResolvedValue([
+        { id: "attachment-1", storageKey: "test-user-id/file.pdf" },
+      ]);
+
+      await caller.deleteAccount({ confirmation: "DELETE" });
+
+      expect(storage.delete).toHaveBeenCalledWith("test-user-id/file.pdf");
+      expect(mockContext.db.user.delete).toHaveBeenCalledWith({ where: { id: "test-user-id" } });
+    });
+
+    it("should require the confirmation", async () => {
+      await expect(
+        caller.deleteAccount({ confirmation: "delete" as "DELETE" }),
+      ).rejects.toThrow();
+      expect(mockContext.db.user.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -3,6 +3,9 @@ import { TRPCError } from "@trpc/server";
 import { createCallerFactory } from "../../trpc";
 import { taskRouter } from "../task";
 import { createTodoistService } from "../../../services/todoist";
+import { searchTasks } from "../../../services/search";
+import { syncTodoistChanges } from "../../../services/todoist-sync";
+import type * as TodoistSync from "../../../services/todoist-sync";
 import type { PrismaClient } from "@prisma/client";
 
 // Mock auth module
@@ -16,6 +19,17 @@ vi.mock("../../../services/todoist", () => ({
   createTodoistService: vi.fn(),
 }));
 
+// Mock the Sync API pull, it has its own tests
+vi.mock("../../../services/todoist-sync", async (importOriginal) => ({
+  ...(await importOriginal<typeof TodoistSync>()),
+  syncTodoistChanges: vi.fn(),
+}));
+
+// Mock the FTS5 queries, they need a real SQLite database
+vi.mock("../../../services/search", () => ({
+  searchTasks: vi.fn(),
+}));
+
 // Create a mock context
 const createMockContext = (overrides?: any) => ({
   session: {
@@ -27,16 +41,59 @@ const createMockContext = (overrides?: any) => ({
   },
   db: {
     task: {
-      findMany: vi.fn(),
+      findMany: vi.fn().mockResolvedValue([]),
       findFirst: vi.fn(),
+      findUnique: vi.fn(),
       create: vi.fn(),
       update: vi.fn(),
+      updateMany: vi.fn(),
       delete: vi.fn(),
+      deleteMany: vi.fn(),
     },
     user: {
       findUnique: vi.fn(),
       update: vi.fn(),
     },
+    project: {
+      findFirst: vi.fn(),
+      findMany: vi.fn().mockResolvedValue([]),
+      updateMany: vi.fn(),
+    },
+    label: {
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+    context: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      count: vi.fn().mockResolvedValue(0),
+    },
+    person: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+    },
+    todoistOutboxEntry: {
+      findFirst: vi.fn(),
+      findMany: vi.fn().mockResolvedValue([]),
+      create: vi.fn(),
+      delete: vi.fn(),
+      deleteMany: vi.fn(),
+      count: vi.fn(),
+    },
+    taskEvent: {
+      createMany: vi.fn(),
+      findMany: vi.fn(),
+    },
+    comment: {
+      create: vi.fn().mockResolvedValue({ id: "comment-1" }),
+    },
+    operation: {
+      create: vi.fn(),
+      deleteMany: vi.fn(),
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
   } as unknown as PrismaClient,
   ...overrides,
 });
@@ -52,6 +109,10 @@ describe("taskRouter", () => {
     vi.clearAllMocks();
   });
 
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
   describe("getAll", () => {
     it("should return all tasks for the current user", async () => {
       const mockTasks = [
@@ -64,7 +125,7 @@ describe("taskRouter", () => {
 
       expect(result).toEqual(mockTasks);
       expect(mockContext.db.task.findMany).toHaveBeenCalledWith({
-        where: { userId: "test-user-id" },
+        where: { userId: "test-user-id", deletedAt: null },
         orderBy: { createdAt: "desc" },
         include: {
           labels: true,
@@ -89,7 +150,7 @@ describe("taskRouter", () => {
 
       expect(result).toEqual(mockTask);
       expect(mockContext.db.task.findFirst).toHaveBeenCalledWith({
-        where: { id: "1", userId: "test-user-id" },
+        where: { id: "1", userId: "test-user-id", deletedAt: null },
         include: {
           labels: true,
         },
@@ -140,13 +201,18 @@ describe("taskRouter", () => {
           dueDate: createInput.dueDate,
           projectId: undefined,
           sectionId: undefined,
-          todoistId: undefined,
-          syncedAt: null,
           userId: "test-user-id",
+          taskType: "INBOX",
           labels: {
             connectOrCreate: [
-              { where: { name: "work" }, create: { name: "work" } },
-              { where: { name: "urgent" }, create: { name: "urgent" } },
+              {
+                where: { userId_name: { userId: "test-user-id", name: "work" } },
+                create: { name: "work", userId: "test-user-id" },
+              },
+              {
+                where: { userId_name: { userId: "test-user-id", name: "urgent" } },
+                create: { name: "urgent", userId: "test-user-id" },
+              },
             ],
           },
         },
@@ -158,16 +224,7 @@ describe("taskRouter", () => {
       });
     });
 
-    it("should create a task with Todoist sync", async () => {
-      const mockTodoistService = {
-        createTask: vi.fn().mockResolvedValue({
-          id: "todoist-task-id",
-          content: "New Task",
-          priority: 3,
-        }),
-      };
-      (createTodoistService as any).mockReturnValue(mockTodoistService);
-
+    it("should queue the task for Todoist when sync is requested", async () => {
       mockContext.db.user.findUnique.mockResolvedValue({
         id: "test-user-id",
         todoistApiToken: "test-api-token",
@@ -176,70 +233,180 @@ describe("taskRouter", () => {
       const mockCreatedTask = {
         id: "new-task-id",
         ...createInput,
-        todoistId: "todoist-task-id",
-        syncedAt: new Date(),
+        todoistId: null,
         userId: "test-user-id",
         labels: [],
       };
       mockContext.db.task.create.mockResolvedValue(mockCreatedTask);
 
-      await caller.create({ ...createInput, syncToTodoist: true });
+      const result = await caller.create({ ...createInput, syncToTodoist: true });
 
-      expect(mockTodoistService.createTask).toHaveBeenCalledWith({
-        content: "New Task",
-        description: "Task description",
-        priority: 3, // 5 - 2
-        due_date: "2024-01-15",
-        labels: ["work", "urgent"],
+      expect(result).toEqual(mockCreatedTask);
+      expect(mockContext.db.todoistOutboxEntry.create).toHaveBeenCalledWith({
+        data: {
+          entityType: "TASK",
+          operation: "CREATE",
+          entityId: "new-task-id",
+          todoistId: undefined,
+          payload: {
+            content: "New Task",
+            description: "Task description",
+            priority: 3, // 5 - 2
+            due_date: "2024-01-15",
+            labels: ["work", "urgent"],
+          },
+          userId: "test-user-id",
+        },
       });
+    });
+
+    it("should add a subtask after its siblings in the parent's project", async () => {
+      mockContext.db.task.findFirst
+        .mockResolvedValueOnce({ id: "parent-1", projectId: "project-1", sectionId: "section-1" })
+        .mockResolvedValueOnce({ order: 2 });
+      mockContext.db.task.create.mockResolvedValue({ id: "new-task-id" });
 
+      await caller.create({ ...createInput, projectId: "project-2", parentId: "parent-1" });
+
+      expect(mockContext.db.task.findFirst).toHaveBeenNthCalledWith(1, {
+        where: { id: "parent-1", userId: "test-user-id", deletedAt: null },
+        select: { id: true, projectId: true, sectionId: true },
+      });
       expect(mockContext.db.task.create).toHaveBeenCalledWith(
         expect.objectContaining({
           data: expect.objectContaining({
-            todoistId: "todoist-task-id",
-            syncedAt: expect.any(Date),
+            projectId: "project-1",
+            sectionId: "section-1",
+            parentId: "parent-1",
+            order: 3,
           }),
         }),
       );
     });
 
-    it("should handle Todoist sync failure gracefully", async () => {
-      const mockTodoistService = {
-        createTask: vi.fn().mockRejectedValue(new Error("API Error")),
-      };
-      (createTodoistService as any).mockReturnValue(mockTodoistService);
+    it("should throw NOT_FOUND for a parent of another user", async () => {
+      mockContext.db.task.findFirst.mockResolvedValue(null);
+
+      await expect(caller.create({ ...createInput, parentId: "other-task" })).rejects.toThrow(
+        new TRPCError({ code: "NOT_FOUND", message: "Parent task not found" }),
+      );
+      expect(mockContext.db.task.create).not.toHaveBeenCalled();
+    });
 
+    it("should not queue the task when the user has no Todoist token", async () => {
       mockContext.db.user.findUnique.mockResolvedValue({
         id: "test-user-id",
-        todoistApiToken: "test-api-token",
+        todoistApiToken: null,
       });
+      mockContext.db.task.create.mockResolvedValue({ id: "new-task-id" });
 
-      const mockCreatedTask = {
-        id: "new-task-id",
-        ...createInput,
-        todoistId: null,
-        syncedAt: null,
-        userId: "test-user-id",
-        labels: [],
-      };
-      mockContext.db.task.create.mockResolvedValue(mockCreatedTask);
+      await caller.create({ ...createInput, syncToTodoist: true });
 
-      const result = await caller.create({
-        ...createInput,
-        syncToTodoist: true,
+      expect(mockContext.db.todoistOutboxEntry.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("quickCapture", () => {
+    it("should create an inbox task from the parsed fields", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2024-06-10T09:00:00Z"));
+      mockContext.db.task.create.mockResolvedValue({ id: "new-task-id" });
+      mockContext.db.context.findUnique.mockResolvedValue({ id: "context-errands", name: "@errands" });
+
+      await caller.quickCapture({ text: "Buy milk tomorrow @errands +shopping p2 ~10m" });
+
+      expect(mockContext.db.context.findUnique).toHaveBeenCalledWith({
+        where: { userId_name: { userId: "test-user-id", name: "@errands" } },
+      });
+      expect(mockContext.db.task.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          title: "Buy milk",
+          priority: 2, // p2
+          dueDate: new Date("2024-06-11"),
+          contextId: "context-errands",
+          timeEstimate: 10,
+          taskType: "INBOX",
+          userId: "test-user-id",
+          labels: {
+            connectOrCreate: [
+              {
+                where: { userId_name: { userId: "test-user-id", name: "shopping" } },
+                create: { name: "shopping", userId: "test-user-id" },
+              },
+            ],
+          },
+        }),
+        include: { labels: true, project: true, section: true },
       });
+    });
 
-      // Task should still be created locally even if Todoist sync fails
-      expect(result).toEqual(mockCreatedTask);
+    it("should create contexts that do not exist yet", async () => {
+      mockContext.db.task.create.mockResolvedValue({ id: "new-task-id" });
+      mockContext.db.context.findUnique.mockResolvedValue(null);
+      mockContext.db.context.count.mockResolvedValue(5);
+      mockContext.db.context.create.mockResolvedValue({ id: "context-car", name: "@car" });
+
+      await caller.quickCapture({ text: "Check tyres @car" });
+
+      expect(mockContext.db.context.create).toHaveBeenCalledWith({
+        data: { name: "@car", icon: undefined, order: 5, userId: "test-user-id" },
+      });
       expect(mockContext.db.task.create).toHaveBeenCalledWith(
         expect.objectContaining({
-          data: expect.objectContaining({
-            todoistId: undefined,
-            syncedAt: null,
-          }),
+          data: expect.objectContaining({ title: "Check tyres", contextId: "context-car" }),
         }),
       );
     });
+
+    it("should reject text without a title", async () => {
+      await expect(caller.quickCapture({ text: "tomorrow p1" })).rejects.toMatchObject({
+        code: "BAD_REQUEST",
+      });
+      expect(mockContext.db.task.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("search", () => {
+    it("should return the user's tasks in rank order with highlights", async () => {
+      vi.mocked(searchTasks).mockResolvedValue([
+        { taskId: "task-2", title: "\u0002Paint\u0003 fence", snippet: "", rank: -3 },
+        { taskId: "task-1", title: "Buy \u0002paint\u0003", snippet: "white", rank: -1 },
+      ]);
+      mockContext.db.task.findMany.mockResolvedValue([
+        { id: "task-1", title: "Buy paint", labels: [] },
+        { id: "task-2", title: "Paint fence", labels: [] },
+      ]);
+
+      const result = await caller.search({ query: "paint" });
+
+      expect(searchTasks).toHaveBeenCalledWith(mockContext.db, "test-user-id", "paint", {
+        limit: 20,
+        includeCompleted: false,
+      });
+      expect(mockContext.db.task.findMany).toHaveBeenCalledWith({
+        where: { id: { in: ["task-2", "task-1"] }, userId: "test-user-id", deletedAt: null },
+        include: { labels: true, project: true, section: true },
+      });
+      expect(result).toEqual([
+        {
+          task: { id: "task-2", title: "Paint fence", labels: [] },
+          highlight: { title: "\u0002Paint\u0003 fence", snippet: "" },
+        },
+        {
+          task: { id: "task-1", title: "Buy paint", labels: [] },
+          highlight: { title: "Buy \u0002paint\u0003", snippet: "white" },
+        },
+      ]);
+    });
+
+    it("should skip loading tasks when nothing matches", async () => {
+      vi.mocked(searchTasks).mockResolvedValue([]);
+
+      const result = await caller.search({ query: "nothing", includeCompleted: true });
+
+      expect(result).toEqual([]);
+      expect(mockContext.db.task.findMany).not.toHaveBeenCalled();
+    });
   });
 
   describe("update", () => {
@@ -271,193 +438,974 @@ describe("taskRouter", () => {
       expect(result).toEqual(updatedTask);
     });
 
-    it("should update a task with Todoist sync", async () => {
+    it("should record the changed fields so the update can be undone", async () => {
       const existingTask = {
         id: "task-1",
         title: "Original Task",
         completed: false,
-        todoistId: "todoist-task-id",
+        todoistId: null,
         userId: "test-user-id",
         labels: [],
       };
       mockContext.db.task.findFirst.mockResolvedValue(existingTask);
-
-      const mockTodoistService = {
-        closeTask: vi.fn(),
-        updateTask: vi.fn(),
-      };
-      (createTodoistService as any).mockReturnValue(mockTodoistService);
-
-      mockContext.db.user.findUnique.mockResolvedValue({
-        id: "test-user-id",
-        todoistApiToken: "test-api-token",
-      });
-
-      const updatedTask = { ...existingTask, ...updateInput };
-      mockContext.db.task.update.mockResolvedValue(updatedTask);
+      mockContext.db.task.update.mockResolvedValue({ ...existingTask, ...updateInput });
 
       await caller.update(updateInput);
 
-      expect(mockTodoistService.closeTask).toHaveBeenCalledWith(
-        "todoist-task-id",
-      );
-      expect(mockTodoistService.updateTask).toHaveBeenCalledWith(
-        "todoist-task-id",
-        {
-          content: "Updated Task",
+      expect(mockContext.db.operation.create).toHaveBeenCalledWith({
+        data: {
+          type: "UPDATE",
+          entityType: "TASK",
+          entityId: "task-1",
+          description: 'Complete "Original Task"',
+          before: { title: "Original Task", completed: false },
+          after: { title: "Updated Task", completed: true },
+          userId: "test-user-id",
         },
-      );
-    });
-
-    it("should throw NOT_FOUND error when task does not exist", async () => {
-      mockContext.db.task.findFirst.mockResolvedValue(null);
-
-      await expect(caller.update(updateInput)).rejects.toThrow(
-        new TRPCError({ code: "NOT_FOUND", message: "Task not found" }),
-      );
+      });
     });
-  });
 
-  describe("delete", () => {
-    it("should delete a task without Todoist sync", async () => {
+    it("should log the completion and the edited fields in the task's activity", async () => {
       const existingTask = {
         id: "task-1",
+        title: "Original Task",
+        completed: false,
         todoistId: null,
         userId: "test-user-id",
+        labels: [],
       };
       mockContext.db.task.findFirst.mockResolvedValue(existingTask);
-      mockContext.db.task.delete.mockResolvedValue(existingTask);
+      mockContext.db.task.update.mockResolvedValue({ ...existingTask, ...updateInput });
 
-      const result = await caller.delete({ id: "task-1" });
+      await caller.update(updateInput);
 
-      expect(result).toEqual(existingTask);
-      expect(mockContext.db.task.delete).toHaveBeenCalledWith({
-        where: { id: "task-1" },
+      expect(mockContext.db.taskEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          { taskId: "task-1", type: "COMPLETED", userId: "test-user-id" },
+          {
+            taskId: "task-1",
+            type: "UPDATED",
+            changes: { title: { from: "Original Task", to: "Updated Task" } },
+            userId: "test-user-id",
+          },
+        ],
       });
     });
 
-    it("should delete a task with Todoist sync", async () => {
+    it("should queue completion and field changes for linked tasks", async () => {
       const existingTask = {
         id: "task-1",
+        title: "Original Task",
+        completed: false,
         todoistId: "todoist-task-id",
         userId: "test-user-id",
+        labels: [],
       };
       mockContext.db.task.findFirst.mockResolvedValue(existingTask);
 
-      const mockTodoistService = {
-        deleteTask: vi.fn(),
-      };
-      (createTodoistService as any).mockReturnValue(mockTodoistService);
+      const updatedTask = { ...existingTask, ...updateInput };
+      mockContext.db.task.update.mockResolvedValue(updatedTask);
 
-      mockContext.db.user.findUnique.mockResolvedValue({
-        id: "test-user-id",
-        todoistApiToken: "test-api-token",
+      await caller.update(updateInput);
+
+      expect(mockContext.db.todoistOutboxEntry.create).toHaveBeenNthCalledWith(1, {
+        data: expect.objectContaining({
+          entityType: "TASK",
+          operation: "CLOSE",
+          entityId: "task-1",
+          todoistId: "todoist-task-id",
+        }),
+      });
+      expect(mockContext.db.todoistOutboxEntry.create).toHaveBeenNthCalledWith(2, {
+        data: expect.objectContaining({
+          operation: "UPDATE",
+          todoistId: "todoist-task-id",
+          payload: { content: "Updated Task" },
+        }),
       });
+    });
 
-      mockContext.db.task.delete.mockResolvedValue(existingTask);
+    it("should defer a task to the tickler without telling Todoist", async () => {
+      const existingTask = {
+        id: "task-1",
+        title: "Renew passport",
+        completed: false,
+        startDate: null,
+        todoistId: "todoist-task-id",
+        userId: "test-user-id",
+        labels: [],
+      };
+      const startDate = new Date("2024-09-01T00:00:00Z");
+      mockContext.db.task.findFirst.mockResolvedValue(existingTask);
+      mockContext.db.task.update.mockResolvedValue({ ...existingTask, startDate });
 
-      await caller.delete({ id: "task-1" });
+      await caller.update({ id: "task-1", startDate });
 
-      expect(mockTodoistService.deleteTask).toHaveBeenCalledWith(
-        "todoist-task-id",
+      expect(mockContext.db.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ startDate }) }),
       );
-      expect(mockContext.db.task.delete).toHaveBeenCalledWith({
-        where: { id: "task-1" },
+      expect(mockContext.db.taskEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            taskId: "task-1",
+            type: "UPDATED",
+            changes: { startDate: { from: null, to: startDate.toISOString() } },
+            userId: "test-user-id",
+          },
+        ],
       });
+      expect(mockContext.db.todoistOutboxEntry.create).not.toHaveBeenCalled();
     });
-  });
 
-  describe("syncFromTodoist", () => {
-    it("should sync tasks from Todoist", async () => {
-      mockContext.db.user.findUnique.mockResolvedValue({
-        id: "test-user-id",
-        todoistApiToken: "test-api-token",
+    it("should not queue changes for tasks unknown to Todoist", async () => {
+      mockContext.db.task.findFirst.mockResolvedValue({
+        id: "task-1",
+        completed: false,
+        todoistId: null,
+        labels: [],
       });
-
-      const mockTodoistService = {
-        getTasks: vi.fn().mockResolvedValue([
-          {
-            id: "todoist-1",
-            content: "Todoist Task 1",
-            is_completed: false,
-            priority: 2,
-            created_at: "2024-01-01",
-            labels: ["work"],
-          },
-          {
-            id: "todoist-2",
-            content: "Todoist Task 2",
-            is_completed: true,
-            priority: 1,
-            created_at: "2024-01-02",
-          },
-        ]),
-      };
-      (createTodoistService as any).mockReturnValue(mockTodoistService);
-
-      mockContext.db.task.findMany.mockResolvedValue([
-        {
-          id: "local-1",
-          todoistId: "todoist-2",
-          title: "Old Task 2",
-          labels: [],
-        },
-      ]);
-
-      mockContext.db.task.create.mockResolvedValue({});
       mockContext.db.task.update.mockResolvedValue({});
+      mockContext.db.todoistOutboxEntry.findFirst.mockResolvedValue(null);
 
-      const result = await caller.syncFromTodoist();
+      await caller.update(updateInput);
 
-      expect(result).toEqual({ imported: 1, updated: 1 });
+      expect(mockContext.db.todoistOutboxEntry.create).not.toHaveBeenCalled();
+    });
 
-      // Should create new task
-      expect(mockContext.db.task.create).toHaveBeenCalledWith({
+    it("should complete the open subtasks of a completed task", async () => {
+      mockContext.db.task.findFirst.mockResolvedValue({
+        id: "task-1",
+        completed: false,
+        todoistId: "todoist-task-id",
+        labels: [],
+      });
+      mockContext.db.task.update.mockResolvedValue({ id: "task-1", completed: true });
+      mockContext.db.task.findMany
+        .mockResolvedValueOnce([{ id: "child-1" }, { id: "child-2" }])
+        .mockResolvedValueOnce([{ id: "grandchild-1" }])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([
+          { id: "child-1", title: "Child" },
+          { id: "grandchild-1", title: "Grandchild" },
+        ]);
+      mockContext.db.task.updateMany.mockResolvedValue({ count: 2 });
+
+      await caller.update({ id: "task-1", completed: true });
+
+      expect(mockContext.db.task.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ["child-1", "grandchild-1"] } },
+        data: { completed: true },
+      });
+      // Each subtask can be reopened by undo, like the task itself
+      expect(mockContext.db.taskEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          { taskId: "child-1", type: "COMPLETED", userId: "test-user-id" },
+          { taskId: "grandchild-1", type: "COMPLETED", userId: "test-user-id" },
+        ],
+      });
+      expect(mockContext.db.operation.create).toHaveBeenCalledWith({
         data: expect.objectContaining({
-          todoistId: "todoist-1",
-          title: "Todoist Task 1",
-          completed: false,
-          priority: 3, // 5 - 2
-          userId: "test-user-id",
+          type: "UPDATE",
+          entityType: "TASK",
+          entityId: "grandchild-1",
+          description: 'Complete "Grandchild"',
+          before: { completed: false },
+          after: { completed: true },
         }),
       });
-
-      // Should update existing task
-      expect(mockContext.db.task.update).toHaveBeenCalledTimes(2); // Once to clear labels, once to update
+      // Actions waiting for the task or its subtasks may be free now
+      expect(mockContext.db.task.findMany).toHaveBeenLastCalledWith({
+        where: expect.objectContaining({
+          AND: [
+            {
+              userId: "test-user-id",
+              blockedBy: {
+                some: { id: { in: ["task-1", "child-1", "child-2", "grandchild-1"] } },
+              },
+            },
+            { blockedBy: { none: { completed: false, deletedAt: null } } },
+          ],
+        }),
+        select: { id: true },
+      });
+      // Todoist completes the subtasks itself
+      expect(mockContext.db.todoistOutboxEntry.create).toHaveBeenCalledTimes(1);
     });
 
-    it("should throw error when no API token", async () => {
-      mockContext.db.user.findUnique.mockResolvedValue({
-        id: "test-user-id",
-        todoistApiToken: null,
+    it("should reopen the parents of a reopened subtask", async () => {
+      mockContext.db.task.findFirst.mockResolvedValue({
+        id: "task-1",
+        completed: true,
+        todoistId: null,
+        labels: [],
       });
+      mockContext.db.task.update.mockResolvedValue({ id: "task-1", completed: false });
+      mockContext.db.task.findUnique
+        .mockResolvedValueOnce({ parentId: "parent-1" })
+        .mockResolvedValueOnce({ parentId: null });
+      mockContext.db.task.updateMany.mockResolvedValue({ count: 1 });
 
-      await expect(caller.syncFromTodoist()).rejects.toThrow(
-        new TRPCError({
-          code: "PRECONDITION_FAILED",
-          message: "Todoist API token not configured",
-        }),
-      );
+      await caller.update({ id: "task-1", completed: false });
+
+      expect(mockContext.db.task.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ["parent-1"] }, completed: true },
+        data: { completed: false },
+      });
     });
-  });
 
-  describe("updateTodoistToken", () => {
-    it("should update user Todoist token", async () => {
-      mockContext.db.user.update.mockResolvedValue({
-        id: "test-user-id",
-        todoistApiToken: "new-token",
-      } as any);
+    it("should schedule the next occurrence when a recurring task is completed", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2024-06-10T18:00:00Z"));
+      const existingTask = {
+        id: "task-1",
+        title: "Water plants",
+        completed: false,
+        dueDate: new Date("2024-06-10"),
+        recurrence: "every 3 days",
+        todoistId: "todoist-task-id",
+        syncSnapshot: null,
+        userId: "test-user-id",
+        labels: [{ id: "label-1", name: "home" }],
+      };
+      mockContext.db.task.findFirst.mockResolvedValue(existingTask);
+      mockContext.db.task.update.mockResolvedValue({ ...existingTask, completed: true });
+      mockContext.db.task.create.mockResolvedValue({ id: "task-2" });
 
-      const result = await caller.updateTodoistToken({ token: "new-token" });
+      const result = await caller.update({ id: "task-1", completed: true });
 
-      expect(mockContext.db.user.update).toHaveBeenCalledWith({
-        where: { id: "test-user-id" },
-        data: { todoistApiToken: "new-token" },
+      expect(result).toMatchObject({ completed: true, todoistId: null, recurrence: null });
+      expect(mockContext.db.task.update).toHaveBeenCalledWith({
+        where: { id: "task-1" },
+        data: { todoistId: null, recurrence: null },
+      });
+      expect(mockContext.db.task.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          title: "Water plants",
+          dueDate: new Date("2024-06-13"),
+          recurrence: "every 3 days",
+          todoistId: "todoist-task-id",
+          labels: { connect: [{ id: "label-1" }] },
+        }),
+      });
+      // Todoist moves its recurring task forward on close
+      expect(mockContext.db.todoistOutboxEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          operation: "CLOSE",
+          entityId: "task-2",
+          todoistId: "todoist-task-id",
+        }),
       });
-      expect((result as any).todoistApiToken).toBe("new-token");
     });
 
-    it("should clear token when undefined", async () => {
+    it("should move the start and follow-up dates with the due date and keep the parent", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2024-06-10T18:00:00Z"));
+      const existingTask = {
+        id: "task-1",
+        title: "Weekly review",
+        completed: false,
+        dueDate: new Date("2024-06-10"),
+        startDate: new Date("2024-06-08"),
+        followUpAt: new Date("2024-06-12T09:00:00Z"),
+        recurrence: "every week",
+        parentId: "parent-1",
+        todoistId: null,
+        syncSnapshot: null,
+        userId: "test-user-id",
+        labels: [],
+      };
+      mockContext.db.task.findFirst.mockResolvedValue(existingTask);
+      mockContext.db.task.update.mockResolvedValue({ ...existingTask, completed: true });
+      mockContext.db.task.create.mockResolvedValue({ id: "task-2" });
+
+      await caller.update({ id: "task-1", completed: true });
+
+      expect(mockContext.db.task.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          dueDate: new Date("2024-06-17"),
+          startDate: new Date("2024-06-15"),
+          followUpAt: new Date("2024-06-19T09:00:00Z"),
+          parentId: "parent-1",
+        }),
+      });
+    });
+
+    it("should send the rule with the due date to Todoist", async () => {
+      mockContext.db.task.findFirst.mockResolvedValue({
+        id: "task-1",
+        completed: false,
+        dueDate: new Date("2024-06-10"),
+        recurrence: null,
+        todoistId: "todoist-task-id",
+        labels: [],
+      });
+      mockContext.db.task.update.mockResolvedValue({});
+
+      await caller.update({ id: "task-1", recurrence: "every weekday" });
+
+      expect(mockContext.db.todoistOutboxEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          operation: "UPDATE",
+          payload: { due_string: "every weekday starting 2024-06-10" },
+        }),
+      });
+    });
+
+    it("should reject unsupported recurrence rules", async () => {
+      await expect(
+        caller.update({ id: "task-1", recurrence: "every full moon" }),
+      ).rejects.toThrow();
+      expect(mockContext.db.task.findFirst).not.toHaveBeenCalled();
+    });
+
+    it("should throw NOT_FOUND error when task does not exist", async () => {
+      mockContext.db.task.findFirst.mockResolvedValue(null);
+
+      await expect(caller.update(updateInput)).rejects.toThrow(
+        new TRPCError({ code: "NOT_FOUND", message: "Task not found" }),
+      );
+    });
+  });
+
+  describe("move", () => {
+    it("should move a task and its subtasks under a new parent", async () => {
+      mockContext.db.task.findFirst
+        .mockResolvedValueOnce({ id: "task-1", parentId: null, order: 4, todoistId: "todoist-task-1" })
+        .mockResolvedValueOnce({ id: "parent-1", projectId: "project-1", sectionId: null })
+        .mockResolvedValueOnce({ order: 0 });
+      mockContext.db.task.findUnique.mockResolvedValue({ parentId: null });
+      mockContext.db.task.findMany
+        .mockResolvedValueOnce([{ id: "child-1" }])
+        .mockResolvedValueOnce([]);
+      mockContext.db.task.update.mockResolvedValue({ id: "task-1", parentId: "parent-1" });
+      mockContext.db.task.updateMany.mockResolvedValue({ count: 1 });
+
+      await caller.move({ id: "task-1", parentId: "parent-1" });
+
+      expect(mockContext.db.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: "task-1" },
+          data: { parentId: "parent-1", order: 1, projectId: "project-1", sectionId: null },
+        }),
+      );
+      expect(mockContext.db.task.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ["child-1"] } },
+        data: { projectId: "project-1", sectionId: null },
+      });
+      expect(mockContext.db.todoistOutboxEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          entityType: "TASK",
+          operation: "MOVE",
+          entityId: "task-1",
+          todoistId: "todoist-task-1",
+        }),
+      });
+    });
+
+    it("should make room among the siblings at a given position", async () => {
+      mockContext.db.task.findFirst.mockResolvedValueOnce({
+        id: "task-1",
+        parentId: null,
+        order: 4,
+        todoistId: null,
+      });
+      mockContext.db.task.update.mockResolvedValue({ id: "task-1", parentId: null });
+
+      await caller.move({ id: "task-1", parentId: null, order: 1 });
+
+      expect(mockContext.db.task.updateMany).toHaveBeenCalledWith({
+        where: {
+          userId: "test-user-id",
+          parentId: null,
+          order: { gte: 1 },
+          id: { not: "task-1" },
+        },
+        data: { order: { increment: 1 } },
+      });
+      expect(mockContext.db.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { parentId: null, order: 1 } }),
+      );
+      expect(mockContext.db.todoistOutboxEntry.create).not.toHaveBeenCalled();
+    });
+
+    it("should not move a task below one of its own subtasks", async () => {
+      mockContext.db.task.findFirst
+        .mockResolvedValueOnce({ id: "task-1", parentId: null, order: 0 })
+        .mockResolvedValueOnce({ id: "grandchild-1", projectId: null, sectionId: null });
+      mockContext.db.task.findUnique
+        .mockResolvedValueOnce({ parentId: "child-1" })
+        .mockResolvedValueOnce({ parentId: "task-1" })
+        .mockResolvedValueOnce({ parentId: null });
+
+      await expect(caller.move({ id: "task-1", parentId: "grandchild-1" })).rejects.toThrow(
+        new TRPCError({ code: "BAD_REQUEST", message: "A task cannot be moved below itself" }),
+      );
+      expect(mockContext.db.task.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("delete", () => {
+    it("should move the task and its subtasks to the trash", async () => {
+      const existingTask = { id: "task-1", todoistId: null, userId: "test-user-id" };
+      mockContext.db.task.findFirst.mockResolvedValue(existingTask);
+      mockContext.db.task.findMany
+        .mockResolvedValueOnce([{ id: "subtask-1" }])
+        .mockResolvedValueOnce([]);
+
+      const result = await caller.delete({ id: "task-1" });
+
+      expect(result).toEqual({ ...existingTask, deletedAt: expect.any(Date) });
+      expect(mockContext.db.task.findFirst).toHaveBeenCalledWith({
+        where: { id: "task-1", userId: "test-user-id", deletedAt: null },
+      });
+      expect(mockContext.db.task.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ["task-1", "subtask-1"] }, deletedAt: null },
+        data: { deletedAt: result.deletedAt },
+      });
+      expect(mockContext.db.task.delete).not.toHaveBeenCalled();
+    });
+
+    it("should not tell Todoist until the task is purged", async () => {
+      mockContext.db.task.findFirst.mockResolvedValue({
+        id: "task-1",
+        todoistId: "todoist-task-id",
+        userId: "test-user-id",
+      });
+
+      await caller.delete({ id: "task-1" });
+
+      expect(mockContext.db.todoistOutboxEntry.create).not.toHaveBeenCalled();
+    });
+
+    it("should promote the actions that were waiting for the trashed tasks", async () => {
+      mockContext.db.task.findFirst.mockResolvedValue({ id: "task-1", userId: "test-user-id" });
+
+      await caller.delete({ id: "task-1" });
+
+      expect(mockContext.db.task.findMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          AND: [
+            { userId: "test-user-id", blockedBy: { some: { id: { in: ["task-1"] } } } },
+            { blockedBy: { none: { completed: false, deletedAt: null } } },
+          ],
+        }),
+        select: { id: true },
+      });
+    });
+
+    it("should throw NOT_FOUND for tasks already in the trash", async () => {
+      mockContext.db.task.findFirst.mockResolvedValue(null);
+
+      await expect(caller.delete({ id: "task-1" })).rejects.toThrow("Task not found");
+    });
+  });
+
+  describe("processInboxItem", () => {
+    it("should turn the processing notes into a comment", async () => {
+      const existingTask = {
+        id: "task-1",
+        todoistId: null,
+        title: "Call Bob",
+        description: "About the fence",
+        taskType: "INBOX",
+        isNextAction: false,
+        project: null,
+        userId: "test-user-id",
+      };
+      mockContext.db.task.findFirst.mockResolvedValue(existingTask);
+      mockContext.db.task.update.mockResolvedValue({
+        ...existingTask,
+        taskType: "ACTION",
+        isNextAction: true,
+      });
+      mockContext.db.processingSession = { upsert: vi.fn() };
+
+      await caller.processInboxItem({
+        id: "task-1",
+        taskType: "ACTION",
+        isNextAction: true,
+        notes: "Only after lunch",
+      });
+
+      expect(mockContext.db.task.update).toHaveBeenCalledWith({
+        where: { id: "task-1" },
+        data: { taskType: "ACTION", isNextAction: true, reviewedAt: expect.any(Date) },
+        include: { labels: true, project: true, section: true, context: true, person: true },
+      });
+      expect(mockContext.db.taskEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            taskId: "task-1",
+            type: "PROCESSED",
+            changes: {
+              taskType: { from: "INBOX", to: "ACTION" },
+              isNextAction: { from: false, to: true },
+            },
+            userId: "test-user-id",
+          },
+        ],
+      });
+      expect(mockContext.db.comment.create).toHaveBeenCalledWith({
+        data: { content: "Only after lunch", taskId: "task-1", userId: "test-user-id" },
+      });
+    });
+
+    it("should file reference material into a resource project", async () => {
+      const existingTask = {
+        id: "task-1",
+        todoistId: "todoist-1",
+        title: "Boiler manual",
+        taskType: "INBOX",
+        projectId: null,
+        sectionId: "section-1",
+        project: null,
+        userId: "test-user-id",
+      };
+      mockContext.db.task.findFirst.mockResolvedValue(existingTask);
+      mockContext.db.project.findFirst.mockResolvedValue({ id: "resource-1" });
+      mockContext.db.task.update.mockResolvedValue({
+        ...existingTask,
+        taskType: "REFERENCE",
+        projectId: "resource-1",
+        sectionId: null,
+        project: { id: "resource-1", name: "House" },
+      });
+      mockContext.db.processingSession = { upsert: vi.fn() };
+
+      await caller.processInboxItem({
+        id: "task-1",
+        taskType: "REFERENCE",
+        projectId: "resource-1",
+      });
+
+      expect(mockContext.db.project.findFirst).toHaveBeenCalledWith({
+        where: { id: "resource-1", userId: "test-user-id", deletedAt: null },
+        select: { id: true },
+      });
+      expect(mockContext.db.task.update).toHaveBeenCalledWith({
+        where: { id: "task-1" },
+        data: {
+          taskType: "REFERENCE",
+          projectId: "resource-1",
+          sectionId: null,
+          reviewedAt: expect.any(Date),
+        },
+        include: { labels: true, project: true, section: true, context: true, person: true },
+      });
+      expect(mockContext.db.todoistOutboxEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          entityType: "TASK",
+          operation: "MOVE",
+          entityId: "task-1",
+          todoistId: "todoist-1",
+        }),
+      });
+    });
+
+    it("should not file into another user's project", async () => {
+      mockContext.db.task.findFirst.mockResolvedValue({
+        id: "task-1",
+        title: "Boiler manual",
+        projectId: null,
+        userId: "test-user-id",
+      });
+      mockContext.db.project.findFirst.mockResolvedValue(null);
+
+      await expect(
+        caller.processInboxItem({ id: "task-1", taskType: "REFERENCE", projectId: "other" }),
+      ).rejects.toThrow(new TRPCError({ code: "NOT_FOUND", message: "Project not found" }));
+      expect(mockContext.db.task.update).not.toHaveBeenCalled();
+    });
+
+    it("should log the context by name", async () => {
+      const existingTask = {
+        id: "task-1",
+        title: "Call Bob",
+        taskType: "INBOX",
+        contextId: null,
+        context: null,
+        project: null,
+        userId: "test-user-id",
+      };
+      mockContext.db.task.findFirst.mockResolvedValue(existingTask);
+      mockContext.db.context.findFirst.mockResolvedValue({ id: "context-phone" });
+      mockContext.db.task.update.mockResolvedValue({
+        ...existingTask,
+        taskType: "ACTION",
+        contextId: "context-phone",
+        context: { id: "context-phone", name: "@phone" },
+      });
+      mockContext.db.processingSession = { upsert: vi.fn() };
+
+      await caller.processInboxItem({ id: "task-1", taskType: "ACTION", contextId: "context-phone" });
+
+      expect(mockContext.db.context.findFirst).toHaveBeenCalledWith({
+        where: { id: "context-phone", userId: "test-user-id" },
+        select: { id: true },
+      });
+      expect(mockContext.db.taskEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            type: "PROCESSED",
+            changes: {
+              taskType: { from: "INBOX", to: "ACTION" },
+              context: { from: null, to: "@phone" },
+            },
+          }),
+        ],
+      });
+    });
+
+    it("should link who a waiting task waits on and schedule a follow-up", async () => {
+      const existingTask = {
+        id: "task-1",
+        title: "Quote for the fence",
+        taskType: "INBOX",
+        person: null,
+        userId: "test-user-id",
+      };
+      mockContext.db.task.findFirst.mockResolvedValue(existingTask);
+      mockContext.db.person.findUnique.mockResolvedValue(null);
+      mockContext.db.person.create.mockResolvedValue({ id: "person-1", name: "Bob" });
+      mockContext.db.task.update.mockResolvedValue({
+        ...existingTask,
+        taskType: "WAITING",
+        waitingFor: "Bob",
+        personId: "person-1",
+        person: { id: "person-1", name: "Bob" },
+      });
+      mockContext.db.processingSession = { upsert: vi.fn() };
+
+      await caller.processInboxItem({ id: "task-1", taskType: "WAITING", waitingFor: " Bob " });
+
+      expect(mockContext.db.person.create).toHaveBeenCalledWith({
+        data: { name: "Bob", userId: "test-user-id" },
+      });
+      expect(mockContext.db.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            taskType: "WAITING",
+            personId: "person-1",
+            delegatedAt: expect.any(Date),
+            followUpAt: expect.any(Date),
+          }),
+        }),
+      );
+      const { followUpAt } = mockContext.db.task.update.mock.calls[0]![0].data;
+      expect(Math.round((followUpAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000))).toBe(3);
+    });
+
+    it("should not wait on another user's person", async () => {
+      mockContext.db.task.findFirst.mockResolvedValue({
+        id: "task-1",
+        title: "Quote for the fence",
+        userId: "test-user-id",
+      });
+      mockContext.db.person.findFirst.mockResolvedValue(null);
+
+      await expect(
+        caller.processInboxItem({ id: "task-1", taskType: "WAITING", personId: "other" }),
+      ).rejects.toThrow(new TRPCError({ code: "NOT_FOUND", message: "Person not found" }));
+      expect(mockContext.db.task.update).not.toHaveBeenCalled();
+    });
+
+    it("should not use another user's context", async () => {
+      mockContext.db.task.findFirst.mockResolvedValue({
+        id: "task-1",
+        title: "Call Bob",
+        userId: "test-user-id",
+      });
+      mockContext.db.context.findFirst.mockResolvedValue(null);
+
+      await expect(
+        caller.processInboxItem({ id: "task-1", taskType: "ACTION", contextId: "other" }),
+      ).rejects.toThrow(new TRPCError({ code: "NOT_FOUND", message: "Context not found" }));
+      expect(mockContext.db.task.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("recommendNextAction", () => {
+    const action = (id: string, fields: Record<string, unknown>) => ({
+      id,
+      priority: 4,
+      dueDate: null,
+      energyLevel: null,
+      timeEstimate: null,
+      createdAt: new Date(),
+      contextId: null,
+      context: null,
+      project: null,
+      ...fields,
+    });
+
+    it("should rank the open next actions in the context or without one", async () => {
+      mockContext.db.task.findMany.mockResolvedValueOnce([
+        action("task-1", {}),
+        action("task-2", { priority: 1 }),
+      ]);
+
+      const result = await caller.recommendNextAction({ contextId: "context-1" });
+
+      expect(result.map((recommendation) => recommendation.task.id)).toEqual(["task-2", "task-1"]);
+      expect(result[0]!.reasons).toEqual([
+        { factor: "priority", points: 30, explanation: "Priority p1" },
+      ]);
+      expect(mockContext.db.task.findMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          userId: "test-user-id",
+          isNextAction: true,
+          completed: false,
+          OR: [{ contextId: "context-1" }, { contextId: null }],
+        }),
+        include: { labels: true, project: true, section: true, context: true },
+      });
+    });
+
+    it("should leave out actions longer than the available time", async () => {
+      mockContext.db.task.findMany.mockResolvedValueOnce([
+        action("task-1", { timeEstimate: 60 }),
+        action("task-2", { timeEstimate: 15 }),
+      ]);
+
+      const result = await caller.recommendNextAction({ availableMinutes: 30, limit: 5 });
+
+      expect(result.map((recommendation) => recommendation.task.id)).toEqual(["task-2"]);
+    });
+  });
+
+  describe("getInbox", () => {
+    it("should leave out deferred tasks without changing anything", async () => {
+      mockContext.db.task.findMany.mockResolvedValueOnce([{ id: "task-1", title: "Renew passport" }]);
+
+      const result = await caller.getInbox();
+
+      expect(result).toEqual([{ id: "task-1", title: "Renew passport" }]);
+      expect(mockContext.db.task.updateMany).not.toHaveBeenCalled();
+      expect(mockContext.db.taskEvent.createMany).not.toHaveBeenCalled();
+      expect(mockContext.db.task.findMany).toHaveBeenCalledTimes(1);
+      expect(mockContext.db.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            taskType: "INBOX",
+            AND: [
+              { OR: [{ startDate: null }, { startDate: { lte: expect.any(Date) } }] },
+              expect.anything(),
+            ],
+          }),
+        }),
+      );
+    });
+  });
+
+  describe("getTickler", () => {
+    it("should return the deferred tasks and projects by start date", async () => {
+      const tasks = [{ id: "task-1", startDate: new Date("2099-01-01") }];
+      const projects = [{ id: "project-1", startDate: new Date("2099-02-01") }];
+      mockContext.db.task.findMany.mockResolvedValueOnce(tasks);
+      mockContext.db.project.findMany.mockResolvedValueOnce(projects);
+
+      const result = await caller.getTickler();
+
+      expect(result).toEqual({ tasks, projects });
+      expect(mockContext.db.task.updateMany).not.toHaveBeenCalled();
+      expect(mockContext.db.task.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: "test-user-id",
+          deletedAt: null,
+          startDate: { gt: expect.any(Date) },
+          completed: false,
+        },
+        orderBy: [{ startDate: "asc" }, { createdAt: "asc" }],
+        include: { labels: true, project: true, context: true },
+      });
+    });
+  });
+
+  describe("nudge", () => {
+    it("should log the follow-up and ask again in a few days", async () => {
+      const followUpAt = new Date("2024-06-10T00:00:00Z");
+      mockContext.db.task.findFirst.mockResolvedValue({ id: "task-1", followUpAt });
+      mockContext.db.task.update.mockImplementation(({ data }: any) =>
+        Promise.resolve({ id: "task-1", ...data }),
+      );
+
+      await caller.nudge({ id: "task-1", note: "Emailed again", followUpInDays: 7 });
+
+      expect(mockContext.db.task.findFirst).toHaveBeenCalledWith({
+        where: { id: "task-1", userId: "test-user-id", deletedAt: null, taskType: "WAITING" },
+      });
+      const next = mockContext.db.task.update.mock.calls[0]![0].data.followUpAt as Date;
+      expect(Math.round((next.getTime() - Date.now()) / (24 * 60 * 60 * 1000))).toBe(7);
+      expect(mockContext.db.taskEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            taskId: "task-1",
+            type: "FOLLOWED_UP",
+            changes: { followUpAt: { from: followUpAt.toISOString(), to: next.toISOString() } },
+            note: "Emailed again",
+            userId: "test-user-id",
+          },
+        ],
+      });
+    });
+
+    it("should only nudge waiting tasks", async () => {
+      mockContext.db.task.findFirst.mockResolvedValue(null);
+
+      await expect(caller.nudge({ id: "task-1" })).rejects.toThrow(
+        new TRPCError({ code: "NOT_FOUND", message: "Task not found" }),
+      );
+      expect(mockContext.db.taskEvent.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getReference", () => {
+    it("should return reference items, resource projects and their labels", async () => {
+      const items = [{ id: "task-1", title: "Boiler manual", labels: [] }];
+      const resources = [{ id: "resource-1", name: "House" }];
+      const labels = [{ id: "label-1", name: "manuals", _count: { tasks: 1 } }];
+      mockContext.db.task.findMany.mockResolvedValue(items);
+      mockContext.db.project.findMany.mockResolvedValue(resources);
+      mockContext.db.label.findMany.mockResolvedValue(labels);
+
+      const result = await caller.getReference();
+
+      expect(result).toEqual({ items, resources, labels });
+      const library = {
+        userId: "test-user-id",
+        deletedAt: null,
+        completed: false,
+        OR: [{ taskType: "REFERENCE" }, { project: { projectType: "RESOURCE" } }],
+      };
+      expect(mockContext.db.task.findMany).toHaveBeenCalledWith({
+        where: { AND: [library, {}, {}] },
+        orderBy: { createdAt: "desc" },
+        include: { labels: true, project: true, section: true },
+      });
+      expect(mockContext.db.project.findMany).toHaveBeenCalledWith({
+        where: { userId: "test-user-id", deletedAt: null, projectType: "RESOURCE" },
+        orderBy: [{ order: "asc" }, { name: "asc" }],
+      });
+      expect(mockContext.db.label.findMany).toHaveBeenCalledWith({
+        where: { userId: "test-user-id", tasks: { some: library } },
+        orderBy: { name: "asc" },
+        include: { _count: { select: { tasks: { where: library } } } },
+      });
+    });
+
+    it("should narrow the items by label and search text", async () => {
+      await caller.getReference({ labelId: "label-1", search: " boiler " });
+
+      const where = mockContext.db.task.findMany.mock.calls[0]![0].where;
+      expect(where.AND.slice(1)).toEqual([
+        { labels: { some: { id: "label-1" } } },
+        {
+          OR: [
+            { title: { contains: "boiler" } },
+            { description: { contains: "boiler" } },
+            { project: { name: { contains: "boiler" } } },
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe("getActivity", () => {
+    it("should return the task's events newest first", async () => {
+      const events = [{ id: "event-1", type: "CREATED", taskId: "task-1" }];
+      mockContext.db.taskEvent.findMany.mockResolvedValue(events);
+
+      const result = await caller.getActivity({ id: "task-1" });
+
+      expect(result).toEqual(events);
+      expect(mockContext.db.taskEvent.findMany).toHaveBeenCalledWith({
+        where: { taskId: "task-1", userId: "test-user-id" },
+        orderBy: { createdAt: "desc" },
+      });
+    });
+  });
+
+  describe("syncFromTodoist", () => {
+    it("should push local changes and pull tasks like the full sync", async () => {
+      mockContext.db.user.findUnique.mockResolvedValue({
+        id: "test-user-id",
+        todoistApiToken: "test-api-token",
+      });
+      const mockTodoistService = { updateTask: vi.fn().mockResolvedValue({}) };
+      (createTodoistService as any).mockReturnValue(mockTodoistService);
+      mockContext.db.todoistOutboxEntry.findMany.mockResolvedValue([
+        {
+          id: "entry-1",
+          entityType: "TASK",
+          operation: "UPDATE",
+          entityId: "local-1",
+          todoistId: "todoist-1",
+          payload: { content: "Edited here" },
+          attempts: 0,
+          nextAttemptAt: new Date("2024-01-01"),
+          failedAt: null,
+          createdAt: new Date("2024-01-01"),
+          userId: "test-user-id",
+        },
+      ]);
+      mockContext.db.task.updateMany.mockResolvedValue({ count: 1 });
+      const summary = {
+        fullSync: false,
+        conflicts: 1,
+        skipped: 0,
+        projects: { imported: 0, updated: 0, completed: 0, deleted: 0 },
+        sections: { imported: 0, updated: 0, deleted: 0 },
+        tasks: { imported: 1, updated: 2, completed: 0, deleted: 1 },
+        comments: { imported: 0, updated: 0, deleted: 0 },
+      };
+      (syncTodoistChanges as any).mockResolvedValue(summary);
+
+      const result = await caller.syncFromTodoist();
+
+      expect(result).toEqual(summary);
+      expect(mockTodoistService.updateTask).toHaveBeenCalledWith("todoist-1", {
+        content: "Edited here",
+      });
+      expect(syncTodoistChanges).toHaveBeenCalledWith(
+        mockContext.db,
+        "test-user-id",
+        mockTodoistService,
+      );
+      // Conflicting fields are left to the sync service, nothing is overwritten here
+      expect(mockContext.db.task.create).not.toHaveBeenCalled();
+      expect(mockContext.db.task.update).not.toHaveBeenCalled();
+    });
+
+    it("should throw error when no API token", async () => {
+      mockContext.db.user.findUnique.mockResolvedValue({
+        id: "test-user-id",
+        todoistApiToken: null,
+      });
+
+      await expect(caller.syncFromTodoist()).rejects.toMatchObject({
+        code: "PRECONDITION_FAILED",
+        message: "Todoist API token not configured",
+      });
+    });
+  });
+
+  describe("updateTodoistToken", () => {
+    it("should update user Todoist token", async () => {
+      mockContext.db.user.update.mockResolvedValue({
+        id: "test-user-id",
+        todoistApiToken: "new-token",
+      } as any);
+
+      const result = await caller.updateTodoistToken({ token: "new-token" });
+
+      expect(mockContext.db.user.update).toHaveBeenCalledWith({
+        where: { id: "test-user-id" },
+        data: { todoistApiToken: "new-token", todoistSyncToken: null },
+      });
+      expect((result as any).todoistApiToken).toBe("new-token");
+    });
+
+    it("should clear token when undefined", async () => {
       mockContext.db.user.update.mockResolvedValue({
         id: "test-user-id",
         todoistApiToken: null,
@@ -467,9 +1415,102 @@ describe("taskRouter", () => {
 
       expect(mockContext.db.user.update).toHaveBeenCalledWith({
         where: { id: "test-user-id" },
-        data: { todoistApiToken: undefined },
+        data: { todoistApiToken: undefined, todoistSyncToken: null },
+      });
+    });
+  });
+
+  describe("updateTodoistRemovalPolicy", () => {
+    it("should update the user's removal policy", async () => {
+      mockContext.db.user.update.mockResolvedValue({});
+
+      await caller.updateTodoistRemovalPolicy({ policy: "DELETE" });
+
+      expect(mockContext.db.user.update).toHaveBeenCalledWith({
+        where: { id: "test-user-id" },
+        data: { todoistRemovalPolicy: "DELETE" },
+      });
+    });
+
+    it("should reject unknown policies", async () => {
+      await expect(
+        caller.updateTodoistRemovalPolicy({ policy: "ARCHIVE" as any }),
+      ).rejects.toThrow();
+      expect(mockContext.db.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getPendingTodoistChanges", () => {
+    it("should count queued changes and report the blocking error", async () => {
+      const nextAttemptAt = new Date("2024-06-01T10:00:00Z");
+      mockContext.db.todoistOutboxEntry.count.mockResolvedValue(3);
+      mockContext.db.todoistOutboxEntry.findFirst.mockResolvedValue({
+        lastError: "Todoist API error: Service Unavailable",
+        nextAttemptAt,
+      });
+
+      const result = await caller.getPendingTodoistChanges();
+
+      expect(result).toEqual({
+        pending: 3,
+        lastError: "Todoist API error: Service Unavailable",
+        nextAttemptAt,
+        failed: [],
+      });
+    });
+
+    it("should list the changes that failed for good", async () => {
+      const failed = [
+        {
+          id: "entry-1",
+          entityType: "TASK",
+          operation: "UPDATE",
+          attempts: 10,
+          lastError: "Todoist API error: Bad Request",
+          failedAt: new Date("2024-06-01T10:00:00Z"),
+          createdAt: new Date("2024-06-01T08:00:00Z"),
+        },
+      ];
+      mockContext.db.todoistOutboxEntry.count.mockResolvedValue(0);
+      mockContext.db.todoistOutboxEntry.findFirst.mockResolvedValue(null);
+      mockContext.db.todoistOutboxEntry.findMany.mockResolvedValue(failed);
+
+      const result = await caller.getPendingTodoistChanges();
+
+      expect(result.failed).toEqual(failed);
+      expect(mockContext.db.todoistOutboxEntry.count).toHaveBeenCalledWith({
+        where: { userId: "test-user-id", failedAt: null },
+      });
+      expect(mockContext.db.todoistOutboxEntry.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: "test-user-id", failedAt: { not: null } },
+        }),
+      );
+    });
+  });
+
+  describe("discardTodoistChange", () => {
+    it("should drop a failed change", async () => {
+      mockContext.db.todoistOutboxEntry.findFirst.mockResolvedValue({ id: "entry-1" });
+
+      await caller.discardTodoistChange({ id: "entry-1" });
+
+      expect(mockContext.db.todoistOutboxEntry.findFirst).toHaveBeenCalledWith({
+        where: { id: "entry-1", userId: "test-user-id", failedAt: { not: null } },
+      });
+      expect(mockContext.db.todoistOutboxEntry.delete).toHaveBeenCalledWith({
+        where: { id: "entry-1" },
       });
     });
+
+    it("should not drop changes that are still being retried", async () => {
+      mockContext.db.todoistOutboxEntry.findFirst.mockResolvedValue(null);
+
+      await expect(caller.discardTodoistChange({ id: "entry-1" })).rejects.toThrow(
+        new TRPCError({ code: "NOT_FOUND", message: "Failed change not found" }),
+      );
+      expect(mockContext.db.todoistOutboxEntry.delete).not.toHaveBeenCalled();
+    });
   });
 
   describe("getTodoistStatus", () => {
@@ -477,11 +1518,19 @@ describe("taskRouter", () => {
       mockContext.db.user.findUnique.mockResolvedValue({
         id: "test-user-id",
         todoistApiToken: "test-token",
+        todoistLastSyncAt: new Date("2024-03-01T10:00:00Z"),
+        todoistRemovalPolicy: "DELETE",
+        todoistConflictStrategy: "ASK",
       });
 
       const result = await caller.getTodoistStatus();
 
-      expect(result).toEqual({ connected: true });
+      expect(result).toEqual({
+        connected: true,
+        lastSyncAt: new Date("2024-03-01T10:00:00Z"),
+        removalPolicy: "DELETE",
+        conflictStrategy: "ASK",
+      });
     });
 
     it("should return disconnected status when no token", async () => {
@@ -492,7 +1541,12 @@ describe("taskRouter", () => {
 
       const result = await caller.getTodoistStatus();
 
-      expect(result).toEqual({ connected: false });
+      expect(result).toEqual({
+        connected: false,
+        lastSyncAt: null,
+        removalPolicy: "COMPLETE",
+        conflictStrategy: "REMOTE",
+      });
     });
   });
 });
@@ -0,0 +1,234 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TRPCError } from "@trpc/server";
+import { createCallerFactory } from "../../trpc";
+import { trashRouter } from "../trash";
+import type { PrismaClient } from "@prisma/client";
+
+// Mock auth module
+vi.mock("~/server/auth", () => ({
+  auth: vi.fn(),
+  getServerAuthSession: vi.fn(),
+}));
+
+const storage = { put: vi.fn(), get: vi.fn(), delete: vi.fn() };
+
+vi.mock("~/server/services/attachment-storage", () => ({
+  createAttachmentStorage: () => storage,
+}));
+
+// Create a mock context
+const createMockContext = (overrides?: any) => ({
+  session: {
+    user: {
+      id: "test-user-id",
+      name: "Test User",
+      email: "test@example.com",
+    },
+  },
+  db: {
+    task: {
+      findMany: vi.fn().mockResolvedValue([]),
+      findFirst: vi.fn(),
+      findUnique: vi.fn().mockResolvedValue(null),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      delete: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    section: {
+      findMany: vi.fn().mockResolvedValue([]),
+      findFirst: vi.fn(),
+      findUnique: vi.fn().mockResolvedValue(null),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    project: {
+      findMany: vi.fn().mockResolvedValue([]),
+      findFirst: vi.fn(),
+      findUnique: vi.fn().mockResolvedValue(null),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    user: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    todoistOutboxEntry: {
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    taskEvent: {
+      createMany: vi.fn(),
+    },
+    attachment: {
+      findMany: vi.fn().mockResolvedValue([]),
+      deleteMany: vi.fn(),
+    },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  } as unknown as PrismaClient,
+  ...overrides,
+});
+
+const deletedAt = new Date("2024-03-01T10:00:00Z");
+
+describe("trashRouter", () => {
+  const createCaller = createCallerFactory(trashRouter);
+  let mockContext: ReturnType<typeof createMockContext>;
+  let caller: ReturnType<typeof createCaller>;
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    caller = createCaller(mockContext);
+    vi.clearAllMocks();
+  });
+
+  describe("getAll", () => {
+    it("should list the items with their purge date without purging any", async () => {
+      mockContext.db.user.findUnique.mockResolvedValue({ trashRetentionDays: 7 });
+      mockContext.db.project.findMany.mockResolvedValue([
+        { id: "project-1", name: "Move", deletedAt },
+      ]);
+
+      const result = await caller.getAll();
+
+      expect(mockContext.db.project.delete).not.toHaveBeenCalled();
+      expect(mockContext.db.attachment.deleteMany).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        retentionDays: 7,
+        items: [
+          {
+            type: "PROJECT",
+            id: "project-1",
+            name: "Move",
+            project: null,
+            deletedAt,
+            purgeAt: new Date("2024-03-08T10:00:00Z"),
+          },
+        ],
+      });
+    });
+  });
+
+  describe("restore", () => {
+    it("should restore a trashed task", async () => {
+      mockContext.db.task.findFirst.mockResolvedValue({
+        id: "task-1",
+        deletedAt,
+        parentId: null,
+        projectId: null,
+        sectionId: null,
+      });
+
+      await caller.restore({ type: "TASK", id: "task-1" });
+
+      expect(mockContext.db.task.findFirst).toHaveBeenCalledWith({
+        where: { id: "task-1", userId: "test-user-id", deletedAt: { not: null } },
+      });
+      expect(mockContext.db.task.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ["task-1"] }, deletedAt },
+        data: { deletedAt: null },
+      });
+    });
+
+    it("should ask to restore the project of a section first", async () => {
+      mockContext.db.section.findFirst.mockResolvedValue({
+        id: "section-1",
+        deletedAt,
+        project: { deletedAt },
+      });
+
+      await expect(caller.restore({ type: "SECTION", id: "section-1" })).rejects.toThrow(
+        new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "Restore the section's project first",
+        }),
+      );
+      expect(mockContext.db.section.update).not.toHaveBeenCalled();
+    });
+
+    it("should throw NOT_FOUND for items that are not in the trash", async () => {
+      mockContext.db.project.findFirst.mockResolvedValue(null);
+
+      await expect(caller.restore({ type: "PROJECT", id: "project-1" })).rejects.toThrow(
+        new TRPCError({ code: "NOT_FOUND", message: "Item not found in the trash" }),
+      );
+    });
+  });
+
+  describe("purge", () => {
+    it("should delete a trashed section and queue the Todoist delete", async () => {
+      mockContext.db.section.findFirst.mockResolvedValue({
+        id: "section-1",
+        todoistId: "todoist-section-1",
+        deletedAt,
+        project: { deletedAt: null },
+      });
+
+      await caller.purge({ type: "SECTION", id: "section-1" });
+
+      expect(mockContext.db.task.deleteMany).toHaveBeenCalledWith({
+        where: { sectionId: "section-1", deletedAt },
+      });
+      expect(mockContext.db.section.delete).toHaveBeenCalledWith({ where: { id: "section-1" } });
+      expect(mockContext.db.todoistOutboxEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          entityType: "SECTION",
+          operation: "DELETE",
+          todoistId: "todoist-section-1",
+        }),
+      });
+    });
+
+    it("should delete the files attached to what was purged", async () => {
+      mockContext.db.task.findFirst.mockResolvedValue({ id: "task-1", todoistId: null, deletedAt });
+      mockContext.db.attachment.findMany.mockResolvedValueOnce([
+        { id: "attachment-1", storageKey: "test-user-id/file-1" },
+      ]);
+
+      await caller.purge({ type: "TASK", id: "task-1" });
+
+      expect(mockContext.db.attachment.findMany).toHaveBeenCalledWith({
+        where: { userId: "test-user-id", taskId: null, projectId: null },
+        select: { id: true, storageKey: true },
+      });
+      expect(mockContext.db.attachment.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ["attachment-1"] } },
+      });
+      expect(storage.delete).toHaveBeenCalledWith("test-user-id/file-1");
+    });
+  });
+
+  describe("empty", () => {
+    it("should purge everything in the trash", async () => {
+      mockContext.db.task.findMany.mockImplementation(({ where }: any) =>
+        Promise.resolve(
+          where.userId ? [{ id: "task-1", todoistId: null, parentId: null }] : [],
+        ),
+      );
+
+      const result = await caller.empty();
+
+      expect(result).toEqual({ purged: 1 });
+      expect(mockContext.db.task.delete).toHaveBeenCalledWith({ where: { id: "task-1" } });
+    });
+  });
+
+  describe("updateRetention", () => {
+    it("should save the retention period", async () => {
+      mockContext.db.user.update.mockResolvedValue({ trashRetentionDays: 14 });
+
+      await caller.updateRetention({ days: 14 });
+
+      expect(mockContext.db.user.update).toHaveBeenCalledWith({
+        where: { id: "test-user-id" },
+        data: { trashRetentionDays: 14 },
+        select: { trashRetentionDays: true },
+      });
+    });
+
+    it("should reject retention periods under a day", async () => {
+      await expect(caller.updateRetention({ days: 0 })).rejects.toThrow();
+    });
+  });
+});
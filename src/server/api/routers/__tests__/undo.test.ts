@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TRPCError } from "@trpc/server";
+import { createCallerFactory } from "../../trpc";
+import { undoRouter } from "../undo";
+import type { PrismaClient } from "@prisma/client";
+
+// Mock auth module
+vi.mock("~/server/auth", () => ({
+  auth: vi.fn(),
+  getServerAuthSession: vi.fn(),
+}));
+
+// Create a mock context
+const createMockContext = (overrides?: any) => ({
+  session: {
+    user: {
+      id: "test-user-id",
+      name: "Test User",
+      email: "test@example.com",
+    },
+  },
+  db: {
+    operation: {
+      findFirst: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    task: {
+      findFirst: vi.fn(),
+      update: vi.fn(),
+    },
+    todoistOutboxEntry: {
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    taskEvent: {
+      createMany: vi.fn(),
+    },
+  } as unknown as PrismaClient,
+  ...overrides,
+});
+
+const createOperation = (overrides: Record<string, unknown> = {}) => ({
+  id: "op-1",
+  type: "UPDATE",
+  entityType: "TASK",
+  entityId: "task-1",
+  description: 'Process "Call Bob"',
+  before: { taskType: "INBOX" },
+  after: { taskType: "ACTION" },
+  undoneAt: null,
+  createdAt: new Date(),
+  userId: "test-user-id",
+  ...overrides,
+});
+
+describe("undoRouter", () => {
+  const createCaller = createCallerFactory(undoRouter);
+  let mockContext: ReturnType<typeof createMockContext>;
+  let caller: ReturnType<typeof createCaller>;
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    caller = createCaller(mockContext);
+    vi.clearAllMocks();
+  });
+
+  describe("getState", () => {
+    it("should describe what undo and redo would apply to", async () => {
+      mockContext.db.operation.findFirst
+        .mockResolvedValueOnce(createOperation())
+        .mockResolvedValueOnce(null);
+
+      const result = await caller.getState();
+
+      expect(result).toEqual({ undo: 'Process "Call Bob"', redo: null });
+    });
+  });
+
+  describe("undo", () => {
+    it("should undo the latest operation", async () => {
+      mockContext.db.operation.findFirst.mockResolvedValue(createOperation());
+      mockContext.db.task.findFirst.mockResolvedValue({ id: "task-1", completed: false });
+      mockContext.db.task.update.mockResolvedValue({
+        id: "task-1",
+        title: "Call Bob",
+        description: null,
+        priority: 1,
+        dueDate: null,
+        recurrence: null,
+        labels: [],
+      });
+
+      const result = await caller.undo();
+
+      expect(result).toEqual({ id: "op-1", description: 'Process "Call Bob"' });
+      expect(mockContext.db.operation.findFirst).toHaveBeenCalledWith({
+        where: { userId: "test-user-id", undoneAt: null },
+        orderBy: { createdAt: "desc" },
+      });
+      expect(mockContext.db.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { taskType: "INBOX" } }),
+      );
+    });
+
+    it("should return null when there is nothing to undo", async () => {
+      mockContext.db.operation.findFirst.mockResolvedValue(null);
+
+      expect(await caller.undo()).toBeNull();
+    });
+
+    it("should drop operations whose item is gone", async () => {
+      mockContext.db.operation.findFirst.mockResolvedValue(createOperation());
+      mockContext.db.task.findFirst.mockResolvedValue(null);
+
+      await expect(caller.undo()).rejects.toThrow(
+        new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: `Can't undo "Process "Call Bob"", the item is gone`,
+        }),
+      );
+      expect(mockContext.db.operation.delete).toHaveBeenCalledWith({ where: { id: "op-1" } });
+    });
+  });
+
+  describe("redo", () => {
+    it("should redo the latest undone operation", async () => {
+      mockContext.db.operation.findFirst.mockResolvedValue(
+        createOperation({ undoneAt: new Date() }),
+      );
+      mockContext.db.task.findFirst.mockResolvedValue({ id: "task-1", completed: false });
+      mockContext.db.task.update.mockResolvedValue({
+        id: "task-1",
+        title: "Call Bob",
+        description: null,
+        priority: 1,
+        dueDate: null,
+        recurrence: null,
+        labels: [],
+      });
+
+      await caller.redo();
+
+      expect(mockContext.db.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { taskType: "ACTION" } }),
+      );
+      expect(mockContext.db.operation.update).toHaveBeenCalledWith({
+        where: { id: "op-1" },
+        data: { undoneAt: null },
+      });
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { z } from "zod";
+import { TaskEventType, type Prisma } from "@prisma/client";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { trashProject, trashTask } from "~/server/services/trash";
+import { recordTaskEvents } from "~/server/services/task-events";
+
+const dateRangeSchema = z
+  .object({
+    from: z.date().optional(),
+    to: z.date().optional(),
+  })
+  .optional();
+
+// Records without a date only show up when no range is given
+const toDateFilter = (range: z.infer<typeof dateRangeSchema>): Prisma.DateTimeFilter | undefined =>
+  (range?.from ?? range?.to) ? { gte: range?.from, lte: range?.to } : undefined;
+
+export const archiveRouter = createTRPCRouter({
+  // Get archived projects and completed tasks, newest first, optionally within a date range
+  getAll: protectedProcedure
+    .input(dateRangeSchema)
+    .query(async ({ ctx, input }) => {
+      const dates = toDateFilter(input);
+
+      const [projects, tasks] = await Promise.all([
+        ctx.db.project.findMany({
+          where: {
+            userId: ctx.session.user.id,
+            deletedAt: null,
+            status: "ARCHIVED",
+            archivedAt: dates,
+          },
+          orderBy: [{ archivedAt: "desc" }, { updatedAt: "desc" }],
+          include: {
+            _count: {
+              select: { tasks: { where: { deletedAt: null } } },
+            },
+          },
+        }),
+        // Tasks keep no completion date, a completed task's last change stands in for it
+        ctx.db.task.findMany({
+          where: {
+            userId: ctx.session.user.id,
+            deletedAt: null,
+            completed: true,
+            updatedAt: dates,
+          },
+          orderBy: { updatedAt: "desc" },
+          include: {
+            labels: true,
+            project: true,
+            section: true,
+          },
+        }),
+      ]);
+
+      return { projects, tasks };
+    }),
+
+  // Move projects archived and tasks completed before a date to the trash
+  deleteOlderThan: protectedProcedure
+    .input(z.object({ before: z.date() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const deletedAt = new Date();
+
+      const projects = await ctx.db.project.findMany({
+        where: { userId, deletedAt: null, status: "ARCHIVED", archivedAt: { lt: input.before } },
+        select: { id: true },
+      });
+      for (const project of projects) {
+        await trashProject(ctx.db, project.id, deletedAt);
+      }
+
+      // Tasks in those projects went with them
+      const tasks = await ctx.db.task.findMany({
+        where: { userId, deletedAt: null, completed: true, updatedAt: { lt: input.before } },
+        select: { id: true },
+      });
+      const trashedIds = new Set<string>();
+      for (const task of tasks) {
+        if (trashedIds.has(task.id)) continue;
+        for (const id of await trashTask(ctx.db, task.id, deletedAt)) {
+          trashedIds.add(id);
+        }
+      }
+
+      await recordTaskEvents(ctx.db, userId, [
+        ...projects.map((project) => ({ projectId: project.id, type: TaskEventType.DELETED })),
+        ...[...trashedIds].map((taskId) => ({ taskId, type: TaskEventType.DELETED })),
+      ]);
+
+      return { projects: projects.length, tasks: trashedIds.size };
+    }),
+});
@@ -0,0 +1,57 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { createAttachmentStorage } from "~/server/services/attachment-storage";
+import {
+  deleteAttachments,
+  getAttachmentLimits,
+  getAttachmentUsage,
+} from "~/server/services/attachments";
+
+// Files are uploaded through the /api/attachments route, everything else goes through here
+export const attachmentRouter = createTRPCRouter({
+  // Get the files on a task, newest first
+  getByTask: protectedProcedure
+    .input(z.object({ taskId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      return ctx.db.attachment.findMany({
+        where: { taskId: input.taskId, userId: ctx.session.user.id },
+        orderBy: { createdAt: "desc" },
+      });
+    }),
+
+  // Get the files on a project, newest first
+  getByProject: protectedProcedure
+    .input(z.object({ projectId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      return ctx.db.attachment.findMany({
+        where: { projectId: input.projectId, userId: ctx.session.user.id },
+        orderBy: { createdAt: "desc" },
+      });
+    }),
+
+  // How much of the user's quota is used, and the limits uploads are held to
+  getUsage: protectedProcedure.query(async ({ ctx }) => {
+    return {
+      used: await getAttachmentUsage(ctx.db, ctx.session.user.id),
+      ...getAttachmentLimits(),
+    };
+  }),
+
+  // Delete an attachment and its file
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const deleted = await deleteAttachments(ctx.db, createAttachmentStorage(), {
+        id: input.id,
+        userId: ctx.session.user.id,
+      });
+
+      if (deleted === 0) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Attachment not found",
+        });
+      }
+    }),
+});
@@ -0,0 +1,159 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { TodoistEntityType, TodoistOperation, type PrismaClient } from "@prisma/client";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { enqueueTodoistChange } from "~/server/services/todoist-outbox";
+import { addComment } from "~/server/services/comments";
+
+const contentSchema = z.string().trim().min(1, "Comment cannot be empty");
+
+// Find one of the user's tasks or fail with NOT_FOUND
+async function findTask(db: PrismaClient, userId: string, id: string) {
+  const task = await db.task.findFirst({
+    where: { id, userId, deletedAt: null },
+    select: { id: true, todoistId: true },
+  });
+
+  if (!task) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Task not found",
+    });
+  }
+
+  return task;
+}
+
+// Find one of the user's projects or fail with NOT_FOUND
+async function findProject(db: PrismaClient, userId: string, id: string) {
+  const project = await db.project.findFirst({
+    where: { id, userId, deletedAt: null },
+    select: { id: true, todoistId: true },
+  });
+
+  if (!project) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Project not found",
+    });
+  }
+
+  return project;
+}
+
+// Find one of the user's comments or fail with NOT_FOUND
+async function findComment(db: PrismaClient, userId: string, id: string) {
+  const comment = await db.comment.findFirst({
+    where: { id, userId },
+  });
+
+  if (!comment) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Comment not found",
+    });
+  }
+
+  return comment;
+}
+
+export const commentRouter = createTRPCRouter({
+  // Get the comments on a task, oldest first
+  getByTask: protectedProcedure
+    .input(z.object({ taskId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await findTask(ctx.db, ctx.session.user.id, input.taskId);
+
+      return ctx.db.comment.findMany({
+        where: { taskId: input.taskId, userId: ctx.session.user.id },
+        orderBy: { createdAt: "asc" },
+      });
+    }),
+
+  // Get the comments on a project, oldest first
+  getByProject: protectedProcedure
+    .input(z.object({ projectId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await findProject(ctx.db, ctx.session.user.id, input.projectId);
+
+      return ctx.db.comment.findMany({
+        where: { projectId: input.projectId, userId: ctx.session.user.id },
+        orderBy: { createdAt: "asc" },
+      });
+    }),
+
+  // Comment on a task or a project
+  create: protectedProcedure
+    .input(
+      z
+        .object({
+          content: contentSchema,
+          taskId: z.string().optional(),
+          projectId: z.string().optional(),
+        })
+        .refine((input) => !input.taskId !== !input.projectId, {
+          message: "Comment on either a task or a project",
+        }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+
+      if (input.taskId) {
+        const task = await findTask(ctx.db, userId, input.taskId);
+        return addComment(ctx.db, userId, {
+          content: input.content,
+          parent: { taskId: task.id },
+          parentTodoistId: task.todoistId,
+        });
+      }
+
+      const project = await findProject(ctx.db, userId, input.projectId!);
+      return addComment(ctx.db, userId, {
+        content: input.content,
+        parent: { projectId: project.id },
+        parentTodoistId: project.todoistId,
+      });
+    }),
+
+  // Edit the text of a comment
+  update: protectedProcedure
+    .input(z.object({ id: z.string(), content: contentSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const existing = await findComment(ctx.db, userId, input.id);
+
+      const comment = await ctx.db.comment.update({
+        where: { id: input.id },
+        data: { content: input.content },
+      });
+
+      await enqueueTodoistChange(ctx.db, userId, {
+        entityType: TodoistEntityType.COMMENT,
+        operation: TodoistOperation.UPDATE,
+        entityId: existing.id,
+        todoistId: existing.todoistId,
+        payload: { content: input.content },
+      });
+
+      return comment;
+    }),
+
+  // Delete a comment
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const existing = await findComment(ctx.db, userId, input.id);
+
+      const comment = await ctx.db.comment.delete({ where: { id: input.id } });
+
+      await enqueueTodoistChange(ctx.db, userId, {
+        entityType: TodoistEntityType.COMMENT,
+        operation: TodoistOperation.DELETE,
+        entityId: existing.id,
+        todoistId: existing.todoistId,
+      });
+
+      return comment;
+    }),
+});
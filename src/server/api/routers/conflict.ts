@@ -0,0 +1,122 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { TaskEventType, TodoistEntityType, TodoistOperation } from "@prisma/client";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import {
+  toTaskFieldData,
+  toTodoistTaskUpdate,
+  type ConflictField,
+  type TaskSnapshot,
+} from "~/server/services/todoist-conflicts";
+import { enqueueTodoistChange } from "~/server/services/todoist-outbox";
+import { toLabelConnections } from "~/server/services/labels";
+import { recordTaskEvents } from "~/server/services/task-events";
+
+const parseValue = (value: string | null) => (value === null ? null : (JSON.parse(value) as unknown));
+
+export const conflictRouter = createTRPCRouter({
+  // Get fields edited both locally and in Todoist that wait for the user to pick a side
+  getAll: protectedProcedure.query(async ({ ctx }) => {
+    const conflicts = await ctx.db.syncConflict.findMany({
+      where: { userId: ctx.session.user.id },
+      orderBy: { createdAt: "asc" },
+      include: {
+        task: { select: { id: true, title: true } },
+      },
+    });
+
+    return conflicts.map((conflict) => ({
+      id: conflict.id,
+      field: conflict.field as ConflictField,
+      localValue: parseValue(conflict.localValue),
+      remoteValue: parseValue(conflict.remoteValue),
+      baseValue: parseValue(conflict.baseValue),
+      createdAt: conflict.createdAt,
+      task: conflict.task,
+    }));
+  }),
+
+  // Resolve a conflict by keeping the local value or taking the Todoist value
+  resolve: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        keep: z.enum(["LOCAL", "REMOTE"]),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const conflict = await ctx.db.syncConflict.findFirst({
+        where: { id: input.id, userId },
+        include: { task: { select: { todoistId: true, dueDate: true, recurrence: true } } },
+      });
+
+      if (!conflict) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Conflict not found",
+        });
+      }
+
+      if (input.keep === "REMOTE") {
+        const values = {
+          [conflict.field]: parseValue(conflict.remoteValue),
+        } as Partial<TaskSnapshot>;
+
+        if (values.labels) {
+          // Disconnect all existing labels first
+          await ctx.db.task.update({
+            where: { id: conflict.taskId },
+            data: { labels: { set: [] } },
+          });
+        }
+
+        await ctx.db.task.update({
+          where: { id: conflict.taskId },
+          data: {
+            ...toTaskFieldData(values),
+            ...(values.labels && {
+              labels: { connectOrCreate: toLabelConnections(userId, values.labels) },
+            }),
+          },
+        });
+        await recordTaskEvents(ctx.db, userId, [
+          {
+            taskId: conflict.taskId,
+            type: TaskEventType.SYNCED,
+            changes: {
+              [conflict.field]: {
+                from: parseValue(conflict.localValue),
+                to: parseValue(conflict.remoteValue),
+              },
+            },
+            note: "Took the Todoist value of a conflict",
+          },
+        ]);
+      } else {
+        let values = {
+          [conflict.field]: parseValue(conflict.localValue),
+        } as Partial<TaskSnapshot>;
+        // Todoist sets the date and the rule together
+        if (conflict.field === "dueDate" || conflict.field === "recurrence") {
+          values = {
+            dueDate: conflict.task.dueDate?.toISOString().split("T")[0] ?? null,
+            recurrence: conflict.task.recurrence,
+            ...values,
+          };
+        }
+
+        await enqueueTodoistChange(ctx.db, userId, {
+          entityType: TodoistEntityType.TASK,
+          operation: TodoistOperation.UPDATE,
+          entityId: conflict.taskId,
+          todoistId: conflict.task.todoistId,
+          payload: toTodoistTaskUpdate(values),
+        });
+      }
+
+      return ctx.db.syncConflict.delete({
+        where: { id: conflict.id },
+      });
+    }),
+});
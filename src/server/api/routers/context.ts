@@ -0,0 +1,126 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import type { PrismaClient } from "@prisma/client";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { CONTEXT_ICONS, TIME_OF_DAY, normalizeContext } from "~/lib/contexts";
+
+const contextName = z
+  .string()
+  .max(50)
+  .transform((name, refinement) => {
+    const normalized = normalizeContext(name);
+    if (!normalized) {
+      refinement.addIssue({ code: z.ZodIssueCode.custom, message: "Contexts need a name" });
+      return z.NEVER;
+    }
+    return normalized;
+  });
+
+const timeOfDay = z.string().regex(TIME_OF_DAY, "Times are written as HH:MM");
+
+const contextFields = {
+  icon: z.enum(CONTEXT_ICONS).nullable().optional(),
+  color: z.string().nullable().optional(),
+  location: z.string().trim().max(100).nullable().optional(),
+  availableFrom: timeOfDay.nullable().optional(),
+  availableUntil: timeOfDay.nullable().optional(),
+};
+
+// Find one of the user's contexts or fail with NOT_FOUND
+async function findContext(db: PrismaClient, userId: string, id: string) {
+  const context = await db.context.findFirst({
+    where: { id, userId },
+  });
+
+  if (!context) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Context not found",
+    });
+  }
+
+  return context;
+}
+
+async function assertNameAvailable(db: PrismaClient, userId: string, name: string, exceptId?: string) {
+  const existing = await db.context.findFirst({
+    where: { userId, name, ...(exceptId && { id: { not: exceptId } }) },
+  });
+
+  if (existing) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `A context named "${name}" already exists`,
+    });
+  }
+}
+
+export const contextRouter = createTRPCRouter({
+  // Get the user's contexts in their order, with their open task counts
+  getAll: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.db.context.findMany({
+      where: { userId: ctx.session.user.id },
+      orderBy: [{ order: "asc" }, { name: "asc" }],
+      include: {
+        _count: {
+          select: { tasks: { where: { completed: false, deletedAt: null } } },
+        },
+      },
+    });
+  }),
+
+  // Create a context at the end of the list
+  create: protectedProcedure
+    .input(z.object({ name: contextName, ...contextFields }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      await assertNameAvailable(ctx.db, userId, input.name);
+
+      const order = await ctx.db.context.count({ where: { userId } });
+      return ctx.db.context.create({
+        data: { ...input, order, userId },
+      });
+    }),
+
+  // Update a context, its tasks keep it under the new name
+  update: protectedProcedure
+    .input(z.object({ id: z.string(), name: contextName.optional(), ...contextFields }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const existing = await findContext(ctx.db, userId, input.id);
+      if (input.name !== undefined && input.name !== existing.name) {
+        await assertNameAvailable(ctx.db, userId, input.name, existing.id);
+      }
+
+      const { id, ...data } = input;
+      return ctx.db.context.update({
+        where: { id },
+        data,
+      });
+    }),
+
+  // Put the contexts in the given order
+  reorder: protectedProcedure
+    .input(z.object({ ids: z.array(z.string()).min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db.$transaction(
+        input.ids.map((id, order) =>
+          ctx.db.context.updateMany({
+            where: { id, userId: ctx.session.user.id },
+            data: { order },
+          }),
+        ),
+      );
+    }),
+
+  // Delete a context, its tasks are left without one
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await findContext(ctx.db, ctx.session.user.id, input.id);
+
+      return ctx.db.context.delete({
+        where: { id: input.id },
+      });
+    }),
+});
@@ -0,0 +1,140 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import type { PrismaClient } from "@prisma/client";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import {
+  getDependencyStages,
+  promoteUnblockedTasks,
+  wouldCreateDependencyCycle,
+} from "~/server/services/dependencies";
+
+const dependencySchema = z.object({
+  blockingTaskId: z.string(),
+  blockedTaskId: z.string(),
+});
+
+const taskSummary = {
+  where: { deletedAt: null },
+  select: { id: true, title: true, completed: true },
+} as const;
+
+// Find one of the user's tasks or fail with NOT_FOUND
+async function findTask(db: PrismaClient, userId: string, id: string) {
+  const task = await db.task.findFirst({
+    where: { id, userId, deletedAt: null },
+  });
+
+  if (!task) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Task not found",
+    });
+  }
+
+  return task;
+}
+
+export const dependencyRouter = createTRPCRouter({
+  // Get the tasks a task waits for and the tasks waiting for it
+  getForTask: protectedProcedure
+    .input(z.object({ taskId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const task = await ctx.db.task.findFirst({
+        where: { id: input.taskId, userId: ctx.session.user.id, deletedAt: null },
+        select: { blockedBy: taskSummary, blocking: taskSummary },
+      });
+
+      if (!task) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Task not found",
+        });
+      }
+
+      return {
+        ...task,
+        blocked: task.blockedBy.some((blocker) => !blocker.completed),
+      };
+    }),
+
+  // Get the open tasks of a project in the order their dependencies let them start
+  getByProject: protectedProcedure
+    .input(z.object({ projectId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const project = await ctx.db.project.findFirst({
+        where: { id: input.projectId, userId: ctx.session.user.id, deletedAt: null },
+      });
+
+      if (!project) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Project not found",
+        });
+      }
+
+      const tasks = await ctx.db.task.findMany({
+        where: {
+          userId: ctx.session.user.id,
+          projectId: project.id,
+          completed: false,
+          deletedAt: null,
+        },
+        orderBy: { order: "asc" },
+        include: { blockedBy: taskSummary, blocking: taskSummary },
+      });
+      const stages = getDependencyStages(tasks);
+
+      return tasks
+        .map((task) => ({
+          ...task,
+          stage: stages.get(task.id) ?? 0,
+          blocked: task.blockedBy.some((blocker) => !blocker.completed),
+        }))
+        .sort((a, b) => a.stage - b.stage);
+    }),
+
+  // Make a task wait until another task is completed
+  add: protectedProcedure
+    .input(dependencySchema)
+    .mutation(async ({ ctx, input }) => {
+      const blockingTask = await findTask(ctx.db, ctx.session.user.id, input.blockingTaskId);
+      const blockedTask = await findTask(ctx.db, ctx.session.user.id, input.blockedTaskId);
+
+      if (await wouldCreateDependencyCycle(ctx.db, blockingTask.id, blockedTask.id)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message:
+            blockingTask.id === blockedTask.id
+              ? "A task cannot wait for itself"
+              : `"${blockingTask.title}" already waits for "${blockedTask.title}"`,
+        });
+      }
+
+      return ctx.db.task.update({
+        where: { id: blockedTask.id },
+        data: { blockedBy: { connect: { id: blockingTask.id } } },
+        include: { blockedBy: taskSummary, blocking: taskSummary },
+      });
+    }),
+
+  // Stop a task from waiting for another task
+  remove: protectedProcedure
+    .input(dependencySchema)
+    .mutation(async ({ ctx, input }) => {
+      const blockingTask = await findTask(ctx.db, ctx.session.user.id, input.blockingTaskId);
+      const blockedTask = await findTask(ctx.db, ctx.session.user.id, input.blockedTaskId);
+
+      const task = await ctx.db.task.update({
+        where: { id: blockedTask.id },
+        data: { blockedBy: { disconnect: { id: blockingTask.id } } },
+        include: { blockedBy: taskSummary, blocking: taskSummary },
+      });
+
+      // Removing the last open blocker frees the task just like completing it would
+      if (!blockingTask.completed) {
+        await promoteUnblockedTasks(ctx.db, { id: blockedTask.id });
+      }
+
+      return task;
+    }),
+});
@@ -0,0 +1,139 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import type { PrismaClient } from "@prisma/client";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { buildTaskFilter, taskFilterSchema } from "~/server/services/task-filters";
+
+// Find one of the user's saved filters or fail with NOT_FOUND
+async function findFilter(db: PrismaClient, userId: string, id: string) {
+  const filter = await db.savedFilter.findFirst({
+    where: { id, userId },
+  });
+
+  if (!filter) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Filter not found",
+    });
+  }
+
+  return filter;
+}
+
+async function assertNameAvailable(db: PrismaClient, userId: string, name: string, exceptId?: string) {
+  const existing = await db.savedFilter.findFirst({
+    where: { userId, name, ...(exceptId && { id: { not: exceptId } }) },
+  });
+
+  if (existing) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `A filter named "${name}" already exists`,
+    });
+  }
+}
+
+// Open tasks matching a filter expression
+async function findMatchingTasks(db: PrismaClient, userId: string, query: string) {
+  const where = await buildTaskFilter(db, userId, query);
+
+  return db.task.findMany({
+    where: { ...where, deletedAt: null, completed: false },
+    orderBy: [{ priority: "asc" }, { dueDate: "asc" }, { createdAt: "desc" }],
+    include: {
+      labels: true,
+      project: true,
+      section: true,
+      context: true,
+    },
+  });
+}
+
+export const filterRouter = createTRPCRouter({
+  // Get all saved filters for the current user
+  getAll: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.db.savedFilter.findMany({
+      where: { userId: ctx.session.user.id },
+      orderBy: [{ isFavorite: "desc" }, { order: "asc" }, { name: "asc" }],
+    });
+  }),
+
+  // Get the open tasks matching a saved filter
+  getTasks: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const filter = await findFilter(ctx.db, ctx.session.user.id, input.id);
+      return findMatchingTasks(ctx.db, ctx.session.user.id, filter.query);
+    }),
+
+  // Get the open tasks matching a filter expression before saving it
+  preview: protectedProcedure
+    .input(z.object({ query: taskFilterSchema }))
+    .query(async ({ ctx, input }) => {
+      return findMatchingTasks(ctx.db, ctx.session.user.id, input.query);
+    }),
+
+  // Save a new filter
+  create: protectedProcedure
+    .input(
+      z.object({
+        name: z.string().trim().min(1),
+        query: taskFilterSchema,
+        color: z.string().optional(),
+        isFavorite: z.boolean().default(false),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      await assertNameAvailable(ctx.db, userId, input.name);
+
+      const order = await ctx.db.savedFilter.count({ where: { userId } });
+      return ctx.db.savedFilter.create({
+        data: {
+          name: input.name,
+          query: input.query,
+          color: input.color,
+          isFavorite: input.isFavorite,
+          order,
+          userId,
+        },
+      });
+    }),
+
+  // Update a saved filter
+  update: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        name: z.string().trim().min(1).optional(),
+        query: taskFilterSchema.optional(),
+        color: z.string().nullable().optional(),
+        order: z.number().int().optional(),
+        isFavorite: z.boolean().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const existing = await findFilter(ctx.db, userId, input.id);
+      if (input.name !== undefined && input.name !== existing.name) {
+        await assertNameAvailable(ctx.db, userId, input.name, existing.id);
+      }
+
+      const { id, ...data } = input;
+      return ctx.db.savedFilter.update({
+        where: { id },
+        data,
+      });
+    }),
+
+  // Delete a saved filter
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await findFilter(ctx.db, ctx.session.user.id, input.id);
+
+      return ctx.db.savedFilter.delete({
+        where: { id: input.id },
+      });
+    }),
+});
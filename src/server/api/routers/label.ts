@@ -0,0 +1,248 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { TodoistEntityType, TodoistOperation, type Prisma, type PrismaClient } from "@prisma/client";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { enqueueTaskLabelUpdates } from "~/server/services/labels";
+import { enqueueTodoistChange } from "~/server/services/todoist-outbox";
+
+// Find one of the user's labels or fail with NOT_FOUND
+async function findLabel(db: PrismaClient, userId: string, id: string) {
+  const label = await db.label.findFirst({
+    where: { id, userId },
+    include: { tasks: { select: { id: true } } },
+  });
+
+  if (!label) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Label not found",
+    });
+  }
+
+  return label;
+}
+
+async function assertNameAvailable(db: PrismaClient, userId: string, name: string, exceptId?: string) {
+  const existing = await db.label.findFirst({
+    where: { userId, name, ...(exceptId && { id: { not: exceptId } }) },
+  });
+
+  if (existing) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `A label named "${name}" already exists, merge the labels instead`,
+    });
+  }
+}
+
+export const labelRouter = createTRPCRouter({
+  // Get all labels for the current user with their open task counts
+  getAll: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.db.label.findMany({
+      where: { userId: ctx.session.user.id },
+      orderBy: [{ isFavorite: "desc" }, { order: "asc" }, { name: "asc" }],
+      include: {
+        _count: {
+          select: { tasks: { where: { completed: false, deletedAt: null } } },
+        },
+      },
+    });
+  }),
+
+  // Get the tasks tagged with a label
+  getTasks: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await findLabel(ctx.db, ctx.session.user.id, input.id);
+
+      return ctx.db.task.findMany({
+        where: {
+          userId: ctx.session.user.id,
+          deletedAt: null,
+          labels: { some: { id: input.id } },
+        },
+        orderBy: [{ completed: "asc" }, { priority: "asc" }, { createdAt: "desc" }],
+        include: {
+          labels: true,
+          project: true,
+          section: true,
+        },
+      });
+    }),
+
+  // Create a new label
+  create: protectedProcedure
+    .input(
+      z.object({
+        name: z.string().trim().min(1),
+        color: z.string().optional(),
+        isFavorite: z.boolean().default(false),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      await assertNameAvailable(ctx.db, userId, input.name);
+
+      const order = await ctx.db.label.count({ where: { userId } });
+      const label = await ctx.db.label.create({
+        data: {
+          name: input.name,
+          color: input.color,
+          isFavorite: input.isFavorite,
+          order,
+          userId,
+        },
+      });
+
+      const user = await ctx.db.user.findUnique({
+        where: { id: userId },
+        select: { todoistApiToken: true },
+      });
+      if (user?.todoistApiToken) {
+        await enqueueTodoistChange(ctx.db, userId, {
+          entityType: TodoistEntityType.LABEL,
+          operation: TodoistOperation.CREATE,
+          entityId: label.id,
+          payload: {
+            name: label.name,
+            color: label.color ?? undefined,
+            is_favorite: label.isFavorite,
+          },
+        });
+      }
+
+      return label;
+    }),
+
+  // Update a label; renaming it renames it on every task
+  update: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        name: z.string().trim().min(1).optional(),
+        color: z.string().nullable().optional(),
+        order: z.number().int().optional(),
+        isFavorite: z.boolean().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const existing = await findLabel(ctx.db, userId, input.id);
+      const renamed = input.name !== undefined && input.name !== existing.name;
+      if (renamed) {
+        await assertNameAvailable(ctx.db, userId, input.name!, existing.id);
+      }
+
+      const { id, ...data } = input;
+      const label = await ctx.db.label.update({
+        where: { id },
+        data,
+      });
+
+      const todoistUpdate: Prisma.InputJsonObject = {
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.color !== undefined && { color: input.color }),
+        ...(input.order !== undefined && { order: input.order }),
+        ...(input.isFavorite !== undefined && { is_favorite: input.isFavorite }),
+      };
+      if (Object.keys(todoistUpdate).length > 0) {
+        await enqueueTodoistChange(ctx.db, userId, {
+          entityType: TodoistEntityType.LABEL,
+          operation: TodoistOperation.UPDATE,
+          entityId: existing.id,
+          todoistId: existing.todoistId,
+          payload: todoistUpdate,
+        });
+      }
+      if (renamed) {
+        await enqueueTaskLabelUpdates(
+          ctx.db,
+          userId,
+          existing.tasks.map((task) => task.id),
+        );
+      }
+
+      return label;
+    }),
+
+  // Delete a label, removing it from its tasks
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const existing = await findLabel(ctx.db, userId, input.id);
+
+      const label = await ctx.db.label.delete({
+        where: { id: input.id },
+      });
+
+      await enqueueTaskLabelUpdates(
+        ctx.db,
+        userId,
+        existing.tasks.map((task) => task.id),
+      );
+      await enqueueTodoistChange(ctx.db, userId, {
+        entityType: TodoistEntityType.LABEL,
+        operation: TodoistOperation.DELETE,
+        entityId: existing.id,
+        todoistId: existing.todoistId,
+      });
+
+      return label;
+    }),
+
+  // Merge labels into another one: their tasks get the target label and the sources are deleted
+  merge: protectedProcedure
+    .input(
+      z.object({
+        sourceIds: z.array(z.string()).min(1),
+        targetId: z.string(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const sourceIds = input.sourceIds.filter((id) => id !== input.targetId);
+      await findLabel(ctx.db, userId, input.targetId);
+      const sources = await ctx.db.label.findMany({
+        where: { id: { in: sourceIds }, userId },
+        include: { tasks: { select: { id: true } } },
+      });
+
+      if (sources.length !== sourceIds.length) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Label not found",
+        });
+      }
+
+      const taskIds = [...new Set(sources.flatMap((source) => source.tasks.map((task) => task.id)))];
+      await ctx.db.$transaction([
+        ...taskIds.map((taskId) =>
+          ctx.db.task.update({
+            where: { id: taskId },
+            data: {
+              labels: {
+                connect: { id: input.targetId },
+                disconnect: sourceIds.map((id) => ({ id })),
+              },
+            },
+          }),
+        ),
+        ctx.db.label.deleteMany({
+          where: { id: { in: sourceIds }, userId },
+        }),
+      ]);
+
+      await enqueueTaskLabelUpdates(ctx.db, userId, taskIds);
+      for (const source of sources) {
+        await enqueueTodoistChange(ctx.db, userId, {
+          entityType: TodoistEntityType.LABEL,
+          operation: TodoistOperation.DELETE,
+          entityId: source.id,
+          todoistId: source.todoistId,
+        });
+      }
+
+      return { merged: sources.length, tasks: taskIds.length };
+    }),
+});
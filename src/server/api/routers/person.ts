@@ -0,0 +1,132 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import type { PrismaClient } from "@prisma/client";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { linkWaitingForPeople } from "~/server/services/people";
+import { startedTasks } from "~/server/services/tickler";
+
+const personFields = {
+  email: z.string().trim().email().nullable().optional(),
+  notes: z.string().max(1000).nullable().optional(),
+};
+
+const openTasks = { completed: false, deletedAt: null };
+
+// Find one of the user's people or fail with NOT_FOUND
+async function findPerson(db: PrismaClient, userId: string, id: string) {
+  const person = await db.person.findFirst({
+    where: { id, userId },
+  });
+
+  if (!person) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Person not found",
+    });
+  }
+
+  return person;
+}
+
+async function assertNameAvailable(db: PrismaClient, userId: string, name: string, exceptId?: string) {
+  const existing = await db.person.findFirst({
+    where: { userId, name, ...(exceptId && { id: { not: exceptId } }) },
+  });
+
+  if (existing) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `A person named "${name}" already exists`,
+    });
+  }
+}
+
+export const personRouter = createTRPCRouter({
+  // Get the user's people by name, with their open task counts
+  getAll: protectedProcedure.query(async ({ ctx }) => {
+    await linkWaitingForPeople(ctx.db, ctx.session.user.id);
+
+    return ctx.db.person.findMany({
+      where: { userId: ctx.session.user.id },
+      orderBy: { name: "asc" },
+      include: {
+        _count: {
+          select: { tasks: { where: openTasks } },
+        },
+      },
+    });
+  }),
+
+  // Get a person's agenda: what the user waits on them for and the next actions to raise with them
+  getAgenda: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const person = await findPerson(ctx.db, userId, input.id);
+      const include = { labels: true, project: true, context: true };
+
+      const [waiting, actions] = await Promise.all([
+        ctx.db.task.findMany({
+          where: { userId, personId: person.id, taskType: "WAITING", ...openTasks },
+          orderBy: [{ followUpAt: "asc" }, { createdAt: "asc" }],
+          include,
+        }),
+        ctx.db.task.findMany({
+          where: {
+            userId,
+            personId: person.id,
+            isNextAction: true,
+            taskType: { in: ["ACTION", "PROJECT"] },
+            ...openTasks,
+            ...startedTasks(new Date()),
+          },
+          orderBy: [{ priority: "asc" }, { dueDate: "asc" }],
+          include,
+        }),
+      ]);
+
+      return { person, waiting, actions };
+    }),
+
+  // Add a person
+  create: protectedProcedure
+    .input(z.object({ name: z.string().trim().min(1).max(100), ...personFields }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      await assertNameAvailable(ctx.db, userId, input.name);
+
+      return ctx.db.person.create({
+        data: { ...input, userId },
+      });
+    }),
+
+  // Update a person, their tasks keep them under the new name
+  update: protectedProcedure
+    .input(
+      z.object({ id: z.string(), name: z.string().trim().min(1).max(100).optional(), ...personFields }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const existing = await findPerson(ctx.db, userId, input.id);
+      if (input.name !== undefined && input.name !== existing.name) {
+        await assertNameAvailable(ctx.db, userId, input.name, existing.id);
+      }
+
+      const { id, ...data } = input;
+      return ctx.db.person.update({
+        where: { id },
+        data,
+      });
+    }),
+
+  // Delete a person, their tasks are left without one
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await findPerson(ctx.db, ctx.session.user.id, input.id);
+
+      return ctx.db.person.delete({
+        where: { id: input.id },
+      });
+    }),
+});
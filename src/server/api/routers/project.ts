@@ -1,23 +1,107 @@
 import { z } from "zod";
 import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
 import { createTodoistService } from "~/server/services/todoist";
-import { ProjectType, ProjectStatus } from "@prisma/client";
+import { syncTodoistChanges } from "~/server/services/todoist-sync";
+import { drainTodoistOutbox, enqueueTodoistChange } from "~/server/services/todoist-outbox";
+import { trashProject } from "~/server/services/trash";
+import { changedKeys, pickFields, recordOperation } from "~/server/services/operations";
+import {
+  diffFields,
+  recordTaskEvents,
+  updatedEvents,
+} from "~/server/services/task-events";
+import {
+  OperationEntityType,
+  OperationType,
+  ProjectType,
+  ProjectStatus,
+  TaskEventType,
+  TodoistEntityType,
+  TodoistOperation,
+  type PrismaClient,
+  type Project,
+} from "@prisma/client";
+
+// Find one of the user's projects outside the trash
+async function findProject(db: PrismaClient, userId: string, id: string) {
+  const project = await db.project.findFirst({
+    where: { id, userId, deletedAt: null },
+  });
+
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  return project;
+}
+
+// Archiving keeps what it replaced so unarchiving can put it back
+const TYPE_FIELDS = ["projectType", "status", "archivedAt"];
+const ARCHIVED_FROM_FIELDS = ["archivedFromType", "archivedFromStatus"];
+
+const isArchived = (project: Project) =>
+  project.status === "ARCHIVED" || project.projectType === "ARCHIVE";
+
+const archiveFields = (project: Project) => ({
+  status: ProjectStatus.ARCHIVED,
+  projectType: ProjectType.ARCHIVE,
+  archivedAt: new Date(),
+  // Archiving twice must not forget the original type
+  archivedFromType: isArchived(project) ? project.archivedFromType : project.projectType,
+  archivedFromStatus: isArchived(project) ? project.archivedFromStatus : project.status,
+});
+
+const unarchiveFields = (project: Project) => ({
+  status: project.archivedFromStatus ?? ProjectStatus.ACTIVE,
+  projectType: project.archivedFromType ?? ProjectType.PROJECT,
+  archivedAt: null,
+  archivedFromType: null,
+  archivedFromStatus: null,
+});
+
+// Undo restores the archive bookkeeping too, the activity only shows what the user sees
+async function recordTypeChange(
+  db: PrismaClient,
+  userId: string,
+  before: Project,
+  after: Project,
+  description: string,
+) {
+  const changed = [...TYPE_FIELDS, ...ARCHIVED_FROM_FIELDS];
+  await recordOperation(db, userId, {
+    type: OperationType.UPDATE,
+    entityType: OperationEntityType.PROJECT,
+    entityId: before.id,
+    description,
+    before: pickFields(before, changed),
+    after: pickFields(after, changed),
+  });
+  await recordTaskEvents(
+    db,
+    userId,
+    updatedEvents(
+      { projectId: before.id },
+      diffFields(pickFields(before, TYPE_FIELDS), pickFields(after, TYPE_FIELDS)),
+    ),
+  );
+}
 
 export const projectRouter = createTRPCRouter({
   // Get all projects for the user
   getAll: protectedProcedure.query(async ({ ctx }) => {
     return ctx.db.project.findMany({
-      where: { userId: ctx.session.user.id },
+      where: { userId: ctx.session.user.id, deletedAt: null },
       include: {
         sections: {
+          where: { deletedAt: null },
           orderBy: { order: "asc" },
         },
         tasks: {
-          where: { sectionId: null },
+          where: { sectionId: null, deletedAt: null },
           orderBy: { order: "asc" },
         },
         _count: {
-          select: { tasks: true },
+          select: { tasks: { where: { deletedAt: null } } },
         },
       },
       orderBy: { order: "asc" },
@@ -32,11 +116,14 @@ export const projectRouter = createTRPCRouter({
         where: {
           id: input.id,
           userId: ctx.session.user.id,
+          deletedAt: null,
         },
         include: {
           sections: {
+            where: { deletedAt: null },
             include: {
               tasks: {
+                where: { deletedAt: null },
                 include: { labels: true },
                 orderBy: { order: "asc" },
               },
@@ -44,7 +131,7 @@ export const projectRouter = createTRPCRouter({
             orderBy: { order: "asc" },
           },
           tasks: {
-            where: { sectionId: null },
+            where: { sectionId: null, deletedAt: null },
             include: { labels: true },
             orderBy: { order: "asc" },
           },
@@ -70,23 +157,6 @@ export const projectRouter = createTRPCRouter({
       });
 
       const todoistService = createTodoistService(user?.todoistApiToken || undefined);
-      let todoistId: string | undefined;
-
-      // Create in Todoist if sync is enabled and user has token
-      if (input.syncToTodoist && todoistService) {
-        try {
-          const todoistProject = await todoistService.createProject({
-            name: input.name,
-            color: input.color,
-            is_favorite: input.isFavorite,
-            parent_id: input.parentId,
-          });
-          todoistId = todoistProject.id;
-        } catch (error) {
-          console.error("Failed to create project in Todoist:", error);
-          // Continue with local creation even if Todoist fails
-        }
-      }
 
       // Get the highest order for projects
       const lastProject = await ctx.db.project.findFirst({
@@ -97,24 +167,48 @@ export const projectRouter = createTRPCRouter({
 
       const order = (lastProject?.order ?? 0) + 1;
 
-      return ctx.db.project.create({
+      const project = await ctx.db.project.create({
         data: {
           name: input.name,
           color: input.color,
           isFavorite: input.isFavorite,
           order,
           userId: ctx.session.user.id,
-          todoistId,
-          syncedAt: todoistId ? new Date() : null,
           parentId: input.parentId,
         },
         include: {
           sections: true,
           _count: {
-            select: { tasks: true },
+            select: { tasks: { where: { deletedAt: null } } },
           },
         },
       });
+
+      // Queue the project for Todoist if sync is enabled and user has token
+      if (input.syncToTodoist && todoistService) {
+        await enqueueTodoistChange(ctx.db, ctx.session.user.id, {
+          entityType: TodoistEntityType.PROJECT,
+          operation: TodoistOperation.CREATE,
+          entityId: project.id,
+          payload: {
+            name: input.name,
+            color: input.color,
+            is_favorite: input.isFavorite,
+          },
+        });
+      }
+
+      await recordOperation(ctx.db, ctx.session.user.id, {
+        type: OperationType.CREATE,
+        entityType: OperationEntityType.PROJECT,
+        entityId: project.id,
+        description: `Add "${project.name}"`,
+      });
+      await recordTaskEvents(ctx.db, ctx.session.user.id, [
+        { projectId: project.id, type: TaskEventType.CREATED },
+      ]);
+
+      return project;
     }),
 
   // Update a project
@@ -126,6 +220,7 @@ export const projectRouter = createTRPCRouter({
         color: z.string().optional(),
         isFavorite: z.boolean().optional(),
         order: z.number().optional(),
+        startDate: z.date().nullable().optional(), // defer until, null to start it now
       }),
     )
     .mutation(async ({ ctx, input }) => {
@@ -133,52 +228,60 @@ export const projectRouter = createTRPCRouter({
         where: {
           id: input.id,
           userId: ctx.session.user.id,
+          deletedAt: null,
         },
-        select: { todoistId: true },
       });
 
       if (!project) {
         throw new Error("Project not found");
       }
 
-      const user = await ctx.db.user.findUnique({
-        where: { id: ctx.session.user.id },
-        select: { todoistApiToken: true },
-      });
-
-      const todoistService = createTodoistService(user?.todoistApiToken || undefined);
-
-      // Update in Todoist if synced
-      if (project.todoistId && todoistService) {
-        try {
-          await todoistService.updateProject(project.todoistId, {
-            name: input.name,
-            color: input.color,
-            is_favorite: input.isFavorite,
-            order: input.order,
-          });
-        } catch (error) {
-          console.error("Failed to update project in Todoist:", error);
-          // Continue with local update even if Todoist fails
-        }
-      }
-
-      return ctx.db.project.update({
+      const updated = await ctx.db.project.update({
         where: { id: input.id },
-        data: {
-          ...input,
-          syncedAt: project.todoistId ? new Date() : undefined,
-        },
+        data: input,
         include: {
           sections: true,
           _count: {
-            select: { tasks: true },
+            select: { tasks: { where: { deletedAt: null } } },
           },
         },
       });
+
+      const changed = changedKeys(input).filter((key) => key !== "id");
+      await recordOperation(ctx.db, ctx.session.user.id, {
+        type: OperationType.UPDATE,
+        entityType: OperationEntityType.PROJECT,
+        entityId: project.id,
+        description: `Edit "${project.name}"`,
+        before: pickFields(project, changed),
+        after: pickFields(updated, changed),
+      });
+      await recordTaskEvents(
+        ctx.db,
+        ctx.session.user.id,
+        updatedEvents(
+          { projectId: project.id },
+          diffFields(pickFields(project, changed), pickFields(updated, changed)),
+        ),
+      );
+
+      await enqueueTodoistChange(ctx.db, ctx.session.user.id, {
+        entityType: TodoistEntityType.PROJECT,
+        operation: TodoistOperation.UPDATE,
+        entityId: input.id,
+        todoistId: project.todoistId,
+        payload: {
+          name: input.name,
+          color: input.color,
+          is_favorite: input.isFavorite,
+          order: input.order,
+        },
+      });
+
+      return updated;
     }),
 
-  // Delete a project
+  // Move a project with its sections and tasks to the trash
   delete: protectedProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
@@ -186,33 +289,40 @@ export const projectRouter = createTRPCRouter({
         where: {
           id: input.id,
           userId: ctx.session.user.id,
+          deletedAt: null,
         },
-        select: { todoistId: true },
+        select: { id: true, name: true },
       });
 
       if (!project) {
         throw new Error("Project not found");
       }
 
-      const user = await ctx.db.user.findUnique({
-        where: { id: ctx.session.user.id },
-        select: { todoistApiToken: true },
-      });
-
-      const todoistService = createTodoistService(user?.todoistApiToken || undefined);
+      // Todoist hears about the deletion once the project is purged from the trash
+      await trashProject(ctx.db, project.id);
 
-      // Delete from Todoist if synced
-      if (project.todoistId && todoistService) {
-        try {
-          await todoistService.deleteProject(project.todoistId);
-        } catch (error) {
-          console.error("Failed to delete project from Todoist:", error);
-          // Continue with local deletion even if Todoist fails
-        }
-      }
+      await recordOperation(ctx.db, ctx.session.user.id, {
+        type: OperationType.DELETE,
+        entityType: OperationEntityType.PROJECT,
+        entityId: project.id,
+        description: `Delete "${project.name}"`,
+      });
+      await recordTaskEvents(ctx.db, ctx.session.user.id, [
+        { projectId: project.id, type: TaskEventType.DELETED },
+      ]);
+    }),
 
-      await ctx.db.project.delete({
-        where: { id: input.id },
+  // Get the activity history of a project and its sections, newest first
+  getActivity: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      return ctx.db.taskEvent.findMany({
+        where: {
+          userId: ctx.session.user.id,
+          OR: [{ projectId: input.id }, { section: { projectId: input.id } }],
+        },
+        include: { section: { select: { name: true } } },
+        orderBy: { createdAt: "desc" },
       });
     }),
 
@@ -227,6 +337,7 @@ export const projectRouter = createTRPCRouter({
     .query(async ({ ctx, input }) => {
       const where: any = {
         userId: ctx.session.user.id,
+        deletedAt: null,
       };
 
       if (input.projectType) {
@@ -241,14 +352,15 @@ export const projectRouter = createTRPCRouter({
         where,
         include: {
           sections: {
+            where: { deletedAt: null },
             orderBy: { order: "asc" },
           },
           tasks: {
-            where: { sectionId: null },
+            where: { sectionId: null, deletedAt: null },
             orderBy: { order: "asc" },
           },
           _count: {
-            select: { tasks: true },
+            select: { tasks: { where: { deletedAt: null } } },
           },
         },
         orderBy: [
@@ -258,24 +370,63 @@ export const projectRouter = createTRPCRouter({
       });
     }),
 
-  // Archive a project
+  // Archive a project, remembering its type and status for when it is unarchived
   archiveProject: protectedProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
-      return ctx.db.project.update({
+      const project = await findProject(ctx.db, ctx.session.user.id, input.id);
+
+      const updated = await ctx.db.project.update({
         where: { id: input.id },
-        data: {
-          status: "ARCHIVED",
-          projectType: "ARCHIVE",
-          archivedAt: new Date(),
+        data: archiveFields(project),
+        include: {
+          sections: true,
+          _count: {
+            select: { tasks: { where: { deletedAt: null } } },
+          },
         },
+      });
+
+      await recordTypeChange(
+        ctx.db,
+        ctx.session.user.id,
+        project,
+        updated,
+        `Archive "${project.name}"`,
+      );
+
+      return updated;
+    }),
+
+  // Bring an archived project back with the type and status it had before
+  unarchiveProject: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const project = await findProject(ctx.db, ctx.session.user.id, input.id);
+      if (!isArchived(project)) {
+        throw new Error("Project is not archived");
+      }
+
+      const updated = await ctx.db.project.update({
+        where: { id: input.id },
+        data: unarchiveFields(project),
         include: {
           sections: true,
           _count: {
-            select: { tasks: true },
+            select: { tasks: { where: { deletedAt: null } } },
           },
         },
       });
+
+      await recordTypeChange(
+        ctx.db,
+        ctx.session.user.id,
+        project,
+        updated,
+        `Unarchive "${project.name}"`,
+      );
+
+      return updated;
     }),
 
   // Convert project type
@@ -287,22 +438,37 @@ export const projectRouter = createTRPCRouter({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      return ctx.db.project.update({
+      const project = await findProject(ctx.db, ctx.session.user.id, input.id);
+
+      const archiving = input.projectType === "ARCHIVE";
+      const updated = await ctx.db.project.update({
         where: { id: input.id },
         data: {
+          ...(archiving && !isArchived(project) && archiveFields(project)),
+          ...(!archiving && isArchived(project) && unarchiveFields(project)),
           projectType: input.projectType,
-          status: input.projectType === "ARCHIVE" ? "ARCHIVED" : "ACTIVE",
+          status: archiving ? "ARCHIVED" : "ACTIVE",
         },
         include: {
           sections: true,
           _count: {
-            select: { tasks: true },
+            select: { tasks: { where: { deletedAt: null } } },
           },
         },
       });
+
+      await recordTypeChange(
+        ctx.db,
+        ctx.session.user.id,
+        project,
+        updated,
+        `Convert "${project.name}"`,
+      );
+
+      return updated;
     }),
 
-  // Sync projects from Todoist
+  // Sync from Todoist like task.syncFromTodoist, so projects are merged and trashed the same way
   syncFromTodoist: protectedProcedure.mutation(async ({ ctx }) => {
     const user = await ctx.db.user.findUnique({
       where: { id: ctx.session.user.id },
@@ -314,52 +480,9 @@ export const projectRouter = createTRPCRouter({
       throw new Error("Todoist API token not configured");
     }
 
-    const todoistProjects = await todoistService.getProjects();
-    let imported = 0;
-    let updated = 0;
-
-    for (const todoistProject of todoistProjects) {
-      const existingProject = await ctx.db.project.findFirst({
-        where: {
-          todoistId: todoistProject.id,
-          userId: ctx.session.user.id,
-        },
-      });
-
-      if (existingProject) {
-        // Update existing project
-        await ctx.db.project.update({
-          where: { id: existingProject.id },
-          data: {
-            name: todoistProject.name,
-            color: todoistProject.color,
-            isFavorite: todoistProject.is_favorite,
-            isInboxProject: todoistProject.is_inbox_project,
-            viewStyle: todoistProject.view_style,
-            order: todoistProject.order,
-            syncedAt: new Date(),
-          },
-        });
-        updated++;
-      } else {
-        // Create new project
-        await ctx.db.project.create({
-          data: {
-            name: todoistProject.name,
-            todoistId: todoistProject.id,
-            color: todoistProject.color,
-            isFavorite: todoistProject.is_favorite,
-            isInboxProject: todoistProject.is_inbox_project,
-            viewStyle: todoistProject.view_style,
-            order: todoistProject.order,
-            userId: ctx.session.user.id,
-            syncedAt: new Date(),
-          },
-        });
-        imported++;
-      }
-    }
+    // Push local changes first so the pull does not overwrite them with stale remote data
+    await drainTodoistOutbox(ctx.db, ctx.session.user.id, { todoist: todoistService });
 
-    return { imported, updated };
+    return syncTodoistChanges(ctx.db, ctx.session.user.id, todoistService);
   }),
 });
\ No newline at end of file
@@ -0,0 +1,238 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { differenceInCalendarWeeks, startOfWeek } from "date-fns";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { startedTasks } from "~/server/services/tickler";
+
+// Weekly reviews are grouped by the Monday of the week they were completed in
+const getWeekStart = (date: Date) => startOfWeek(date, { weekStartsOn: 1 });
+
+// Count consecutive reviewed weeks. The current streak stays alive until a
+// full week has been skipped, so last week's review still counts today.
+const calculateStreaks = (weekStarts: Date[], now: Date) => {
+  const weeks = Array.from(
+    new Set(weekStarts.map((date) => getWeekStart(date).getTime())),
+  ).sort((a, b) => b - a);
+
+  let longestStreak = 0;
+  let run = 0;
+  for (let i = 0; i < weeks.length; i++) {
+    const isConsecutive =
+      i > 0 && differenceInCalendarWeeks(weeks[i - 1]!, weeks[i]!, { weekStartsOn: 1 }) === 1;
+    run = isConsecutive ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+  }
+
+  let currentStreak = 0;
+  const latest = weeks[0];
+  if (
+    latest !== undefined &&
+    differenceInCalendarWeeks(getWeekStart(now), latest, { weekStartsOn: 1 }) <= 1
+  ) {
+    currentStreak = 1;
+    while (
+      currentStreak < weeks.length &&
+      differenceInCalendarWeeks(
+        weeks[currentStreak - 1]!,
+        weeks[currentStreak]!,
+        { weekStartsOn: 1 },
+      ) === 1
+    ) {
+      currentStreak++;
+    }
+  }
+
+  return { currentStreak, longestStreak };
+};
+
+export const reviewRouter = createTRPCRouter({
+  // Get counts for every list the review walks through
+  getOverview: protectedProcedure.query(async ({ ctx }) => {
+    const userId = ctx.session.user.id;
+    // Deferred items wait in the tickler, outside the inbox and the next actions
+    const started = startedTasks(new Date());
+
+    const [inboxCount, activeProjectCount, waitingForCount, somedayCount, nextActionCount] =
+      await Promise.all([
+        ctx.db.task.count({
+          where: { userId, deletedAt: null, taskType: "INBOX", completed: false, ...started },
+        }),
+        ctx.db.project.count({
+          where: { userId, deletedAt: null, projectType: "PROJECT", status: "ACTIVE" },
+        }),
+        ctx.db.task.count({
+          where: { userId, deletedAt: null, taskType: "WAITING", completed: false },
+        }),
+        ctx.db.task.count({
+          where: { userId, deletedAt: null, taskType: "SOMEDAY", completed: false },
+        }),
+        ctx.db.task.count({
+          where: { userId, deletedAt: null, isNextAction: true, completed: false, ...started },
+        }),
+      ]);
+
+    return {
+      inboxCount,
+      activeProjectCount,
+      waitingForCount,
+      somedayCount,
+      nextActionCount,
+    };
+  }),
+
+  // Get active projects with their open tasks so each one can be reviewed
+  getActiveProjects: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.db.project.findMany({
+      where: {
+        userId: ctx.session.user.id,
+        deletedAt: null,
+        projectType: "PROJECT",
+        status: "ACTIVE",
+      },
+      include: {
+        tasks: {
+          where: { completed: false, deletedAt: null },
+          orderBy: [{ isNextAction: "desc" }, { order: "asc" }],
+        },
+      },
+      orderBy: [{ reviewedAt: "asc" }, { order: "asc" }],
+    });
+  }),
+
+  // Mark a project as reviewed during the current review
+  markProjectReviewed: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const project = await ctx.db.project.findFirst({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+          deletedAt: null,
+        },
+      });
+
+      if (!project) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Project not found",
+        });
+      }
+
+      return ctx.db.project.update({
+        where: { id: input.id },
+        data: { reviewedAt: new Date() },
+      });
+    }),
+
+  // Confirm a batch of next actions as still relevant
+  markNextActionsReviewed: protectedProcedure
+    .input(z.object({ ids: z.array(z.string()) }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await ctx.db.task.updateMany({
+        where: {
+          id: { in: input.ids },
+          userId: ctx.session.user.id,
+          isNextAction: true,
+        },
+        data: { reviewedAt: new Date() },
+      });
+
+      return { reviewed: result.count };
+    }),
+
+  // Record a completed review using what was actually reviewed since it started
+  complete: protectedProcedure
+    .input(
+      z.object({
+        startedAt: z.date(),
+        notes: z.string().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const now = new Date();
+
+      if (input.startedAt > now) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Review cannot start in the future",
+        });
+      }
+
+      const [inboxCount, projectsReviewed, nextActionsReviewed] = await Promise.all([
+        ctx.db.task.count({
+          where: {
+            userId,
+            deletedAt: null,
+            taskType: "INBOX",
+            completed: false,
+            ...startedTasks(now),
+          },
+        }),
+        ctx.db.project.count({
+          where: { userId, reviewedAt: { gte: input.startedAt } },
+        }),
+        ctx.db.task.count({
+          where: {
+            userId,
+            isNextAction: true,
+            reviewedAt: { gte: input.startedAt },
+          },
+        }),
+      ]);
+
+      return ctx.db.weeklyReview.create({
+        data: {
+          weekStartDate: getWeekStart(now),
+          completedAt: now,
+          inboxZero: inboxCount === 0,
+          projectsReviewed,
+          nextActionsReviewed,
+          notes: input.notes,
+          userId,
+        },
+      });
+    }),
+
+  // Get past reviews, most recent first
+  getHistory: protectedProcedure
+    .input(
+      z
+        .object({
+          limit: z.number().min(1).max(100).default(10),
+        })
+        .optional(),
+    )
+    .query(async ({ ctx, input }) => {
+      return ctx.db.weeklyReview.findMany({
+        where: { userId: ctx.session.user.id },
+        orderBy: { completedAt: "desc" },
+        take: input?.limit ?? 10,
+      });
+    }),
+
+  // Get review streaks and whether this week's review is done
+  getStats: protectedProcedure.query(async ({ ctx }) => {
+    const reviews = await ctx.db.weeklyReview.findMany({
+      where: { userId: ctx.session.user.id },
+      orderBy: { weekStartDate: "desc" },
+      select: { weekStartDate: true, completedAt: true },
+    });
+
+    const now = new Date();
+    const { currentStreak, longestStreak } = calculateStreaks(
+      reviews.map((review) => review.weekStartDate),
+      now,
+    );
+
+    return {
+      totalReviews: reviews.length,
+      currentStreak,
+      longestStreak,
+      lastReviewAt: reviews[0]?.completedAt ?? null,
+      reviewedThisWeek: reviews.some(
+        (review) => getWeekStart(review.weekStartDate).getTime() === getWeekStart(now).getTime(),
+      ),
+    };
+  }),
+});
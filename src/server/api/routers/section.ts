@@ -1,6 +1,14 @@
 import { z } from "zod";
 import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
 import { createTodoistService } from "~/server/services/todoist";
+import {
+  enqueueTodoistChange,
+  hasPendingTodoistCreate,
+} from "~/server/services/todoist-outbox";
+import { trashSection } from "~/server/services/trash";
+import { changedKeys, pickFields } from "~/server/services/operations";
+import { diffFields, recordTaskEvents, updatedEvents } from "~/server/services/task-events";
+import { TaskEventType, TodoistEntityType, TodoistOperation } from "@prisma/client";
 
 export const sectionRouter = createTRPCRouter({
   // Get all sections for a project
@@ -12,6 +20,7 @@ export const sectionRouter = createTRPCRouter({
         where: {
           id: input.projectId,
           userId: ctx.session.user.id,
+          deletedAt: null,
         },
       });
 
@@ -20,14 +29,15 @@ export const sectionRouter = createTRPCRouter({
       }
 
       return ctx.db.section.findMany({
-        where: { projectId: input.projectId },
+        where: { projectId: input.projectId, deletedAt: null },
         include: {
           tasks: {
+            where: { deletedAt: null },
             include: { labels: true },
             orderBy: { order: "asc" },
           },
           _count: {
-            select: { tasks: true },
+            select: { tasks: { where: { deletedAt: null } } },
           },
         },
         orderBy: { order: "asc" },
@@ -49,6 +59,7 @@ export const sectionRouter = createTRPCRouter({
         where: {
           id: input.projectId,
           userId: ctx.session.user.id,
+          deletedAt: null,
         },
         select: { todoistId: true },
       });
@@ -63,21 +74,6 @@ export const sectionRouter = createTRPCRouter({
       });
 
       const todoistService = createTodoistService(user?.todoistApiToken || undefined);
-      let todoistId: string | undefined;
-
-      // Create in Todoist if sync is enabled and project is synced
-      if (input.syncToTodoist && project.todoistId && todoistService) {
-        try {
-          const todoistSection = await todoistService.createSection({
-            name: input.name,
-            project_id: project.todoistId,
-          });
-          todoistId = todoistSection.id;
-        } catch (error) {
-          console.error("Failed to create section in Todoist:", error);
-          // Continue with local creation even if Todoist fails
-        }
-      }
 
       // Get the highest order for sections in this project
       const lastSection = await ctx.db.section.findFirst({
@@ -88,24 +84,49 @@ export const sectionRouter = createTRPCRouter({
 
       const order = (lastSection?.order ?? 0) + 1;
 
-      return ctx.db.section.create({
+      const section = await ctx.db.section.create({
         data: {
           name: input.name,
           projectId: input.projectId,
           order,
-          todoistId,
-          syncedAt: todoistId ? new Date() : null,
         },
         include: {
           tasks: {
+            where: { deletedAt: null },
             include: { labels: true },
             orderBy: { order: "asc" },
           },
           _count: {
-            select: { tasks: true },
+            select: { tasks: { where: { deletedAt: null } } },
           },
         },
       });
+
+      // Queue the section for Todoist if sync is enabled and the project is (or will be) synced
+      if (input.syncToTodoist && todoistService) {
+        const projectSynced =
+          !!project.todoistId ||
+          (await hasPendingTodoistCreate(
+            ctx.db,
+            ctx.session.user.id,
+            TodoistEntityType.PROJECT,
+            input.projectId,
+          ));
+        if (projectSynced) {
+          await enqueueTodoistChange(ctx.db, ctx.session.user.id, {
+            entityType: TodoistEntityType.SECTION,
+            operation: TodoistOperation.CREATE,
+            entityId: section.id,
+            payload: { name: input.name },
+          });
+        }
+      }
+
+      await recordTaskEvents(ctx.db, ctx.session.user.id, [
+        { sectionId: section.id, type: TaskEventType.CREATED },
+      ]);
+
+      return section;
     }),
 
   // Update a section
@@ -119,7 +140,7 @@ export const sectionRouter = createTRPCRouter({
     )
     .mutation(async ({ ctx, input }) => {
       const section = await ctx.db.section.findFirst({
-        where: { id: input.id },
+        where: { id: input.id, deletedAt: null },
         include: {
           project: {
             select: { todoistId: true, userId: true },
@@ -131,50 +152,48 @@ export const sectionRouter = createTRPCRouter({
         throw new Error("Section not found");
       }
 
-      const user = await ctx.db.user.findUnique({
-        where: { id: ctx.session.user.id },
-        select: { todoistApiToken: true },
-      });
-
-      const todoistService = createTodoistService(user?.todoistApiToken || undefined);
-
-      // Update in Todoist if synced
-      if (section.todoistId && todoistService) {
-        try {
-          await todoistService.updateSection(section.todoistId, {
-            name: input.name,
-            order: input.order,
-          });
-        } catch (error) {
-          console.error("Failed to update section in Todoist:", error);
-          // Continue with local update even if Todoist fails
-        }
-      }
-
-      return ctx.db.section.update({
+      const updated = await ctx.db.section.update({
         where: { id: input.id },
-        data: {
-          ...input,
-          syncedAt: section.todoistId ? new Date() : undefined,
-        },
+        data: input,
         include: {
           tasks: {
+            where: { deletedAt: null },
             include: { labels: true },
             orderBy: { order: "asc" },
           },
           _count: {
-            select: { tasks: true },
+            select: { tasks: { where: { deletedAt: null } } },
           },
         },
       });
+
+      await enqueueTodoistChange(ctx.db, ctx.session.user.id, {
+        entityType: TodoistEntityType.SECTION,
+        operation: TodoistOperation.UPDATE,
+        entityId: input.id,
+        todoistId: section.todoistId,
+        payload: { name: input.name, order: input.order },
+      });
+
+      const changed = changedKeys(input).filter((key) => key !== "id");
+      await recordTaskEvents(
+        ctx.db,
+        ctx.session.user.id,
+        updatedEvents(
+          { sectionId: section.id },
+          diffFields(pickFields(section, changed), pickFields(updated, changed)),
+        ),
+      );
+
+      return updated;
     }),
 
-  // Delete a section
+  // Move a section and its tasks to the trash
   delete: protectedProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
       const section = await ctx.db.section.findFirst({
-        where: { id: input.id },
+        where: { id: input.id, deletedAt: null },
         include: {
           project: {
             select: { todoistId: true, userId: true },
@@ -186,25 +205,10 @@ export const sectionRouter = createTRPCRouter({
         throw new Error("Section not found");
       }
 
-      const user = await ctx.db.user.findUnique({
-        where: { id: ctx.session.user.id },
-        select: { todoistApiToken: true },
-      });
-
-      const todoistService = createTodoistService(user?.todoistApiToken || undefined);
-
-      // Delete from Todoist if synced
-      if (section.todoistId && todoistService) {
-        try {
-          await todoistService.deleteSection(section.todoistId);
-        } catch (error) {
-          console.error("Failed to delete section from Todoist:", error);
-          // Continue with local deletion even if Todoist fails
-        }
-      }
-
-      await ctx.db.section.delete({
-        where: { id: input.id },
-      });
+      // Todoist hears about the deletion once the section is purged from the trash
+      await trashSection(ctx.db, section.id);
+      await recordTaskEvents(ctx.db, ctx.session.user.id, [
+        { sectionId: section.id, type: TaskEventType.DELETED },
+      ]);
     }),
 });
\ No newline at end of file
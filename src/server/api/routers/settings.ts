@@ -0,0 +1,89 @@
+import { z } from "zod";
+import { EnergyLevel, Prisma, type UserPreferences } from "@prisma/client";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { createAttachmentStorage } from "~/server/services/attachment-storage";
+import { deleteAttachments } from "~/server/services/attachments";
+import { THEMES, isTheme } from "~/lib/preferences";
+
+// Fill in the defaults for users who never saved their preferences
+const toPreferences = (preferences: UserPreferences | null) => ({
+  defaultEnergyLevel: preferences?.defaultEnergyLevel ?? null,
+  defaultTimeEstimate: preferences?.defaultTimeEstimate ?? null,
+  theme: isTheme(preferences?.theme) ? preferences.theme : "system",
+});
+
+export const settingsRouter = createTRPCRouter({
+  // Get the user's profile and preferences
+  get: protectedProcedure.query(async ({ ctx }) => {
+    const user = await ctx.db.user.findUnique({
+      where: { id: ctx.session.user.id },
+      select: { name: true, email: true, image: true, preferences: true },
+    });
+
+    return {
+      profile: { name: user?.name ?? null, email: user?.email ?? null, image: user?.image ?? null },
+      preferences: toPreferences(user?.preferences ?? null),
+    };
+  }),
+
+  // Change the name shown in the app
+  updateProfile: protectedProcedure
+    .input(z.object({ name: z.string().trim().min(1).max(100) }))
+    .mutation(async ({ ctx, input }) => {
+      return ctx.db.user.update({
+        where: { id: ctx.session.user.id },
+        data: { name: input.name },
+        select: { name: true, email: true, image: true },
+      });
+    }),
+
+  // Save some of the preferences, the rest keep their values
+  updatePreferences: protectedProcedure
+    .input(
+      z.object({
+        defaultEnergyLevel: z.nativeEnum(EnergyLevel).nullable().optional(),
+        defaultTimeEstimate: z.number().int().min(1).max(1440).nullable().optional(),
+        theme: z.enum(THEMES).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const preferences = await ctx.db.userPreferences.upsert({
+        where: { userId: ctx.session.user.id },
+        update: input,
+        create: { ...input, userId: ctx.session.user.id },
+      });
+      return toPreferences(preferences);
+    }),
+
+  // Disconnect Todoist and forget which items came from it, so nothing syncs any more
+  unlinkTodoist: protectedProcedure.mutation(async ({ ctx }) => {
+    const userId = ctx.session.user.id;
+    const unlinked = { todoistId: null, syncedAt: null };
+
+    await ctx.db.$transaction([
+      ctx.db.user.update({
+        where: { id: userId },
+        data: { todoistApiToken: null, todoistSyncToken: null, todoistLastSyncAt: null },
+      }),
+      ctx.db.todoistOutboxEntry.deleteMany({ where: { userId } }),
+      ctx.db.syncConflict.deleteMany({ where: { userId } }),
+      ctx.db.task.updateMany({
+        where: { userId },
+        data: { ...unlinked, syncSnapshot: Prisma.DbNull },
+      }),
+      ctx.db.project.updateMany({ where: { userId }, data: unlinked }),
+      ctx.db.section.updateMany({ where: { project: { userId } }, data: unlinked }),
+      ctx.db.label.updateMany({ where: { userId }, data: unlinked }),
+      ctx.db.comment.updateMany({ where: { userId }, data: unlinked }),
+    ]);
+  }),
+
+  // Delete the user with everything they own, attached files included
+  deleteAccount: protectedProcedure
+    .input(z.object({ confirmation: z.literal("DELETE") }))
+    .mutation(async ({ ctx }) => {
+      const userId = ctx.session.user.id;
+      await deleteAttachments(ctx.db, createAttachmentStorage(), { userId });
+      await ctx.db.user.delete({ where: { id: userId } });
+    }),
+});
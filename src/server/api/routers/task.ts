@@ -1,14 +1,119 @@
 import { z } from "zod";
+import { addDays } from "date-fns";
 import { TRPCError } from "@trpc/server";
 import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
 import { createTodoistService } from "~/server/services/todoist";
-import { TaskType, EnergyLevel } from "@prisma/client";
+import {
+  previewTodoistSync,
+  syncTodoistChanges,
+  syncTodoistLabels,
+} from "~/server/services/todoist-sync";
+import { drainTodoistOutbox, enqueueTodoistChange } from "~/server/services/todoist-outbox";
+import { toLabelConnections } from "~/server/services/labels";
+import { toTodoistDue } from "~/server/services/todoist-conflicts";
+import { createNextOccurrence } from "~/server/services/recurring-tasks";
+import { isValidRecurrence } from "~/lib/recurrence";
+import { resolveQuickCapture } from "~/server/services/quick-capture";
+import { findOrCreateContext } from "~/server/services/contexts";
+import { recommendNextActions } from "~/server/services/recommendations";
+import { startedTasks } from "~/server/services/tickler";
+import { DEFAULT_FOLLOW_UP_DAYS, findOrCreatePerson } from "~/server/services/people";
+import { searchTasks } from "~/server/services/search";
+import { buildTaskFilter, taskFilterSchema } from "~/server/services/task-filters";
+import {
+  completeSubtasks,
+  getNextSubtaskOrder,
+  moveSubtasks,
+  reopenAncestors,
+  wouldCreateCycle,
+} from "~/server/services/subtasks";
+import { promoteUnblockedTasks, unblockedTasks } from "~/server/services/dependencies";
+import { trashTask } from "~/server/services/trash";
+import { addComment } from "~/server/services/comments";
+import { changedKeys, pickFields, recordOperation } from "~/server/services/operations";
+import {
+  describeTask,
+  diffFields,
+  recordTaskEvents,
+  taskChangeEvents,
+} from "~/server/services/task-events";
+import {
+  TaskType,
+  EnergyLevel,
+  OperationEntityType,
+  OperationType,
+  TaskEventType,
+  TodoistEntityType,
+  TodoistConflictStrategy,
+  TodoistOperation,
+  TodoistRemovalPolicy,
+  type Prisma,
+  type PrismaClient,
+} from "@prisma/client";
+
+const recurrenceSchema = z
+  .string()
+  .trim()
+  .refine(isValidRecurrence, { message: "Unsupported recurrence rule" });
+
+const quickCaptureSchema = z.object({
+  text: z.string().trim().min(1),
+  timezoneOffset: z.number().int().optional(),
+});
+
+const toDateString = (date: Date | null | undefined) => (date ? date.toISOString().split("T")[0]! : null);
+
+// Fail with NOT_FOUND unless the context is one of the user's
+async function assertContext(db: PrismaClient, userId: string, contextId: string | null | undefined) {
+  if (!contextId) return;
+
+  const context = await db.context.findFirst({
+    where: { id: contextId, userId },
+    select: { id: true },
+  });
+  if (!context) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Context not found",
+    });
+  }
+}
+
+// Fail with NOT_FOUND unless the person is one of the user's people
+async function assertPerson(db: PrismaClient, userId: string, personId: string | null | undefined) {
+  if (!personId) return;
+
+  const person = await db.person.findFirst({
+    where: { id: personId, userId },
+    select: { id: true },
+  });
+  if (!person) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Person not found",
+    });
+  }
+}
+
+// The person a waiting task waits on: the one given, or the one named in `waitingFor`
+async function resolvePerson(
+  db: PrismaClient,
+  userId: string,
+  input: { personId?: string | null; waitingFor?: string },
+) {
+  if (input.personId !== undefined) {
+    await assertPerson(db, userId, input.personId);
+    return input.personId;
+  }
+  if (!input.waitingFor) return undefined;
+  return (await findOrCreatePerson(db, userId, input.waitingFor))?.id;
+}
 
 export const taskRouter = createTRPCRouter({
   // Get all tasks for the current user
   getAll: protectedProcedure.query(async ({ ctx }) => {
     return ctx.db.task.findMany({
-      where: { userId: ctx.session.user.id },
+      where: { userId: ctx.session.user.id, deletedAt: null },
       orderBy: { createdAt: "desc" },
       include: {
         labels: true,
@@ -26,6 +131,7 @@ export const taskRouter = createTRPCRouter({
         where: {
           id: input.id,
           userId: ctx.session.user.id,
+          deletedAt: null,
         },
         include: {
           labels: true,
@@ -44,6 +150,52 @@ export const taskRouter = createTRPCRouter({
       return task;
     }),
 
+  // Get a task's activity history, newest first
+  getActivity: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      return ctx.db.taskEvent.findMany({
+        where: { taskId: input.id, userId: ctx.session.user.id },
+        orderBy: { createdAt: "desc" },
+      });
+    }),
+
+  // Full-text search over titles, descriptions, project names and labels, best matches first
+  search: protectedProcedure
+    .input(
+      z.object({
+        query: z.string().trim().min(1).max(200),
+        limit: z.number().int().min(1).max(50).default(20),
+        includeCompleted: z.boolean().default(false),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const matches = await searchTasks(ctx.db, ctx.session.user.id, input.query, {
+        limit: input.limit,
+        includeCompleted: input.includeCompleted,
+      });
+      if (matches.length === 0) return [];
+
+      const tasks = await ctx.db.task.findMany({
+        where: {
+          id: { in: matches.map((match) => match.taskId) },
+          userId: ctx.session.user.id,
+          deletedAt: null,
+        },
+        include: {
+          labels: true,
+          project: true,
+          section: true,
+        },
+      });
+      const tasksById = new Map(tasks.map((task) => [task.id, task]));
+
+      return matches.flatMap((match) => {
+        const task = tasksById.get(match.taskId);
+        return task ? [{ task, highlight: { title: match.title, snippet: match.snippet } }] : [];
+      });
+    }),
+
   // Create a new task
   create: protectedProcedure
     .input(
@@ -52,16 +204,56 @@ export const taskRouter = createTRPCRouter({
         description: z.string().optional(),
         priority: z.number().min(1).max(4).default(1),
         dueDate: z.date().optional(),
+        recurrence: recurrenceSchema.optional(),
         labels: z.array(z.string()).default([]),
         projectId: z.string().optional(),
         sectionId: z.string().optional(),
+        parentId: z.string().optional(),
         syncToTodoist: z.boolean().default(false),
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      let todoistId: string | undefined;
+      // Subtasks go at the end of their parent's subtasks, in its project and section
+      const parent = input.parentId
+        ? await ctx.db.task.findFirst({
+            where: { id: input.parentId, userId: ctx.session.user.id, deletedAt: null },
+            select: { id: true, projectId: true, sectionId: true },
+          })
+        : null;
+      if (input.parentId && !parent) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Parent task not found",
+        });
+      }
+
+      const task = await ctx.db.task.create({
+        data: {
+          title: input.title,
+          description: input.description,
+          priority: input.priority,
+          dueDate: input.dueDate,
+          recurrence: input.recurrence,
+          projectId: parent ? parent.projectId : input.projectId,
+          sectionId: parent ? parent.sectionId : input.sectionId,
+          ...(parent && {
+            parentId: parent.id,
+            order: await getNextSubtaskOrder(ctx.db, parent.id),
+          }),
+          userId: ctx.session.user.id,
+          taskType: "INBOX", // New tasks default to inbox
+          labels: {
+            connectOrCreate: toLabelConnections(ctx.session.user.id, input.labels),
+          },
+        },
+        include: {
+          labels: true,
+          project: true,
+          section: true,
+        },
+      });
 
-      // Sync to Todoist if requested and user has API token
+      // Queue the task for Todoist if requested and user has API token
       if (input.syncToTodoist) {
         const user = await ctx.db.user.findUnique({
           where: { id: ctx.session.user.id },
@@ -69,41 +261,76 @@ export const taskRouter = createTRPCRouter({
         });
 
         if (user?.todoistApiToken) {
-          const todoist = createTodoistService(user.todoistApiToken);
-          if (todoist) {
-            try {
-              const todoistTask = await todoist.createTask({
-                content: input.title,
-                description: input.description,
-                priority: 5 - input.priority, // Todoist uses reversed priority (4 = highest)
-                due_date: input.dueDate?.toISOString().split("T")[0],
-                labels: input.labels,
-              });
-              todoistId = todoistTask.id;
-            } catch (error) {
-              console.error("Failed to sync to Todoist:", error);
-            }
-          }
+          await enqueueTodoistChange(ctx.db, ctx.session.user.id, {
+            entityType: TodoistEntityType.TASK,
+            operation: TodoistOperation.CREATE,
+            entityId: task.id,
+            payload: {
+              content: input.title,
+              description: input.description,
+              priority: 5 - input.priority, // Todoist uses reversed priority (4 = highest)
+              ...(input.recurrence
+                ? toTodoistDue(toDateString(input.dueDate), input.recurrence)
+                : { due_date: input.dueDate?.toISOString().split("T")[0] }),
+              labels: input.labels,
+            },
+          });
         }
       }
 
-      return ctx.db.task.create({
+      await recordOperation(ctx.db, ctx.session.user.id, {
+        type: OperationType.CREATE,
+        entityType: OperationEntityType.TASK,
+        entityId: task.id,
+        description: `Add "${task.title}"`,
+      });
+      await recordTaskEvents(ctx.db, ctx.session.user.id, [
+        { taskId: task.id, type: TaskEventType.CREATED },
+      ]);
+
+      return task;
+    }),
+
+  // Preview the fields parsed from quick capture text
+  parseQuickCapture: protectedProcedure
+    .input(quickCaptureSchema)
+    .query(async ({ ctx, input }) => {
+      return resolveQuickCapture(ctx.db, ctx.session.user.id, input.text, {
+        timezoneOffset: input.timezoneOffset,
+      });
+    }),
+
+  // Create an inbox task from quick capture text with inline fields
+  quickCapture: protectedProcedure
+    .input(quickCaptureSchema)
+    .mutation(async ({ ctx, input }) => {
+      const parsed = await resolveQuickCapture(ctx.db, ctx.session.user.id, input.text, {
+        timezoneOffset: input.timezoneOffset,
+      });
+
+      if (!parsed.title) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "The task needs a title besides its fields",
+        });
+      }
+
+      const task = await ctx.db.task.create({
         data: {
-          title: input.title,
-          description: input.description,
-          priority: input.priority,
-          dueDate: input.dueDate,
-          projectId: input.projectId,
-          sectionId: input.sectionId,
-          todoistId,
-          syncedAt: todoistId ? new Date() : null,
+          title: parsed.title,
+          priority: parsed.priority,
+          dueDate: parsed.dueDate,
+          projectId: parsed.projectId,
+          sectionId: parsed.sectionId,
+          contextId: parsed.context
+            ? (await findOrCreateContext(ctx.db, ctx.session.user.id, parsed.context))?.id
+            : undefined,
+          energyLevel: parsed.energyLevel,
+          timeEstimate: parsed.timeEstimate,
           userId: ctx.session.user.id,
-          taskType: "INBOX", // New tasks default to inbox
+          taskType: "INBOX",
           labels: {
-            connectOrCreate: input.labels.map((labelName) => ({
-              where: { name: labelName },
-              create: { name: labelName },
-            })),
+            connectOrCreate: toLabelConnections(ctx.session.user.id, parsed.labels),
           },
         },
         include: {
@@ -112,6 +339,18 @@ export const taskRouter = createTRPCRouter({
           section: true,
         },
       });
+
+      await recordOperation(ctx.db, ctx.session.user.id, {
+        type: OperationType.CREATE,
+        entityType: OperationEntityType.TASK,
+        entityId: task.id,
+        description: `Add "${task.title}"`,
+      });
+      await recordTaskEvents(ctx.db, ctx.session.user.id, [
+        { taskId: task.id, type: TaskEventType.CREATED },
+      ]);
+
+      return task;
     }),
 
   // Update a task
@@ -124,15 +363,19 @@ export const taskRouter = createTRPCRouter({
         completed: z.boolean().optional(),
         priority: z.number().min(1).max(4).optional(),
         dueDate: z.date().nullable().optional(),
+        recurrence: recurrenceSchema.nullable().optional(),
         labels: z.array(z.string()).optional(),
         projectId: z.string().nullable().optional(),
         sectionId: z.string().nullable().optional(),
         taskType: z.nativeEnum(TaskType).optional(),
-        context: z.string().optional(),
+        contextId: z.string().nullable().optional(),
         energyLevel: z.nativeEnum(EnergyLevel).optional(),
         timeEstimate: z.number().optional(),
         isNextAction: z.boolean().optional(),
         waitingFor: z.string().optional(),
+        personId: z.string().nullable().optional(),
+        followUpAt: z.date().nullable().optional(),
+        startDate: z.date().nullable().optional(), // defer until, null to bring it back
       }),
     )
     .mutation(async ({ ctx, input }) => {
@@ -140,11 +383,14 @@ export const taskRouter = createTRPCRouter({
         where: {
           id: input.id,
           userId: ctx.session.user.id,
+          deletedAt: null,
         },
         include: {
           labels: true,
           project: true,
           section: true,
+          context: true,
+          person: true,
         },
       });
 
@@ -154,53 +400,8 @@ export const taskRouter = createTRPCRouter({
           message: "Task not found",
         });
       }
-
-      // Sync to Todoist if task is linked
-      if (existingTask.todoistId) {
-        const user = await ctx.db.user.findUnique({
-          where: { id: ctx.session.user.id },
-          select: { todoistApiToken: true },
-        });
-
-        if (user?.todoistApiToken) {
-          const todoist = createTodoistService(user.todoistApiToken);
-          if (todoist) {
-            try {
-              // Handle completion status change
-              if (
-                input.completed !== undefined &&
-                input.completed !== existingTask.completed
-              ) {
-                if (input.completed) {
-                  await todoist.closeTask(existingTask.todoistId);
-                } else {
-                  await todoist.reopenTask(existingTask.todoistId);
-                }
-              }
-
-              // Update other fields
-              const updateData: Record<string, unknown> = {};
-              if (input.title !== undefined) updateData.content = input.title;
-              if (input.description !== undefined)
-                updateData.description = input.description;
-              if (input.priority !== undefined)
-                updateData.priority = 5 - input.priority;
-              if (input.dueDate !== undefined) {
-                updateData.due_date = input.dueDate
-                  ? input.dueDate.toISOString().split("T")[0]
-                  : null;
-              }
-              if (input.labels !== undefined) updateData.labels = input.labels;
-
-              if (Object.keys(updateData).length > 0) {
-                await todoist.updateTask(existingTask.todoistId, updateData);
-              }
-            } catch (error) {
-              console.error("Failed to sync to Todoist:", error);
-            }
-          }
-        }
-      }
+      await assertContext(ctx.db, ctx.session.user.id, input.contextId);
+      const personId = await resolvePerson(ctx.db, ctx.session.user.id, input);
 
       // Handle label updates
       if (input.labels !== undefined) {
@@ -222,39 +423,163 @@ export const taskRouter = createTRPCRouter({
         completed: input.completed,
         priority: input.priority,
         dueDate: input.dueDate,
+        startDate: input.startDate,
+        recurrence: input.recurrence,
         projectId: input.projectId,
         sectionId: input.sectionId,
-        syncedAt: existingTask.todoistId ? new Date() : existingTask.syncedAt,
+        taskType: input.taskType,
+        contextId: input.contextId,
+        energyLevel: input.energyLevel,
+        timeEstimate: input.timeEstimate,
+        isNextAction: input.isNextAction,
+        waitingFor: input.waitingFor,
+        personId,
+        followUpAt: input.followUpAt,
+        // Starting to wait on someone delegates the task
+        delegatedAt:
+          input.taskType === TaskType.WAITING && existingTask.taskType !== TaskType.WAITING
+            ? new Date()
+            : undefined,
         ...(input.labels !== undefined && {
           labels: {
-            connectOrCreate: input.labels.map((labelName) => ({
-              where: { name: labelName },
-              create: { name: labelName },
-            })),
+            connectOrCreate: toLabelConnections(ctx.session.user.id, input.labels),
           },
         }),
       };
 
-      return ctx.db.task.update({
+      let task = await ctx.db.task.update({
         where: { id: input.id },
         data: updateData,
         include: {
           labels: true,
           project: true,
           section: true,
+          context: true,
+          person: true,
         },
       });
+
+      // Labels are left out, undo restores the task's own fields
+      const changed = changedKeys(updateData).filter((key) => key !== "labels");
+      if (changed.length > 0) {
+        const verb =
+          input.completed === undefined || input.completed === existingTask.completed
+            ? "Edit"
+            : input.completed
+              ? "Complete"
+              : "Reopen";
+        await recordOperation(ctx.db, ctx.session.user.id, {
+          type: OperationType.UPDATE,
+          entityType: OperationEntityType.TASK,
+          entityId: existingTask.id,
+          description: `${verb} "${existingTask.title}"`,
+          before: pickFields(existingTask, changed),
+          after: pickFields(task, changed),
+        });
+      }
+
+      const eventKeys = changedKeys(updateData);
+      await recordTaskEvents(
+        ctx.db,
+        ctx.session.user.id,
+        taskChangeEvents(
+          existingTask.id,
+          diffFields(describeTask(existingTask, eventKeys), describeTask(task, eventKeys)),
+        ),
+      );
+
+      // Completing a task completes its subtasks and reopening one reopens the tasks above it
+      if (input.completed !== undefined && input.completed !== existingTask.completed) {
+        if (input.completed) {
+          const completedIds = [
+            existingTask.id,
+            ...(await completeSubtasks(ctx.db, ctx.session.user.id, existingTask.id)),
+          ];
+          // Actions that were waiting for these tasks can start now
+          await promoteUnblockedTasks(ctx.db, {
+            userId: ctx.session.user.id,
+            blockedBy: { some: { id: { in: completedIds } } },
+          });
+        } else {
+          await reopenAncestors(ctx.db, existingTask.id);
+        }
+      }
+      if (input.projectId !== undefined || input.sectionId !== undefined) {
+        await moveSubtasks(ctx.db, existingTask.id, {
+          projectId: task.projectId,
+          sectionId: task.sectionId,
+        });
+      }
+
+      // Completing a recurring task schedules its next occurrence, which takes over the Todoist link
+      const nextOccurrence =
+        input.completed && !existingTask.completed
+          ? await createNextOccurrence(ctx.db, task, new Date())
+          : null;
+      if (nextOccurrence) {
+        task = { ...task, todoistId: null, recurrence: null };
+        await recordTaskEvents(ctx.db, ctx.session.user.id, [
+          {
+            taskId: nextOccurrence.id,
+            type: TaskEventType.CREATED,
+            note: "Scheduled when the previous occurrence was completed",
+          },
+        ]);
+      }
+
+      // Queue the changes for Todoist; unlinked tasks are skipped by the outbox
+      const change = {
+        entityType: TodoistEntityType.TASK,
+        entityId: nextOccurrence?.id ?? existingTask.id,
+        todoistId: existingTask.todoistId,
+      };
+      if (input.completed !== undefined && input.completed !== existingTask.completed) {
+        await enqueueTodoistChange(ctx.db, ctx.session.user.id, {
+          ...change,
+          operation: input.completed ? TodoistOperation.CLOSE : TodoistOperation.REOPEN,
+        });
+      }
+
+      const todoistUpdate: Prisma.InputJsonObject = {
+        ...(input.title !== undefined && { content: input.title }),
+        ...(input.description !== undefined && { description: input.description }),
+        ...(input.priority !== undefined && { priority: 5 - input.priority }),
+        // Todoist sets the date and the rule together
+        ...((input.dueDate !== undefined || input.recurrence !== undefined) &&
+          toTodoistDue(
+            toDateString(input.dueDate !== undefined ? input.dueDate : existingTask.dueDate),
+            input.recurrence !== undefined ? input.recurrence : existingTask.recurrence,
+          )),
+        ...(input.labels !== undefined && { labels: input.labels }),
+      };
+      if (Object.keys(todoistUpdate).length > 0) {
+        await enqueueTodoistChange(ctx.db, ctx.session.user.id, {
+          ...change,
+          operation: TodoistOperation.UPDATE,
+          payload: todoistUpdate,
+        });
+      }
+
+      return task;
     }),
 
-  // Delete a task
-  delete: protectedProcedure
-    .input(z.object({ id: z.string() }))
+  // Move a task under another task, or to the top level when the parent is null
+  move: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        parentId: z.string().nullable(),
+        order: z.number().int().min(0).optional(),
+      }),
+    )
     .mutation(async ({ ctx, input }) => {
       const existingTask = await ctx.db.task.findFirst({
         where: {
           id: input.id,
           userId: ctx.session.user.id,
+          deletedAt: null,
         },
+        include: { parent: { select: { title: true } } },
       });
 
       if (!existingTask) {
@@ -264,31 +589,123 @@ export const taskRouter = createTRPCRouter({
         });
       }
 
-      // Delete from Todoist if task is linked
-      if (existingTask.todoistId) {
-        const user = await ctx.db.user.findUnique({
-          where: { id: ctx.session.user.id },
-          select: { todoistApiToken: true },
+      const parent = input.parentId
+        ? await ctx.db.task.findFirst({
+            where: { id: input.parentId, userId: ctx.session.user.id, deletedAt: null },
+            select: { id: true, title: true, projectId: true, sectionId: true },
+          })
+        : null;
+      if (input.parentId && !parent) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Parent task not found",
         });
+      }
+      if (parent && (await wouldCreateCycle(ctx.db, existingTask.id, parent.id))) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "A task cannot be moved below itself",
+        });
+      }
 
-        if (user?.todoistApiToken) {
-          const todoist = createTodoistService(user.todoistApiToken);
-          if (todoist) {
-            try {
-              await todoist.deleteTask(existingTask.todoistId);
-            } catch (error) {
-              console.error("Failed to delete from Todoist:", error);
-            }
-          }
-        }
+      // Make room at the requested position, otherwise subtasks go after their new siblings
+      let order = existingTask.order;
+      if (input.order !== undefined) {
+        await ctx.db.task.updateMany({
+          where: {
+            userId: ctx.session.user.id,
+            parentId: parent?.id ?? null,
+            order: { gte: input.order },
+            id: { not: existingTask.id },
+          },
+          data: { order: { increment: 1 } },
+        });
+        order = input.order;
+      } else if (parent && parent.id !== existingTask.parentId) {
+        order = await getNextSubtaskOrder(ctx.db, parent.id);
       }
 
-      return ctx.db.task.delete({
-        where: { id: input.id },
+      const location = parent && { projectId: parent.projectId, sectionId: parent.sectionId };
+      const task = await ctx.db.task.update({
+        where: { id: existingTask.id },
+        data: { parentId: parent?.id ?? null, order, ...location },
+        include: {
+          labels: true,
+          project: true,
+          section: true,
+        },
       });
+      if (location) {
+        await moveSubtasks(ctx.db, existingTask.id, location);
+      }
+
+      // Todoist moves the subtasks along with the task
+      if (task.parentId !== existingTask.parentId) {
+        await enqueueTodoistChange(ctx.db, ctx.session.user.id, {
+          entityType: TodoistEntityType.TASK,
+          operation: TodoistOperation.MOVE,
+          entityId: existingTask.id,
+          todoistId: existingTask.todoistId,
+        });
+        await recordTaskEvents(ctx.db, ctx.session.user.id, [
+          {
+            taskId: existingTask.id,
+            type: TaskEventType.MOVED,
+            changes: {
+              parent: { from: existingTask.parent?.title ?? null, to: parent?.title ?? null },
+            },
+          },
+        ]);
+      }
+
+      return task;
     }),
 
-  // Sync all tasks from Todoist
+  // Move a task and its subtasks to the trash
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const existingTask = await ctx.db.task.findFirst({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+          deletedAt: null,
+        },
+      });
+
+      if (!existingTask) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Task not found",
+        });
+      }
+
+      // Todoist hears about the deletion once the task is purged from the trash
+      const deletedAt = new Date();
+      const trashedIds = await trashTask(ctx.db, existingTask.id, deletedAt);
+
+      // Actions that were waiting for these tasks no longer have to
+      await promoteUnblockedTasks(ctx.db, {
+        userId: ctx.session.user.id,
+        blockedBy: { some: { id: { in: trashedIds } } },
+      });
+
+      await recordOperation(ctx.db, ctx.session.user.id, {
+        type: OperationType.DELETE,
+        entityType: OperationEntityType.TASK,
+        entityId: existingTask.id,
+        description: `Delete "${existingTask.title}"`,
+      });
+      await recordTaskEvents(
+        ctx.db,
+        ctx.session.user.id,
+        trashedIds.map((taskId) => ({ taskId, type: TaskEventType.DELETED })),
+      );
+
+      return { ...existingTask, deletedAt };
+    }),
+
+  // Sync from Todoist without labels, merging fields edited on both sides like syncAllFromTodoist
   syncFromTodoist: protectedProcedure.mutation(async ({ ctx }) => {
     try {
       const user = await ctx.db.user.findUnique({
@@ -311,148 +728,13 @@ export const taskRouter = createTRPCRouter({
         });
       }
 
-      const todoistTasks = await todoist.getTasks();
-      const existingTasks = await ctx.db.task.findMany({
-        where: {
-          userId: ctx.session.user.id,
-          todoistId: { not: null },
-        },
-        include: {
-          labels: true,
-          project: true,
-          section: true,
-        },
-      });
-
-      const existingTodoistIds = new Set(
-        existingTasks.map((t) => t.todoistId).filter(Boolean),
-      );
-
-      // Import new tasks from Todoist
-      const newTasks = todoistTasks.filter((t) => !existingTodoistIds.has(t.id));
-
-      for (const todoistTask of newTasks) {
-        // Find or create project if specified
-        let projectId: string | null = null;
-        let sectionId: string | null = null;
-
-        if (todoistTask.project_id) {
-          const existingProject = await ctx.db.project.findFirst({
-            where: {
-              todoistId: todoistTask.project_id,
-              userId: ctx.session.user.id,
-            },
-          });
-          projectId = existingProject?.id || null;
-        }
-
-        if (todoistTask.section_id && projectId) {
-          const existingSection = await ctx.db.section.findFirst({
-            where: {
-              todoistId: todoistTask.section_id,
-              projectId: projectId,
-            },
-          });
-          sectionId = existingSection?.id || null;
-        }
-
-        await ctx.db.task.create({
-          data: {
-            todoistId: todoistTask.id,
-            title: todoistTask.content,
-            description: todoistTask.description,
-            completed: todoistTask.is_completed,
-            priority: 5 - todoistTask.priority, // Convert Todoist priority
-            dueDate: todoistTask.due?.date
-              ? new Date(todoistTask.due.date)
-              : null,
-            syncedAt: new Date(),
-            userId: ctx.session.user.id,
-            projectId,
-            sectionId,
-            order: todoistTask.order || 0,
-            labels: {
-              connectOrCreate: (todoistTask.labels ?? []).map((labelName) => ({
-                where: { name: labelName },
-                create: { name: labelName },
-              })),
-            },
-          },
-        });
-      }
-
-      // Update existing tasks
-      for (const existingTask of existingTasks) {
-        const todoistTask = todoistTasks.find(
-          (t) => t.id === existingTask.todoistId,
-        );
-        if (todoistTask) {
-          // Disconnect all existing labels
-          await ctx.db.task.update({
-            where: { id: existingTask.id },
-            data: {
-              labels: {
-                set: [], // This disconnects all labels
-              },
-            },
-          });
+      // Push local changes first so the pull does not overwrite them with stale remote data
+      await drainTodoistOutbox(ctx.db, ctx.session.user.id, { todoist });
 
-          // Find or update project/section references
-          let projectId: string | null = null;
-          let sectionId: string | null = null;
-
-          if (todoistTask.project_id) {
-            const existingProject = await ctx.db.project.findFirst({
-              where: {
-                todoistId: todoistTask.project_id,
-                userId: ctx.session.user.id,
-              },
-            });
-            projectId = existingProject?.id || null;
-          }
-
-          if (todoistTask.section_id && projectId) {
-            const existingSection = await ctx.db.section.findFirst({
-              where: {
-                todoistId: todoistTask.section_id,
-                projectId: projectId,
-              },
-            });
-            sectionId = existingSection?.id || null;
-          }
-
-          // Update task with new data and labels
-          await ctx.db.task.update({
-            where: { id: existingTask.id },
-            data: {
-              title: todoistTask.content,
-              description: todoistTask.description,
-              completed: todoistTask.is_completed,
-              priority: 5 - todoistTask.priority,
-              dueDate: todoistTask.due?.date
-                ? new Date(todoistTask.due.date)
-                : null,
-              syncedAt: new Date(),
-              projectId,
-              sectionId,
-              order: todoistTask.order || 0,
-              labels: {
-                connectOrCreate: (todoistTask.labels ?? []).map((labelName) => ({
-                  where: { name: labelName },
-                  create: { name: labelName },
-                })),
-              },
-            },
-          });
-        }
-      }
-
-      return {
-        imported: newTasks.length,
-        updated: existingTasks.length,
-      };
+      return await syncTodoistChanges(ctx.db, ctx.session.user.id, todoist);
     } catch (error) {
       console.error("Error syncing from Todoist:", error);
+      if (error instanceof TRPCError) throw error;
       throw new TRPCError({
         code: "INTERNAL_SERVER_ERROR",
         message: error instanceof Error ? error.message : "Failed to sync from Todoist",
@@ -466,7 +748,28 @@ export const taskRouter = createTRPCRouter({
     .mutation(async ({ ctx, input }) => {
       return ctx.db.user.update({
         where: { id: ctx.session.user.id },
-        data: { todoistApiToken: input.token },
+        // A new token may belong to another account, so the next sync starts from scratch
+        data: { todoistApiToken: input.token, todoistSyncToken: null },
+      });
+    }),
+
+  // Choose what happens to local items that were deleted or completed in Todoist
+  updateTodoistRemovalPolicy: protectedProcedure
+    .input(z.object({ policy: z.nativeEnum(TodoistRemovalPolicy) }))
+    .mutation(async ({ ctx, input }) => {
+      return ctx.db.user.update({
+        where: { id: ctx.session.user.id },
+        data: { todoistRemovalPolicy: input.policy },
+      });
+    }),
+
+  // Choose how fields edited on both sides are resolved during sync
+  updateTodoistConflictStrategy: protectedProcedure
+    .input(z.object({ strategy: z.nativeEnum(TodoistConflictStrategy) }))
+    .mutation(async ({ ctx, input }) => {
+      return ctx.db.user.update({
+        where: { id: ctx.session.user.id },
+        data: { todoistConflictStrategy: input.strategy },
       });
     }),
 
@@ -474,21 +777,91 @@ export const taskRouter = createTRPCRouter({
   getTodoistStatus: protectedProcedure.query(async ({ ctx }) => {
     const user = await ctx.db.user.findUnique({
       where: { id: ctx.session.user.id },
-      select: { todoistApiToken: true },
+      select: {
+        todoistApiToken: true,
+        todoistLastSyncAt: true,
+        todoistRemovalPolicy: true,
+        todoistConflictStrategy: true,
+      },
     });
 
     return {
       connected: !!user?.todoistApiToken,
+      lastSyncAt: user?.todoistLastSyncAt ?? null,
+      removalPolicy: user?.todoistRemovalPolicy ?? TodoistRemovalPolicy.COMPLETE,
+      conflictStrategy: user?.todoistConflictStrategy ?? TodoistConflictStrategy.REMOTE,
     };
   }),
 
+  // Get local changes that have not reached Todoist yet
+  getPendingTodoistChanges: protectedProcedure.query(async ({ ctx }) => {
+    const [pending, lastFailure, failed] = await Promise.all([
+      ctx.db.todoistOutboxEntry.count({
+        where: { userId: ctx.session.user.id, failedAt: null },
+      }),
+      ctx.db.todoistOutboxEntry.findFirst({
+        where: { userId: ctx.session.user.id, failedAt: null, attempts: { gt: 0 } },
+        orderBy: { createdAt: "asc" },
+        select: { lastError: true, nextAttemptAt: true },
+      }),
+      ctx.db.todoistOutboxEntry.findMany({
+        where: { userId: ctx.session.user.id, failedAt: { not: null } },
+        orderBy: { createdAt: "asc" },
+        select: {
+          id: true,
+          entityType: true,
+          operation: true,
+          attempts: true,
+          lastError: true,
+          failedAt: true,
+          createdAt: true,
+        },
+      }),
+    ]);
+
+    return {
+      pending,
+      lastError: lastFailure?.lastError ?? null,
+      nextAttemptAt: lastFailure?.nextAttemptAt ?? null,
+      failed,
+    };
+  }),
+
+  // Push pending changes to Todoist now instead of waiting for the worker, retrying failed ones
+  pushTodoistChanges: protectedProcedure.mutation(async ({ ctx }) => {
+    return drainTodoistOutbox(ctx.db, ctx.session.user.id, { force: true });
+  }),
+
+  // Drop a change that failed to reach Todoist, letting later changes to its record through
+  discardTodoistChange: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const entry = await ctx.db.todoistOutboxEntry.findFirst({
+        where: { id: input.id, userId: ctx.session.user.id, failedAt: { not: null } },
+      });
+
+      if (!entry) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Failed change not found",
+        });
+      }
+
+      return ctx.db.todoistOutboxEntry.delete({
+        where: { id: entry.id },
+      });
+    }),
+
   // Get inbox tasks (unprocessed items)
   getInbox: protectedProcedure.query(async ({ ctx }) => {
+    const now = new Date();
     return ctx.db.task.findMany({
       where: {
         userId: ctx.session.user.id,
+        deletedAt: null,
         taskType: "INBOX",
         completed: false,
+        ...startedTasks(now),
       },
       orderBy: [
         { priority: "desc" },
@@ -506,21 +879,29 @@ export const taskRouter = createTRPCRouter({
   getNextActions: protectedProcedure
     .input(
       z.object({
-        context: z.string().optional(),
+        contextId: z.string().optional(),
         energyLevel: z.nativeEnum(EnergyLevel).optional(),
         maxTime: z.number().optional(), // max time in minutes
+        filter: taskFilterSchema.optional(), // filter expression, e.g. "@phone & p1"
       }).optional(),
     )
     .query(async ({ ctx, input }) => {
-      const where: any = {
+      const now = new Date();
+      const where: Prisma.TaskWhereInput = {
         userId: ctx.session.user.id,
+        deletedAt: null,
         isNextAction: true,
         completed: false,
         taskType: { in: ["ACTION", "PROJECT"] },
+        ...unblockedTasks,
+        AND: [
+          startedTasks(now),
+          ...(input?.filter ? [await buildTaskFilter(ctx.db, ctx.session.user.id, input.filter)] : []),
+        ],
       };
 
-      if (input?.context) {
-        where.context = input.context;
+      if (input?.contextId) {
+        where.contextId = input.contextId;
       }
 
       if (input?.energyLevel) {
@@ -541,15 +922,92 @@ export const taskRouter = createTRPCRouter({
           labels: true,
           project: true,
           section: true,
+          context: true,
         },
       });
     }),
 
+  // Rank the next actions that fit the user's context, energy and time, with the reasons for each
+  recommendNextAction: protectedProcedure
+    .input(
+      z.object({
+        contextId: z.string().optional(),
+        energyLevel: z.nativeEnum(EnergyLevel).optional(),
+        availableMinutes: z.number().int().positive().optional(),
+        timezoneOffset: z.number().int().optional(),
+        limit: z.number().int().min(1).max(50).default(10),
+      }).optional(),
+    )
+    .query(async ({ ctx, input }) => {
+      const now = new Date();
+      const tasks = await ctx.db.task.findMany({
+        where: {
+          userId: ctx.session.user.id,
+          deletedAt: null,
+          isNextAction: true,
+          completed: false,
+          taskType: { in: ["ACTION", "PROJECT"] },
+          ...unblockedTasks,
+          ...startedTasks(now),
+          ...(input?.contextId && {
+            OR: [{ contextId: input.contextId }, { contextId: null }],
+          }),
+        },
+        include: {
+          labels: true,
+          project: true,
+          section: true,
+          context: true,
+        },
+      });
+
+      return recommendNextActions(tasks, {
+        contextId: input?.contextId,
+        energyLevel: input?.energyLevel,
+        availableMinutes: input?.availableMinutes,
+        timezoneOffset: input?.timezoneOffset,
+        now,
+      }).slice(0, input?.limit ?? 10);
+    }),
+
+  // Get the deferred tasks and projects, by start date
+  getTickler: protectedProcedure.query(async ({ ctx }) => {
+    const now = new Date();
+    const deferred = {
+      userId: ctx.session.user.id,
+      deletedAt: null,
+      startDate: { gt: now },
+    };
+    const [tasks, projects] = await Promise.all([
+      ctx.db.task.findMany({
+        where: { ...deferred, completed: false },
+        orderBy: [{ startDate: "asc" }, { createdAt: "asc" }],
+        include: {
+          labels: true,
+          project: true,
+          context: true,
+        },
+      }),
+      ctx.db.project.findMany({
+        where: deferred,
+        orderBy: [{ startDate: "asc" }, { name: "asc" }],
+        include: {
+          _count: {
+            select: { tasks: { where: { completed: false, deletedAt: null } } },
+          },
+        },
+      }),
+    ]);
+
+    return { tasks, projects };
+  }),
+
   // Get waiting for tasks
   getWaitingFor: protectedProcedure.query(async ({ ctx }) => {
     return ctx.db.task.findMany({
       where: {
         userId: ctx.session.user.id,
+        deletedAt: null,
         taskType: "WAITING",
         completed: false,
       },
@@ -558,15 +1016,69 @@ export const taskRouter = createTRPCRouter({
         labels: true,
         project: true,
         section: true,
+        person: true,
       },
     });
   }),
 
+  // Log a follow-up on a waiting task and schedule the next one
+  nudge: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        note: z.string().trim().max(500).optional(),
+        followUpInDays: z.number().int().min(1).max(365).default(DEFAULT_FOLLOW_UP_DAYS),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const existingTask = await ctx.db.task.findFirst({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+          deletedAt: null,
+          taskType: "WAITING",
+        },
+      });
+
+      if (!existingTask) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Task not found",
+        });
+      }
+
+      const task = await ctx.db.task.update({
+        where: { id: input.id },
+        data: { followUpAt: addDays(new Date(), input.followUpInDays) },
+        include: {
+          labels: true,
+          project: true,
+          section: true,
+          person: true,
+        },
+      });
+
+      await recordTaskEvents(ctx.db, ctx.session.user.id, [
+        {
+          taskId: task.id,
+          type: TaskEventType.FOLLOWED_UP,
+          changes: diffFields(
+            { followUpAt: existingTask.followUpAt },
+            { followUpAt: task.followUpAt },
+          ),
+          note: input.note ?? null,
+        },
+      ]);
+
+      return task;
+    }),
+
   // Get someday/maybe tasks
   getSomedayMaybe: protectedProcedure.query(async ({ ctx }) => {
     return ctx.db.task.findMany({
       where: {
         userId: ctx.session.user.id,
+        deletedAt: null,
         taskType: "SOMEDAY",
         completed: false,
       },
@@ -579,27 +1091,94 @@ export const taskRouter = createTRPCRouter({
     });
   }),
 
+  // Get the reference library: reference items and everything filed in resource projects
+  getReference: protectedProcedure
+    .input(
+      z
+        .object({
+          labelId: z.string().optional(),
+          search: z.string().trim().max(200).optional(),
+        })
+        .optional(),
+    )
+    .query(async ({ ctx, input }) => {
+      const library: Prisma.TaskWhereInput = {
+        userId: ctx.session.user.id,
+        deletedAt: null,
+        completed: false,
+        OR: [{ taskType: "REFERENCE" }, { project: { projectType: "RESOURCE" } }],
+      };
+      const search = input?.search ? { contains: input.search } : undefined;
+
+      const [items, resources, labels] = await Promise.all([
+        ctx.db.task.findMany({
+          where: {
+            AND: [
+              library,
+              input?.labelId ? { labels: { some: { id: input.labelId } } } : {},
+              search
+                ? {
+                    OR: [
+                      { title: search },
+                      { description: search },
+                      { project: { name: search } },
+                    ],
+                  }
+                : {},
+            ],
+          },
+          orderBy: { createdAt: "desc" },
+          include: {
+            labels: true,
+            project: true,
+            section: true,
+          },
+        }),
+        ctx.db.project.findMany({
+          where: {
+            userId: ctx.session.user.id,
+            deletedAt: null,
+            projectType: "RESOURCE",
+          },
+          orderBy: [{ order: "asc" }, { name: "asc" }],
+        }),
+        // Only labels in use in the library are worth browsing by
+        ctx.db.label.findMany({
+          where: { userId: ctx.session.user.id, tasks: { some: library } },
+          orderBy: { name: "asc" },
+          include: {
+            _count: { select: { tasks: { where: library } } },
+          },
+        }),
+      ]);
+
+      return { items, resources, labels };
+    }),
+
   // Process inbox item
   processInboxItem: protectedProcedure
     .input(
       z.object({
         id: z.string(),
         taskType: z.nativeEnum(TaskType),
-        context: z.string().optional(),
+        contextId: z.string().optional(),
         energyLevel: z.nativeEnum(EnergyLevel).optional(),
         timeEstimate: z.number().optional(),
         isNextAction: z.boolean().optional(),
         waitingFor: z.string().optional(),
+        personId: z.string().optional(),
+        followUpAt: z.date().optional(),
         projectId: z.string().optional(),
         notes: z.string().optional(),
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const { id, notes, ...updateData } = input;
+      const { id, notes, ...fields } = input;
 
       // Get the existing task first
       const existingTask = await ctx.db.task.findFirst({
-        where: { id, userId: ctx.session.user.id },
+        where: { id, userId: ctx.session.user.id, deletedAt: null },
+        include: { project: true, context: true, person: true },
       });
 
       if (!existingTask) {
@@ -609,21 +1188,90 @@ export const taskRouter = createTRPCRouter({
         });
       }
 
+      await assertContext(ctx.db, ctx.session.user.id, fields.contextId);
+      const updateData = {
+        ...fields,
+        personId: await resolvePerson(ctx.db, ctx.session.user.id, fields),
+        // Delegated now, to be chased up in a few days unless a date is given
+        ...(fields.taskType === TaskType.WAITING && {
+          delegatedAt: new Date(),
+          followUpAt: fields.followUpAt ?? addDays(new Date(), DEFAULT_FOLLOW_UP_DAYS),
+        }),
+      };
+
+      // Filing into another project leaves the old project's section behind
+      const moved =
+        updateData.projectId !== undefined && updateData.projectId !== existingTask.projectId;
+      if (moved) {
+        const project = await ctx.db.project.findFirst({
+          where: { id: updateData.projectId, userId: ctx.session.user.id, deletedAt: null },
+          select: { id: true },
+        });
+        if (!project) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Project not found",
+          });
+        }
+      }
+
       // Update the task
       const updatedTask = await ctx.db.task.update({
         where: { id },
         data: {
           ...updateData,
+          ...(moved && { sectionId: null }),
           reviewedAt: new Date(),
-          description: notes ? `${existingTask.description ?? ""}\n\nProcessing notes: ${notes}`.trim() : existingTask.description,
         },
         include: {
           labels: true,
           project: true,
           section: true,
+          context: true,
+          person: true,
         },
       });
 
+      const changed = [...changedKeys(updateData), ...(moved ? ["sectionId"] : []), "reviewedAt"];
+      await recordOperation(ctx.db, ctx.session.user.id, {
+        type: OperationType.UPDATE,
+        entityType: OperationEntityType.TASK,
+        entityId: id,
+        description: `Process "${existingTask.title}"`,
+        before: pickFields(existingTask, changed),
+        after: pickFields(updatedTask, changed),
+      });
+
+      const processedKeys = changedKeys(updateData);
+      await recordTaskEvents(ctx.db, ctx.session.user.id, [
+        {
+          taskId: id,
+          type: TaskEventType.PROCESSED,
+          changes: diffFields(
+            describeTask(existingTask, processedKeys),
+            describeTask(updatedTask, processedKeys),
+          ),
+        },
+      ]);
+
+      if (moved) {
+        await enqueueTodoistChange(ctx.db, ctx.session.user.id, {
+          entityType: TodoistEntityType.TASK,
+          operation: TodoistOperation.MOVE,
+          entityId: id,
+          todoistId: existingTask.todoistId,
+        });
+      }
+
+      // The notes start the task's comment thread rather than going into its description
+      if (notes?.trim()) {
+        await addComment(ctx.db, ctx.session.user.id, {
+          content: notes.trim(),
+          parent: { taskId: id },
+          parentTodoistId: existingTask.todoistId,
+        });
+      }
+
       // Track processing session
       await ctx.db.processingSession.upsert({
         where: {
@@ -644,12 +1292,13 @@ export const taskRouter = createTRPCRouter({
 
   // Get tasks by context
   getByContext: protectedProcedure
-    .input(z.object({ context: z.string() }))
+    .input(z.object({ contextId: z.string() }))
     .query(async ({ ctx, input }) => {
       return ctx.db.task.findMany({
         where: {
           userId: ctx.session.user.id,
-          context: input.context,
+          deletedAt: null,
+          contextId: input.contextId,
           completed: false,
         },
         orderBy: [
@@ -665,15 +1314,15 @@ export const taskRouter = createTRPCRouter({
       });
     }),
 
-  // Unified sync from Todoist (projects, sections, and tasks)
-  syncAllFromTodoist: protectedProcedure.mutation(async ({ ctx }) => {
+  // Preview what a sync from Todoist would change, without applying anything
+  previewSync: protectedProcedure.query(async ({ ctx }) => {
     try {
       const user = await ctx.db.user.findUnique({
         where: { id: ctx.session.user.id },
         select: { todoistApiToken: true },
       });
 
-      const todoistService = createTodoistService(user?.todoistApiToken || undefined);
+      const todoistService = createTodoistService(user?.todoistApiToken ?? undefined);
       if (!todoistService) {
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -681,217 +1330,50 @@ export const taskRouter = createTRPCRouter({
         });
       }
 
-      let projectsImported = 0;
-      let projectsUpdated = 0;
-      let sectionsImported = 0;
-      let sectionsUpdated = 0;
-      let tasksImported = 0;
-      let tasksUpdated = 0;
-
-      // Step 1: Sync projects
-      const todoistProjects = await todoistService.getProjects();
-      for (const todoistProject of todoistProjects) {
-        const existingProject = await ctx.db.project.findFirst({
-          where: {
-            todoistId: todoistProject.id,
-            userId: ctx.session.user.id,
-          },
-        });
-
-        if (existingProject) {
-          await ctx.db.project.update({
-            where: { id: existingProject.id },
-            data: {
-              name: todoistProject.name,
-              color: todoistProject.color,
-              isFavorite: todoistProject.is_favorite,
-              isInboxProject: todoistProject.is_inbox_project,
-              viewStyle: todoistProject.view_style,
-              order: todoistProject.order,
-              syncedAt: new Date(),
-            },
-          });
-          projectsUpdated++;
-        } else {
-          await ctx.db.project.create({
-            data: {
-              name: todoistProject.name,
-              todoistId: todoistProject.id,
-              color: todoistProject.color,
-              isFavorite: todoistProject.is_favorite,
-              isInboxProject: todoistProject.is_inbox_project,
-              viewStyle: todoistProject.view_style,
-              order: todoistProject.order,
-              userId: ctx.session.user.id,
-              syncedAt: new Date(),
-            },
-          });
-          projectsImported++;
-        }
-      }
-
-      // Step 2: Sync sections
-      const todoistSections = await todoistService.getSections();
-      for (const todoistSection of todoistSections) {
-        // Find the local project for this section
-        const localProject = await ctx.db.project.findFirst({
-          where: {
-            todoistId: todoistSection.project_id,
-            userId: ctx.session.user.id,
-          },
-        });
-
-        if (localProject) {
-          const existingSection = await ctx.db.section.findFirst({
-            where: {
-              todoistId: todoistSection.id,
-              projectId: localProject.id,
-            },
-          });
-
-          if (existingSection) {
-            await ctx.db.section.update({
-              where: { id: existingSection.id },
-              data: {
-                name: todoistSection.name,
-                order: todoistSection.order,
-                syncedAt: new Date(),
-              },
-            });
-            sectionsUpdated++;
-          } else {
-            await ctx.db.section.create({
-              data: {
-                name: todoistSection.name,
-                todoistId: todoistSection.id,
-                order: todoistSection.order,
-                projectId: localProject.id,
-                syncedAt: new Date(),
-              },
-            });
-            sectionsImported++;
-          }
-        }
-      }
-
-      // Step 3: Sync tasks
-      const todoistTasks = await todoistService.getTasks();
-      const existingTasks = await ctx.db.task.findMany({
-        where: {
-          userId: ctx.session.user.id,
-          todoistId: { not: null },
-        },
-        include: {
-          labels: true,
-          project: true,
-          section: true,
-        },
+      return await previewTodoistSync(ctx.db, ctx.session.user.id, todoistService);
+    } catch (error) {
+      console.error("Error previewing sync:", error);
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to preview Todoist sync",
       });
+    }
+  }),
 
-      const existingTodoistIds = new Set(
-        existingTasks.map((t) => t.todoistId).filter(Boolean),
-      );
-
-      for (const todoistTask of todoistTasks) {
-        // Find project and section if they exist
-        let projectId: string | null = null;
-        let sectionId: string | null = null;
+  // Unified sync from Todoist (projects, sections, and tasks), optionally limited to
+  // the changes selected from previewSync
+  syncAllFromTodoist: protectedProcedure
+    .input(z.object({ only: z.array(z.string()).optional() }).optional())
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const user = await ctx.db.user.findUnique({
+          where: { id: ctx.session.user.id },
+          select: { todoistApiToken: true },
+        });
 
-        if (todoistTask.project_id) {
-          const project = await ctx.db.project.findFirst({
-            where: {
-              todoistId: todoistTask.project_id,
-              userId: ctx.session.user.id,
-            },
+        const todoistService = createTodoistService(user?.todoistApiToken || undefined);
+        if (!todoistService) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to initialize Todoist service",
           });
-          projectId = project?.id ?? null;
         }
 
-        if (todoistTask.section_id && projectId) {
-          const section = await ctx.db.section.findFirst({
-            where: {
-              todoistId: todoistTask.section_id,
-              projectId,
-            },
-          });
-          sectionId = section?.id ?? null;
-        }
+        // Push local changes first so the pull does not overwrite them with stale remote data
+        await drainTodoistOutbox(ctx.db, ctx.session.user.id, { todoist: todoistService });
 
-        if (existingTodoistIds.has(todoistTask.id)) {
-          // Update existing task
-          const existingTask = existingTasks.find((t) => t.todoistId === todoistTask.id);
-          if (existingTask) {
-            await ctx.db.task.update({
-              where: { id: existingTask.id },
-              data: {
-                labels: {
-                  set: [], // This disconnects all labels
-                },
-              },
-            });
-
-            await ctx.db.task.update({
-              where: { id: existingTask.id },
-              data: {
-                title: todoistTask.content,
-                description: todoistTask.description,
-                completed: todoistTask.is_completed,
-                priority: 5 - todoistTask.priority,
-                dueDate: todoistTask.due?.date
-                  ? new Date(todoistTask.due.date)
-                  : null,
-                projectId,
-                sectionId,
-                syncedAt: new Date(),
-                labels: {
-                  connectOrCreate: (todoistTask.labels ?? []).map((labelName) => ({
-                    where: { name: labelName },
-                    create: { name: labelName },
-                  })),
-                },
-              },
-            });
-            tasksUpdated++;
-          }
-        } else {
-          // Create new task
-          await ctx.db.task.create({
-            data: {
-              title: todoistTask.content,
-              description: todoistTask.description,
-              completed: todoistTask.is_completed,
-              priority: 5 - todoistTask.priority,
-              dueDate: todoistTask.due?.date
-                ? new Date(todoistTask.due.date)
-                : null,
-              todoistId: todoistTask.id,
-              projectId,
-              sectionId,
-              syncedAt: new Date(),
-              userId: ctx.session.user.id,
-              labels: {
-                connectOrCreate: (todoistTask.labels ?? []).map((labelName) => ({
-                  where: { name: labelName },
-                  create: { name: labelName },
-                })),
-              },
-            },
-          });
-          tasksImported++;
-        }
+        // Labels first, so tasks pick up labels renamed in Todoist
+        const labels = await syncTodoistLabels(ctx.db, ctx.session.user.id, todoistService);
+        const result = await syncTodoistChanges(ctx.db, ctx.session.user.id, todoistService, {
+          only: input?.only,
+        });
+        return { ...result, labels };
+      } catch (error) {
+        console.error("Error in unified sync:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to sync from Todoist",
+        });
       }
-
-      return {
-        projects: { imported: projectsImported, updated: projectsUpdated },
-        sections: { imported: sectionsImported, updated: sectionsUpdated },
-        tasks: { imported: tasksImported, updated: tasksUpdated },
-      };
-    } catch (error) {
-      console.error("Error in unified sync:", error);
-      throw new TRPCError({
-        code: "INTERNAL_SERVER_ERROR",
-        message: error instanceof Error ? error.message : "Failed to sync from Todoist",
-      });
-    }
-  }),
+    }),
 });
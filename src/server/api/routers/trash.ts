@@ -0,0 +1,147 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { TaskEventType, type PrismaClient } from "@prisma/client";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import {
+  getTrashItems,
+  purgeProject,
+  purgeSection,
+  purgeTask,
+  purgeTrash,
+  restoreProject,
+  restoreSection,
+  restoreTask,
+} from "~/server/services/trash";
+import { recordTaskEvents, type TaskEventSubject } from "~/server/services/task-events";
+import { createAttachmentStorage } from "~/server/services/attachment-storage";
+import { purgeOrphanedAttachments } from "~/server/services/attachments";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const trashItemSchema = z.object({
+  type: z.enum(["TASK", "SECTION", "PROJECT"]),
+  id: z.string(),
+});
+
+// Whose activity history a trash item's events go to
+const toEventSubject = ({ type, id }: z.infer<typeof trashItemSchema>): TaskEventSubject =>
+  type === "TASK" ? { taskId: id } : type === "SECTION" ? { sectionId: id } : { projectId: id };
+
+// The files attached to purged tasks and projects go with them
+const purgeAttachments = (db: PrismaClient, userId: string) =>
+  purgeOrphanedAttachments(db, createAttachmentStorage(), userId);
+
+const notInTrash = () =>
+  new TRPCError({
+    code: "NOT_FOUND",
+    message: "Item not found in the trash",
+  });
+
+// Find one of the user's trashed items or fail with NOT_FOUND
+async function findTrashedTask(db: PrismaClient, userId: string, id: string) {
+  const task = await db.task.findFirst({ where: { id, userId, deletedAt: { not: null } } });
+  if (!task) throw notInTrash();
+  return task;
+}
+
+async function findTrashedSection(db: PrismaClient, userId: string, id: string) {
+  const section = await db.section.findFirst({
+    where: { id, project: { userId }, deletedAt: { not: null } },
+    include: { project: { select: { deletedAt: true } } },
+  });
+  if (!section) throw notInTrash();
+  return section;
+}
+
+async function findTrashedProject(db: PrismaClient, userId: string, id: string) {
+  const project = await db.project.findFirst({ where: { id, userId, deletedAt: { not: null } } });
+  if (!project) throw notInTrash();
+  return project;
+}
+
+export const trashRouter = createTRPCRouter({
+  // Get the items in the trash. Expired ones are purged by the trash worker
+  getAll: protectedProcedure.query(async ({ ctx }) => {
+    const user = await ctx.db.user.findUnique({
+      where: { id: ctx.session.user.id },
+      select: { trashRetentionDays: true },
+    });
+    const retentionDays = user?.trashRetentionDays ?? 30;
+    const items = await getTrashItems(ctx.db, ctx.session.user.id);
+
+    return {
+      retentionDays,
+      items: items.map((item) => ({
+        ...item,
+        purgeAt: new Date(item.deletedAt.getTime() + retentionDays * DAY_MS),
+      })),
+    };
+  }),
+
+  // Restore an item with everything deleted together with it
+  restore: protectedProcedure
+    .input(trashItemSchema)
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      switch (input.type) {
+        case "TASK":
+          await restoreTask(ctx.db, await findTrashedTask(ctx.db, userId, input.id));
+          break;
+        case "SECTION": {
+          const section = await findTrashedSection(ctx.db, userId, input.id);
+          if (section.project.deletedAt) {
+            throw new TRPCError({
+              code: "PRECONDITION_FAILED",
+              message: "Restore the section's project first",
+            });
+          }
+          await restoreSection(ctx.db, section);
+          break;
+        }
+        case "PROJECT":
+          await restoreProject(ctx.db, await findTrashedProject(ctx.db, userId, input.id));
+          break;
+      }
+
+      await recordTaskEvents(ctx.db, userId, [
+        { ...toEventSubject(input), type: TaskEventType.RESTORED },
+      ]);
+    }),
+
+  // Delete an item in the trash for good, in Todoist as well
+  purge: protectedProcedure
+    .input(trashItemSchema)
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      switch (input.type) {
+        case "TASK":
+          await purgeTask(ctx.db, userId, await findTrashedTask(ctx.db, userId, input.id));
+          break;
+        case "SECTION":
+          await purgeSection(ctx.db, userId, await findTrashedSection(ctx.db, userId, input.id));
+          break;
+        case "PROJECT":
+          await purgeProject(ctx.db, userId, await findTrashedProject(ctx.db, userId, input.id));
+          break;
+      }
+      await purgeAttachments(ctx.db, userId);
+    }),
+
+  // Delete everything in the trash for good
+  empty: protectedProcedure.mutation(async ({ ctx }) => {
+    const purged = await purgeTrash(ctx.db, ctx.session.user.id);
+    await purgeAttachments(ctx.db, ctx.session.user.id);
+    return { purged };
+  }),
+
+  // Set how many days deleted items stay in the trash
+  updateRetention: protectedProcedure
+    .input(z.object({ days: z.number().int().min(1).max(365) }))
+    .mutation(async ({ ctx, input }) => {
+      return ctx.db.user.update({
+        where: { id: ctx.session.user.id },
+        data: { trashRetentionDays: input.days },
+        select: { trashRetentionDays: true },
+      });
+    }),
+});
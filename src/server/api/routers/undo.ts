@@ -0,0 +1,50 @@
+import { TRPCError } from "@trpc/server";
+import type { PrismaClient } from "@prisma/client";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import {
+  applyOperation,
+  findNextOperation,
+  type OperationDirection,
+} from "~/server/services/operations";
+
+// Undo or redo the user's next operation, or return null when there is none
+async function step(db: PrismaClient, userId: string, direction: OperationDirection) {
+  const operation = await findNextOperation(db, userId, direction);
+  if (!operation) return null;
+
+  if (!(await applyOperation(db, userId, operation, direction))) {
+    // The record was changed in a way the operation can't get past, so it would block the rest
+    await db.operation.delete({ where: { id: operation.id } });
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: `Can't ${direction} "${operation.description}", the item is gone`,
+    });
+  }
+
+  return { id: operation.id, description: operation.description };
+}
+
+export const undoRouter = createTRPCRouter({
+  // Get what undo and redo would apply to next
+  getState: protectedProcedure.query(async ({ ctx }) => {
+    const [undo, redo] = await Promise.all([
+      findNextOperation(ctx.db, ctx.session.user.id, "undo"),
+      findNextOperation(ctx.db, ctx.session.user.id, "redo"),
+    ]);
+
+    return {
+      undo: undo?.description ?? null,
+      redo: redo?.description ?? null,
+    };
+  }),
+
+  // Revert the latest task or project change
+  undo: protectedProcedure.mutation(async ({ ctx }) => {
+    return step(ctx.db, ctx.session.user.id, "undo");
+  }),
+
+  // Apply the latest undone change again
+  redo: protectedProcedure.mutation(async ({ ctx }) => {
+    return step(ctx.db, ctx.session.user.id, "redo");
+  }),
+});
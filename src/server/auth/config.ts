@@ -5,6 +5,7 @@ import CredentialsProvider from "next-auth/providers/credentials";
 
 import { db } from "~/server/db";
 import { env } from "~/env";
+import { migrateLegacyContexts } from "~/server/services/contexts";
 
 /**
  * Module augmentation for `next-auth` types. Allows us to add custom properties to the `session`
@@ -49,6 +50,12 @@ export const authConfig = {
      */
   ],
   adapter: PrismaAdapter(db),
+  events: {
+    // New users start with the default contexts
+    createUser: async ({ user }) => {
+      if (user.id) await migrateLegacyContexts(db, user.id);
+    },
+  },
   callbacks: {
     session: ({ session, user }) => ({
       ...session,
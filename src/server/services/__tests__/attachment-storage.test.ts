@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { LocalAttachmentStorage } from "../attachment-storage";
+
+describe("LocalAttachmentStorage", () => {
+  let root: string;
+  let storage: LocalAttachmentStorage;
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(tmpdir(), "attachments-"));
+    storage = new LocalAttachmentStorage(root);
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("should write, read and delete files by key", async () => {
+    await storage.put("user-1/file-1", new Uint8Array([1, 2, 3]));
+
+    expect(Array.from((await storage.get("user-1/file-1"))!)).toEqual([1, 2, 3]);
+
+    await storage.delete("user-1/file-1");
+    expect(await storage.get("user-1/file-1")).toBeNull();
+    await expect(storage.delete("user-1/file-1")).resolves.toBeUndefined();
+  });
+
+  it("should refuse keys outside of its directory", async () => {
+    await expect(storage.put("../escape", new Uint8Array([1]))).rejects.toThrow(
+      "Invalid attachment key",
+    );
+  });
+});
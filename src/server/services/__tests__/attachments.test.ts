@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { PrismaClient } from "@prisma/client";
+import { AttachmentError, saveAttachment } from "../attachments";
+
+const createMockDb = () =>
+  ({
+    task: {
+      findFirst: vi.fn().mockResolvedValue({ id: "task-1" }),
+    },
+    project: {
+      findFirst: vi.fn().mockResolvedValue({ id: "project-1" }),
+    },
+    attachment: {
+      findMany: vi.fn().mockResolvedValue([]),
+      deleteMany: vi.fn(),
+      aggregate: vi.fn().mockResolvedValue({ _sum: { size: null } }),
+      create: vi.fn((args: { data: unknown }) => Promise.resolve(args.data)),
+    },
+  }) as any;
+
+const createStorage = () => ({
+  put: vi.fn(),
+  get: vi.fn(),
+  delete: vi.fn(),
+});
+
+const limits = { maxFileSize: 1024, quota: 4096 };
+
+const upload = (overrides: Record<string, unknown> = {}) => ({
+  fileName: "receipt.png",
+  contentType: "image/png",
+  data: new Uint8Array(512),
+  taskId: "task-1",
+  ...overrides,
+});
+
+describe("saveAttachment", () => {
+  let db: ReturnType<typeof createMockDb>;
+  let storage: ReturnType<typeof createStorage>;
+
+  const save = (overrides: Record<string, unknown> = {}) =>
+    saveAttachment(db as PrismaClient, storage, "user-1", upload(overrides), limits);
+
+  beforeEach(() => {
+    db = createMockDb();
+    storage = createStorage();
+  });
+
+  it("should store the file and record it on the task", async () => {
+    const attachment = await save({ fileName: "../receipt.png" });
+
+    const storageKey = storage.put.mock.calls[0]![0] as string;
+    expect(storageKey).toMatch(/^user-1\//);
+    expect(attachment).toEqual({
+      fileName: ".._receipt.png",
+      contentType: "image/png",
+      size: 512,
+      storageKey,
+      taskId: "task-1",
+      projectId: null,
+      userId: "user-1",
+    });
+  });
+
+  it("should reject files of other types", async () => {
+    await expect(save({ contentType: "text/html" })).rejects.toMatchObject({ status: 415 });
+    expect(storage.put).not.toHaveBeenCalled();
+  });
+
+  it("should reject files over the size limit", async () => {
+    await expect(save({ data: new Uint8Array(2048) })).rejects.toThrow(
+      "Files can be at most 1 KB",
+    );
+  });
+
+  it("should reject files over the user's quota, after freeing orphaned files", async () => {
+    db.attachment.findMany.mockResolvedValue([{ id: "attachment-0", storageKey: "user-1/old" }]);
+    db.attachment.aggregate.mockResolvedValue({ _sum: { size: 3800 } });
+
+    const error = await save().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(AttachmentError);
+    expect(error).toMatchObject({ status: 413 });
+    expect(storage.delete).toHaveBeenCalledWith("user-1/old");
+    expect(storage.put).not.toHaveBeenCalled();
+  });
+
+  it("should only attach files to the user's own records", async () => {
+    db.project.findFirst.mockResolvedValue(null);
+
+    await expect(save({ taskId: undefined, projectId: "project-2" })).rejects.toMatchObject({
+      status: 404,
+    });
+    await expect(save({ projectId: "project-1" })).rejects.toMatchObject({ status: 400 });
+  });
+
+  it("should remove the file when the record cannot be written", async () => {
+    db.attachment.create.mockRejectedValue(new Error("Database unavailable"));
+
+    await expect(save()).rejects.toThrow("Database unavailable");
+    expect(storage.delete).toHaveBeenCalledWith(storage.put.mock.calls[0]![0]);
+  });
+});
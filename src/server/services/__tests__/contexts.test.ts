@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from "vitest";
+import { Prisma, type PrismaClient } from "@prisma/client";
+import { migrateAllLegacyContexts, migrateLegacyContexts } from "../contexts";
+
+const createMockDb = () =>
+  ({
+    user: {
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+    userPreferences: {
+      findUnique: vi.fn().mockResolvedValue(null),
+      upsert: vi.fn(),
+    },
+    task: {
+      findMany: vi.fn().mockResolvedValue([]),
+      updateMany: vi.fn(),
+    },
+    context: {
+      upsert: vi.fn(({ create }: { create: { name: string } }) =>
+        Promise.resolve({ id: `context-${create.name.slice(1)}`, name: create.name }),
+      ),
+    },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  }) as any;
+
+describe("migrateLegacyContexts", () => {
+  it("should do nothing once the contexts were created", async () => {
+    const db = createMockDb();
+    db.userPreferences.findUnique.mockResolvedValue({ contextsSeededAt: new Date() });
+
+    await migrateLegacyContexts(db as PrismaClient, "user-1");
+
+    expect(db.context.upsert).not.toHaveBeenCalled();
+    expect(db.userPreferences.upsert).not.toHaveBeenCalled();
+  });
+
+  it("should create the default contexts for new users", async () => {
+    const db = createMockDb();
+
+    await migrateLegacyContexts(db as PrismaClient, "user-1");
+
+    expect(db.context.upsert).toHaveBeenCalledTimes(5);
+    expect(db.context.upsert).toHaveBeenCalledWith({
+      where: { userId_name: { userId: "user-1", name: "@home" } },
+      update: {},
+      create: { name: "@home", icon: "home", order: 0, userId: "user-1" },
+    });
+    expect(db.userPreferences.upsert).toHaveBeenCalledWith({
+      where: { userId: "user-1" },
+      update: { contextsSeededAt: expect.any(Date), legacyContexts: Prisma.DbNull },
+      create: { contextsSeededAt: expect.any(Date), userId: "user-1" },
+    });
+  });
+
+  it("should turn saved and typed contexts into records and link their tasks", async () => {
+    const db = createMockDb();
+    db.userPreferences.findUnique.mockResolvedValue({
+      legacyContexts: ["@phone", "@deep-work"],
+      contextsSeededAt: null,
+    });
+    db.task.findMany.mockResolvedValue([{ legacyContext: "@phone" }, { legacyContext: "Car" }]);
+
+    await migrateLegacyContexts(db as PrismaClient, "user-1");
+
+    expect(db.context.upsert.mock.calls.map(([args]: any[]) => args.create)).toEqual([
+      { name: "@phone", icon: "phone", order: 0, userId: "user-1" },
+      { name: "@deep-work", icon: undefined, order: 1, userId: "user-1" },
+      { name: "@car", icon: undefined, order: 2, userId: "user-1" },
+    ]);
+    expect(db.task.updateMany).toHaveBeenCalledWith({
+      where: { userId: "user-1", legacyContext: "@phone" },
+      data: { contextId: "context-phone", legacyContext: null },
+    });
+    expect(db.task.updateMany).toHaveBeenCalledWith({
+      where: { userId: "user-1", legacyContext: "Car" },
+      data: { contextId: "context-car", legacyContext: null },
+    });
+  });
+});
+
+describe("migrateAllLegacyContexts", () => {
+  it("should migrate every user", async () => {
+    const db = createMockDb();
+    db.user.findMany.mockResolvedValue([{ id: "user-1" }, { id: "user-2" }]);
+    db.userPreferences.findUnique.mockImplementation(({ where }: { where: { userId: string } }) =>
+      Promise.resolve(where.userId === "user-1" ? { contextsSeededAt: new Date() } : null),
+    );
+
+    await migrateAllLegacyContexts(db as PrismaClient);
+
+    expect(db.userPreferences.findUnique).toHaveBeenCalledTimes(2);
+    expect(db.userPreferences.upsert).toHaveBeenCalledTimes(1);
+    expect(db.userPreferences.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { userId: "user-2" } }),
+    );
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from "vitest";
+import type { PrismaClient } from "@prisma/client";
+import {
+  getDependencyStages,
+  promoteUnblockedTasks,
+  wouldCreateDependencyCycle,
+} from "../dependencies";
+
+const createMockDb = () =>
+  ({
+    task: {
+      findMany: vi.fn().mockResolvedValue([]),
+      updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+    },
+  }) as any;
+
+describe("wouldCreateDependencyCycle", () => {
+  it("should follow what the blocked task already blocks", async () => {
+    const db = createMockDb();
+    // task-b blocks task-c, which blocks task-a
+    db.task.findMany
+      .mockResolvedValueOnce([{ id: "task-c" }])
+      .mockResolvedValueOnce([{ id: "task-a" }]);
+
+    const cycle = await wouldCreateDependencyCycle(db as PrismaClient, "task-a", "task-b");
+
+    expect(cycle).toBe(true);
+    expect(db.task.findMany).toHaveBeenNthCalledWith(1, {
+      where: { blockedBy: { some: { id: { in: ["task-b"] } } } },
+      select: { id: true },
+    });
+  });
+
+  it("should allow dependencies that do not loop back", async () => {
+    const db = createMockDb();
+    db.task.findMany.mockResolvedValueOnce([{ id: "task-c" }]).mockResolvedValueOnce([]);
+
+    expect(await wouldCreateDependencyCycle(db as PrismaClient, "task-a", "task-b")).toBe(false);
+  });
+
+  it("should not let a task wait for itself", async () => {
+    const db = createMockDb();
+
+    expect(await wouldCreateDependencyCycle(db as PrismaClient, "task-a", "task-a")).toBe(true);
+    expect(db.task.findMany).not.toHaveBeenCalled();
+  });
+});
+
+describe("promoteUnblockedTasks", () => {
+  it("should make actions without open blockers next actions", async () => {
+    const db = createMockDb();
+    db.task.findMany.mockResolvedValue([{ id: "task-2" }]);
+
+    const promoted = await promoteUnblockedTasks(db as PrismaClient, {
+      blockedBy: { some: { id: { in: ["task-1"] } } },
+    });
+
+    expect(promoted).toEqual(["task-2"]);
+    expect(db.task.findMany).toHaveBeenCalledWith({
+      where: {
+        AND: [
+          { blockedBy: { some: { id: { in: ["task-1"] } } } },
+          { blockedBy: { none: { completed: false, deletedAt: null } } },
+        ],
+        completed: false,
+        deletedAt: null,
+        isNextAction: false,
+        taskType: { in: ["ACTION", "PROJECT"] },
+      },
+      select: { id: true },
+    });
+    expect(db.task.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ["task-2"] } },
+      data: { isNextAction: true },
+    });
+  });
+
+  it("should not write anything when no task was freed", async () => {
+    const db = createMockDb();
+
+    expect(await promoteUnblockedTasks(db as PrismaClient, { id: "task-2" })).toEqual([]);
+    expect(db.task.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe("getDependencyStages", () => {
+  it("should count the rounds of open blockers before each task", () => {
+    const stages = getDependencyStages([
+      { id: "design", blockedBy: [] },
+      { id: "build", blockedBy: [{ id: "design", completed: false }] },
+      { id: "test", blockedBy: [{ id: "build", completed: false }] },
+      { id: "ship", blockedBy: [{ id: "test", completed: false }, { id: "legal", completed: false }] },
+      { id: "announce", blockedBy: [{ id: "done", completed: true }] },
+    ]);
+
+    expect(Object.fromEntries(stages)).toEqual({
+      design: 0,
+      build: 1,
+      test: 2,
+      ship: 3,
+      announce: 0,
+    });
+  });
+
+  it("should stop at cycles instead of looping", () => {
+    const stages = getDependencyStages([
+      { id: "a", blockedBy: [{ id: "b", completed: false }] },
+      { id: "b", blockedBy: [{ id: "a", completed: false }] },
+    ]);
+
+    expect(stages.get("a")).toBe(2);
+    expect(stages.get("b")).toBe(1);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from "vitest";
+import type { PrismaClient } from "@prisma/client";
+import { migrateAllLegacyLabels, migrateLegacyLabels } from "../labels";
+
+const createMockDb = () =>
+  ({
+    user: {
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+    label: {
+      findMany: vi.fn().mockResolvedValue([]),
+      upsert: vi.fn(({ create }: { create: { name: string; userId: string } }) =>
+        Promise.resolve({ id: `${create.userId}-${create.name}`, name: create.name }),
+      ),
+      deleteMany: vi.fn(),
+    },
+    task: {
+      update: vi.fn(),
+    },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  }) as any;
+
+describe("migrateLegacyLabels", () => {
+  it("should do nothing once the user's tasks have no shared labels", async () => {
+    const db = createMockDb();
+
+    await migrateLegacyLabels(db as PrismaClient, "user-1");
+
+    expect(db.label.findMany).toHaveBeenCalledWith({
+      where: { userId: null, tasks: { some: { userId: "user-1" } } },
+      select: { id: true, name: true, tasks: { where: { userId: "user-1" }, select: { id: true } } },
+    });
+    expect(db.label.upsert).not.toHaveBeenCalled();
+  });
+
+  it("should move the user's tasks to their own copy of each shared label", async () => {
+    const db = createMockDb();
+    db.label.findMany.mockResolvedValue([
+      { id: "shared-work", name: "work", tasks: [{ id: "task-1" }, { id: "task-2" }] },
+    ]);
+
+    await migrateLegacyLabels(db as PrismaClient, "user-1");
+
+    expect(db.label.upsert).toHaveBeenCalledWith({
+      where: { userId_name: { userId: "user-1", name: "work" } },
+      update: {},
+      create: { name: "work", userId: "user-1" },
+    });
+    expect(db.task.update).toHaveBeenCalledTimes(2);
+    expect(db.task.update).toHaveBeenCalledWith({
+      where: { id: "task-1" },
+      data: { labels: { disconnect: { id: "shared-work" }, connect: { id: "user-1-work" } } },
+    });
+  });
+});
+
+describe("migrateAllLegacyLabels", () => {
+  it("should migrate every user and then delete the shared labels", async () => {
+    const db = createMockDb();
+    db.user.findMany.mockResolvedValue([{ id: "user-1" }, { id: "user-2" }]);
+
+    await migrateAllLegacyLabels(db as PrismaClient);
+
+    expect(db.label.findMany).toHaveBeenCalledTimes(2);
+    expect(db.label.deleteMany).toHaveBeenCalledWith({ where: { userId: null } });
+  });
+});
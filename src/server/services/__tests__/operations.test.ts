@@ -0,0 +1,270 @@
+import { describe, it, expect, vi } from "vitest";
+import type { Operation, PrismaClient } from "@prisma/client";
+import {
+  MAX_OPERATIONS,
+  applyOperation,
+  changedKeys,
+  findNextOperation,
+  pickFields,
+  recordOperation,
+} from "../operations";
+
+const createMockDb = () =>
+  ({
+    operation: {
+      create: vi.fn(),
+      update: vi.fn(),
+      deleteMany: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+    task: {
+      findFirst: vi.fn(),
+      findMany: vi.fn().mockResolvedValue([]),
+      findUnique: vi.fn().mockResolvedValue(null),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    project: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn().mockResolvedValue(null),
+      update: vi.fn(),
+    },
+    section: {
+      findUnique: vi.fn().mockResolvedValue(null),
+      updateMany: vi.fn(),
+    },
+    todoistOutboxEntry: {
+      findFirst: vi.fn().mockResolvedValue(null),
+      create: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    taskEvent: {
+      createMany: vi.fn(),
+    },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  }) as any;
+
+const createOperation = (overrides: Partial<Operation> = {}): Operation => ({
+  id: "op-1",
+  type: "UPDATE",
+  entityType: "TASK",
+  entityId: "task-1",
+  description: 'Process "Call Bob"',
+  before: { taskType: "INBOX", isNextAction: false },
+  after: { taskType: "ACTION", isNextAction: true },
+  undoneAt: null,
+  createdAt: new Date("2024-03-01T10:00:00Z"),
+  userId: "user-1",
+  ...overrides,
+});
+
+const createTask = (overrides: Record<string, unknown> = {}) => ({
+  id: "task-1",
+  title: "Call Bob",
+  description: null,
+  completed: false,
+  priority: 1,
+  dueDate: null,
+  recurrence: null,
+  todoistId: "todoist-1",
+  labels: [],
+  ...overrides,
+});
+
+describe("pickFields", () => {
+  it("should keep the requested fields the record has", () => {
+    const dueDate = new Date("2024-03-01");
+
+    expect(pickFields({ title: "Call Bob", dueDate, priority: 2 }, ["title", "dueDate", "x"])).toEqual(
+      { title: "Call Bob", dueDate },
+    );
+  });
+
+  it("should list the keys a mutation actually set", () => {
+    expect(changedKeys({ title: "Call Bob", priority: undefined, dueDate: null })).toEqual([
+      "title",
+      "dueDate",
+    ]);
+  });
+});
+
+describe("recordOperation", () => {
+  it("should drop the redo stack and store dates as strings", async () => {
+    const db = createMockDb();
+
+    await recordOperation(db as PrismaClient, "user-1", {
+      type: "UPDATE",
+      entityType: "TASK",
+      entityId: "task-1",
+      description: 'Edit "Call Bob"',
+      before: { dueDate: null },
+      after: { dueDate: new Date("2024-03-01T00:00:00Z") },
+    });
+
+    expect(db.operation.deleteMany).toHaveBeenCalledWith({
+      where: { userId: "user-1", undoneAt: { not: null } },
+    });
+    expect(db.operation.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        before: { dueDate: null },
+        after: { dueDate: "2024-03-01T00:00:00.000Z" },
+      }),
+    });
+  });
+
+  it("should forget the oldest operations past the limit", async () => {
+    const db = createMockDb();
+    db.operation.findMany.mockResolvedValue([{ id: "op-old" }]);
+
+    await recordOperation(db as PrismaClient, "user-1", {
+      type: "DELETE",
+      entityType: "TASK",
+      entityId: "task-1",
+      description: 'Delete "Call Bob"',
+    });
+
+    expect(db.operation.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ skip: MAX_OPERATIONS }),
+    );
+    expect(db.operation.deleteMany).toHaveBeenLastCalledWith({
+      where: { id: { in: ["op-old"] } },
+    });
+  });
+});
+
+describe("findNextOperation", () => {
+  it("should redo the most recently undone operation", async () => {
+    const db = createMockDb();
+
+    await findNextOperation(db as PrismaClient, "user-1", "redo");
+
+    expect(db.operation.findFirst).toHaveBeenCalledWith({
+      where: { userId: "user-1", undoneAt: { not: null } },
+      orderBy: { undoneAt: "desc" },
+    });
+  });
+});
+
+describe("applyOperation", () => {
+  it("should write the fields back when undoing an update", async () => {
+    const db = createMockDb();
+    db.task.findFirst.mockResolvedValue(createTask());
+    db.task.update.mockResolvedValue(createTask());
+
+    const applied = await applyOperation(db as PrismaClient, "user-1", createOperation(), "undo");
+
+    expect(applied).toBe(true);
+    expect(db.task.update).toHaveBeenCalledWith({
+      where: { id: "task-1" },
+      data: { taskType: "INBOX", isNextAction: false },
+      include: { labels: true, project: true, section: true },
+    });
+    expect(db.operation.update).toHaveBeenCalledWith({
+      where: { id: "op-1" },
+      data: { undoneAt: expect.any(Date) },
+    });
+    // Todoist doesn't know about GTD lists
+    expect(db.todoistOutboxEntry.create).not.toHaveBeenCalled();
+  });
+
+  it("should queue the restored fields for Todoist", async () => {
+    const db = createMockDb();
+    db.task.findFirst.mockResolvedValue(createTask({ title: "Call Bob today", completed: true }));
+    db.task.update.mockResolvedValue(createTask());
+
+    await applyOperation(
+      db as PrismaClient,
+      "user-1",
+      createOperation({
+        before: { title: "Call Bob", completed: false },
+        after: { title: "Call Bob today", completed: true },
+      }),
+      "undo",
+    );
+
+    expect(db.todoistOutboxEntry.create).toHaveBeenNthCalledWith(1, {
+      data: expect.objectContaining({ operation: "REOPEN", todoistId: "todoist-1" }),
+    });
+    expect(db.todoistOutboxEntry.create).toHaveBeenNthCalledWith(2, {
+      data: expect.objectContaining({ operation: "UPDATE", payload: { content: "Call Bob" } }),
+    });
+  });
+
+  it("should redo an update with the new values and clear its undo time", async () => {
+    const db = createMockDb();
+    db.task.findFirst.mockResolvedValue(createTask());
+    db.task.update.mockResolvedValue(createTask());
+
+    await applyOperation(
+      db as PrismaClient,
+      "user-1",
+      createOperation({ undoneAt: new Date() }),
+      "redo",
+    );
+
+    expect(db.task.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { taskType: "ACTION", isNextAction: true } }),
+    );
+    expect(db.operation.update).toHaveBeenCalledWith({
+      where: { id: "op-1" },
+      data: { undoneAt: null },
+    });
+  });
+
+  it("should restore a deleted task from the trash", async () => {
+    const db = createMockDb();
+    const deletedAt = new Date("2024-03-01T10:00:00Z");
+    db.task.findFirst.mockResolvedValue(
+      createTask({ deletedAt, parentId: null, projectId: null, sectionId: null }),
+    );
+
+    await applyOperation(
+      db as PrismaClient,
+      "user-1",
+      createOperation({ type: "DELETE", before: null, after: null }),
+      "undo",
+    );
+
+    expect(db.task.findFirst).toHaveBeenCalledWith({
+      where: { id: "task-1", userId: "user-1", deletedAt: { not: null } },
+    });
+    expect(db.task.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ["task-1"] }, deletedAt },
+      data: { deletedAt: null },
+    });
+  });
+
+  it("should move a created project to the trash", async () => {
+    const db = createMockDb();
+    db.project.findFirst.mockResolvedValue({ id: "project-1" });
+
+    await applyOperation(
+      db as PrismaClient,
+      "user-1",
+      createOperation({
+        type: "CREATE",
+        entityType: "PROJECT",
+        entityId: "project-1",
+        before: null,
+        after: null,
+      }),
+      "undo",
+    );
+
+    expect(db.project.update).toHaveBeenCalledWith({
+      where: { id: "project-1" },
+      data: { deletedAt: expect.any(Date) },
+    });
+  });
+
+  it("should not apply operations on records that are gone", async () => {
+    const db = createMockDb();
+    db.task.findFirst.mockResolvedValue(null);
+
+    const applied = await applyOperation(db as PrismaClient, "user-1", createOperation(), "undo");
+
+    expect(applied).toBe(false);
+    expect(db.operation.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from "vitest";
+import type { PrismaClient } from "@prisma/client";
+import { findOrCreatePerson, linkWaitingForPeople } from "../people";
+
+const createMockDb = () =>
+  ({
+    person: {
+      findUnique: vi.fn().mockResolvedValue(null),
+      create: vi.fn(({ data }: { data: { name: string } }) =>
+        Promise.resolve({ id: `person-${data.name}`, ...data }),
+      ),
+    },
+    task: {
+      findMany: vi.fn().mockResolvedValue([]),
+      updateMany: vi.fn(),
+    },
+  }) as any;
+
+describe("findOrCreatePerson", () => {
+  it("should return an existing person by trimmed name", async () => {
+    const db = createMockDb();
+    db.person.findUnique.mockResolvedValue({ id: "person-1", name: "Alice" });
+
+    const person = await findOrCreatePerson(db as PrismaClient, "user-1", "  Alice ");
+
+    expect(person).toEqual({ id: "person-1", name: "Alice" });
+    expect(db.person.findUnique).toHaveBeenCalledWith({
+      where: { userId_name: { userId: "user-1", name: "Alice" } },
+    });
+    expect(db.person.create).not.toHaveBeenCalled();
+  });
+
+  it("should create a new person", async () => {
+    const db = createMockDb();
+
+    const person = await findOrCreatePerson(db as PrismaClient, "user-1", "Bob");
+
+    expect(person).toEqual({ id: "person-Bob", name: "Bob", userId: "user-1" });
+  });
+
+  it("should ignore a blank name", async () => {
+    const db = createMockDb();
+
+    expect(await findOrCreatePerson(db as PrismaClient, "user-1", "   ")).toBeNull();
+    expect(db.person.findUnique).not.toHaveBeenCalled();
+  });
+});
+
+describe("linkWaitingForPeople", () => {
+  it("should link each distinct name to a person", async () => {
+    const db = createMockDb();
+    db.task.findMany.mockResolvedValue([{ waitingFor: "Alice" }, { waitingFor: "Bob" }]);
+
+    await linkWaitingForPeople(db as PrismaClient, "user-1");
+
+    expect(db.task.findMany).toHaveBeenCalledWith({
+      where: { userId: "user-1", personId: null, waitingFor: { not: null } },
+      select: { waitingFor: true },
+      distinct: ["waitingFor"],
+    });
+    expect(db.task.updateMany).toHaveBeenCalledTimes(2);
+    expect(db.task.updateMany).toHaveBeenCalledWith({
+      where: { userId: "user-1", personId: null, waitingFor: "Bob" },
+      data: { personId: "person-Bob" },
+    });
+  });
+
+  it("should leave blank names unlinked", async () => {
+    const db = createMockDb();
+    db.task.findMany.mockResolvedValue([{ waitingFor: " " }]);
+
+    await linkWaitingForPeople(db as PrismaClient, "user-1");
+
+    expect(db.task.updateMany).not.toHaveBeenCalled();
+  });
+});
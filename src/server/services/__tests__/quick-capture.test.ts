@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from "vitest";
+import type { PrismaClient } from "@prisma/client";
+import { parseQuickCapture, resolveQuickCapture } from "../quick-capture";
+
+// Monday 10 June 2024, 09:00 UTC
+const now = new Date("2024-06-10T09:00:00Z");
+const parse = (text: string, timezoneOffset?: number) =>
+  parseQuickCapture(text, { now, timezoneOffset });
+
+describe("parseQuickCapture", () => {
+  it("should pull every inline field out of the title", () => {
+    expect(parse("Call plumber #Home_Repairs /Urgent @phone +calls +house p1 ~15m !low")).toEqual({
+      title: "Call plumber",
+      projectName: "Home Repairs",
+      sectionName: "Urgent",
+      context: "@phone",
+      labels: ["calls", "house"],
+      priority: 1,
+      timeEstimate: 15,
+      energyLevel: "LOW",
+    });
+  });
+
+  it("should store priorities as written, p1 being the most urgent", () => {
+    expect(parse("Call plumber p1").priority).toBe(1);
+    expect(parse("Call plumber p2").priority).toBe(2);
+    expect(parse("Call plumber p4").priority).toBe(4);
+    expect(parse("Call plumber p5").title).toBe("Call plumber p5");
+  });
+
+  it("should parse time estimates in hours and minutes", () => {
+    expect(parse("Write ~1h30m").timeEstimate).toBe(90);
+    expect(parse("Write ~1.5h").timeEstimate).toBe(90);
+    expect(parse("Write ~45").timeEstimate).toBe(45);
+    expect(parse("Approx ~soon").title).toBe("Approx ~soon");
+  });
+
+  it("should parse relative dates", () => {
+    expect(parse("Pay rent today").dueDate).toEqual(new Date("2024-06-10"));
+    expect(parse("Pay rent tomorrow").dueDate).toEqual(new Date("2024-06-11"));
+    expect(parse("Pay rent friday").dueDate).toEqual(new Date("2024-06-14"));
+    expect(parse("Pay rent monday").dueDate).toEqual(new Date("2024-06-10"));
+    expect(parse("Pay rent next monday").dueDate).toEqual(new Date("2024-06-17"));
+    expect(parse("Pay rent next week").dueDate).toEqual(new Date("2024-06-17"));
+    expect(parse("Pay rent in 3 days").dueDate).toEqual(new Date("2024-06-13"));
+    expect(parse("Pay rent by jun 20").title).toBe("Pay rent");
+  });
+
+  it("should parse calendar dates, rolling over to next year once passed", () => {
+    expect(parse("Renew passport 20 june").dueDate).toEqual(new Date("2024-06-20"));
+    expect(parse("Renew passport jan 5th").dueDate).toEqual(new Date("2025-01-05"));
+    expect(parse("Renew passport 2024-09-01").dueDate).toEqual(new Date("2024-09-01"));
+  });
+
+  it("should read times in the user's timezone", () => {
+    const result = parse("Dentist tomorrow at 3pm", -120); // UTC+2
+
+    expect(result.title).toBe("Dentist");
+    expect(result.dueDate).toEqual(new Date("2024-06-11T13:00:00Z"));
+    expect(parse("Standup 9:30").dueDate).toEqual(new Date("2024-06-10T09:30:00Z"));
+  });
+
+  it("should leave ordinary words in the title", () => {
+    expect(parse("Plan the month sun cream run").title).toBe("Plan the month sun cream run");
+    expect(parse("Plan the month sun cream run").dueDate).toBeUndefined();
+    expect(parse("Move on").title).toBe("Move on");
+  });
+});
+
+describe("resolveQuickCapture", () => {
+  const createMockDb = () =>
+    ({
+      project: {
+        findMany: vi.fn().mockResolvedValue([{ id: "project-1", name: "Home Repairs" }]),
+      },
+      section: {
+        findMany: vi.fn().mockResolvedValue([
+          { id: "section-1", name: "Urgent", projectId: "project-1" },
+        ]),
+      },
+    }) as any;
+
+  it("should match the user's project and section by name", async () => {
+    const db = createMockDb();
+
+    const result = await resolveQuickCapture(
+      db as unknown as PrismaClient,
+      "user-1",
+      "Fix tap #home_repairs /urgent",
+      { now },
+    );
+
+    expect(db.project.findMany).toHaveBeenCalledWith({
+      where: { userId: "user-1", deletedAt: null },
+      select: { id: true, name: true },
+    });
+    expect(db.section.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { projectId: "project-1", deletedAt: null } }),
+    );
+    expect(result).toMatchObject({ projectId: "project-1", sectionId: "section-1", unmatched: [] });
+  });
+
+  it("should report names that match nothing", async () => {
+    const db = createMockDb();
+    db.section.findMany.mockResolvedValue([]);
+
+    const result = await resolveQuickCapture(
+      db as unknown as PrismaClient,
+      "user-1",
+      "Fix tap #Garden /Later",
+      { now },
+    );
+
+    expect(result).toMatchObject({ projectId: null, sectionId: null });
+    expect(result.unmatched).toEqual(["#Garden", "/Later"]);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import {
+  canDoNow,
+  recommendNextActions,
+  scoreNextAction,
+  type RecommendationCandidate,
+} from "../recommendations";
+
+// Monday 2024-06-17, 10:00 UTC
+const now = new Date("2024-06-17T10:00:00Z");
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+const task = (fields: Partial<RecommendationCandidate> = {}): RecommendationCandidate => ({
+  priority: 4,
+  dueDate: null,
+  energyLevel: null,
+  timeEstimate: null,
+  createdAt: now,
+  contextId: null,
+  context: null,
+  project: null,
+  ...fields,
+});
+
+const office = { name: "@office", availableFrom: "09:00", availableUntil: "17:00" };
+
+describe("canDoNow", () => {
+  it("should leave out actions in other contexts", () => {
+    const phone = task({ contextId: "context-phone", context: { ...office, name: "@phone" } });
+
+    expect(canDoNow(phone, { contextId: "context-office", now })).toBe(false);
+    expect(canDoNow(phone, { contextId: "context-phone", now })).toBe(true);
+    expect(canDoNow(task(), { contextId: "context-office", now })).toBe(true);
+  });
+
+  it("should check the context's hours in the user's time zone", () => {
+    const work = task({ contextId: "context-office", context: office });
+
+    expect(canDoNow(work, { now })).toBe(true);
+    // 10:00 UTC is 03:00 in Los Angeles
+    expect(canDoNow(work, { now, timezoneOffset: 420 })).toBe(false);
+  });
+
+  it("should leave out actions longer than the available time", () => {
+    expect(canDoNow(task({ timeEstimate: 45 }), { availableMinutes: 30, now })).toBe(false);
+    expect(canDoNow(task({ timeEstimate: 30 }), { availableMinutes: 30, now })).toBe(true);
+    expect(canDoNow(task(), { availableMinutes: 30, now })).toBe(true);
+  });
+});
+
+describe("scoreNextAction", () => {
+  it("should score nothing for a fresh action without details", () => {
+    expect(scoreNextAction(task(), { now })).toEqual({ score: 0, reasons: [] });
+  });
+
+  it("should explain every factor", () => {
+    const result = scoreNextAction(
+      task({
+        priority: 1,
+        dueDate: new Date("2024-06-17T00:00:00Z"),
+        energyLevel: "LOW",
+        timeEstimate: 20,
+        createdAt: daysAgo(21),
+        contextId: "context-office",
+        context: office,
+        project: { name: "Move house", projectType: "PROJECT", reviewedAt: daysAgo(15), createdAt: daysAgo(60) },
+      }),
+      { contextId: "context-office", energyLevel: "MEDIUM", availableMinutes: 30, now },
+    );
+
+    expect(result.reasons).toEqual([
+      { factor: "context", points: 20, explanation: "You are at @office" },
+      { factor: "energy", points: 10, explanation: "Needs less energy than you have" },
+      { factor: "time", points: 10, explanation: "Takes 20 of your 30 minutes" },
+      { factor: "priority", points: 30, explanation: "Priority p1" },
+      { factor: "due", points: 35, explanation: "Due today" },
+      { factor: "project", points: 10, explanation: "Move house not reviewed for 15 days" },
+      { factor: "age", points: 6, explanation: "Open for 21 days" },
+    ]);
+    expect(result.score).toBe(121);
+  });
+
+  it("should count due dates in days of the user's calendar", () => {
+    const due = task({ dueDate: new Date("2024-06-18T00:00:00Z") });
+
+    expect(scoreNextAction(due, { now }).reasons).toEqual([
+      { factor: "due", points: 30, explanation: "Due tomorrow" },
+    ]);
+    // Already Tuesday in Tokyo
+    expect(scoreNextAction(due, { now: new Date("2024-06-17T20:00:00Z"), timezoneOffset: -540 }).reasons).toEqual([
+      { factor: "due", points: 35, explanation: "Due today" },
+    ]);
+    expect(scoreNextAction(task({ dueDate: new Date("2024-06-14T00:00:00Z") }), { now }).reasons).toEqual([
+      { factor: "due", points: 40, explanation: "Overdue by 3 days" },
+    ]);
+  });
+
+  it("should count against actions that need more energy than the user has", () => {
+    expect(scoreNextAction(task({ energyLevel: "HIGH" }), { energyLevel: "LOW", now })).toEqual({
+      score: -20,
+      reasons: [{ factor: "energy", points: -20, explanation: "Needs more energy than you have" }],
+    });
+  });
+
+  it("should use the creation date of projects never reviewed", () => {
+    const result = scoreNextAction(
+      task({ project: { name: "Taxes", projectType: "PROJECT", reviewedAt: null, createdAt: daysAgo(40) } }),
+      { now },
+    );
+
+    expect(result.reasons).toEqual([
+      { factor: "project", points: 20, explanation: "Taxes not reviewed for 40 days" },
+    ]);
+  });
+});
+
+describe("recommendNextActions", () => {
+  it("should rank the actions that can be done, older ones first on a tie", () => {
+    const older = { ...task({ createdAt: daysAgo(1) }), id: "older" };
+    const newer = { ...task(), id: "newer" };
+    const urgent = { ...task({ priority: 2 }), id: "urgent" };
+    const tooLong = { ...task({ priority: 1, timeEstimate: 120 }), id: "too-long" };
+
+    const result = recommendNextActions([newer, tooLong, older, urgent], { availableMinutes: 60, now });
+
+    expect(result.map((recommendation) => recommendation.task.id)).toEqual(["urgent", "older", "newer"]);
+  });
+});
@@ -0,0 +1,126 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { PrismaClient } from "@prisma/client";
+import { HIGHLIGHT_END, HIGHLIGHT_START, splitHighlights } from "~/lib/search-highlight";
+import * as search from "../search";
+
+const createMockDb = () =>
+  ({
+    $queryRawUnsafe: vi.fn().mockResolvedValue([]),
+  }) as any;
+
+const readSql = (file: string) => readFileSync(join(process.cwd(), "prisma", file), "utf8");
+const triggerNames = (sql: string, pattern: RegExp) =>
+  [...sql.matchAll(pattern)].map((match) => match[1]).sort();
+
+describe("search", () => {
+  let db: ReturnType<typeof createMockDb>;
+
+  beforeEach(() => {
+    db = createMockDb();
+  });
+
+  describe("toSearchQuery", () => {
+    it("should match every word as a prefix", () => {
+      expect(search.toSearchQuery("buy pai")).toBe('"buy"* "pai"*');
+    });
+
+    it("should match quoted text as a phrase", () => {
+      expect(search.toSearchQuery('"white paint" kitch')).toBe('"white paint" "kitch"*');
+      expect(search.toSearchQuery('"white pai')).toBe('"white pai"');
+    });
+
+    it("should treat FTS5 syntax as plain text", () => {
+      expect(search.toSearchQuery("paint* OR title:kitchen")).toBe(
+        '"paint"* "OR"* "title:kitchen"*',
+      );
+      expect(search.toSearchQuery('pa"int')).toBe('"paint"*');
+    });
+
+    it("should return null when nothing searchable is left", () => {
+      expect(search.toSearchQuery("")).toBeNull();
+      expect(search.toSearchQuery(' - * "" ')).toBeNull();
+    });
+  });
+
+  describe("searchTasks", () => {
+    it("should query the user's matches with highlights, best first", async () => {
+      const matches = [
+        { taskId: "task-1", title: `Buy ${HIGHLIGHT_START}paint${HIGHLIGHT_END}`, snippet: "", rank: -2 },
+      ];
+      db.$queryRawUnsafe.mockResolvedValue(matches);
+
+      const result = await search.searchTasks(db as PrismaClient, "user-1", "paint", {
+        limit: 5,
+        includeCompleted: true,
+      });
+
+      expect(result).toEqual(matches);
+      const [sql, ...params] = db.$queryRawUnsafe.mock.calls[0];
+      expect(sql).toContain('"TaskSearch" MATCH ?');
+      expect(sql).toContain('ORDER BY "rank"');
+      expect(params).toEqual([
+        HIGHLIGHT_START,
+        HIGHLIGHT_END,
+        HIGHLIGHT_START,
+        HIGHLIGHT_END,
+        '"paint"*',
+        "user-1",
+        true,
+        5,
+      ]);
+    });
+
+    it("should not query when nothing searchable was typed", async () => {
+      const result = await search.searchTasks(db as PrismaClient, "user-1", "***", {
+        limit: 20,
+        includeCompleted: false,
+      });
+
+      expect(result).toEqual([]);
+      expect(db.$queryRawUnsafe).not.toHaveBeenCalled();
+    });
+
+    it("should explain how to create a missing index", async () => {
+      db.$queryRawUnsafe.mockRejectedValue(new Error("SQLite error: no such table: TaskSearch"));
+
+      await expect(
+        search.searchTasks(db as PrismaClient, "user-1", "paint", {
+          limit: 20,
+          includeCompleted: false,
+        }),
+      ).rejects.toThrow("The search index is missing, run `npm run db:search` to create it");
+    });
+  });
+
+  describe("search index setup", () => {
+    it("should rebuild the table, its triggers and the rows of existing tasks", () => {
+      const sql = readSql("search-index.sql");
+
+      expect(sql).toContain('DROP TABLE IF EXISTS "TaskSearch"');
+      expect(sql).toContain('CREATE VIRTUAL TABLE "TaskSearch" USING fts5');
+      expect(triggerNames(sql, /CREATE TRIGGER "(\w+)"/g)).toHaveLength(7);
+      expect(sql.trim().split(";\n").at(-1)).toContain('INSERT INTO "TaskSearch"');
+    });
+
+    it("should drop everything it creates before the schema is pushed", () => {
+      const created = triggerNames(readSql("search-index.sql"), /CREATE TRIGGER "(\w+)"/g);
+      const drop = readSql("search-index-drop.sql");
+
+      expect(triggerNames(drop, /DROP TRIGGER IF EXISTS "(\w+)"/g)).toEqual(created);
+      expect(drop).toContain('DROP TABLE IF EXISTS "TaskSearch"');
+    });
+  });
+});
+
+describe("splitHighlights", () => {
+  it("should alternate plain and matched parts", () => {
+    expect(splitHighlights(`Buy ${HIGHLIGHT_START}paint${HIGHLIGHT_END} now`)).toEqual([
+      "Buy ",
+      "paint",
+      " now",
+    ]);
+    expect(splitHighlights("No match")).toEqual(["No match"]);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from "vitest";
+import type { PrismaClient } from "@prisma/client";
+import {
+  describeTask,
+  diffFields,
+  recordTaskEvents,
+  syncedEvent,
+  taskChangeEvents,
+  updatedEvents,
+} from "../task-events";
+
+const createMockDb = () =>
+  ({
+    taskEvent: {
+      createMany: vi.fn(),
+    },
+  }) as any;
+
+describe("diffFields", () => {
+  it("should keep the fields whose value changed", () => {
+    expect(
+      diffFields(
+        { title: "Call Bob", priority: 1, labels: ["phone"], dueDate: null },
+        { title: "Call Bob", priority: 3, labels: ["phone"], dueDate: undefined },
+      ),
+    ).toEqual({ priority: { from: 1, to: 3 } });
+  });
+
+  it("should compare dates by value", () => {
+    expect(
+      diffFields(
+        { dueDate: new Date("2024-03-01T00:00:00Z") },
+        { dueDate: new Date("2024-03-01T00:00:00Z") },
+      ),
+    ).toEqual({});
+  });
+});
+
+describe("describeTask", () => {
+  it("should name the project, section and labels", () => {
+    const task = {
+      title: "Call Bob",
+      projectId: "project-1",
+      project: { name: "Garden" },
+      section: null,
+      labels: [{ name: "phone" }],
+    };
+
+    expect(describeTask(task, ["title", "projectId", "sectionId", "labels"])).toEqual({
+      title: "Call Bob",
+      project: "Garden",
+      section: null,
+      labels: ["phone"],
+    });
+  });
+});
+
+describe("taskChangeEvents", () => {
+  it("should log completion, moves and edits as separate events", () => {
+    const events = taskChangeEvents("task-1", {
+      completed: { from: false, to: true },
+      project: { from: null, to: "Garden" },
+      priority: { from: 1, to: 3 },
+    });
+
+    expect(events).toEqual([
+      { taskId: "task-1", type: "COMPLETED" },
+      { taskId: "task-1", type: "MOVED", changes: { project: { from: null, to: "Garden" } } },
+      { taskId: "task-1", type: "UPDATED", changes: { priority: { from: 1, to: 3 } } },
+    ]);
+  });
+
+  it("should log nothing when no field changed", () => {
+    expect(taskChangeEvents("task-1", {})).toEqual([]);
+    expect(updatedEvents({ projectId: "project-1" }, {})).toEqual([]);
+  });
+});
+
+describe("recordTaskEvents", () => {
+  it("should store dates as strings", async () => {
+    const db = createMockDb();
+
+    await recordTaskEvents(db as PrismaClient, "user-1", [
+      {
+        taskId: "task-1",
+        type: "UPDATED",
+        changes: { dueDate: { from: null, to: new Date("2024-03-01T00:00:00Z") } },
+      },
+    ]);
+
+    expect(db.taskEvent.createMany).toHaveBeenCalledWith({
+      data: [
+        {
+          taskId: "task-1",
+          type: "UPDATED",
+          changes: { dueDate: { from: null, to: "2024-03-01T00:00:00.000Z" } },
+          userId: "user-1",
+        },
+      ],
+    });
+  });
+
+  it("should skip the write without events", async () => {
+    const db = createMockDb();
+
+    await recordTaskEvents(db as PrismaClient, "user-1", []);
+
+    expect(db.taskEvent.createMany).not.toHaveBeenCalled();
+  });
+});
+
+describe("syncedEvent", () => {
+  it("should create the event along with the synced record", () => {
+    expect(syncedEvent("user-1", { title: { from: "a", to: "b" } })).toEqual({
+      create: {
+        type: "SYNCED",
+        changes: { title: { from: "a", to: "b" } },
+        userId: "user-1",
+      },
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect, vi } from "vitest";
+import type { PrismaClient } from "@prisma/client";
+import {
+  FilterSyntaxError,
+  buildTaskFilter,
+  parseTaskFilter,
+  taskFilterSchema,
+} from "../task-filters";
+
+// Monday 10 June 2024, 09:00 UTC
+const now = new Date("2024-06-10T09:00:00Z");
+
+const createMockDb = () =>
+  ({
+    project: {
+      findMany: vi.fn().mockResolvedValue([
+        { id: "project-1", name: "Someday" },
+        { id: "project-2", name: "Home Repairs" },
+      ]),
+    },
+    section: {
+      findMany: vi.fn().mockResolvedValue([{ id: "section-1", name: "Urgent" }]),
+    },
+    label: {
+      findMany: vi.fn().mockResolvedValue([{ id: "label-1", name: "calls" }]),
+    },
+  }) as any;
+
+const build = (query: string, db = createMockDb()) =>
+  buildTaskFilter(db as PrismaClient, "user-1", query, { now });
+
+describe("parseTaskFilter", () => {
+  it("should give & precedence over |", () => {
+    expect(parseTaskFilter("p1 | @phone & today")).toEqual({
+      type: "or",
+      operands: [
+        { type: "term", term: { kind: "priority", value: 1 } },
+        {
+          type: "and",
+          operands: [
+            { type: "term", term: { kind: "context", value: "@phone" } },
+            { type: "term", term: { kind: "due", comparison: "on", day: { days: 0 } } },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("should parse negations, groups and names with spaces", () => {
+    expect(parseTaskFilter("!(#Home Repairs | +calls)")).toEqual({
+      type: "not",
+      operand: {
+        type: "or",
+        operands: [
+          { type: "term", term: { kind: "project", name: "Home Repairs" } },
+          { type: "term", term: { kind: "label", name: "calls" } },
+        ],
+      },
+    });
+  });
+
+  it("should parse keyed terms", () => {
+    const terms = (query: string) => parseTaskFilter(query);
+    expect(terms("due before: +3d")).toEqual({
+      type: "term",
+      term: { kind: "due", comparison: "before", day: { days: 3 } },
+    });
+    expect(terms("Due After: 2 weeks")).toEqual({
+      type: "term",
+      term: { kind: "due", comparison: "after", day: { days: 14 } },
+    });
+    expect(terms("due: 2024-06-20")).toEqual({
+      type: "term",
+      term: { kind: "due", comparison: "on", day: { date: "2024-06-20" } },
+    });
+    expect(terms("energy: low")).toEqual({ type: "term", term: { kind: "energy", value: "LOW" } });
+    expect(terms("time under: 1h")).toEqual({
+      type: "term",
+      term: { kind: "time", comparison: "under", minutes: 60 },
+    });
+    expect(terms("type: waiting")).toEqual({ type: "term", term: { kind: "type", value: "WAITING" } });
+    expect(terms("search: Tax Form")).toEqual({
+      type: "term",
+      term: { kind: "search", text: "Tax Form" },
+    });
+  });
+
+  it("should point at the first mistake", () => {
+    const errorOf = (query: string) => {
+      try {
+        parseTaskFilter(query);
+      } catch (error) {
+        return error;
+      }
+    };
+
+    expect(errorOf("p1 & bogus")).toEqual(new FilterSyntaxError('Unknown filter "bogus"', 5));
+    expect(errorOf("p1 &")).toEqual(new FilterSyntaxError("Expected a filter term", 4));
+    expect(errorOf("(p1 | p2")).toEqual(new FilterSyntaxError("Missing closing parenthesis", 0));
+    expect(errorOf("p1 )")).toEqual(new FilterSyntaxError('Unexpected ")"', 3));
+    expect(errorOf("due before: someday")).toEqual(
+      new FilterSyntaxError('Unknown date "someday"', 11),
+    );
+    expect((errorOf("energy: max") as Error).message).toBe(
+      'Unknown energy level "max" at position 8',
+    );
+  });
+});
+
+describe("taskFilterSchema", () => {
+  it("should report syntax errors as validation issues", () => {
+    const result = taskFilterSchema.safeParse("@phone & & p1");
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]?.message).toBe('Unexpected "&" at position 10');
+  });
+
+  it("should accept valid expressions", () => {
+    expect(taskFilterSchema.parse(" @phone & p1 ")).toBe("@phone & p1");
+  });
+});
+
+describe("buildTaskFilter", () => {
+  it("should compile the example from the filters guide", async () => {
+    const where = await build("@phone & p1 & due before: +3d & !#Someday");
+
+    expect(where).toEqual({
+      userId: "user-1",
+      AND: [
+        {
+          AND: [
+            { context: { name: "@phone" } },
+            { priority: 1 },
+            { dueDate: { lt: new Date("2024-06-13T00:00:00Z") } },
+            { OR: [{ projectId: null }, { NOT: { projectId: { in: ["project-1"] } } }] },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("should match names case insensitively and names that match nothing to no tasks", async () => {
+    const where = await build("#home repairs | /urgent | +CALLS | #Missing");
+
+    expect(where.AND).toEqual([
+      {
+        OR: [
+          { projectId: { in: ["project-2"] } },
+          { sectionId: { in: ["section-1"] } },
+          { labels: { some: { id: { in: ["label-1"] } } } },
+          { projectId: { in: [] } },
+        ],
+      },
+    ]);
+  });
+
+  it("should only look up the kinds of names the filter uses", async () => {
+    const db = createMockDb();
+
+    await build("+calls", db);
+
+    expect(db.label.findMany).toHaveBeenCalledWith({
+      where: { userId: "user-1" },
+      select: { id: true, name: true },
+    });
+    expect(db.project.findMany).not.toHaveBeenCalled();
+    expect(db.section.findMany).not.toHaveBeenCalled();
+  });
+
+  it("should compile due dates as UTC days", async () => {
+    expect((await build("today")).AND).toEqual([
+      { dueDate: { gte: new Date("2024-06-10T00:00:00Z"), lt: new Date("2024-06-11T00:00:00Z") } },
+    ]);
+    expect((await build("due after: 2024-06-20")).AND).toEqual([
+      { dueDate: { gte: new Date("2024-06-21T00:00:00Z") } },
+    ]);
+    expect((await build("overdue")).AND).toEqual([
+      { dueDate: { lt: new Date("2024-06-10T00:00:00Z") } },
+    ]);
+  });
+
+  it("should match priorities by their number, p1 being priority 1", async () => {
+    expect((await build("p1")).AND).toEqual([{ priority: 1 }]);
+    expect((await build("p4")).AND).toEqual([{ priority: 4 }]);
+    expect((await build("!p1")).AND).toEqual([{ NOT: { priority: 1 } }]);
+  });
+
+  it("should push negations down with De Morgan's laws", async () => {
+    const where = await build("!(p1 & no date)");
+
+    expect(where.AND).toEqual([
+      { OR: [{ NOT: { priority: 1 } }, { NOT: { dueDate: null } }] },
+    ]);
+  });
+
+  it("should match contexts by name", async () => {
+    expect((await build("@Phone")).AND).toEqual([{ context: { name: "@phone" } }]);
+    expect((await build("no context")).AND).toEqual([{ contextId: null }]);
+    expect((await build("!@phone")).AND).toEqual([
+      { OR: [{ contextId: null }, { NOT: { context: { name: "@phone" } } }] },
+    ]);
+  });
+
+  it("should keep empty fields when negating a comparison", async () => {
+    expect((await build("!energy: high")).AND).toEqual([
+      { OR: [{ energyLevel: null }, { NOT: { energyLevel: "HIGH" } }] },
+    ]);
+    expect((await build("!search: tax")).AND).toEqual([
+      {
+        AND: [
+          { NOT: { title: { contains: "tax" } } },
+          { OR: [{ description: null }, { NOT: { description: { contains: "tax" } } }] },
+        ],
+      },
+    ]);
+    expect((await build("!next action")).AND).toEqual([{ isNextAction: false }]);
+  });
+});
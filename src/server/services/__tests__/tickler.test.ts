@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from "vitest";
+import type { PrismaClient } from "@prisma/client";
+import { resurfaceAllDeferred, resurfaceDeferred, startedTasks } from "../tickler";
+
+const now = new Date("2024-06-17T08:00:00Z");
+
+const createMockDb = () =>
+  ({
+    task: {
+      findMany: vi.fn().mockResolvedValue([]),
+      updateMany: vi.fn(),
+    },
+    project: {
+      findMany: vi.fn().mockResolvedValue([]),
+      updateMany: vi.fn(),
+    },
+    taskEvent: {
+      createMany: vi.fn(),
+    },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  }) as any;
+
+describe("startedTasks", () => {
+  it("should leave out tasks and projects deferred past now", () => {
+    expect(startedTasks(now)).toEqual({
+      AND: [
+        { OR: [{ startDate: null }, { startDate: { lte: now } }] },
+        {
+          OR: [
+            { project: null },
+            { project: { startDate: null } },
+            { project: { startDate: { lte: now } } },
+          ],
+        },
+      ],
+    });
+  });
+});
+
+describe("resurfaceDeferred", () => {
+  it("should do nothing while nothing is due", async () => {
+    const db = createMockDb();
+
+    const result = await resurfaceDeferred(db as PrismaClient, "user-1", now);
+
+    expect(result).toEqual({ taskIds: [], projectIds: [] });
+    expect(db.task.findMany).toHaveBeenCalledWith({
+      where: { userId: "user-1", deletedAt: null, startDate: { lte: now }, completed: false },
+      select: { id: true, startDate: true, taskType: true, isNextAction: true },
+    });
+    expect(db.$transaction).not.toHaveBeenCalled();
+    expect(db.taskEvent.createMany).not.toHaveBeenCalled();
+  });
+
+  it("should put due tasks back in the inbox and start due projects", async () => {
+    const db = createMockDb();
+    const startDate = new Date("2024-06-17T00:00:00Z");
+    db.task.findMany.mockResolvedValue([
+      { id: "task-1", startDate, taskType: "INBOX", isNextAction: false },
+      { id: "task-2", startDate, taskType: "ACTION", isNextAction: true },
+    ]);
+    db.project.findMany.mockResolvedValue([{ id: "project-1", startDate }]);
+
+    const result = await resurfaceDeferred(db as PrismaClient, "user-1", now);
+
+    expect(result).toEqual({ taskIds: ["task-1", "task-2"], projectIds: ["project-1"] });
+    expect(db.task.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ["task-1", "task-2"] } },
+      data: { startDate: null, taskType: "INBOX", isNextAction: false },
+    });
+    expect(db.project.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ["project-1"] } },
+      data: { startDate: null },
+    });
+    expect(db.taskEvent.createMany).toHaveBeenCalledWith({
+      data: [
+        {
+          taskId: "task-1",
+          type: "RESURFACED",
+          changes: { startDate: { from: startDate.toISOString(), to: null } },
+          userId: "user-1",
+        },
+        {
+          taskId: "task-2",
+          type: "RESURFACED",
+          changes: {
+            startDate: { from: startDate.toISOString(), to: null },
+            taskType: { from: "ACTION", to: "INBOX" },
+            isNextAction: { from: true, to: false },
+          },
+          userId: "user-1",
+        },
+        {
+          projectId: "project-1",
+          type: "RESURFACED",
+          changes: { startDate: { from: startDate.toISOString(), to: null } },
+          userId: "user-1",
+        },
+      ],
+    });
+  });
+});
+
+describe("resurfaceAllDeferred", () => {
+  it("should resurface each user with something due once", async () => {
+    const db = createMockDb();
+    const startDate = new Date("2024-06-17T00:00:00Z");
+    db.task.findMany.mockImplementation(({ where }: any) =>
+      Promise.resolve(
+        where.userId === "user-1"
+          ? [{ id: "task-1", startDate, taskType: "INBOX", isNextAction: false }]
+          : where.userId
+            ? []
+            : [{ userId: "user-1" }],
+      ),
+    );
+    db.project.findMany.mockImplementation(({ where }: any) =>
+      Promise.resolve(
+        where.userId === "user-2"
+          ? [{ id: "project-1", startDate }]
+          : where.userId
+            ? []
+            : [{ userId: "user-1" }, { userId: "user-2" }],
+      ),
+    );
+
+    await resurfaceAllDeferred(db as PrismaClient, now);
+
+    expect(db.task.findMany).toHaveBeenCalledWith({
+      where: { deletedAt: null, startDate: { lte: now }, completed: false },
+      distinct: ["userId"],
+      select: { userId: true },
+    });
+    expect(db.$transaction).toHaveBeenCalledTimes(2);
+    expect(db.task.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ["task-1"] } },
+      data: { startDate: null, taskType: "INBOX", isNextAction: false },
+    });
+    expect(db.project.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ["project-1"] } },
+      data: { startDate: null },
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { mergeTaskFields, toTodoistTaskUpdate, type TaskSnapshot } from "../todoist-conflicts";
+
+const base: TaskSnapshot = {
+  title: "Write report",
+  description: "",
+  priority: 2,
+  dueDate: "2024-06-20",
+  recurrence: null,
+  labels: ["work"],
+};
+
+const merge = (
+  local: Partial<TaskSnapshot>,
+  remote: Partial<TaskSnapshot>,
+  options: Partial<Parameters<typeof mergeTaskFields>[0]> = {},
+) =>
+  mergeTaskFields({
+    local: { ...base, ...local },
+    remote: { ...base, ...remote },
+    base,
+    strategy: "REMOTE",
+    localUpdatedAt: new Date("2024-06-02T10:00:00Z"),
+    remoteUpdatedAt: new Date("2024-06-02T12:00:00Z"),
+    ...options,
+  });
+
+describe("mergeTaskFields", () => {
+  it("should take each side's change when different fields were edited", () => {
+    const result = merge({ priority: 4 }, { dueDate: "2024-06-25" });
+
+    expect(result).toEqual({
+      takeRemote: { dueDate: "2024-06-25" },
+      pushLocal: {},
+      conflicts: [],
+      conflicting: [],
+    });
+  });
+
+  it("should ignore fields edited to the same value on both sides", () => {
+    const result = merge({ labels: ["home", "work"] }, { labels: ["home", "work"] });
+
+    expect(result).toEqual({ takeRemote: {}, pushLocal: {}, conflicts: [], conflicting: [] });
+  });
+
+  it("should let Todoist win when there is no base", () => {
+    const result = merge({ title: "Local" }, { title: "Remote" }, { base: null, strategy: "ASK" });
+
+    expect(result.takeRemote).toEqual({ title: "Remote" });
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it("should settle fields edited on both sides with the strategy", () => {
+    expect(merge({ title: "Local" }, { title: "Remote" }).takeRemote).toEqual({ title: "Remote" });
+    expect(merge({ title: "Local" }, { title: "Remote" }, { strategy: "LOCAL" }).pushLocal).toEqual({
+      title: "Local",
+    });
+    expect(merge({ title: "Local" }, { title: "Remote" }, { strategy: "ASK" }).conflicts).toEqual([
+      { field: "title", localValue: "Local", remoteValue: "Remote", baseValue: "Write report" },
+    ]);
+  });
+
+  it("should keep the most recent edit with the newest strategy", () => {
+    const remoteNewer = merge({ priority: 4 }, { priority: 3 }, { strategy: "NEWEST" });
+    const localNewer = merge(
+      { priority: 4 },
+      { priority: 3 },
+      { strategy: "NEWEST", localUpdatedAt: new Date("2024-06-02T13:00:00Z") },
+    );
+
+    expect(remoteNewer.takeRemote).toEqual({ priority: 3 });
+    expect(remoteNewer.conflicting).toEqual(["priority"]);
+    expect(localNewer.pushLocal).toEqual({ priority: 4 });
+  });
+
+  it("should treat fields missing from older snapshots as empty", () => {
+    const { recurrence: _, ...olderBase } = base;
+    const result = merge({}, { recurrence: "every day" }, { base: olderBase as TaskSnapshot });
+
+    expect(result.takeRemote).toEqual({ recurrence: "every day" });
+    expect(result.conflicting).toEqual([]);
+  });
+
+  it("should push the date and the rule together", () => {
+    const result = merge(
+      { recurrence: "every week" },
+      { recurrence: "every day" },
+      { strategy: "LOCAL" },
+    );
+
+    expect(result.pushLocal).toEqual({ dueDate: "2024-06-20", recurrence: "every week" });
+  });
+});
+
+describe("toTodoistTaskUpdate", () => {
+  it("should send recurring dates as a due string", () => {
+    expect(toTodoistTaskUpdate({ dueDate: "2024-06-20", recurrence: "every weekday" })).toEqual({
+      due_string: "every weekday starting 2024-06-20",
+    });
+    expect(toTodoistTaskUpdate({ dueDate: "2024-06-20", recurrence: null })).toEqual({
+      due_date: "2024-06-20",
+    });
+  });
+});
@@ -0,0 +1,461 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { PrismaClient } from "@prisma/client";
+import { TodoistApiError, type TodoistService } from "../todoist";
+import {
+  MAX_ATTEMPTS,
+  drainTodoistOutbox,
+  enqueueTodoistChange,
+  getRetryDelay,
+} from "../todoist-outbox";
+
+vi.mock("~/env", () => ({
+  env: {
+    TODOIST_API_KEY: undefined,
+  },
+}));
+
+const createMockDb = () =>
+  ({
+    todoistOutboxEntry: {
+      findFirst: vi.fn(),
+      findMany: vi.fn().mockResolvedValue([]),
+      create: vi.fn(),
+      update: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    user: {
+      findUnique: vi.fn(),
+    },
+    task: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    project: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    section: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    comment: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  }) as any;
+
+const createEntry = (overrides: Record<string, unknown> = {}) => ({
+  id: "entry-1",
+  entityType: "TASK",
+  operation: "UPDATE",
+  entityId: "task-1",
+  todoistId: "todoist-task-1",
+  payload: { content: "Updated" },
+  attempts: 0,
+  lastError: null,
+  nextAttemptAt: new Date("2024-06-01T09:00:00Z"),
+  failedAt: null,
+  createdAt: new Date("2024-06-01T09:00:00Z"),
+  userId: "user-1",
+  ...overrides,
+});
+
+describe("enqueueTodoistChange", () => {
+  let db: ReturnType<typeof createMockDb>;
+
+  beforeEach(() => {
+    db = createMockDb();
+  });
+
+  it("should queue changes for linked records", async () => {
+    await enqueueTodoistChange(db as unknown as PrismaClient, "user-1", {
+      entityType: "TASK",
+      operation: "CLOSE",
+      entityId: "task-1",
+      todoistId: "todoist-task-1",
+    });
+
+    expect(db.todoistOutboxEntry.findFirst).not.toHaveBeenCalled();
+    expect(db.todoistOutboxEntry.create).toHaveBeenCalledWith({
+      data: {
+        entityType: "TASK",
+        operation: "CLOSE",
+        entityId: "task-1",
+        todoistId: "todoist-task-1",
+        payload: undefined,
+        userId: "user-1",
+      },
+    });
+  });
+
+  it("should skip records that Todoist will never know about", async () => {
+    db.todoistOutboxEntry.findFirst.mockResolvedValue(null);
+
+    const entry = await enqueueTodoistChange(db as unknown as PrismaClient, "user-1", {
+      entityType: "TASK",
+      operation: "UPDATE",
+      entityId: "task-1",
+      payload: { content: "Local only" },
+    });
+
+    expect(entry).toBeNull();
+    expect(db.todoistOutboxEntry.create).not.toHaveBeenCalled();
+  });
+
+  it("should queue updates behind a pending create", async () => {
+    db.todoistOutboxEntry.findFirst.mockResolvedValue({ id: "create-entry" });
+
+    await enqueueTodoistChange(db as unknown as PrismaClient, "user-1", {
+      entityType: "TASK",
+      operation: "UPDATE",
+      entityId: "task-1",
+      payload: { content: "Renamed" },
+    });
+
+    expect(db.todoistOutboxEntry.create).toHaveBeenCalled();
+  });
+
+  it("should drop queued changes when a record is deleted before it was pushed", async () => {
+    db.todoistOutboxEntry.findFirst.mockResolvedValue({ id: "create-entry" });
+
+    await enqueueTodoistChange(db as unknown as PrismaClient, "user-1", {
+      entityType: "PROJECT",
+      operation: "DELETE",
+      entityId: "project-1",
+    });
+
+    expect(db.todoistOutboxEntry.deleteMany).toHaveBeenCalledWith({
+      where: { userId: "user-1", entityType: "PROJECT", entityId: "project-1" },
+    });
+    expect(db.todoistOutboxEntry.create).not.toHaveBeenCalled();
+  });
+});
+
+describe("drainTodoistOutbox", () => {
+  let db: ReturnType<typeof createMockDb>;
+  let todoist: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2024-06-01T10:00:00Z"));
+    db = createMockDb();
+    todoist = {
+      createTask: vi.fn().mockResolvedValue({ id: "todoist-task-new" }),
+      updateTask: vi.fn().mockResolvedValue({}),
+      closeTask: vi.fn().mockResolvedValue(undefined),
+      deleteProject: vi.fn().mockResolvedValue(undefined),
+      createSection: vi.fn().mockResolvedValue({ id: "todoist-section-new" }),
+      moveTask: vi.fn().mockResolvedValue(undefined),
+      createComment: vi.fn().mockResolvedValue({ id: "todoist-comment-new" }),
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const drain = (force = false) =>
+    drainTodoistOutbox(db as unknown as PrismaClient, "user-1", {
+      todoist: todoist as unknown as TodoistService,
+      force,
+    });
+
+  it("should push entries in order and remove them", async () => {
+    db.todoistOutboxEntry.findMany.mockResolvedValue([
+      createEntry({ id: "entry-1", operation: "CLOSE", payload: null }),
+      createEntry({ id: "entry-2" }),
+      createEntry({
+        id: "entry-3",
+        entityType: "PROJECT",
+        operation: "DELETE",
+        entityId: "project-1",
+        todoistId: "todoist-project-1",
+        payload: null,
+      }),
+    ]);
+
+    const result = await drain();
+
+    expect(result).toEqual({ pushed: 3, failed: 0, pending: 0 });
+    expect(todoist.closeTask).toHaveBeenCalledWith("todoist-task-1");
+    expect(todoist.updateTask).toHaveBeenCalledWith("todoist-task-1", { content: "Updated" });
+    expect(todoist.deleteProject).toHaveBeenCalledWith("todoist-project-1");
+    expect(db.todoistOutboxEntry.deleteMany).toHaveBeenCalledTimes(3);
+    expect(db.task.updateMany).toHaveBeenCalledWith({
+      where: { id: "task-1" },
+      data: { syncedAt: expect.any(Date) },
+    });
+  });
+
+  it("should link the local task after creating it in Todoist", async () => {
+    db.todoistOutboxEntry.findMany.mockResolvedValue([
+      createEntry({ operation: "CREATE", todoistId: null, payload: { content: "New task" } }),
+    ]);
+    db.task.findUnique.mockResolvedValue({
+      title: "New task",
+      description: null,
+      priority: 1,
+      dueDate: null,
+      labels: [{ name: "work" }],
+      project: { todoistId: "todoist-project-1" },
+      section: null,
+      parent: { todoistId: "todoist-task-parent" },
+    });
+
+    await drain();
+
+    expect(todoist.createTask).toHaveBeenCalledWith({
+      content: "New task",
+      project_id: "todoist-project-1",
+      section_id: undefined,
+      parent_id: "todoist-task-parent",
+    });
+    expect(db.task.update).toHaveBeenCalledWith({
+      where: { id: "task-1" },
+      data: {
+        todoistId: "todoist-task-new",
+        syncedAt: expect.any(Date),
+        syncSnapshot: {
+          title: "New task",
+          description: "",
+          priority: 1,
+          dueDate: null,
+          labels: ["work"],
+        },
+      },
+    });
+  });
+
+  it("should resolve the Todoist id of records created after the change was queued", async () => {
+    db.todoistOutboxEntry.findMany.mockResolvedValue([createEntry({ todoistId: null })]);
+    db.task.findUnique.mockResolvedValue({ todoistId: "todoist-task-late" });
+
+    await drain();
+
+    expect(todoist.updateTask).toHaveBeenCalledWith("todoist-task-late", { content: "Updated" });
+  });
+
+  it("should hold back later changes to a record after a failure and schedule a retry", async () => {
+    db.todoistOutboxEntry.findMany.mockResolvedValue([
+      createEntry({ id: "entry-1", attempts: 2 }),
+      createEntry({ id: "entry-2", operation: "CLOSE", payload: null }),
+    ]);
+    todoist.updateTask!.mockRejectedValue(new Error("Todoist API error: Service Unavailable"));
+
+    const result = await drain();
+
+    expect(result).toEqual({ pushed: 0, failed: 1, pending: 2 });
+    expect(todoist.closeTask).not.toHaveBeenCalled();
+    expect(db.todoistOutboxEntry.deleteMany).not.toHaveBeenCalled();
+    expect(db.todoistOutboxEntry.update).toHaveBeenCalledWith({
+      where: { id: "entry-1" },
+      data: {
+        attempts: { increment: 1 },
+        lastError: "Todoist API error: Service Unavailable",
+        nextAttemptAt: new Date("2024-06-01T10:02:00Z"),
+      },
+    });
+  });
+
+  it("should carry on with other records after a failure", async () => {
+    db.todoistOutboxEntry.findMany.mockResolvedValue([
+      createEntry({ id: "entry-1" }),
+      createEntry({
+        id: "entry-2",
+        operation: "CLOSE",
+        entityId: "task-2",
+        todoistId: "todoist-task-2",
+        payload: null,
+      }),
+    ]);
+    todoist.updateTask!.mockRejectedValue(new Error("Todoist API error: Bad Request"));
+
+    const result = await drain();
+
+    expect(result).toEqual({ pushed: 1, failed: 1, pending: 1 });
+    expect(todoist.closeTask).toHaveBeenCalledWith("todoist-task-2");
+    expect(db.todoistOutboxEntry.deleteMany).toHaveBeenCalledWith({ where: { id: "entry-2" } });
+  });
+
+  it("should give up after too many attempts until retried by hand", async () => {
+    db.todoistOutboxEntry.findMany.mockResolvedValue([
+      createEntry({ id: "entry-1", attempts: MAX_ATTEMPTS - 1 }),
+    ]);
+    todoist.updateTask!.mockRejectedValue(new Error("Todoist API error: Bad Request"));
+
+    expect(await drain()).toEqual({ pushed: 0, failed: 1, pending: 0 });
+    expect(db.todoistOutboxEntry.update).toHaveBeenCalledWith({
+      where: { id: "entry-1" },
+      data: expect.objectContaining({ failedAt: new Date("2024-06-01T10:00:00Z") }),
+    });
+
+    db.todoistOutboxEntry.findMany.mockResolvedValue([
+      createEntry({ id: "entry-1", attempts: MAX_ATTEMPTS, failedAt: new Date() }),
+      createEntry({ id: "entry-2", operation: "CLOSE", payload: null }),
+    ]);
+    todoist.updateTask!.mockClear();
+
+    expect(await drain()).toEqual({ pushed: 0, failed: 0, pending: 1 });
+    expect(todoist.updateTask).not.toHaveBeenCalled();
+    expect(todoist.closeTask).not.toHaveBeenCalled();
+
+    todoist.updateTask!.mockResolvedValue({});
+    expect(await drain(true)).toEqual({ pushed: 2, failed: 0, pending: 0 });
+  });
+
+  it("should treat changes to records deleted in Todoist as done", async () => {
+    db.todoistOutboxEntry.findMany.mockResolvedValue([
+      createEntry({ id: "entry-1" }),
+      createEntry({ id: "entry-2", operation: "CLOSE", payload: null }),
+    ]);
+    todoist.updateTask!.mockRejectedValue(new TodoistApiError(404, "Not Found"));
+    todoist.closeTask!.mockRejectedValue(new TodoistApiError(404, "Not Found"));
+
+    const result = await drain();
+
+    expect(result).toEqual({ pushed: 2, failed: 0, pending: 0 });
+    expect(db.task.updateMany).not.toHaveBeenCalled();
+    expect(db.todoistOutboxEntry.update).not.toHaveBeenCalled();
+  });
+
+  it("should wait for a task's project to be created first", async () => {
+    db.todoistOutboxEntry.findMany.mockResolvedValue([
+      createEntry({ operation: "CREATE", todoistId: null, payload: { content: "New task" } }),
+    ]);
+    db.task.findUnique.mockResolvedValue({
+      title: "New task",
+      labels: [],
+      project: { id: "project-1", todoistId: null },
+      section: null,
+      parent: null,
+    });
+    db.todoistOutboxEntry.findFirst.mockResolvedValue({ id: "entry-0" });
+
+    const result = await drain();
+
+    expect(result.failed).toBe(1);
+    expect(todoist.createTask).not.toHaveBeenCalled();
+    expect(db.todoistOutboxEntry.findFirst).toHaveBeenCalledWith({
+      where: { userId: "user-1", entityType: "PROJECT", entityId: "project-1", operation: "CREATE" },
+      select: { id: true },
+    });
+  });
+
+  it("should wait for a section's project to be created first", async () => {
+    db.todoistOutboxEntry.findMany.mockResolvedValue([
+      createEntry({
+        entityType: "SECTION",
+        operation: "CREATE",
+        entityId: "section-1",
+        todoistId: null,
+        payload: { name: "Backlog" },
+      }),
+    ]);
+    db.section.findUnique.mockResolvedValue({ project: { todoistId: null } });
+
+    const result = await drain();
+
+    expect(result.failed).toBe(1);
+    expect(todoist.createSection).not.toHaveBeenCalled();
+    expect(db.todoistOutboxEntry.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          lastError: "Waiting for project to be created in Todoist",
+        }),
+      }),
+    );
+  });
+
+  it("should post a comment on its task once the task is in Todoist", async () => {
+    db.todoistOutboxEntry.findMany.mockResolvedValue([
+      createEntry({
+        entityType: "COMMENT",
+        operation: "CREATE",
+        entityId: "comment-1",
+        todoistId: null,
+        payload: { content: "Ask about **pricing**" },
+      }),
+    ]);
+    db.comment.findUnique.mockResolvedValue({
+      task: { todoistId: "todoist-task-1" },
+      project: null,
+    });
+
+    await drain();
+
+    expect(todoist.createComment).toHaveBeenCalledWith({
+      content: "Ask about **pricing**",
+      task_id: "todoist-task-1",
+    });
+    expect(db.comment.update).toHaveBeenCalledWith({
+      where: { id: "comment-1" },
+      data: { todoistId: "todoist-comment-new", syncedAt: expect.any(Date) },
+    });
+  });
+
+  it("should move a task under its current parent", async () => {
+    db.todoistOutboxEntry.findMany.mockResolvedValue([
+      createEntry({ operation: "MOVE", payload: null }),
+    ]);
+    db.task.findUnique.mockResolvedValue({
+      parent: { todoistId: "todoist-task-parent" },
+      section: null,
+      project: { todoistId: "todoist-project-1" },
+    });
+
+    await drain();
+
+    expect(todoist.moveTask).toHaveBeenCalledWith("todoist-task-1", {
+      parent_id: "todoist-task-parent",
+    });
+  });
+
+  it("should move a task out of its parent into its project", async () => {
+    db.todoistOutboxEntry.findMany.mockResolvedValue([
+      createEntry({ operation: "MOVE", payload: null }),
+    ]);
+    db.task.findUnique.mockResolvedValue({
+      parent: null,
+      section: null,
+      project: { todoistId: "todoist-project-1" },
+    });
+
+    await drain();
+
+    expect(todoist.moveTask).toHaveBeenCalledWith("todoist-task-1", {
+      project_id: "todoist-project-1",
+    });
+  });
+
+  it("should leave entries alone until their retry is due unless forced", async () => {
+    db.todoistOutboxEntry.findMany.mockResolvedValue([
+      createEntry({ attempts: 1, nextAttemptAt: new Date("2024-06-01T10:05:00Z") }),
+    ]);
+
+    expect(await drain()).toEqual({ pushed: 0, failed: 0, pending: 1 });
+    expect(todoist.updateTask).not.toHaveBeenCalled();
+
+    expect(await drain(true)).toEqual({ pushed: 1, failed: 0, pending: 0 });
+  });
+
+  it("should keep everything pending when Todoist is not configured", async () => {
+    db.user.findUnique.mockResolvedValue({ todoistApiToken: null });
+    db.todoistOutboxEntry.findMany.mockResolvedValue([createEntry(), createEntry({ id: "entry-2" })]);
+
+    const result = await drainTodoistOutbox(db as unknown as PrismaClient, "user-1");
+
+    expect(result).toEqual({ pushed: 0, failed: 0, pending: 2 });
+  });
+});
+
+describe("getRetryDelay", () => {
+  it("should back off exponentially up to an hour", () => {
+    expect(getRetryDelay(0)).toBe(30 * 1000);
+    expect(getRetryDelay(3)).toBe(4 * 60 * 1000);
+    expect(getRetryDelay(20)).toBe(60 * 60 * 1000);
+  });
+});
@@ -0,0 +1,1024 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { PrismaClient } from "@prisma/client";
+import { TodoistSyncTokenError, type TodoistService } from "../todoist";
+import {
+  linkTodoistParents,
+  previewTodoistSync,
+  syncTodoistChanges,
+  syncTodoistLabels,
+} from "../todoist-sync";
+
+vi.mock("~/env", () => ({
+  env: {
+    TODOIST_API_KEY: undefined,
+  },
+}));
+
+const createMockDb = () =>
+  ({
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+    user: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    project: {
+      findMany: vi.fn().mockResolvedValue([]),
+      create: vi.fn().mockResolvedValue({}),
+      update: vi.fn().mockResolvedValue({}),
+      updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+      deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
+    },
+    section: {
+      findMany: vi.fn().mockResolvedValue([]),
+      create: vi.fn().mockResolvedValue({}),
+      update: vi.fn().mockResolvedValue({}),
+      updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+      deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
+    },
+    task: {
+      findMany: vi.fn().mockResolvedValue([]),
+      create: vi.fn().mockResolvedValue({}),
+      update: vi.fn().mockResolvedValue({}),
+      updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+      deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
+    },
+    label: {
+      findMany: vi.fn().mockResolvedValue([]),
+      create: vi.fn().mockResolvedValue({}),
+      update: vi.fn().mockResolvedValue({}),
+    },
+    syncConflict: {
+      upsert: vi.fn().mockResolvedValue({}),
+    },
+    todoistOutboxEntry: {
+      create: vi.fn().mockResolvedValue({}),
+    },
+    taskEvent: {
+      createMany: vi.fn().mockResolvedValue({ count: 0 }),
+    },
+    comment: {
+      findMany: vi.fn().mockResolvedValue([]),
+      create: vi.fn().mockResolvedValue({}),
+      update: vi.fn().mockResolvedValue({}),
+      deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
+    },
+  }) as any;
+
+const RESOURCE_TYPES = ["projects", "sections", "items", "notes", "project_notes"];
+
+const createItem = (overrides: Record<string, unknown> = {}) => ({
+  id: "item-1",
+  content: "Remote task",
+  description: "",
+  priority: 4,
+  due: { date: "2024-06-20", string: "Jun 20", is_recurring: false },
+  labels: ["work"],
+  project_id: "todoist-project-1",
+  section_id: null,
+  parent_id: null,
+  child_order: 1,
+  checked: false,
+  is_deleted: false,
+  added_at: "2024-06-01T00:00:00Z",
+  ...overrides,
+});
+
+// A linked local task that matches createItem()
+const createLocalTask = (overrides: Record<string, unknown> = {}) => ({
+  id: "local-task-1",
+  todoistId: "item-1",
+  completed: false,
+  title: "Remote task",
+  description: "",
+  priority: 1,
+  dueDate: new Date("2024-06-20"),
+  recurrence: null,
+  updatedAt: new Date("2024-06-01T00:00:00Z"),
+  syncSnapshot: null,
+  parentId: null,
+  labels: [{ name: "work" }],
+  ...overrides,
+});
+
+// Removal candidates are looked up with OR, linked records by their Todoist ids
+const mockRecords = (
+  findMany: ReturnType<typeof vi.fn>,
+  { linked = [], removed = [] }: { linked?: unknown[]; removed?: unknown[] },
+) =>
+  findMany.mockImplementation(({ where }: { where: { OR?: unknown } }) =>
+    Promise.resolve(where.OR ? removed : linked),
+  );
+
+const snapshot = {
+  title: "Remote task",
+  description: "",
+  priority: 1,
+  dueDate: "2024-06-20",
+  recurrence: null,
+  labels: ["work"],
+};
+
+describe("syncTodoistChanges", () => {
+  let db: ReturnType<typeof createMockDb>;
+  let todoist: { sync: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    db = createMockDb();
+    todoist = { sync: vi.fn() };
+  });
+
+  const runSync = () =>
+    syncTodoistChanges(
+      db as unknown as PrismaClient,
+      "user-1",
+      todoist as unknown as TodoistService,
+    );
+
+  it("should request a full sync when no token is stored", async () => {
+    db.user.findUnique.mockResolvedValue({ todoistSyncToken: null });
+    todoist.sync.mockResolvedValue({ sync_token: "token-1", full_sync: true });
+
+    const result = await runSync();
+
+    expect(todoist.sync).toHaveBeenCalledWith("*", RESOURCE_TYPES);
+    expect(result.fullSync).toBe(true);
+    expect(db.user.update).toHaveBeenCalledWith({
+      where: { id: "user-1" },
+      data: { todoistSyncToken: "token-1", todoistLastSyncAt: expect.any(Date) },
+    });
+  });
+
+  it("should only request changes since the stored token", async () => {
+    db.user.findUnique.mockResolvedValue({ todoistSyncToken: "token-1" });
+    todoist.sync.mockResolvedValue({ sync_token: "token-2", full_sync: false });
+
+    const result = await runSync();
+
+    expect(todoist.sync).toHaveBeenCalledTimes(1);
+    expect(todoist.sync).toHaveBeenCalledWith("token-1", RESOURCE_TYPES);
+    expect(result.fullSync).toBe(false);
+  });
+
+  it("should fall back to a full sync when the token is rejected", async () => {
+    db.user.findUnique.mockResolvedValue({ todoistSyncToken: "stale-token" });
+    todoist.sync
+      .mockRejectedValueOnce(new TodoistSyncTokenError())
+      .mockResolvedValueOnce({ sync_token: "token-3", full_sync: true });
+
+    const result = await runSync();
+
+    expect(todoist.sync).toHaveBeenNthCalledWith(2, "*", RESOURCE_TYPES);
+    expect(result.fullSync).toBe(true);
+    expect(db.user.update).toHaveBeenCalledWith({
+      where: { id: "user-1" },
+      data: { todoistSyncToken: "token-3", todoistLastSyncAt: expect.any(Date) },
+    });
+  });
+
+  it("should not advance the token when applying changes fails", async () => {
+    db.user.findUnique.mockResolvedValue({ todoistSyncToken: "token-1" });
+    todoist.sync.mockResolvedValue({
+      sync_token: "token-2",
+      full_sync: false,
+      items: [createItem()],
+    });
+    db.task.create.mockRejectedValue(new Error("Database unavailable"));
+
+    await expect(runSync()).rejects.toThrow("Database unavailable");
+    expect(db.user.update).not.toHaveBeenCalled();
+  });
+
+  it("should create and update projects in a single batch", async () => {
+    db.user.findUnique.mockResolvedValue({ todoistSyncToken: null });
+    todoist.sync.mockResolvedValue({
+      sync_token: "token-1",
+      full_sync: true,
+      projects: [
+        {
+          id: "todoist-project-1",
+          name: "Existing",
+          color: "red",
+          parent_id: null,
+          child_order: 1,
+          is_favorite: false,
+          is_archived: false,
+          is_deleted: false,
+          view_style: "list",
+        },
+        {
+          id: "todoist-project-2",
+          name: "New",
+          color: "blue",
+          parent_id: null,
+          child_order: 2,
+          is_favorite: true,
+          is_archived: false,
+          is_deleted: false,
+          view_style: "board",
+        },
+      ],
+    });
+    mockRecords(db.project.findMany, {
+      linked: [{ id: "local-project-1", todoistId: "todoist-project-1", name: "Existing" }],
+    });
+
+    const result = await runSync();
+
+    expect(result.projects).toEqual({ imported: 1, updated: 1, completed: 0, deleted: 0 });
+    expect(db.project.update).toHaveBeenCalledWith({
+      where: { id: "local-project-1" },
+      data: expect.objectContaining({ name: "Existing", order: 1 }),
+    });
+    expect(db.project.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        name: "New",
+        todoistId: "todoist-project-2",
+        isFavorite: true,
+        userId: "user-1",
+      }),
+    });
+  });
+
+  it("should skip sections whose project is unknown", async () => {
+    db.user.findUnique.mockResolvedValue({ todoistSyncToken: "token-1" });
+    todoist.sync.mockResolvedValue({
+      sync_token: "token-2",
+      full_sync: false,
+      sections: [
+        {
+          id: "todoist-section-1",
+          name: "Orphan",
+          project_id: "missing-project",
+          section_order: 1,
+          is_archived: false,
+          is_deleted: false,
+        },
+      ],
+    });
+
+    const result = await runSync();
+
+    expect(result.sections).toEqual({ imported: 0, updated: 0, deleted: 0 });
+    expect(db.section.create).not.toHaveBeenCalled();
+  });
+
+  it("should keep the rule of recurring tasks", async () => {
+    db.user.findUnique.mockResolvedValue({ todoistSyncToken: "token-1" });
+    todoist.sync.mockResolvedValue({
+      sync_token: "token-2",
+      full_sync: false,
+      items: [
+        createItem({
+          due: { date: "2024-06-20", string: "every weekday", is_recurring: true },
+        }),
+      ],
+    });
+
+    await runSync();
+
+    expect(db.task.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        dueDate: new Date("2024-06-20"),
+        recurrence: "every weekday",
+        syncSnapshot: { ...snapshot, recurrence: "every weekday" },
+      }),
+    });
+  });
+
+  it("should map tasks to local projects that did not change in this sync", async () => {
+    db.user.findUnique.mockResolvedValue({ todoistSyncToken: "token-1" });
+    todoist.sync.mockResolvedValue({
+      sync_token: "token-2",
+      full_sync: false,
+      items: [
+        createItem(),
+        createItem({ id: "item-2", content: "Changed task", labels: [] }),
+        createItem({ id: "item-3", is_deleted: true }),
+      ],
+    });
+    mockRecords(db.project.findMany, {
+      linked: [{ id: "local-project-1", todoistId: "todoist-project-1" }],
+    });
+    mockRecords(db.task.findMany, {
+      linked: [
+        createLocalTask({ id: "local-task-2", todoistId: "item-2", labels: [{ name: "old" }] }),
+      ],
+    });
+
+    const result = await runSync();
+
+    expect(result.tasks).toEqual({ imported: 1, updated: 1, completed: 0, deleted: 0 });
+    expect(db.task.create).toHaveBeenCalledTimes(1);
+    expect(db.task.create).toHaveBeenCalledWith({
+      data: {
+        title: "Remote task",
+        description: "",
+        completed: false,
+        priority: 1,
+        dueDate: new Date("2024-06-20"),
+        recurrence: null,
+        order: 1,
+        syncedAt: expect.any(Date),
+        syncSnapshot: snapshot,
+        projectId: "local-project-1",
+        sectionId: null,
+        todoistId: "item-1",
+        userId: "user-1",
+        labels: {
+          connectOrCreate: [
+            {
+              where: { userId_name: { userId: "user-1", name: "work" } },
+              create: { name: "work", userId: "user-1" },
+            },
+          ],
+        },
+        events: { create: { type: "SYNCED", userId: "user-1" } },
+      },
+    });
+    expect(db.task.update).toHaveBeenCalledWith({
+      where: { id: "local-task-2" },
+      data: { labels: { set: [] } },
+    });
+    expect(db.task.update).toHaveBeenCalledWith({
+      where: { id: "local-task-2" },
+      data: expect.objectContaining({ title: "Changed task", projectId: "local-project-1" }),
+    });
+    // The task's activity shows what the sync overwrote
+    expect(db.task.update.mock.calls[1][0].data.events.create.changes).toEqual({
+      title: { from: "Remote task", to: "Changed task" },
+      labels: { from: ["old"], to: [] },
+    });
+  });
+
+  it("should import comments on linked tasks and projects", async () => {
+    db.user.findUnique.mockResolvedValue({ todoistSyncToken: "token-1" });
+    todoist.sync.mockResolvedValue({
+      sync_token: "token-2",
+      full_sync: false,
+      notes: [
+        {
+          id: "note-1",
+          item_id: "item-1",
+          content: "Ask about **pricing**",
+          posted_at: "2024-06-02T08:00:00Z",
+          is_deleted: false,
+        },
+        {
+          id: "note-2",
+          item_id: "unknown-item",
+          content: "Orphan",
+          posted_at: "2024-06-02T08:00:00Z",
+          is_deleted: false,
+        },
+        {
+          id: "note-3",
+          item_id: "item-1",
+          content: "Gone",
+          posted_at: "2024-06-02T08:00:00Z",
+          is_deleted: true,
+        },
+      ],
+      project_notes: [
+        {
+          id: "project-note-1",
+          project_id: "todoist-project-1",
+          content: "Edited in Todoist",
+          posted_at: "2024-06-01T08:00:00Z",
+          is_deleted: false,
+        },
+      ],
+    });
+    mockRecords(db.task.findMany, {
+      linked: [{ id: "local-task-1", todoistId: "item-1" }],
+    });
+    mockRecords(db.project.findMany, {
+      linked: [{ id: "local-project-1", todoistId: "todoist-project-1" }],
+    });
+    db.comment.findMany.mockResolvedValue([
+      { id: "comment-1", todoistId: "project-note-1", content: "Written here" },
+    ]);
+    db.comment.deleteMany.mockResolvedValue({ count: 1 });
+
+    const result = await runSync();
+
+    expect(result.comments).toEqual({ imported: 1, updated: 1, deleted: 1 });
+    expect(db.comment.deleteMany).toHaveBeenCalledWith({
+      where: { userId: "user-1", todoistId: { in: ["note-3"] } },
+    });
+    expect(db.comment.create).toHaveBeenCalledTimes(1);
+    expect(db.comment.create).toHaveBeenCalledWith({
+      data: {
+        content: "Ask about **pricing**",
+        todoistId: "note-1",
+        createdAt: new Date("2024-06-02T08:00:00Z"),
+        syncedAt: expect.any(Date),
+        userId: "user-1",
+        taskId: "local-task-1",
+      },
+    });
+    expect(db.comment.update).toHaveBeenCalledWith({
+      where: { id: "comment-1" },
+      data: { content: "Edited in Todoist", syncedAt: expect.any(Date) },
+    });
+  });
+
+  describe("removals", () => {
+    it("should complete and unlink tasks deleted in Todoist by default", async () => {
+      db.user.findUnique.mockResolvedValue({ todoistSyncToken: "token-1" });
+      todoist.sync.mockResolvedValue({
+        sync_token: "token-2",
+        full_sync: false,
+        items: [createItem({ id: "item-1", is_deleted: true })],
+      });
+      mockRecords(db.task.findMany, {
+        removed: [{ id: "local-task-1", todoistId: "item-1", title: "Remote task" }],
+      });
+      db.task.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await runSync();
+
+      expect(result.tasks).toEqual({ imported: 0, updated: 0, completed: 1, deleted: 0 });
+      expect(db.taskEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ taskId: "local-task-1", type: "SYNCED", userId: "user-1" }),
+        ],
+      });
+      expect(db.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: "user-1", deletedAt: null, OR: [{ todoistId: { in: ["item-1"] } }] },
+        }),
+      );
+      expect(db.task.updateMany).toHaveBeenCalledWith({
+        where: { userId: "user-1", id: { in: ["local-task-1"] } },
+        data: { completed: true, todoistId: null },
+      });
+      expect(db.task.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it("should move removed tasks and projects to the trash when the policy says so", async () => {
+      db.user.findUnique.mockResolvedValue({
+        todoistSyncToken: "token-1",
+        todoistRemovalPolicy: "DELETE",
+      });
+      todoist.sync.mockResolvedValue({
+        sync_token: "token-2",
+        full_sync: false,
+        projects: [{ id: "todoist-project-1", is_deleted: true }],
+        items: [createItem({ id: "item-1", is_deleted: true })],
+      });
+      // The removed records are looked up again to be trashed
+      const mockRemoved = (findMany: ReturnType<typeof vi.fn>, removed: unknown) =>
+        findMany.mockImplementation(({ where }: { where: { OR?: unknown; id?: unknown } }) =>
+          Promise.resolve(where.OR || where.id ? [removed] : []),
+        );
+      mockRemoved(db.project.findMany, {
+        id: "local-project-1",
+        todoistId: "todoist-project-1",
+        name: "Gone",
+      });
+      mockRemoved(db.task.findMany, { id: "local-task-1", todoistId: "item-1", title: "Remote task" });
+
+      const result = await runSync();
+
+      expect(result.projects.deleted).toBe(1);
+      expect(result.tasks.deleted).toBe(1);
+      expect(db.project.findMany).toHaveBeenCalledWith({
+        where: { userId: "user-1", id: { in: ["local-project-1"] }, deletedAt: null },
+        select: { id: true },
+      });
+      expect(db.project.update).toHaveBeenCalledWith({
+        where: { id: "local-project-1" },
+        data: { deletedAt: expect.any(Date) },
+      });
+      expect(db.project.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ["local-project-1"] } },
+        data: { todoistId: null },
+      });
+      expect(db.task.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ["local-task-1"] }, deletedAt: null },
+        data: { deletedAt: expect.any(Date) },
+      });
+      expect(db.task.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ["local-task-1"] } },
+        data: { todoistId: null },
+      });
+      expect(db.taskEvent.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ taskId: "local-task-1", type: "DELETED" })],
+      });
+      expect(db.project.deleteMany).not.toHaveBeenCalled();
+      expect(db.task.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it("should always move sections removed in Todoist to the trash", async () => {
+      db.user.findUnique.mockResolvedValue({ todoistSyncToken: "token-1" });
+      todoist.sync.mockResolvedValue({
+        sync_token: "token-2",
+        full_sync: false,
+        sections: [{ id: "todoist-section-1", is_deleted: true }],
+      });
+      mockRecords(db.section.findMany, {
+        removed: [{ id: "local-section-1", todoistId: "todoist-section-1", name: "Old" }],
+      });
+
+      const result = await runSync();
+
+      expect(result.sections.deleted).toBe(1);
+      expect(db.section.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            project: { userId: "user-1" },
+            deletedAt: null,
+            OR: [{ todoistId: { in: ["todoist-section-1"] } }],
+          },
+        }),
+      );
+      expect(db.section.update).toHaveBeenCalledWith({
+        where: { id: "local-section-1" },
+        data: { deletedAt: expect.any(Date) },
+      });
+      expect(db.task.updateMany).toHaveBeenCalledWith({
+        where: { sectionId: "local-section-1", deletedAt: null },
+        data: { deletedAt: expect.any(Date) },
+      });
+      expect(db.section.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ["local-section-1"] }, project: { userId: "user-1" } },
+        data: { todoistId: null },
+      });
+      expect(db.section.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it("should leave projects in the trash and their sections alone", async () => {
+      db.user.findUnique.mockResolvedValue({ todoistSyncToken: "token-1" });
+      todoist.sync.mockResolvedValue({
+        sync_token: "token-2",
+        full_sync: false,
+        projects: [{ id: "todoist-project-1", name: "Renamed in Todoist", is_deleted: false }],
+        sections: [
+          {
+            id: "todoist-section-1",
+            name: "New",
+            project_id: "todoist-project-1",
+            is_deleted: false,
+          },
+        ],
+      });
+      const trashed = {
+        id: "local-project-1",
+        todoistId: "todoist-project-1",
+        name: "Gone",
+        deletedAt: new Date("2024-06-10"),
+      };
+      db.project.findMany.mockImplementation(({ where }: { where: { deletedAt?: null } }) =>
+        Promise.resolve(where.deletedAt === null ? [] : [trashed]),
+      );
+
+      const result = await runSync();
+
+      expect(result.projects).toEqual({ imported: 0, updated: 0, completed: 0, deleted: 0 });
+      expect(result.sections.imported).toBe(0);
+      expect(db.project.create).not.toHaveBeenCalled();
+      expect(db.project.update).not.toHaveBeenCalled();
+      expect(db.section.create).not.toHaveBeenCalled();
+    });
+
+    it("should leave tasks in the trash alone", async () => {
+      db.user.findUnique.mockResolvedValue({ todoistSyncToken: "token-1" });
+      todoist.sync.mockResolvedValue({
+        sync_token: "token-2",
+        full_sync: false,
+        items: [createItem({ content: "Edited in Todoist" })],
+      });
+      mockRecords(db.task.findMany, {
+        linked: [createLocalTask({ deletedAt: new Date("2024-06-10") })],
+      });
+
+      const result = await runSync();
+
+      expect(result.tasks).toEqual({ imported: 0, updated: 0, completed: 0, deleted: 0 });
+      expect(db.task.create).not.toHaveBeenCalled();
+      expect(db.task.update).not.toHaveBeenCalled();
+    });
+
+    it("should reconcile linked records missing from a full sync", async () => {
+      db.user.findUnique.mockResolvedValue({ todoistSyncToken: null });
+      todoist.sync.mockResolvedValue({
+        sync_token: "token-1",
+        full_sync: true,
+        items: [createItem({ id: "item-1" })],
+      });
+      mockRecords(db.task.findMany, {
+        removed: [
+          { id: "local-task-2", todoistId: "item-2", title: "Missing" },
+          { id: "local-task-3", todoistId: "item-3", title: "Also missing" },
+        ],
+      });
+      mockRecords(db.project.findMany, {
+        removed: [{ id: "local-project-1", todoistId: "todoist-project-1", name: "Archived" }],
+      });
+      db.task.updateMany.mockResolvedValue({ count: 2 });
+
+      const result = await runSync();
+
+      expect(result.tasks.completed).toBe(2);
+      expect(db.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: "user-1",
+            deletedAt: null,
+            OR: [
+              { todoistId: { in: [] } },
+              { completed: false, todoistId: { not: null, notIn: ["item-1"] } },
+            ],
+          },
+        }),
+      );
+      // Missing records keep their Todoist id in case they come back
+      expect(db.task.updateMany).toHaveBeenCalledWith({
+        where: { userId: "user-1", id: { in: ["local-task-2", "local-task-3"] } },
+        data: { completed: true },
+      });
+      expect(db.project.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: "user-1",
+            deletedAt: null,
+            OR: [
+              { todoistId: { in: [] } },
+              {
+                todoistId: { not: null, notIn: [] },
+                status: { notIn: ["COMPLETED", "ARCHIVED"] },
+              },
+            ],
+          },
+        }),
+      );
+      expect(db.project.updateMany).toHaveBeenCalledWith({
+        where: { userId: "user-1", id: { in: ["local-project-1"] } },
+        data: { status: "COMPLETED" },
+      });
+    });
+
+    it("should not reconcile missing records on incremental syncs", async () => {
+      db.user.findUnique.mockResolvedValue({ todoistSyncToken: "token-1" });
+      todoist.sync.mockResolvedValue({ sync_token: "token-2", full_sync: false });
+
+      await runSync();
+
+      expect(db.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: "user-1", deletedAt: null, OR: [{ todoistId: { in: [] } }] },
+        }),
+      );
+      expect(db.task.updateMany).not.toHaveBeenCalled();
+      expect(db.project.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should count tasks completed in Todoist", async () => {
+      db.user.findUnique.mockResolvedValue({ todoistSyncToken: "token-1" });
+      todoist.sync.mockResolvedValue({
+        sync_token: "token-2",
+        full_sync: false,
+        items: [
+          createItem({ id: "item-1", checked: true }),
+          createItem({ id: "item-2", checked: true }),
+        ],
+      });
+      mockRecords(db.task.findMany, {
+        linked: [
+          createLocalTask(),
+          createLocalTask({ id: "local-task-2", todoistId: "item-2", completed: true }),
+        ],
+      });
+
+      const result = await runSync();
+
+      expect(result.tasks).toEqual({ imported: 0, updated: 2, completed: 1, deleted: 0 });
+      expect(db.task.update).toHaveBeenCalledWith({
+        where: { id: "local-task-1" },
+        data: expect.objectContaining({ completed: true }),
+      });
+    });
+  });
+
+  describe("conflicts", () => {
+    const base = { ...snapshot, title: "Original task" };
+
+    beforeEach(() => {
+      todoist.sync.mockResolvedValue({
+        sync_token: "token-2",
+        full_sync: false,
+        items: [createItem({ updated_at: "2024-06-02T00:00:00Z" })],
+      });
+    });
+
+    it("should keep fields that only changed locally", async () => {
+      db.user.findUnique.mockResolvedValue({ todoistSyncToken: "token-1" });
+      mockRecords(db.task.findMany, {
+        linked: [createLocalTask({ title: "Original task", priority: 3, syncSnapshot: base })],
+      });
+
+      const result = await runSync();
+
+      expect(result.conflicts).toBe(0);
+      expect(db.task.update).toHaveBeenCalledTimes(1);
+      const { data } = db.task.update.mock.calls[0][0];
+      expect(data).toMatchObject({ title: "Remote task", syncSnapshot: snapshot });
+      expect(data).not.toHaveProperty("priority");
+      expect(db.todoistOutboxEntry.create).not.toHaveBeenCalled();
+    });
+
+    it("should store conflicts and keep the local value when asked to", async () => {
+      db.user.findUnique.mockResolvedValue({
+        todoistSyncToken: "token-1",
+        todoistConflictStrategy: "ASK",
+      });
+      mockRecords(db.task.findMany, {
+        linked: [createLocalTask({ title: "Local task", syncSnapshot: base })],
+      });
+
+      const result = await runSync();
+
+      expect(result.conflicts).toBe(1);
+      expect(db.task.update.mock.calls[0][0].data).not.toHaveProperty("title");
+      expect(db.syncConflict.upsert).toHaveBeenCalledWith({
+        where: { taskId_field: { taskId: "local-task-1", field: "title" } },
+        create: {
+          field: "title",
+          localValue: '"Local task"',
+          remoteValue: '"Remote task"',
+          baseValue: '"Original task"',
+          taskId: "local-task-1",
+          userId: "user-1",
+        },
+        update: {
+          localValue: '"Local task"',
+          remoteValue: '"Remote task"',
+          baseValue: '"Original task"',
+        },
+      });
+    });
+
+    it("should push local values that win a conflict", async () => {
+      db.user.findUnique.mockResolvedValue({
+        todoistSyncToken: "token-1",
+        todoistConflictStrategy: "LOCAL",
+      });
+      mockRecords(db.task.findMany, {
+        linked: [createLocalTask({ title: "Local task", syncSnapshot: base })],
+      });
+
+      await runSync();
+
+      expect(db.task.update.mock.calls[0][0].data).not.toHaveProperty("title");
+      expect(db.syncConflict.upsert).not.toHaveBeenCalled();
+      expect(db.todoistOutboxEntry.create).toHaveBeenCalledWith({
+        data: {
+          entityType: "TASK",
+          operation: "UPDATE",
+          entityId: "local-task-1",
+          todoistId: "item-1",
+          payload: { content: "Local task" },
+          userId: "user-1",
+        },
+      });
+    });
+  });
+
+  describe("partial apply", () => {
+    beforeEach(() => {
+      db.user.findUnique.mockResolvedValue({ todoistSyncToken: "token-1" });
+      todoist.sync.mockResolvedValue({
+        sync_token: "token-2",
+        full_sync: false,
+        items: [createItem(), createItem({ id: "item-2", content: "Second task" })],
+      });
+    });
+
+    it("should only apply the selected changes and keep the token", async () => {
+      const result = await syncTodoistChanges(
+        db as unknown as PrismaClient,
+        "user-1",
+        todoist as unknown as TodoistService,
+        { only: ["task:item-2"] },
+      );
+
+      expect(result.skipped).toBe(1);
+      expect(result.tasks.imported).toBe(1);
+      expect(db.task.create).toHaveBeenCalledTimes(1);
+      expect(db.task.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ todoistId: "item-2" }),
+      });
+      expect(db.user.update).not.toHaveBeenCalled();
+    });
+
+    it("should advance the token when every change is selected", async () => {
+      const result = await syncTodoistChanges(
+        db as unknown as PrismaClient,
+        "user-1",
+        todoist as unknown as TodoistService,
+        { only: ["task:item-1", "task:item-2"] },
+      );
+
+      expect(result.skipped).toBe(0);
+      expect(db.user.update).toHaveBeenCalled();
+    });
+  });
+});
+
+describe("linkTodoistParents", () => {
+  it("should nest tasks under their Todoist parents once both are linked", async () => {
+    const db = createMockDb();
+    db.task.findMany.mockResolvedValue([
+      { id: "local-parent", todoistId: "item-1", parentId: null },
+      { id: "local-child", todoistId: "item-2", parentId: null },
+      { id: "local-moved", todoistId: "item-3", parentId: "local-parent" },
+    ]);
+
+    const moved = await linkTodoistParents(db as unknown as PrismaClient, "user-1", [
+      { id: "item-1", parent_id: null },
+      { id: "item-2", parent_id: "item-1" },
+      { id: "item-3", parent_id: null },
+    ]);
+
+    expect(moved).toBe(2);
+    expect(db.task.findMany).toHaveBeenCalledWith({
+      where: {
+        userId: "user-1",
+        deletedAt: null,
+        todoistId: { in: ["item-1", "item-2", "item-3"] },
+      },
+      select: { id: true, todoistId: true, parentId: true },
+    });
+    expect(db.task.update).toHaveBeenCalledTimes(2);
+    expect(db.task.update).toHaveBeenCalledWith({
+      where: { id: "local-child" },
+      data: { parentId: "local-parent" },
+    });
+    expect(db.task.update).toHaveBeenCalledWith({
+      where: { id: "local-moved" },
+      data: { parentId: null },
+    });
+  });
+});
+
+describe("previewTodoistSync", () => {
+  let db: ReturnType<typeof createMockDb>;
+  let todoist: { sync: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    db = createMockDb();
+    todoist = { sync: vi.fn() };
+  });
+
+  it("should list every change without writing anything", async () => {
+    db.user.findUnique.mockResolvedValue({
+      todoistSyncToken: null,
+      todoistConflictStrategy: "ASK",
+    });
+    todoist.sync.mockResolvedValue({
+      sync_token: "token-1",
+      full_sync: true,
+      projects: [
+        {
+          id: "todoist-project-1",
+          name: "Work",
+          color: "red",
+          parent_id: null,
+          child_order: 1,
+          is_favorite: false,
+          is_archived: false,
+          is_deleted: false,
+          view_style: "list",
+        },
+      ],
+      items: [
+        createItem(),
+        createItem({ id: "item-2", content: "Remote title", checked: true }),
+        createItem({ id: "item-3" }),
+      ],
+    });
+    mockRecords(db.task.findMany, {
+      linked: [
+        createLocalTask({
+          id: "local-task-2",
+          todoistId: "item-2",
+          title: "Local title",
+          syncSnapshot: { ...snapshot, title: "Original title" },
+        }),
+        createLocalTask({ id: "local-task-3", todoistId: "item-3" }),
+      ],
+      removed: [{ id: "local-task-4", todoistId: "item-4", title: "Gone" }],
+    });
+
+    const preview = await previewTodoistSync(
+      db as unknown as PrismaClient,
+      "user-1",
+      todoist as unknown as TodoistService,
+    );
+
+    expect(preview).toEqual({
+      fullSync: true,
+      projects: [
+        { key: "project:todoist-project-1", name: "Work", action: "create", fields: [], conflicts: [] },
+      ],
+      sections: [],
+      tasks: [
+        { key: "task:item-1", name: "Remote task", action: "create", fields: [], conflicts: [] },
+        {
+          key: "task:item-2",
+          name: "Local title",
+          action: "complete",
+          fields: ["completed"],
+          conflicts: ["title"],
+        },
+        { key: "task:item-4", name: "Gone", action: "complete", fields: [], conflicts: [] },
+      ],
+    });
+    expect(db.$transaction).not.toHaveBeenCalled();
+    expect(db.task.updateMany).not.toHaveBeenCalled();
+    expect(db.user.update).not.toHaveBeenCalled();
+  });
+});
+
+describe("syncTodoistLabels", () => {
+  let db: ReturnType<typeof createMockDb>;
+  let todoist: { getLabels: ReturnType<typeof vi.fn> };
+
+  const createRemoteLabel = (overrides: Record<string, unknown> = {}) => ({
+    id: "todoist-label-1",
+    name: "work",
+    color: "blue",
+    order: 1,
+    is_favorite: false,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    db = createMockDb();
+    todoist = { getLabels: vi.fn() };
+  });
+
+  const runSync = () =>
+    syncTodoistLabels(
+      db as unknown as PrismaClient,
+      "user-1",
+      todoist as unknown as TodoistService,
+    );
+
+  it("should import labels the user does not have yet", async () => {
+    todoist.getLabels.mockResolvedValue([createRemoteLabel()]);
+
+    const result = await runSync();
+
+    expect(result).toEqual({ imported: 1, updated: 0 });
+    expect(db.label.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ userId: "user-1" }),
+      }),
+    );
+    expect(db.label.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        todoistId: "todoist-label-1",
+        name: "work",
+        color: "blue",
+        order: 1,
+        isFavorite: false,
+        userId: "user-1",
+      }),
+    });
+  });
+
+  it("should link a local label with the same name", async () => {
+    todoist.getLabels.mockResolvedValue([createRemoteLabel({ is_favorite: true })]);
+    db.label.findMany.mockResolvedValue([{ id: "label-1", todoistId: null, name: "work" }]);
+
+    const result = await runSync();
+
+    expect(result).toEqual({ imported: 0, updated: 1 });
+    expect(db.label.create).not.toHaveBeenCalled();
+    expect(db.label.update).toHaveBeenCalledWith({
+      where: { id: "label-1" },
+      data: expect.objectContaining({
+        todoistId: "todoist-label-1",
+        name: "work",
+        isFavorite: true,
+      }),
+    });
+  });
+
+  it("should keep the local name when a rename collides with another label", async () => {
+    todoist.getLabels.mockResolvedValue([createRemoteLabel({ name: "home" })]);
+    db.label.findMany.mockResolvedValue([
+      { id: "label-1", todoistId: "todoist-label-1", name: "work" },
+      { id: "label-2", todoistId: null, name: "home" },
+    ]);
+
+    await runSync();
+
+    expect(db.label.update).toHaveBeenCalledTimes(1);
+    expect(db.label.update).toHaveBeenCalledWith({
+      where: { id: "label-1" },
+      data: expect.not.objectContaining({ name: "home" }),
+    });
+  });
+});
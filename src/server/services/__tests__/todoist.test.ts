@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { TodoistService } from "../todoist";
+import { TodoistService, TodoistSyncTokenError } from "../todoist";
 import type { TodoistTask } from "../todoist";
 
 // Mock the env module
@@ -482,6 +482,128 @@ describe("TodoistService", () => {
       });
     });
   });
+
+  describe("Comments", () => {
+    it("should get the comments of a task", async () => {
+      const mockComments = [{ id: "1", task_id: "task-1", content: "Call first" }];
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => mockComments,
+      });
+
+      const result = await service.getComments({ task_id: "task-1" });
+
+      expect(result).toEqual(mockComments);
+      expect(global.fetch).toHaveBeenCalledWith(
+        "https://api.todoist.com/rest/v2/comments?task_id=task-1",
+        expect.objectContaining({ method: "GET" }),
+      );
+    });
+
+    it("should create a comment on a project", async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ id: "1", project_id: "project-1", content: "Kickoff notes" }),
+      });
+
+      await service.createComment({ content: "Kickoff notes", project_id: "project-1" });
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        "https://api.todoist.com/rest/v2/comments",
+        expect.objectContaining({
+          method: "POST",
+          body: JSON.stringify({ content: "Kickoff notes", project_id: "project-1" }),
+        }),
+      );
+    });
+  });
+
+  describe("sync", () => {
+    it("should post the sync token and resource types", async () => {
+      const mockResponse = { sync_token: "token-2", full_sync: false, items: [] };
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => mockResponse,
+      });
+
+      const result = await service.sync("token-1", ["projects", "items"]);
+
+      expect(result).toEqual(mockResponse);
+      expect(global.fetch).toHaveBeenCalledWith(
+        "https://api.todoist.com/sync/v9/sync",
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${mockApiKey}`,
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+          body: new URLSearchParams({
+            sync_token: "token-1",
+            resource_types: JSON.stringify(["projects", "items"]),
+          }).toString(),
+        },
+      );
+    });
+
+    it("should throw TodoistSyncTokenError for an invalid sync token", async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        statusText: "Bad Request",
+        json: async () => ({ error_tag: "INVALID_SYNC_TOKEN" }),
+      });
+
+      await expect(service.sync("stale-token", ["items"])).rejects.toBeInstanceOf(
+        TodoistSyncTokenError,
+      );
+    });
+
+    it("should throw a regular error for other failures", async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 500,
+        statusText: "Internal Server Error",
+      });
+
+      await expect(service.sync("*", ["items"])).rejects.toThrow(
+        "Todoist API error: Internal Server Error",
+      );
+    });
+  });
+
+  describe("moveTask", () => {
+    it("should send an item_move command", async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ sync_status: { "uuid-1": "ok" } }),
+      });
+
+      await service.moveTask("123", { parent_id: "456" });
+
+      const [url, init] = (global.fetch as any).mock.calls[0];
+      expect(url).toBe("https://api.todoist.com/sync/v9/sync");
+      const commands = JSON.parse(new URLSearchParams(init.body as string).get("commands")!);
+      expect(commands).toEqual([
+        { type: "item_move", uuid: expect.any(String), args: { id: "123", parent_id: "456" } },
+      ]);
+    });
+
+    it("should throw when Todoist rejects the command", async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ sync_status: { "uuid-1": { error: "Item not found" } } }),
+      });
+
+      await expect(service.moveTask("123", { project_id: "789" })).rejects.toThrow(
+        'Todoist API error: {"error":"Item not found"}',
+      );
+    });
+  });
 });
 
 describe("createTodoistService", () => {
@@ -0,0 +1,291 @@
+import { describe, it, expect, vi } from "vitest";
+import type { PrismaClient } from "@prisma/client";
+import {
+  getTrashItems,
+  purgeAllExpiredTrash,
+  purgeExpiredTrash,
+  purgeProject,
+  purgeTask,
+  purgeTrash,
+  restoreTask,
+  trashTask,
+} from "../trash";
+
+const createMockDb = () =>
+  ({
+    task: {
+      findMany: vi.fn().mockResolvedValue([]),
+      findUnique: vi.fn().mockResolvedValue(null),
+      update: vi.fn(),
+      updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+      delete: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    section: {
+      findMany: vi.fn().mockResolvedValue([]),
+      findUnique: vi.fn().mockResolvedValue(null),
+      delete: vi.fn(),
+    },
+    project: {
+      findMany: vi.fn().mockResolvedValue([]),
+      findUnique: vi.fn().mockResolvedValue(null),
+      delete: vi.fn(),
+    },
+    todoistOutboxEntry: {
+      findFirst: vi.fn().mockResolvedValue(null),
+      create: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    user: {
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+    attachment: {
+      findMany: vi.fn().mockResolvedValue([]),
+      deleteMany: vi.fn(),
+    },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  }) as any;
+
+const deletedAt = new Date("2024-03-01T10:00:00Z");
+
+describe("trashTask", () => {
+  it("should stamp the task and its open subtasks with the same time", async () => {
+    const db = createMockDb();
+    db.task.findMany.mockResolvedValueOnce([{ id: "child-1" }]).mockResolvedValueOnce([]);
+
+    const ids = await trashTask(db as PrismaClient, "task-1", deletedAt);
+
+    expect(ids).toEqual(["task-1", "child-1"]);
+    expect(db.task.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ["task-1", "child-1"] }, deletedAt: null },
+      data: { deletedAt },
+    });
+  });
+});
+
+describe("restoreTask", () => {
+  const task = {
+    id: "task-1",
+    deletedAt,
+    parentId: null,
+    projectId: "project-1",
+    sectionId: "section-1",
+  };
+
+  it("should restore only the subtasks deleted together with the task", async () => {
+    const db = createMockDb();
+    db.task.findMany.mockResolvedValueOnce([{ id: "child-1" }]).mockResolvedValueOnce([]);
+    db.project.findUnique.mockResolvedValue({ deletedAt: null });
+    db.section.findUnique.mockResolvedValue({ deletedAt: null });
+
+    await restoreTask(db as PrismaClient, task);
+
+    expect(db.task.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ["task-1", "child-1"] }, deletedAt },
+      data: { deletedAt: null },
+    });
+  });
+
+  it("should move the task out of a project that is still in the trash", async () => {
+    const db = createMockDb();
+    db.project.findUnique.mockResolvedValue({ deletedAt: new Date("2024-03-02") });
+    db.section.findUnique.mockResolvedValue({ deletedAt: new Date("2024-03-02") });
+
+    await restoreTask(db as PrismaClient, task);
+
+    expect(db.task.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ["task-1"] }, deletedAt },
+      data: { deletedAt: null, projectId: null, sectionId: null },
+    });
+  });
+
+  it("should make the task a top level task when its parent is still in the trash", async () => {
+    const db = createMockDb();
+    db.task.findUnique.mockResolvedValue({ deletedAt: new Date("2024-03-02") });
+
+    await restoreTask(db as PrismaClient, {
+      ...task,
+      parentId: "parent-1",
+      projectId: null,
+      sectionId: null,
+    });
+
+    expect(db.task.update).toHaveBeenCalledWith({
+      where: { id: "task-1" },
+      data: { parentId: null },
+    });
+  });
+});
+
+describe("purgeTask", () => {
+  it("should delete the task and queue the Todoist delete", async () => {
+    const db = createMockDb();
+    db.task.findMany.mockResolvedValueOnce([{ id: "child-1" }]).mockResolvedValueOnce([]);
+
+    await purgeTask(db as PrismaClient, "user-1", { id: "task-1", todoistId: "todoist-1" });
+
+    expect(db.task.delete).toHaveBeenCalledWith({ where: { id: "task-1" } });
+    // Todoist deletes the subtasks along with the task
+    expect(db.todoistOutboxEntry.deleteMany).toHaveBeenCalledWith({
+      where: { userId: "user-1", entityType: "TASK", entityId: { in: ["child-1"] } },
+    });
+    expect(db.todoistOutboxEntry.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        entityType: "TASK",
+        operation: "DELETE",
+        entityId: "task-1",
+        todoistId: "todoist-1",
+      }),
+    });
+  });
+
+  it("should drop queued changes of a task that never reached Todoist", async () => {
+    const db = createMockDb();
+    db.todoistOutboxEntry.findFirst.mockResolvedValue({ id: "entry-1" });
+
+    await purgeTask(db as PrismaClient, "user-1", { id: "task-1", todoistId: null });
+
+    expect(db.todoistOutboxEntry.deleteMany).toHaveBeenCalledWith({
+      where: { userId: "user-1", entityType: "TASK", entityId: "task-1" },
+    });
+    expect(db.todoistOutboxEntry.create).not.toHaveBeenCalled();
+  });
+});
+
+describe("purgeProject", () => {
+  it("should delete the tasks deleted together with the project", async () => {
+    const db = createMockDb();
+    db.task.findMany.mockResolvedValueOnce([{ id: "task-1" }]);
+
+    await purgeProject(db as PrismaClient, "user-1", {
+      id: "project-1",
+      todoistId: "todoist-project-1",
+      deletedAt,
+    });
+
+    expect(db.task.deleteMany).toHaveBeenCalledWith({
+      where: { projectId: "project-1", deletedAt },
+    });
+    expect(db.project.delete).toHaveBeenCalledWith({ where: { id: "project-1" } });
+    expect(db.todoistOutboxEntry.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        entityType: "PROJECT",
+        operation: "DELETE",
+        todoistId: "todoist-project-1",
+      }),
+    });
+  });
+});
+
+describe("purgeTrash", () => {
+  it("should purge projects, sections and top level tasks once each", async () => {
+    const db = createMockDb();
+    db.project.findMany.mockResolvedValue([{ id: "project-1", todoistId: null, deletedAt }]);
+    db.section.findMany.mockResolvedValue([{ id: "section-1", todoistId: null, deletedAt }]);
+    db.task.findMany.mockImplementation(({ where }: any) =>
+      Promise.resolve(
+        where.userId
+          ? [
+              { id: "task-1", todoistId: null, parentId: null },
+              { id: "child-1", todoistId: null, parentId: "task-1" },
+            ]
+          : [],
+      ),
+    );
+
+    const purged = await purgeTrash(db as PrismaClient, "user-1");
+
+    expect(purged).toBe(3);
+    expect(db.task.delete).toHaveBeenCalledTimes(1);
+    expect(db.task.delete).toHaveBeenCalledWith({ where: { id: "task-1" } });
+  });
+
+  it("should only purge what expired when purging after the retention period", async () => {
+    const db = createMockDb();
+
+    await purgeExpiredTrash(db as PrismaClient, "user-1", 30, new Date("2024-03-31T10:00:00Z"));
+
+    expect(db.project.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId: "user-1", deletedAt: { lt: deletedAt } },
+      }),
+    );
+  });
+});
+
+describe("purgeAllExpiredTrash", () => {
+  it("should purge each user's trash after their own retention period", async () => {
+    const db = createMockDb();
+    const storage = { put: vi.fn(), get: vi.fn(), delete: vi.fn() };
+    db.user.findMany.mockResolvedValue([
+      { id: "user-1", trashRetentionDays: 30 },
+      { id: "user-2", trashRetentionDays: 7 },
+    ]);
+    db.task.findMany.mockImplementation(({ where }: any) =>
+      Promise.resolve(
+        where.userId === "user-2" ? [{ id: "task-1", todoistId: null, parentId: null }] : [],
+      ),
+    );
+    db.attachment.findMany.mockImplementation(({ where }: any) =>
+      Promise.resolve(
+        where.userId === "user-2" ? [{ id: "attachment-1", storageKey: "user-2/file" }] : [],
+      ),
+    );
+
+    const purged = await purgeAllExpiredTrash(
+      db as PrismaClient,
+      storage,
+      new Date("2024-03-31T10:00:00Z"),
+    );
+
+    expect(purged).toBe(1);
+    expect(db.project.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId: "user-1", deletedAt: { lt: deletedAt } },
+      }),
+    );
+    expect(db.project.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId: "user-2", deletedAt: { lt: new Date("2024-03-24T10:00:00Z") } },
+      }),
+    );
+    expect(db.task.delete).toHaveBeenCalledWith({ where: { id: "task-1" } });
+    expect(storage.delete).toHaveBeenCalledWith("user-2/file");
+  });
+});
+
+describe("getTrashItems", () => {
+  it("should list items deleted together with their container under it", async () => {
+    const db = createMockDb();
+    const later = new Date("2024-03-02T10:00:00Z");
+    db.project.findMany.mockResolvedValue([{ id: "project-1", name: "Move", deletedAt }]);
+    db.section.findMany.mockResolvedValue([
+      { id: "section-1", name: "Packing", deletedAt, project: { name: "Move", deletedAt } },
+    ]);
+    db.task.findMany.mockResolvedValue([
+      {
+        id: "task-1",
+        title: "Buy boxes",
+        deletedAt,
+        parent: null,
+        project: { name: "Move", deletedAt },
+        section: null,
+      },
+      {
+        id: "task-2",
+        title: "Call the bank",
+        deletedAt: later,
+        parent: null,
+        project: null,
+        section: null,
+      },
+    ]);
+
+    const items = await getTrashItems(db as PrismaClient, "user-1");
+
+    expect(items).toEqual([
+      { type: "TASK", id: "task-2", name: "Call the bank", project: null, deletedAt: later },
+      { type: "PROJECT", id: "project-1", name: "Move", project: null, deletedAt },
+    ]);
+  });
+});
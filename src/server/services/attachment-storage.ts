@@ -0,0 +1,59 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { env } from "~/env";
+
+/**
+ * Where attachment files live. Records keep a storage key; adapters map keys to files, so another
+ * backend (e.g. an S3-compatible bucket) only has to implement these three methods.
+ */
+export interface AttachmentStorage {
+  put(key: string, data: Uint8Array): Promise<void>;
+  /** The file's contents, or null when it is gone */
+  get(key: string): Promise<Uint8Array | null>;
+  /** Deleting a missing file is not an error */
+  delete(key: string): Promise<void>;
+}
+
+// Stores each file at `<root>/<key>`
+export class LocalAttachmentStorage implements AttachmentStorage {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  // Keys are generated by the app, but never let one point outside the root
+  private resolve(key: string) {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid attachment key: ${key}`);
+    }
+    return file;
+  }
+
+  async put(key: string, data: Uint8Array) {
+    const file = this.resolve(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data);
+  }
+
+  async get(key: string) {
+    try {
+      return await readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string) {
+    await rm(this.resolve(key), { force: true });
+  }
+}
+
+export function createAttachmentStorage(): AttachmentStorage {
+  switch (env.ATTACHMENT_STORAGE) {
+    case "local":
+      return new LocalAttachmentStorage(env.ATTACHMENT_DIR);
+  }
+}
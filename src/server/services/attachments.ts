@@ -0,0 +1,156 @@
+import { randomUUID } from "node:crypto";
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { env } from "~/env";
+import { formatFileSize, isAllowedAttachmentType } from "~/lib/attachments";
+import type { AttachmentStorage } from "~/server/services/attachment-storage";
+
+const MB = 1024 * 1024;
+
+export interface AttachmentLimits {
+  /** Largest file in bytes */
+  maxFileSize: number;
+  /** Bytes each user may store in total */
+  quota: number;
+}
+
+export interface AttachmentUpload {
+  fileName: string;
+  contentType: string;
+  data: Uint8Array;
+  taskId?: string | null;
+  projectId?: string | null;
+}
+
+export const getAttachmentLimits = (): AttachmentLimits => ({
+  maxFileSize: env.ATTACHMENT_MAX_SIZE_MB * MB,
+  quota: env.ATTACHMENT_QUOTA_MB * MB,
+});
+
+/**
+ * Thrown when an upload is rejected, with the HTTP status the upload route answers with.
+ */
+export class AttachmentError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "AttachmentError";
+    this.status = status;
+  }
+}
+
+// Browsers send bare names, but a name must never look like a path
+const toFileName = (name: string) => name.replace(/[\\/]/g, "_").slice(0, 255) || "file";
+
+/** Bytes taken up by a user's attachments. */
+export async function getAttachmentUsage(db: PrismaClient, userId: string) {
+  const { _sum } = await db.attachment.aggregate({
+    where: { userId },
+    _sum: { size: true },
+  });
+  return _sum.size ?? 0;
+}
+
+/** Delete attachments along with their files. Returns how many were deleted. */
+export async function deleteAttachments(
+  db: PrismaClient,
+  storage: AttachmentStorage,
+  where: Prisma.AttachmentWhereInput,
+) {
+  const attachments = await db.attachment.findMany({
+    where,
+    select: { id: true, storageKey: true },
+  });
+  if (attachments.length === 0) return 0;
+
+  await db.attachment.deleteMany({
+    where: { id: { in: attachments.map((attachment) => attachment.id) } },
+  });
+  for (const attachment of attachments) {
+    await storage.delete(attachment.storageKey);
+  }
+  return attachments.length;
+}
+
+/**
+ * Delete the attachments of tasks and projects that were deleted for good, e.g. purged from the
+ * trash or removed from Todoist. They lose their link rather than cascading, so their files can
+ * be removed too.
+ */
+export const purgeOrphanedAttachments = (
+  db: PrismaClient,
+  storage: AttachmentStorage,
+  userId: string,
+) => deleteAttachments(db, storage, { userId, taskId: null, projectId: null });
+
+/**
+ * Store a file on one of the user's tasks or projects, enforcing the allowed types, the size
+ * limit and the user's quota.
+ */
+export async function saveAttachment(
+  db: PrismaClient,
+  storage: AttachmentStorage,
+  userId: string,
+  upload: AttachmentUpload,
+  limits: AttachmentLimits = getAttachmentLimits(),
+) {
+  if (!upload.taskId === !upload.projectId) {
+    throw new AttachmentError("Attach the file to either a task or a project", 400);
+  }
+
+  const parent = upload.taskId
+    ? await db.task.findFirst({
+        where: { id: upload.taskId, userId, deletedAt: null },
+        select: { id: true },
+      })
+    : await db.project.findFirst({
+        where: { id: upload.projectId!, userId, deletedAt: null },
+        select: { id: true },
+      });
+  if (!parent) {
+    throw new AttachmentError(`${upload.taskId ? "Task" : "Project"} not found`, 404);
+  }
+
+  if (!isAllowedAttachmentType(upload.contentType)) {
+    throw new AttachmentError(
+      `Files of type ${upload.contentType || "unknown"} cannot be attached`,
+      415,
+    );
+  }
+
+  const size = upload.data.byteLength;
+  if (size > limits.maxFileSize) {
+    throw new AttachmentError(`Files can be at most ${formatFileSize(limits.maxFileSize)}`, 413);
+  }
+
+  // Space held by deleted records does not count against the quota
+  await purgeOrphanedAttachments(db, storage, userId);
+  const used = await getAttachmentUsage(db, userId);
+  if (used + size > limits.quota) {
+    throw new AttachmentError(
+      `Not enough space left: ${formatFileSize(Math.max(limits.quota - used, 0))} of ` +
+        `${formatFileSize(limits.quota)} available`,
+      413,
+    );
+  }
+
+  const storageKey = `${userId}/${randomUUID()}`;
+  await storage.put(storageKey, upload.data);
+  try {
+    return await db.attachment.create({
+      data: {
+        fileName: toFileName(upload.fileName),
+        contentType: upload.contentType,
+        size,
+        storageKey,
+        taskId: upload.taskId ?? null,
+        projectId: upload.projectId ?? null,
+        userId,
+      },
+    });
+  } catch (error) {
+    // Don't leave a file nobody can reach
+    await storage.delete(storageKey);
+    throw error;
+  }
+}
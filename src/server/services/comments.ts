@@ -0,0 +1,43 @@
+import { TodoistEntityType, TodoistOperation, type PrismaClient } from "@prisma/client";
+import { enqueueTodoistChange, hasPendingTodoistCreate } from "~/server/services/todoist-outbox";
+
+/** What a comment is on: a task or a whole project. */
+export type CommentParent = { taskId: string } | { projectId: string };
+
+// Whether the task or project is linked to Todoist, or queued to be created there
+async function isSyncedParent(
+  db: PrismaClient,
+  userId: string,
+  parent: CommentParent,
+  parentTodoistId: string | null,
+) {
+  if (parentTodoistId) return true;
+  return "taskId" in parent
+    ? hasPendingTodoistCreate(db, userId, TodoistEntityType.TASK, parent.taskId)
+    : hasPendingTodoistCreate(db, userId, TodoistEntityType.PROJECT, parent.projectId);
+}
+
+/**
+ * Add a comment to a task or project. Comments on records that are (or will be) in Todoist are
+ * queued for it too; the outbox looks up the parent's Todoist id when pushing.
+ */
+export async function addComment(
+  db: PrismaClient,
+  userId: string,
+  input: { content: string; parent: CommentParent; parentTodoistId: string | null },
+) {
+  const comment = await db.comment.create({
+    data: { content: input.content, ...input.parent, userId },
+  });
+
+  if (await isSyncedParent(db, userId, input.parent, input.parentTodoistId)) {
+    await enqueueTodoistChange(db, userId, {
+      entityType: TodoistEntityType.COMMENT,
+      operation: TodoistOperation.CREATE,
+      entityId: comment.id,
+      payload: { content: input.content },
+    });
+  }
+
+  return comment;
+}
@@ -0,0 +1,82 @@
+import { Prisma, type PrismaClient } from "@prisma/client";
+import { DEFAULT_CONTEXTS, normalizeContext, normalizeContexts } from "~/lib/contexts";
+
+const DEFAULT_ICONS = new Map<string, string>(
+  DEFAULT_CONTEXTS.map((context) => [context.name, context.icon]),
+);
+
+/**
+ * Give a user their Context records, when they sign up or at startup for existing users. Contexts
+ * used to be free text: the names saved in the preferences (the defaults when none were) and the
+ * ones typed on tasks become records and the tasks are linked to them. Runs once per user.
+ */
+export async function migrateLegacyContexts(db: PrismaClient, userId: string) {
+  const preferences = await db.userPreferences.findUnique({ where: { userId } });
+  if (preferences?.contextsSeededAt) return;
+
+  const legacyTasks = await db.task.findMany({
+    where: { userId, legacyContext: { not: null } },
+    select: { legacyContext: true },
+    distinct: ["legacyContext"],
+  });
+  const legacyValues = legacyTasks.map((task) => task.legacyContext!);
+  const saved = Array.isArray(preferences?.legacyContexts)
+    ? preferences.legacyContexts.filter((name): name is string => typeof name === "string")
+    : DEFAULT_CONTEXTS.map((context) => context.name);
+  const names = normalizeContexts([...saved, ...legacyValues]);
+
+  // Upserts keep contexts created in the meantime, e.g. by quick capture
+  const contexts = await db.$transaction(
+    names.map((name, order) =>
+      db.context.upsert({
+        where: { userId_name: { userId, name } },
+        update: {},
+        create: { name, icon: DEFAULT_ICONS.get(name), order, userId },
+      }),
+    ),
+  );
+  const idsByName = new Map(contexts.map((context) => [context.name, context.id]));
+
+  await db.$transaction([
+    ...legacyValues.map((value) => {
+      const name = normalizeContext(value);
+      return db.task.updateMany({
+        where: { userId, legacyContext: value },
+        data: { contextId: name ? idsByName.get(name) : null, legacyContext: null },
+      });
+    }),
+    db.userPreferences.upsert({
+      where: { userId },
+      update: { contextsSeededAt: new Date(), legacyContexts: Prisma.DbNull },
+      create: { contextsSeededAt: new Date(), userId },
+    }),
+  ]);
+}
+
+/** Give every user their Context records. */
+export async function migrateAllLegacyContexts(db: PrismaClient) {
+  const users = await db.user.findMany({ select: { id: true } });
+  for (const user of users) {
+    await migrateLegacyContexts(db, user.id);
+  }
+}
+
+// Find one of the user's contexts by name, creating it at the end of the list when it is new
+export async function findOrCreateContext(db: PrismaClient, userId: string, name: string) {
+  const normalized = normalizeContext(name);
+  if (!normalized) return null;
+
+  const existing = await db.context.findUnique({
+    where: { userId_name: { userId, name: normalized } },
+  });
+  if (existing) return existing;
+
+  return db.context.create({
+    data: {
+      name: normalized,
+      icon: DEFAULT_ICONS.get(normalized),
+      order: await db.context.count({ where: { userId } }),
+      userId,
+    },
+  });
+}
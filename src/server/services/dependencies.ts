@@ -0,0 +1,95 @@
+import { TaskType, type Prisma, type PrismaClient } from "@prisma/client";
+
+/**
+ * Dependencies between tasks: a task is blocked while any task it waits for is open. Blocked tasks
+ * are left out of next actions, and become next actions once their last blocker is completed.
+ */
+
+/** Tasks without open blockers. Blockers in the trash don't count. */
+export const unblockedTasks: Prisma.TaskWhereInput = {
+  blockedBy: { none: { completed: false, deletedAt: null } },
+};
+
+/** Whether making `blockingTaskId` block `blockedTaskId` would make a task wait for itself. */
+export async function wouldCreateDependencyCycle(
+  db: PrismaClient,
+  blockingTaskId: string,
+  blockedTaskId: string,
+) {
+  const seen = new Set([blockedTaskId]);
+  let level = [blockedTaskId];
+
+  // Follow everything the blocked task already blocks, directly or through other tasks
+  while (level.length > 0) {
+    if (level.includes(blockingTaskId)) return true;
+
+    const blocked = await db.task.findMany({
+      where: { blockedBy: { some: { id: { in: level } } } },
+      select: { id: true },
+    });
+    level = blocked.map((task) => task.id).filter((id) => !seen.has(id));
+    level.forEach((id) => seen.add(id));
+  }
+
+  return false;
+}
+
+/**
+ * Make the given actions next actions if nothing blocks them anymore. Tasks that already are, or
+ * that are not actions, are left alone. Returns the ids of the promoted tasks.
+ */
+export async function promoteUnblockedTasks(db: PrismaClient, candidates: Prisma.TaskWhereInput) {
+  const tasks = await db.task.findMany({
+    where: {
+      AND: [candidates, unblockedTasks],
+      completed: false,
+      deletedAt: null,
+      isNextAction: false,
+      taskType: { in: [TaskType.ACTION, TaskType.PROJECT] },
+    },
+    select: { id: true },
+  });
+  const ids = tasks.map((task) => task.id);
+
+  if (ids.length > 0) {
+    await db.task.updateMany({
+      where: { id: { in: ids } },
+      data: { isNextAction: true },
+    });
+  }
+  return ids;
+}
+
+/**
+ * How many rounds of open blockers stand before each task: 0 for tasks that can start now, 1 for
+ * tasks waiting only on those, and so on. Blockers missing from the list count as one round.
+ */
+export function getDependencyStages(
+  tasks: { id: string; blockedBy: { id: string; completed: boolean }[] }[],
+): Map<string, number> {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const stages = new Map<string, number>();
+  const visiting = new Set<string>();
+
+  const stageOf = (id: string): number => {
+    const known = stages.get(id);
+    if (known !== undefined) return known;
+    const task = byId.get(id);
+    // Tasks outside the list, and cycles left by concurrent edits, end the chain
+    if (!task || visiting.has(id)) return 0;
+
+    visiting.add(id);
+    const stage = Math.max(
+      0,
+      ...task.blockedBy
+        .filter((blocker) => !blocker.completed)
+        .map((blocker) => stageOf(blocker.id) + 1),
+    );
+    visiting.delete(id);
+    stages.set(id, stage);
+    return stage;
+  };
+
+  for (const task of tasks) stageOf(task.id);
+  return stages;
+}
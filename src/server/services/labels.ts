@@ -0,0 +1,70 @@
+import { TodoistEntityType, TodoistOperation, type PrismaClient } from "@prisma/client";
+import { enqueueTodoistChange } from "~/server/services/todoist-outbox";
+
+// Connect a user's labels by name, creating the ones that do not exist yet
+export const toLabelConnections = (userId: string, names: string[]) =>
+  names.map((name) => ({
+    where: { userId_name: { userId, name } },
+    create: { name, userId },
+  }));
+
+/**
+ * Labels used to be shared by every user. Give the user their own copy of each shared label on
+ * their tasks and move the tasks over to it. Does nothing once none of the user's tasks has a
+ * shared label.
+ */
+export async function migrateLegacyLabels(db: PrismaClient, userId: string) {
+  const shared = await db.label.findMany({
+    where: { userId: null, tasks: { some: { userId } } },
+    select: { id: true, name: true, tasks: { where: { userId }, select: { id: true } } },
+  });
+  if (shared.length === 0) return;
+
+  for (const label of shared) {
+    // Upserts keep labels the user created in the meantime
+    const own = await db.label.upsert({
+      where: { userId_name: { userId, name: label.name } },
+      update: {},
+      create: { name: label.name, userId },
+    });
+    await db.$transaction(
+      label.tasks.map((task) =>
+        db.task.update({
+          where: { id: task.id },
+          data: { labels: { disconnect: { id: label.id }, connect: { id: own.id } } },
+        }),
+      ),
+    );
+  }
+}
+
+/** Move every user over to their own labels, then delete the shared ones. */
+export async function migrateAllLegacyLabels(db: PrismaClient) {
+  const users = await db.user.findMany({ select: { id: true } });
+  for (const user of users) {
+    await migrateLegacyLabels(db, user.id);
+  }
+  await db.label.deleteMany({ where: { userId: null } });
+}
+
+/**
+ * Queue the current label names of linked tasks for Todoist, after labels were renamed, merged
+ * or deleted locally. Todoist tasks reference labels by name, so each task is updated.
+ */
+export async function enqueueTaskLabelUpdates(db: PrismaClient, userId: string, taskIds: string[]) {
+  if (taskIds.length === 0) return;
+
+  const tasks = await db.task.findMany({
+    where: { id: { in: taskIds }, userId, todoistId: { not: null } },
+    select: { id: true, todoistId: true, labels: { select: { name: true } } },
+  });
+  for (const task of tasks) {
+    await enqueueTodoistChange(db, userId, {
+      entityType: TodoistEntityType.TASK,
+      operation: TodoistOperation.UPDATE,
+      entityId: task.id,
+      todoistId: task.todoistId,
+      payload: { labels: task.labels.map((label) => label.name) },
+    });
+  }
+}
@@ -0,0 +1,268 @@
+import {
+  OperationEntityType,
+  type OperationType,
+  TaskEventType,
+  TodoistEntityType,
+  TodoistOperation,
+  type Operation,
+  type Prisma,
+  type PrismaClient,
+} from "@prisma/client";
+import { toTaskSnapshot, toTodoistTaskUpdate } from "./todoist-conflicts";
+import { enqueueTodoistChange } from "./todoist-outbox";
+import { restoreProject, restoreTask, trashProject, trashTask } from "./trash";
+import {
+  describeTask,
+  diffFields,
+  recordTaskEvents,
+  taskChangeEvents,
+  updatedEvents,
+} from "./task-events";
+
+/**
+ * Undo and redo. Task and project mutations record an operation with the fields they changed, as
+ * they were before and after, so undoing writes the old values back and redoing the new ones.
+ * Creating and deleting are undone through the trash. Undoing a change also queues it for Todoist,
+ * but side effects such as the next occurrence of a completed recurring task are left in place.
+ */
+
+/** How many operations are kept per user. */
+export const MAX_OPERATIONS = 100;
+
+export type OperationDirection = "undo" | "redo";
+
+type Fields = Record<string, unknown>;
+
+export interface RecordedOperation {
+  type: OperationType;
+  entityType: OperationEntityType;
+  entityId: string;
+  description: string;
+  before?: Fields;
+  after?: Fields;
+}
+
+// Dates are stored as ISO strings, which Prisma accepts back for DateTime columns
+const toJson = (fields: Fields) => JSON.parse(JSON.stringify(fields)) as Prisma.InputJsonObject;
+
+/** The given fields of a record, to store as an operation's before or after values. */
+export function pickFields<T extends object>(record: T, keys: string[]): Fields {
+  return Object.fromEntries(
+    keys.filter((key) => key in record).map((key) => [key, record[key as keyof T]]),
+  );
+}
+
+/** The keys of a mutation's data that were actually set. */
+export const changedKeys = (data: Fields) =>
+  Object.keys(data).filter((key) => data[key] !== undefined);
+
+/**
+ * Record a mutation so it can be undone. A new operation drops the ones that were undone, since
+ * they can no longer be redone, and the oldest ones past `MAX_OPERATIONS`.
+ */
+export async function recordOperation(
+  db: PrismaClient,
+  userId: string,
+  operation: RecordedOperation,
+) {
+  await db.operation.deleteMany({ where: { userId, undoneAt: { not: null } } });
+
+  const recorded = await db.operation.create({
+    data: {
+      ...operation,
+      before: operation.before && toJson(operation.before),
+      after: operation.after && toJson(operation.after),
+      userId,
+    },
+  });
+
+  const expired = await db.operation.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+    skip: MAX_OPERATIONS,
+    select: { id: true },
+  });
+  if (expired.length > 0) {
+    await db.operation.deleteMany({ where: { id: { in: expired.map((entry) => entry.id) } } });
+  }
+
+  return recorded;
+}
+
+/** The operation the next undo or redo applies to: the latest change, or the latest undone. */
+export async function findNextOperation(
+  db: PrismaClient,
+  userId: string,
+  direction: OperationDirection,
+) {
+  return direction === "undo"
+    ? db.operation.findFirst({
+        where: { userId, undoneAt: null },
+        orderBy: { createdAt: "desc" },
+      })
+    : db.operation.findFirst({
+        where: { userId, undoneAt: { not: null } },
+        orderBy: { undoneAt: "desc" },
+      });
+}
+
+// Write task fields back and queue the ones Todoist knows about
+async function applyTaskFields(
+  db: PrismaClient,
+  userId: string,
+  id: string,
+  fields: Fields,
+  note: string,
+) {
+  const existing = await db.task.findFirst({
+    where: { id, userId, deletedAt: null },
+    include: { project: true, section: true },
+  });
+  if (!existing) return false;
+
+  const task = await db.task.update({
+    where: { id },
+    data: fields as Prisma.TaskUpdateInput,
+    include: { labels: true, project: true, section: true },
+  });
+
+  const keys = Object.keys(fields);
+  await recordTaskEvents(
+    db,
+    userId,
+    taskChangeEvents(id, diffFields(describeTask(existing, keys), describeTask(task, keys)), note),
+  );
+
+  const change = { entityType: TodoistEntityType.TASK, entityId: id, todoistId: task.todoistId };
+  if ("completed" in fields && task.completed !== existing.completed) {
+    await enqueueTodoistChange(db, userId, {
+      ...change,
+      operation: task.completed ? TodoistOperation.CLOSE : TodoistOperation.REOPEN,
+    });
+  }
+
+  // Todoist sets the date and the rule together
+  const snapshot = toTaskSnapshot(task);
+  const dueChanged = "dueDate" in fields || "recurrence" in fields;
+  const payload = toTodoistTaskUpdate({
+    ...("title" in fields && { title: snapshot.title }),
+    ...("description" in fields && { description: snapshot.description }),
+    ...("priority" in fields && { priority: snapshot.priority }),
+    ...(dueChanged && { dueDate: snapshot.dueDate, recurrence: snapshot.recurrence }),
+  });
+  if (Object.keys(payload).length > 0) {
+    await enqueueTodoistChange(db, userId, {
+      ...change,
+      operation: TodoistOperation.UPDATE,
+      payload,
+    });
+  }
+  return true;
+}
+
+async function applyProjectFields(db: PrismaClient, userId: string, id: string, fields: Fields) {
+  const existing = await db.project.findFirst({ where: { id, userId, deletedAt: null } });
+  if (!existing) return false;
+
+  const project = await db.project.update({
+    where: { id },
+    data: fields as Prisma.ProjectUpdateInput,
+  });
+
+  const keys = Object.keys(fields);
+  await recordTaskEvents(
+    db,
+    userId,
+    updatedEvents({ projectId: id }, diffFields(pickFields(existing, keys), pickFields(project, keys))),
+  );
+
+  const payload: Prisma.InputJsonObject = {
+    ...("name" in fields && { name: project.name }),
+    ...("color" in fields && { color: project.color }),
+    ...("isFavorite" in fields && { is_favorite: project.isFavorite }),
+    ...("order" in fields && { order: project.order }),
+  };
+  if (Object.keys(payload).length > 0) {
+    await enqueueTodoistChange(db, userId, {
+      entityType: TodoistEntityType.PROJECT,
+      operation: TodoistOperation.UPDATE,
+      entityId: id,
+      todoistId: project.todoistId,
+      payload,
+    });
+  }
+  return true;
+}
+
+// Move a task or project to the trash, or back out of it
+async function setTrashed(
+  db: PrismaClient,
+  userId: string,
+  operation: Pick<Operation, "entityType" | "entityId">,
+  trashed: boolean,
+) {
+  const where = { id: operation.entityId, userId, deletedAt: trashed ? null : { not: null } };
+  const type = trashed ? TaskEventType.DELETED : TaskEventType.RESTORED;
+
+  if (operation.entityType === OperationEntityType.TASK) {
+    const task = await db.task.findFirst({ where });
+    if (!task) return false;
+    if (trashed) await trashTask(db, task.id);
+    else await restoreTask(db, task);
+    await recordTaskEvents(db, userId, [{ taskId: task.id, type }]);
+    return true;
+  }
+
+  const project = await db.project.findFirst({ where });
+  if (!project) return false;
+  if (trashed) await trashProject(db, project.id);
+  else await restoreProject(db, project);
+  await recordTaskEvents(db, userId, [{ projectId: project.id, type }]);
+  return true;
+}
+
+/**
+ * Apply an operation in either direction and mark it undone or redone. Returns false when its
+ * task or project is gone, or no longer in the state the operation left it in.
+ */
+export async function applyOperation(
+  db: PrismaClient,
+  userId: string,
+  operation: Operation,
+  direction: OperationDirection,
+) {
+  const undo = direction === "undo";
+  const fields = ((undo ? operation.before : operation.after) ?? {}) as Fields;
+
+  let applied: boolean;
+  switch (`${operation.entityType}:${operation.type}` as const) {
+    case "TASK:UPDATE":
+      applied = await applyTaskFields(
+        db,
+        userId,
+        operation.entityId,
+        fields,
+        undo ? `Undo of ${operation.description}` : `Redo of ${operation.description}`,
+      );
+      break;
+    case "PROJECT:UPDATE":
+      applied = await applyProjectFields(db, userId, operation.entityId, fields);
+      break;
+    // Undoing a create trashes the new record, undoing a delete brings it back
+    case "TASK:CREATE":
+    case "PROJECT:CREATE":
+      applied = await setTrashed(db, userId, operation, undo);
+      break;
+    case "TASK:DELETE":
+    case "PROJECT:DELETE":
+      applied = await setTrashed(db, userId, operation, !undo);
+      break;
+  }
+
+  if (!applied) return false;
+  await db.operation.update({
+    where: { id: operation.id },
+    data: { undoneAt: undo ? new Date() : null },
+  });
+  return true;
+}
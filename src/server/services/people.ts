@@ -0,0 +1,43 @@
+import type { PrismaClient } from "@prisma/client";
+
+/**
+ * People the user waits on or keeps an agenda for. Waiting tasks used to name who they wait for in
+ * free text; the text stays in `waitingFor` and is linked to a Person of that name.
+ */
+
+/** Days until the next follow-up when none is given. */
+export const DEFAULT_FOLLOW_UP_DAYS = 3;
+
+// Find one of the user's people by name, creating them when they are new
+export async function findOrCreatePerson(db: PrismaClient, userId: string, name: string) {
+  const trimmed = name.trim();
+  if (!trimmed) return null;
+
+  const existing = await db.person.findUnique({
+    where: { userId_name: { userId, name: trimmed } },
+  });
+  if (existing) return existing;
+
+  return db.person.create({
+    data: { name: trimmed, userId },
+  });
+}
+
+/** Link waiting tasks that only name who they wait for to a Person of that name. */
+export async function linkWaitingForPeople(db: PrismaClient, userId: string) {
+  const unlinked = await db.task.findMany({
+    where: { userId, personId: null, waitingFor: { not: null } },
+    select: { waitingFor: true },
+    distinct: ["waitingFor"],
+  });
+
+  for (const { waitingFor } of unlinked) {
+    const person = await findOrCreatePerson(db, userId, waitingFor!);
+    if (!person) continue;
+
+    await db.task.updateMany({
+      where: { userId, personId: null, waitingFor },
+      data: { personId: person.id },
+    });
+  }
+}
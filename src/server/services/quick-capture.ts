@@ -0,0 +1,261 @@
+import { EnergyLevel, type PrismaClient } from "@prisma/client";
+
+/**
+ * Fields typed inline when capturing a task, Todoist quick add style:
+ * "Call plumber tomorrow 3pm #Home /Repairs @phone +urgent p1 ~15m !low".
+ */
+export interface ParsedCapture {
+  title: string;
+  projectName?: string;
+  sectionName?: string;
+  context?: string;
+  labels: string[];
+  priority?: number;
+  timeEstimate?: number; // in minutes
+  energyLevel?: EnergyLevel;
+  dueDate?: Date;
+}
+
+export interface CaptureOptions {
+  now?: Date;
+  /** The user's `Date#getTimezoneOffset()`, so "tomorrow 3pm" means their 3pm */
+  timezoneOffset?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+// Abbreviations that are also plain words, only read as weekdays after "next"
+const AMBIGUOUS_WEEKDAYS = new Set(["sun", "sat", "wed"]);
+
+const ENERGY_LEVELS: Record<string, EnergyLevel> = {
+  high: EnergyLevel.HIGH,
+  medium: EnergyLevel.MEDIUM,
+  med: EnergyLevel.MEDIUM,
+  low: EnergyLevel.LOW,
+};
+
+// Words that may introduce a date without being part of the title
+const DATE_PREFIXES = new Set(["on", "by", "due"]);
+
+interface LocalDay {
+  year: number;
+  month: number; // 0-based
+  day: number;
+}
+
+// Full or abbreviated names ("fri", "thurs", "friday")
+const findName = (names: string[], word: string) =>
+  word.length >= 3 ? names.findIndex((name) => name.startsWith(word)) : -1;
+
+const addDays = ({ year, month, day }: LocalDay, days: number): LocalDay => {
+  const date = new Date(Date.UTC(year, month, day) + days * DAY_MS);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth(), day: date.getUTCDate() };
+};
+
+const weekday = ({ year, month, day }: LocalDay) => new Date(Date.UTC(year, month, day)).getUTCDay();
+
+// Match a day starting at words[0], returning how many words it used
+function matchDay(words: string[], today: LocalDay): { day: LocalDay; used: number } | null {
+  const [first = "", second = "", third = ""] = words.map((word) => word.toLowerCase());
+
+  if (first === "today" || first === "tonight") return { day: today, used: 1 };
+  if (first === "tomorrow" || first === "tmrw") return { day: addDays(today, 1), used: 1 };
+
+  if (first === "next" && (second === "week" || second === "month")) {
+    if (second === "week") {
+      return { day: addDays(today, ((8 - weekday(today)) % 7) || 7), used: 2 };
+    }
+    const nextMonth = new Date(Date.UTC(today.year, today.month + 1, 1));
+    return {
+      day: { year: nextMonth.getUTCFullYear(), month: nextMonth.getUTCMonth(), day: 1 },
+      used: 2,
+    };
+  }
+
+  // "friday" is the coming one, today included; "next friday" is always after today
+  const isNext = first === "next";
+  const weekdayIndex =
+    isNext || !AMBIGUOUS_WEEKDAYS.has(first) ? findName(WEEKDAYS, isNext ? second : first) : -1;
+  if (weekdayIndex >= 0) {
+    const ahead = (weekdayIndex - weekday(today) + 7) % 7;
+    return { day: addDays(today, isNext ? ahead || 7 : ahead), used: isNext ? 2 : 1 };
+  }
+
+  const inMatch = first === "in" ? /^(\d+)$/.exec(second) : null;
+  if (inMatch) {
+    const count = Number(inMatch[1]);
+    if (/^days?$/.test(third)) return { day: addDays(today, count), used: 3 };
+    if (/^weeks?$/.test(third)) return { day: addDays(today, count * 7), used: 3 };
+    if (/^months?$/.test(third)) {
+      const date = new Date(Date.UTC(today.year, today.month + count, today.day));
+      return {
+        day: { year: date.getUTCFullYear(), month: date.getUTCMonth(), day: date.getUTCDate() },
+        used: 3,
+      };
+    }
+  }
+
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(first);
+  if (iso) {
+    return { day: { year: Number(iso[1]), month: Number(iso[2]) - 1, day: Number(iso[3]) }, used: 1 };
+  }
+
+  // "jun 20" or "20 june", this year unless that day has passed
+  let month = findName(MONTHS, first);
+  let dayOfMonth = /^(\d{1,2})(st|nd|rd|th)?$/.exec(second)?.[1];
+  if (month < 0 || !dayOfMonth) {
+    month = findName(MONTHS, second);
+    dayOfMonth = /^(\d{1,2})(st|nd|rd|th)?$/.exec(first)?.[1];
+  }
+  if (month >= 0 && dayOfMonth && Number(dayOfMonth) <= 31) {
+    const day = Number(dayOfMonth);
+    const passed = month < today.month || (month === today.month && day < today.day);
+    return { day: { year: today.year + (passed ? 1 : 0), month, day }, used: 2 };
+  }
+
+  return null;
+}
+
+// Match "3pm", "3:30pm", "15:00", optionally after "at"
+function matchTime(words: string[]): { hours: number; minutes: number; used: number } | null {
+  const offset = words[0]?.toLowerCase() === "at" ? 1 : 0;
+  const match = /^(\d{1,2})(?::(\d{2}))?(am|pm)?$/.exec(words[offset]?.toLowerCase() ?? "");
+  if (!match || (!match[2] && !match[3])) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  if (match[3] === "pm" && hours < 12) hours += 12;
+  if (match[3] === "am" && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return null;
+
+  return { hours, minutes, used: offset + 1 };
+}
+
+// "~30m", "~45", "~1h", "~1h30m", "~1.5h"
+export function parseEstimate(value: string) {
+  const match = /^(?:(\d+(?:\.\d+)?)h)?(?:(\d+)m?)?$/.exec(value);
+  if (!match || (!match[1] && !match[2])) return undefined;
+  return Math.round(Number(match[1] ?? 0) * 60 + Number(match[2] ?? 0));
+}
+
+// "#Home_Improvement" names the project "Home Improvement"
+const toName = (token: string) => token.slice(1).replace(/_/g, " ");
+
+/** Pull the inline fields out of captured text; what is left becomes the title. */
+export function parseQuickCapture(text: string, options: CaptureOptions = {}): ParsedCapture {
+  const now = options.now ?? new Date();
+  const offsetMs = (options.timezoneOffset ?? 0) * 60 * 1000;
+  // Wall clock of the user, read through the UTC getters
+  const local = new Date(now.getTime() - offsetMs);
+  const today = { year: local.getUTCFullYear(), month: local.getUTCMonth(), day: local.getUTCDate() };
+
+  const parsed: ParsedCapture = { title: "", labels: [] };
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  const title: string[] = [];
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i]!;
+    const lower = word.toLowerCase();
+
+    if (/^#\S+/.test(word)) {
+      parsed.projectName = toName(word);
+    } else if (/^\/\S+/.test(word)) {
+      parsed.sectionName = toName(word);
+    } else if (/^@\w+/.test(word)) {
+      parsed.context = lower;
+    } else if (/^\+\S+/.test(word)) {
+      const label = word.slice(1);
+      if (!parsed.labels.includes(label)) parsed.labels.push(label);
+    } else if (/^p[1-4]$/.test(lower)) {
+      // Stored as written, p1 is the most urgent
+      parsed.priority = Number(lower[1]);
+    } else if (lower.startsWith("~") && parseEstimate(lower.slice(1)) !== undefined) {
+      parsed.timeEstimate = parseEstimate(lower.slice(1));
+    } else if (lower.startsWith("!") && ENERGY_LEVELS[lower.slice(1)]) {
+      parsed.energyLevel = ENERGY_LEVELS[lower.slice(1)];
+    } else {
+      if (!parsed.dueDate) {
+        const prefix = DATE_PREFIXES.has(lower) ? 1 : 0;
+        const date = matchDay(words.slice(i + prefix), today);
+        const time = matchTime(words.slice(i + prefix + (date?.used ?? 0)));
+        if (date ?? time) {
+          const day = date?.day ?? today;
+          const localTime = Date.UTC(day.year, day.month, day.day, time?.hours ?? 0, time?.minutes ?? 0);
+          // Dates without a time stay at midnight UTC, like the dates Todoist sends
+          parsed.dueDate = new Date(time ? localTime + offsetMs : localTime);
+          i += prefix + (date?.used ?? 0) + (time?.used ?? 0) - 1;
+          continue;
+        }
+      }
+      title.push(word);
+    }
+  }
+
+  parsed.title = title.join(" ");
+  return parsed;
+}
+
+const sameName = (a: string, b: string) => a.localeCompare(b, undefined, { sensitivity: "base" }) === 0;
+
+/**
+ * Parse captured text and look up the named project and section among the user's own. Names that
+ * match nothing are reported in `unmatched` and otherwise ignored.
+ */
+export async function resolveQuickCapture(
+  db: PrismaClient,
+  userId: string,
+  text: string,
+  options: CaptureOptions = {},
+) {
+  const parsed = parseQuickCapture(text, options);
+  const unmatched: string[] = [];
+
+  let project: { id: string; name: string } | null = null;
+  if (parsed.projectName) {
+    const projects = await db.project.findMany({
+      where: { userId, deletedAt: null },
+      select: { id: true, name: true },
+    });
+    project = projects.find((candidate) => sameName(candidate.name, parsed.projectName!)) ?? null;
+    if (!project) unmatched.push(`#${parsed.projectName}`);
+  }
+
+  let section: { id: string; name: string; projectId: string } | null = null;
+  if (parsed.sectionName) {
+    const sections = await db.section.findMany({
+      where: project
+        ? { projectId: project.id, deletedAt: null }
+        : { project: { userId }, deletedAt: null },
+      select: { id: true, name: true, projectId: true },
+    });
+    const matches = sections.filter((candidate) => sameName(candidate.name, parsed.sectionName!));
+    // Without a project the section name has to be unambiguous
+    section = matches.length === 1 ? matches[0]! : null;
+    if (!section) unmatched.push(`/${parsed.sectionName}`);
+  }
+
+  return {
+    ...parsed,
+    projectId: project?.id ?? section?.projectId ?? null,
+    project,
+    sectionId: section?.id ?? null,
+    section,
+    unmatched,
+  };
+}
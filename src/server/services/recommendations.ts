@@ -0,0 +1,184 @@
+import type { Context, EnergyLevel, Project, Task } from "@prisma/client";
+import { isContextAvailableAt } from "~/lib/contexts";
+
+/**
+ * "What should I do now?" Next actions are ranked for the user's situation: where they are, how
+ * much energy and time they have. Actions that can't be done there or then are left out; the rest
+ * are scored on how well they fit, how urgent and important they are, and how long they and their
+ * project have been neglected. Every score comes with the reasons that add up to it.
+ */
+
+export interface Situation {
+  contextId?: string;
+  energyLevel?: EnergyLevel;
+  availableMinutes?: number;
+  now?: Date;
+  // The browser's Date#getTimezoneOffset(), for the user's time of day and today
+  timezoneOffset?: number;
+}
+
+export type ScoreFactor = "context" | "energy" | "time" | "priority" | "due" | "project" | "age";
+
+export interface ScoreReason {
+  factor: ScoreFactor;
+  points: number;
+  explanation: string;
+}
+
+export interface Recommendation<T> {
+  task: T;
+  score: number;
+  reasons: ScoreReason[];
+}
+
+export type RecommendationCandidate = Pick<
+  Task,
+  "priority" | "dueDate" | "energyLevel" | "timeEstimate" | "createdAt" | "contextId"
+> & {
+  context: Pick<Context, "name" | "availableFrom" | "availableUntil"> | null;
+  project: Pick<Project, "name" | "projectType" | "reviewedAt" | "createdAt"> | null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ENERGY: Record<EnergyLevel, number> = { LOW: 1, MEDIUM: 2, HIGH: 3 };
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+
+// Wall clock of the user, read through the UTC getters
+function localClock({ now = new Date(), timezoneOffset = 0 }: Situation) {
+  const local = new Date(now.getTime() - timezoneOffset * 60 * 1000);
+  return {
+    now,
+    minutes: local.getUTCHours() * 60 + local.getUTCMinutes(),
+    today: Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate()),
+  };
+}
+
+/**
+ * Whether a next action can be done in the situation: in the chosen context or without one, in a
+ * context that is open at this hour, and within the available minutes when it has an estimate.
+ */
+export function canDoNow(task: RecommendationCandidate, situation: Situation) {
+  if (situation.contextId && task.contextId && task.contextId !== situation.contextId) return false;
+  if (task.context && !isContextAvailableAt(task.context, localClock(situation).minutes)) {
+    return false;
+  }
+  return !(
+    situation.availableMinutes &&
+    task.timeEstimate &&
+    task.timeEstimate > situation.availableMinutes
+  );
+}
+
+// Days since midnight UTC of the user's today; dates without a time are stored at midnight UTC
+function dueReason(dueDate: Date, today: number): ScoreReason | null {
+  const days = Math.floor((dueDate.getTime() - today) / DAY_MS);
+  if (days < 0) {
+    return { factor: "due", points: 40, explanation: `Overdue by ${plural(-days, "day")}` };
+  }
+  if (days === 0) return { factor: "due", points: 35, explanation: "Due today" };
+  if (days === 1) return { factor: "due", points: 30, explanation: "Due tomorrow" };
+  if (days <= 7) {
+    return { factor: "due", points: 30 - 3 * days, explanation: `Due in ${days} days` };
+  }
+  return null;
+}
+
+function energyReason(task: EnergyLevel, available: EnergyLevel): ScoreReason {
+  if (task === available) {
+    return { factor: "energy", points: 15, explanation: "Matches your energy" };
+  }
+  return ENERGY[task] < ENERGY[available]
+    ? { factor: "energy", points: 10, explanation: "Needs less energy than you have" }
+    : { factor: "energy", points: -20, explanation: "Needs more energy than you have" };
+}
+
+/** Score a next action for the situation, with the reasons that add up to the score. */
+export function scoreNextAction(
+  task: RecommendationCandidate,
+  situation: Situation,
+): Omit<Recommendation<RecommendationCandidate>, "task"> {
+  const { now, today } = localClock(situation);
+  const reasons: (ScoreReason | null)[] = [];
+
+  if (situation.contextId && task.context && task.contextId === situation.contextId) {
+    reasons.push({ factor: "context", points: 20, explanation: `You are at ${task.context.name}` });
+  } else if (task.context?.availableUntil) {
+    reasons.push({
+      factor: "context",
+      points: 10,
+      explanation: `${task.context.name} is available until ${task.context.availableUntil}`,
+    });
+  }
+
+  if (situation.energyLevel && task.energyLevel) {
+    reasons.push(energyReason(task.energyLevel, situation.energyLevel));
+  }
+
+  if (situation.availableMinutes) {
+    reasons.push(
+      task.timeEstimate
+        ? {
+            factor: "time",
+            points: Math.round((15 * task.timeEstimate) / situation.availableMinutes),
+            explanation: `Takes ${task.timeEstimate} of your ${situation.availableMinutes} minutes`,
+          }
+        : { factor: "time", points: -5, explanation: "No time estimate" },
+    );
+  }
+
+  // Priority 1 is p1, the most urgent
+  if (task.priority < 4) {
+    reasons.push({
+      factor: "priority",
+      points: (4 - task.priority) * 10,
+      explanation: `Priority p${task.priority}`,
+    });
+  }
+
+  if (task.dueDate) {
+    reasons.push(dueReason(task.dueDate, today));
+  }
+
+  if (task.project?.projectType === "PROJECT") {
+    const days = Math.floor(
+      (now.getTime() - (task.project.reviewedAt ?? task.project.createdAt).getTime()) / DAY_MS,
+    );
+    if (days >= 7) {
+      reasons.push({
+        factor: "project",
+        points: Math.min(20, Math.floor(days / 7) * 5),
+        explanation: `${task.project.name} not reviewed for ${days} days`,
+      });
+    }
+  }
+
+  const age = Math.floor((now.getTime() - task.createdAt.getTime()) / DAY_MS);
+  if (age >= 7) {
+    reasons.push({
+      factor: "age",
+      points: Math.min(10, Math.floor(age / 7) * 2),
+      explanation: `Open for ${age} days`,
+    });
+  }
+
+  const scored = reasons.filter((reason): reason is ScoreReason => !!reason && reason.points !== 0);
+  return {
+    score: scored.reduce((sum, reason) => sum + reason.points, 0),
+    reasons: scored,
+  };
+}
+
+/** The next actions that can be done in the situation, best first; older ones win ties. */
+export function recommendNextActions<T extends RecommendationCandidate>(
+  tasks: T[],
+  situation: Situation,
+): Recommendation<T>[] {
+  return tasks
+    .filter((task) => canDoNow(task, situation))
+    .map((task) => ({ task, ...scoreNextAction(task, situation) }))
+    .sort(
+      (a, b) => b.score - a.score || a.task.createdAt.getTime() - b.task.createdAt.getTime(),
+    );
+}
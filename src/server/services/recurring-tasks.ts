@@ -0,0 +1,66 @@
+import type { Label, PrismaClient, Task } from "@prisma/client";
+import { getNextOccurrence, parseRecurrence } from "~/lib/recurrence";
+import type { TaskSnapshot } from "~/server/services/todoist-conflicts";
+
+/**
+ * Create the next occurrence of a recurring task that was just completed.
+ *
+ * The completed task stays behind as history without its rule, and the next occurrence takes over
+ * its Todoist link: Todoist keeps a recurring task open and moves its due date forward when it is
+ * closed. Returns null when the rule is not one we can schedule; a linked task then gets its next
+ * date from Todoist on the following sync.
+ */
+export async function createNextOccurrence(
+  db: PrismaClient,
+  task: Task & { labels: Pick<Label, "id">[] },
+  completedAt: Date,
+) {
+  const rule = task.recurrence ? parseRecurrence(task.recurrence) : null;
+  if (!rule) return null;
+
+  const dueDate = getNextOccurrence(rule, { dueDate: task.dueDate, completedAt });
+  // The start and follow-up dates move forward as far as the due date did
+  const shift = dueDate.getTime() - (task.dueDate ?? completedAt).getTime();
+  const shifted = (date: Date | null) => date && new Date(date.getTime() + shift);
+  // Todoist computes the date itself when the close is pushed, so the snapshot expects ours and
+  // whatever Todoist picks counts as a remote change
+  const snapshot = task.syncSnapshot as TaskSnapshot | null;
+
+  const [, next] = await db.$transaction([
+    db.task.update({
+      where: { id: task.id },
+      data: { todoistId: null, recurrence: null },
+    }),
+    db.task.create({
+      data: {
+        title: task.title,
+        description: task.description,
+        priority: task.priority,
+        dueDate,
+        startDate: shifted(task.startDate),
+        followUpAt: shifted(task.followUpAt),
+        recurrence: task.recurrence,
+        order: task.order,
+        taskType: task.taskType,
+        contextId: task.contextId,
+        personId: task.personId,
+        energyLevel: task.energyLevel,
+        timeEstimate: task.timeEstimate,
+        isNextAction: task.isNextAction,
+        waitingFor: task.waitingFor,
+        parentId: task.parentId,
+        todoistId: task.todoistId,
+        syncedAt: task.syncedAt,
+        ...(snapshot && {
+          syncSnapshot: { ...snapshot, dueDate: dueDate.toISOString().split("T")[0]! },
+        }),
+        userId: task.userId,
+        projectId: task.projectId,
+        sectionId: task.sectionId,
+        labels: { connect: task.labels.map((label) => ({ id: label.id })) },
+      },
+    }),
+  ]);
+
+  return next;
+}
@@ -0,0 +1,80 @@
+import type { PrismaClient } from "@prisma/client";
+import { HIGHLIGHT_END, HIGHLIGHT_START } from "~/lib/search-highlight";
+
+/**
+ * Full-text search over tasks with an SQLite FTS5 table.
+ *
+ * Prisma cannot describe virtual tables, so `TaskSearch` and the triggers that keep it in sync are
+ * created by `prisma/search-index.sql`, which `npm run db:push` runs after pushing the schema
+ * (`npm run db:search` rebuilds it on its own). Each row holds a task's title and description plus
+ * its project name and label names.
+ */
+
+// Columns: taskId, userId, title, description, project, labels
+const COLUMN_WEIGHTS = [0, 0, 10, 1, 4, 6];
+
+/**
+ * Turn what the user typed into an FTS5 query. Quoted text is matched as a phrase and every other
+ * word as a prefix, so results show up while typing; FTS5 operators in the input are treated as
+ * plain text. Returns null when nothing searchable is left.
+ */
+export function toSearchQuery(input: string) {
+  const terms: string[] = [];
+  const pattern = /"([^"]*)"?|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(input)) !== null) {
+    const phrase = match[1];
+    const word = match[2]?.replace(/\*+$/, "");
+    const text = (phrase ?? word ?? "").replace(/"/g, "").trim();
+    if (!/[\p{L}\p{N}]/u.test(text)) continue;
+
+    terms.push(phrase !== undefined ? `"${text}"` : `"${text}"*`);
+  }
+
+  return terms.length > 0 ? terms.join(" ") : null;
+}
+
+export interface TaskSearchMatch {
+  taskId: string;
+  title: string;
+  snippet: string;
+  rank: number;
+}
+
+/** Best matching tasks of a user, with highlighted titles and description snippets. */
+export async function searchTasks(
+  db: PrismaClient,
+  userId: string,
+  input: string,
+  { limit, includeCompleted }: { limit: number; includeCompleted: boolean },
+): Promise<TaskSearchMatch[]> {
+  const query = toSearchQuery(input);
+  if (!query) return [];
+
+  return db.$queryRawUnsafe<TaskSearchMatch[]>(
+    `SELECT "TaskSearch"."taskId",
+      highlight("TaskSearch", 2, ?, ?) AS "title",
+      snippet("TaskSearch", 3, ?, ?, '…', 16) AS "snippet",
+      bm25("TaskSearch", ${COLUMN_WEIGHTS.join(", ")}) AS "rank"
+    FROM "TaskSearch"
+    JOIN "Task" ON "Task"."id" = "TaskSearch"."taskId"
+    WHERE "TaskSearch" MATCH ? AND "TaskSearch"."userId" = ? AND "Task"."deletedAt" IS NULL
+      AND (? OR "Task"."completed" = 0)
+    ORDER BY "rank"
+    LIMIT ?`,
+    HIGHLIGHT_START,
+    HIGHLIGHT_END,
+    HIGHLIGHT_START,
+    HIGHLIGHT_END,
+    query,
+    userId,
+    includeCompleted,
+    limit,
+  ).catch((error: unknown) => {
+    if (error instanceof Error && error.message.includes("no such table: TaskSearch")) {
+      throw new Error("The search index is missing, run `npm run db:search` to create it");
+    }
+    throw error;
+  });
+}
@@ -0,0 +1,123 @@
+import {
+  OperationEntityType,
+  OperationType,
+  TaskEventType,
+  type PrismaClient,
+} from "@prisma/client";
+import { recordOperation } from "./operations";
+import { recordTaskEvents } from "./task-events";
+
+/**
+ * Subtask rules, following Todoist: completing a task completes everything below it, reopening a
+ * subtask reopens the tasks above it, and subtasks live in their parent's project and section.
+ * Todoist applies the same rules itself, so only the task that was changed is pushed to it.
+ */
+
+/** Ids of every task below a task, level by level. */
+export async function getDescendantIds(db: PrismaClient, taskId: string) {
+  const ids: string[] = [];
+  let level = [taskId];
+
+  while (level.length > 0) {
+    const children = await db.task.findMany({
+      where: { parentId: { in: level } },
+      select: { id: true },
+    });
+    level = children.map((child) => child.id).filter((id) => !ids.includes(id));
+    ids.push(...level);
+  }
+
+  return ids;
+}
+
+/** Ids of the tasks above a task, closest first. */
+export async function getAncestorIds(db: PrismaClient, taskId: string) {
+  const ids: string[] = [];
+  let current = await db.task.findUnique({ where: { id: taskId }, select: { parentId: true } });
+
+  while (current?.parentId && !ids.includes(current.parentId)) {
+    ids.push(current.parentId);
+    current = await db.task.findUnique({
+      where: { id: current.parentId },
+      select: { parentId: true },
+    });
+  }
+
+  return ids;
+}
+
+/** Whether making `parentId` the parent of `taskId` would put the task below itself. */
+export async function wouldCreateCycle(db: PrismaClient, taskId: string, parentId: string) {
+  return parentId === taskId || (await getAncestorIds(db, parentId)).includes(taskId);
+}
+
+/**
+ * Complete the open tasks below a task that was completed, each with its own event and operation
+ * so undo reopens them too. Returns the ids of every task below.
+ */
+export async function completeSubtasks(db: PrismaClient, userId: string, taskId: string) {
+  const ids = await getDescendantIds(db, taskId);
+  if (ids.length === 0) return ids;
+
+  const open = await db.task.findMany({
+    where: { id: { in: ids }, completed: false },
+    select: { id: true, title: true },
+  });
+  if (open.length === 0) return ids;
+
+  await db.task.updateMany({
+    where: { id: { in: open.map((task) => task.id) } },
+    data: { completed: true },
+  });
+  await recordTaskEvents(
+    db,
+    userId,
+    open.map((task) => ({ taskId: task.id, type: TaskEventType.COMPLETED })),
+  );
+  for (const task of open) {
+    await recordOperation(db, userId, {
+      type: OperationType.UPDATE,
+      entityType: OperationEntityType.TASK,
+      entityId: task.id,
+      description: `Complete "${task.title}"`,
+      before: { completed: false },
+      after: { completed: true },
+    });
+  }
+  return ids;
+}
+
+/** Reopen the completed tasks above a task that was reopened. Returns how many were reopened. */
+export async function reopenAncestors(db: PrismaClient, taskId: string) {
+  const ids = await getAncestorIds(db, taskId);
+  if (ids.length === 0) return 0;
+
+  const { count } = await db.task.updateMany({
+    where: { id: { in: ids }, completed: true },
+    data: { completed: false },
+  });
+  return count;
+}
+
+/** Next free position at the end of a parent's subtasks. */
+export async function getNextSubtaskOrder(db: PrismaClient, parentId: string) {
+  const last = await db.task.findFirst({
+    where: { parentId },
+    orderBy: { order: "desc" },
+    select: { order: true },
+  });
+  return (last?.order ?? -1) + 1;
+}
+
+/** Keep the tasks below a task in the project and section it was moved to. */
+export async function moveSubtasks(
+  db: PrismaClient,
+  taskId: string,
+  location: { projectId: string | null; sectionId: string | null },
+) {
+  const ids = await getDescendantIds(db, taskId);
+  if (ids.length === 0) return 0;
+
+  const { count } = await db.task.updateMany({ where: { id: { in: ids } }, data: location });
+  return count;
+}
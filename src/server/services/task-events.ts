@@ -0,0 +1,128 @@
+import { TaskEventType, type Prisma, type PrismaClient } from "@prisma/client";
+
+/**
+ * Activity history. Mutations of tasks, projects and sections, and changes pulled from Todoist,
+ * append events saying what happened, with the old and new values of the fields they changed.
+ * Events are never updated; they go away with their task, project or section when it is purged.
+ */
+
+type Fields = Record<string, unknown>;
+
+/** Changed fields with their values before and after. */
+export type FieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+export type TaskEventSubject = { taskId: string } | { projectId: string } | { sectionId: string };
+
+export type TaskEventInput = TaskEventSubject & {
+  type: TaskEventType;
+  changes?: FieldChanges;
+  note?: string | null;
+};
+
+// Where a task sits, logged as a move rather than an edit
+const LOCATION_FIELDS = ["project", "section", "parent"];
+
+// Dates are stored as ISO strings
+const toJson = (changes: FieldChanges) =>
+  JSON.parse(JSON.stringify(changes)) as Prisma.InputJsonObject;
+
+const serialize = (value: unknown) => JSON.stringify(value ?? null);
+
+/** The fields of `after` whose value differs in `before`. */
+export function diffFields(before: Fields, after: Fields): FieldChanges {
+  return Object.fromEntries(
+    Object.keys(after)
+      .filter((key) => serialize(before[key]) !== serialize(after[key]))
+      .map((key) => [key, { from: before[key] ?? null, to: after[key] ?? null }]),
+  );
+}
+
+/**
+ * The given fields of a task as its activity shows them: its project, section, context, person and
+ * labels by name rather than by id. Pass a task that includes them.
+ */
+export function describeTask(
+  task: {
+    project?: { name: string } | null;
+    section?: { name: string } | null;
+    context?: { name: string } | null;
+    person?: { name: string } | null;
+    labels?: { name: string }[];
+  },
+  keys: string[],
+): Fields {
+  return Object.fromEntries(
+    keys.map((key) => {
+      switch (key) {
+        case "projectId":
+          return ["project", task.project?.name ?? null];
+        case "sectionId":
+          return ["section", task.section?.name ?? null];
+        case "contextId":
+          return ["context", task.context?.name ?? null];
+        case "personId":
+          return ["person", task.person?.name ?? null];
+        case "labels":
+          return ["labels", task.labels?.map((label) => label.name) ?? []];
+        default:
+          return [key, (task as Fields)[key]];
+      }
+    }),
+  );
+}
+
+/**
+ * Events for a change to a task's fields. Completing or reopening it, moving it and editing its
+ * other fields are logged as separate events; no field changing logs nothing.
+ */
+export function taskChangeEvents(
+  taskId: string,
+  changes: FieldChanges,
+  note?: string | null,
+): TaskEventInput[] {
+  const { completed, ...rest } = changes;
+  const moved = Object.entries(rest).filter(([key]) => LOCATION_FIELDS.includes(key));
+  const edited = Object.entries(rest).filter(([key]) => !LOCATION_FIELDS.includes(key));
+
+  return [
+    ...(completed
+      ? [{ taskId, type: completed.to ? TaskEventType.COMPLETED : TaskEventType.REOPENED, note }]
+      : []),
+    ...(moved.length > 0
+      ? [{ taskId, type: TaskEventType.MOVED, changes: Object.fromEntries(moved), note }]
+      : []),
+    ...(edited.length > 0
+      ? [{ taskId, type: TaskEventType.UPDATED, changes: Object.fromEntries(edited), note }]
+      : []),
+  ];
+}
+
+/** The event for an edit of a project or section, or none when no field changed. */
+export const updatedEvents = (subject: TaskEventSubject, changes: FieldChanges): TaskEventInput[] =>
+  Object.keys(changes).length > 0 ? [{ ...subject, type: TaskEventType.UPDATED, changes }] : [];
+
+/** Append events to the activity history. */
+export async function recordTaskEvents(db: PrismaClient, userId: string, events: TaskEventInput[]) {
+  if (events.length === 0) return;
+
+  await db.taskEvent.createMany({
+    data: events.map(({ changes, ...event }) => ({
+      ...event,
+      changes: changes && toJson(changes),
+      userId,
+    })),
+  });
+}
+
+/**
+ * The event for a record written by a Todoist sync, as a nested create so it is written with the
+ * record. Records imported from Todoist have no changes.
+ */
+export const syncedEvent = (userId: string, changes?: FieldChanges, note?: string) => ({
+  create: {
+    type: TaskEventType.SYNCED,
+    changes: changes && toJson(changes),
+    note,
+    userId,
+  },
+});
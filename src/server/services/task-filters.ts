@@ -0,0 +1,379 @@
+import { EnergyLevel, TaskType, type Prisma, type PrismaClient } from "@prisma/client";
+import { z } from "zod";
+import { parseEstimate } from "~/server/services/quick-capture";
+
+/**
+ * Filter expressions over tasks, in the spirit of Todoist filters:
+ * "@phone & p1 & due before: +3d & !#Someday".
+ *
+ * Terms are combined with `&`, `|`, `!` and parentheses, `&` binding tighter than `|`. A term runs
+ * until the next operator, so names may contain spaces ("#Home Repairs"). Parsing checks the whole
+ * expression up front; names of projects, sections and labels are only looked up when the filter
+ * is built for a user, and names that match nothing match no tasks.
+ */
+
+export class FilterSyntaxError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position + 1}`);
+    this.name = "FilterSyntaxError";
+    this.position = position;
+  }
+}
+
+// A day relative to today, or a calendar date
+type FilterDay = { days: number } | { months: number } | { date: string };
+
+export type FilterTerm =
+  | { kind: "all" }
+  | { kind: "context"; value: string | null }
+  | { kind: "project"; name: string | null }
+  | { kind: "section"; name: string }
+  | { kind: "label"; name: string | null }
+  | { kind: "priority"; value: number }
+  | { kind: "due"; comparison: "on" | "before" | "after"; day: FilterDay }
+  | { kind: "overdue" }
+  | { kind: "noDate" }
+  | { kind: "recurring" }
+  | { kind: "energy"; value: EnergyLevel }
+  | { kind: "time"; comparison: "under" | "over"; minutes: number }
+  | { kind: "type"; value: TaskType }
+  | { kind: "nextAction" }
+  | { kind: "search"; text: string };
+
+export type FilterNode =
+  | { type: "and" | "or"; operands: FilterNode[] }
+  | { type: "not"; operand: FilterNode }
+  | { type: "term"; term: FilterTerm };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const KEYWORDS: Record<string, FilterTerm> = {
+  all: { kind: "all" },
+  today: { kind: "due", comparison: "on", day: { days: 0 } },
+  tomorrow: { kind: "due", comparison: "on", day: { days: 1 } },
+  overdue: { kind: "overdue" },
+  "no date": { kind: "noDate" },
+  "no due date": { kind: "noDate" },
+  "no project": { kind: "project", name: null },
+  "no labels": { kind: "label", name: null },
+  "no context": { kind: "context", value: null },
+  recurring: { kind: "recurring" },
+  "next action": { kind: "nextAction" },
+  "next actions": { kind: "nextAction" },
+};
+
+const ENERGY_LEVELS: Record<string, EnergyLevel> = {
+  high: EnergyLevel.HIGH,
+  medium: EnergyLevel.MEDIUM,
+  med: EnergyLevel.MEDIUM,
+  low: EnergyLevel.LOW,
+};
+
+// "today", "tomorrow", "yesterday", "+3d", "-2 weeks", "1m", "2024-06-20"
+function parseDay(value: string, position: number): FilterDay {
+  if (value === "today") return { days: 0 };
+  if (value === "tomorrow") return { days: 1 };
+  if (value === "yesterday") return { days: -1 };
+
+  const relative = /^([+-]?)\s*(\d+)\s*(d|days?|w|weeks?|m|months?)$/.exec(value);
+  if (relative) {
+    const amount = Number(relative[2]) * (relative[1] === "-" ? -1 : 1);
+    const unit = relative[3]![0];
+    if (unit === "m") return { months: amount };
+    return { days: unit === "w" ? amount * 7 : amount };
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value))) {
+    return { date: value };
+  }
+
+  throw new FilterSyntaxError(`Unknown date "${value}"`, position);
+}
+
+function parseTerm(text: string, position: number): FilterTerm {
+  const lower = text.toLowerCase().replace(/\s+/g, " ");
+  const name = text.slice(1).trim();
+
+  const keyword = KEYWORDS[lower];
+  if (keyword) return keyword;
+
+  if (/^@\S+$/.test(text)) return { kind: "context", value: lower };
+  if (text.startsWith("#") && name) return { kind: "project", name };
+  if (text.startsWith("/") && name) return { kind: "section", name };
+  if (text.startsWith("+") && name) return { kind: "label", name };
+  // Same numbers as Todoist, p1 is the most urgent
+  if (/^p[1-4]$/.test(lower)) return { kind: "priority", value: Number(lower[1]) };
+
+  const keyed = /^([a-z ]+?)\s*:\s*(.*)$/.exec(lower);
+  const [key, value] = keyed ? [keyed[1], keyed[2]!.trim()] : [];
+  const valuePosition = position + text.indexOf(":") + 1;
+
+  switch (key) {
+    case "due":
+      return { kind: "due", comparison: "on", day: parseDay(value!, valuePosition) };
+    case "due before":
+      return { kind: "due", comparison: "before", day: parseDay(value!, valuePosition) };
+    case "due after":
+      return { kind: "due", comparison: "after", day: parseDay(value!, valuePosition) };
+    case "energy": {
+      const energy = ENERGY_LEVELS[value!];
+      if (!energy) throw new FilterSyntaxError(`Unknown energy level "${value}"`, valuePosition);
+      return { kind: "energy", value: energy };
+    }
+    case "time under":
+    case "time over": {
+      const minutes = parseEstimate(value!);
+      if (minutes === undefined) throw new FilterSyntaxError(`Unknown time "${value}"`, valuePosition);
+      return { kind: "time", comparison: key === "time under" ? "under" : "over", minutes };
+    }
+    case "type": {
+      const taskType = Object.values(TaskType).find((type) => type.toLowerCase() === value);
+      if (!taskType) throw new FilterSyntaxError(`Unknown task type "${value}"`, valuePosition);
+      return { kind: "type", value: taskType };
+    }
+    case "search": {
+      const search = text.slice(text.indexOf(":") + 1).trim();
+      if (!search) throw new FilterSyntaxError("Nothing to search for", valuePosition);
+      return { kind: "search", text: search };
+    }
+  }
+
+  throw new FilterSyntaxError(`Unknown filter "${text}"`, position);
+}
+
+/** Parse a filter expression, throwing a FilterSyntaxError that points at the first mistake. */
+export function parseTaskFilter(input: string): FilterNode {
+  let index = 0;
+
+  const peek = () => {
+    while (/\s/.test(input[index] ?? "")) index++;
+    return input[index];
+  };
+
+  const parseList = (operator: "&" | "|", parseOperand: () => FilterNode): FilterNode => {
+    const operands = [parseOperand()];
+    while (peek() === operator) {
+      index++;
+      operands.push(parseOperand());
+    }
+    return operands.length === 1 ? operands[0]! : { type: operator === "&" ? "and" : "or", operands };
+  };
+
+  const parseOr = (): FilterNode => parseList("|", () => parseList("&", parseUnary));
+
+  function parseUnary(): FilterNode {
+    const next = peek();
+    const start = index;
+
+    if (next === "!") {
+      index++;
+      return { type: "not", operand: parseUnary() };
+    }
+    if (next === "(") {
+      index++;
+      const node = parseOr();
+      if (peek() !== ")") throw new FilterSyntaxError("Missing closing parenthesis", start);
+      index++;
+      return node;
+    }
+
+    while (index < input.length && !"&|()".includes(input[index]!)) index++;
+    const text = input.slice(start, index).trim();
+    if (!text) {
+      throw new FilterSyntaxError(next ? `Unexpected "${next}"` : "Expected a filter term", start);
+    }
+    return { type: "term", term: parseTerm(text, start) };
+  }
+
+  const node = parseOr();
+  const rest = peek();
+  if (rest !== undefined) throw new FilterSyntaxError(`Unexpected "${rest}"`, index);
+  return node;
+}
+
+/** A filter expression, reported through the zodError of a BAD_REQUEST when it does not parse. */
+export const taskFilterSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(500)
+  .superRefine((query, ctx) => {
+    try {
+      parseTaskFilter(query);
+    } catch (error) {
+      if (!(error instanceof FilterSyntaxError)) throw error;
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message });
+    }
+  });
+
+interface NamedRecords {
+  projects: { id: string; name: string }[];
+  sections: { id: string; name: string }[];
+  labels: { id: string; name: string }[];
+}
+
+export interface TaskFilterOptions {
+  now?: Date;
+}
+
+const sameName = (a: string, b: string) => a.localeCompare(b, undefined, { sensitivity: "base" }) === 0;
+
+const idsNamed = (records: { id: string; name: string }[], name: string) =>
+  records.filter((record) => sameName(record.name, name)).map((record) => record.id);
+
+// Days are UTC days, like the dates without a time that Todoist sends
+function startOfDay(day: FilterDay, now: Date) {
+  if ("date" in day) return new Date(`${day.date}T00:00:00Z`);
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  if ("days" in day) return new Date(today + day.days * DAY_MS);
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + day.months, now.getUTCDate()));
+}
+
+type NullableField =
+  | "contextId"
+  | "projectId"
+  | "sectionId"
+  | "dueDate"
+  | "energyLevel"
+  | "timeEstimate"
+  | "description";
+
+// SQL comparisons with NULL are neither true nor false, so "not" must keep empty fields explicitly
+const notOrNull = (field: NullableField, where: Prisma.TaskWhereInput): Prisma.TaskWhereInput => ({
+  OR: [{ [field]: null }, { NOT: where }],
+});
+
+function termWhere(
+  term: FilterTerm,
+  negate: boolean,
+  records: NamedRecords,
+  now: Date,
+): Prisma.TaskWhereInput {
+  const not = (where: Prisma.TaskWhereInput) => (negate ? { NOT: where } : where);
+
+  switch (term.kind) {
+    case "all":
+      return negate ? { id: { in: [] } } : {};
+    case "context":
+      if (term.value === null) return not({ contextId: null });
+      return negate
+        ? notOrNull("contextId", { context: { name: term.value } })
+        : { context: { name: term.value } };
+    case "project": {
+      if (term.name === null) return not({ projectId: null });
+      const where = { projectId: { in: idsNamed(records.projects, term.name) } };
+      return negate ? notOrNull("projectId", where) : where;
+    }
+    case "section": {
+      const where = { sectionId: { in: idsNamed(records.sections, term.name) } };
+      return negate ? notOrNull("sectionId", where) : where;
+    }
+    case "label":
+      if (term.name === null) return not({ labels: { none: {} } });
+      return not({ labels: { some: { id: { in: idsNamed(records.labels, term.name) } } } });
+    case "priority":
+      // Stored like the terms: priority 1 is p1, the most urgent
+      return not({ priority: term.value });
+    case "due": {
+      const start = startOfDay(term.day, now);
+      const end = new Date(start.getTime() + DAY_MS);
+      const where = {
+        on: { dueDate: { gte: start, lt: end } },
+        before: { dueDate: { lt: start } },
+        after: { dueDate: { gte: end } },
+      }[term.comparison];
+      return negate ? notOrNull("dueDate", where) : where;
+    }
+    case "overdue": {
+      const where = { dueDate: { lt: startOfDay({ days: 0 }, now) } };
+      return negate ? notOrNull("dueDate", where) : where;
+    }
+    case "noDate":
+      return not({ dueDate: null });
+    case "recurring":
+      return not({ recurrence: { not: null } });
+    case "energy":
+      return negate
+        ? notOrNull("energyLevel", { energyLevel: term.value })
+        : { energyLevel: term.value };
+    case "time": {
+      const where = {
+        timeEstimate: term.comparison === "under" ? { lte: term.minutes } : { gt: term.minutes },
+      };
+      return negate ? notOrNull("timeEstimate", where) : where;
+    }
+    case "type":
+      return not({ taskType: term.value });
+    case "nextAction":
+      return { isNextAction: !negate };
+    case "search": {
+      const inTitle = { title: { contains: term.text } };
+      const inDescription = { description: { contains: term.text } };
+      return negate
+        ? { AND: [{ NOT: inTitle }, notOrNull("description", inDescription)] }
+        : { OR: [inTitle, inDescription] };
+    }
+  }
+}
+
+// Push negations down to the terms so each one can handle empty fields
+function toWhere(
+  node: FilterNode,
+  negate: boolean,
+  records: NamedRecords,
+  now: Date,
+): Prisma.TaskWhereInput {
+  switch (node.type) {
+    case "not":
+      return toWhere(node.operand, !negate, records, now);
+    case "and":
+    case "or": {
+      const operands = node.operands.map((operand) => toWhere(operand, negate, records, now));
+      return (node.type === "and") !== negate ? { AND: operands } : { OR: operands };
+    }
+    case "term":
+      return termWhere(node.term, negate, records, now);
+  }
+}
+
+function collectTerms(node: FilterNode): FilterTerm[] {
+  if (node.type === "term") return [node.term];
+  if (node.type === "not") return collectTerms(node.operand);
+  return node.operands.flatMap(collectTerms);
+}
+
+/**
+ * Compile a filter expression into a Prisma `where` for the user's tasks, looking up the projects,
+ * sections and labels it names among the user's own, case insensitively.
+ */
+export async function buildTaskFilter(
+  db: PrismaClient,
+  userId: string,
+  query: string,
+  options: TaskFilterOptions = {},
+): Promise<Prisma.TaskWhereInput> {
+  const node = parseTaskFilter(query);
+  const kinds = new Set(collectTerms(node).map((term) => term.kind));
+
+  const [projects, sections, labels] = await Promise.all([
+    kinds.has("project")
+      ? db.project.findMany({ where: { userId, deletedAt: null }, select: { id: true, name: true } })
+      : [],
+    kinds.has("section")
+      ? db.section.findMany({
+          where: { project: { userId }, deletedAt: null },
+          select: { id: true, name: true },
+        })
+      : [],
+    kinds.has("label")
+      ? db.label.findMany({ where: { userId }, select: { id: true, name: true } })
+      : [],
+  ]);
+
+  return {
+    userId,
+    AND: [toWhere(node, false, { projects, sections, labels }, options.now ?? new Date())],
+  };
+}
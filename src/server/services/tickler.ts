@@ -0,0 +1,127 @@
+import { TaskEventType, TaskType, type Prisma, type PrismaClient } from "@prisma/client";
+import { recordTaskEvents } from "./task-events";
+
+const WORKER_INTERVAL_MS = 60 * 1000;
+
+/**
+ * The tickler file. Tasks and projects with a start date in the future are deferred: tasks stay out
+ * of the inbox and next actions, and so do the tasks of deferred projects. When the date comes,
+ * deferred tasks are put back in the inbox to be processed again and projects are simply started,
+ * each with a RESURFACED event.
+ */
+
+/** Tasks that are not deferred, in a project that is not deferred either. */
+export const startedTasks = (now: Date): Prisma.TaskWhereInput => ({
+  AND: [
+    { OR: [{ startDate: null }, { startDate: { lte: now } }] },
+    {
+      OR: [
+        { project: null },
+        { project: { startDate: null } },
+        { project: { startDate: { lte: now } } },
+      ],
+    },
+  ],
+});
+
+/**
+ * Bring back the user's tasks and projects whose start date has come. Returns the ids of what
+ * came back.
+ */
+export async function resurfaceDeferred(db: PrismaClient, userId: string, now = new Date()) {
+  const due = { userId, deletedAt: null, startDate: { lte: now } };
+  const [tasks, projects] = await Promise.all([
+    db.task.findMany({
+      where: { ...due, completed: false },
+      select: { id: true, startDate: true, taskType: true, isNextAction: true },
+    }),
+    db.project.findMany({
+      where: due,
+      select: { id: true, startDate: true },
+    }),
+  ]);
+  if (tasks.length === 0 && projects.length === 0) {
+    return { taskIds: [], projectIds: [] };
+  }
+
+  const taskIds = tasks.map((task) => task.id);
+  const projectIds = projects.map((project) => project.id);
+  await db.$transaction([
+    db.task.updateMany({
+      where: { id: { in: taskIds } },
+      data: { startDate: null, taskType: TaskType.INBOX, isNextAction: false },
+    }),
+    db.project.updateMany({
+      where: { id: { in: projectIds } },
+      data: { startDate: null },
+    }),
+  ]);
+
+  await recordTaskEvents(db, userId, [
+    ...tasks.map((task) => ({
+      taskId: task.id,
+      type: TaskEventType.RESURFACED,
+      changes: {
+        startDate: { from: task.startDate, to: null },
+        ...(task.taskType !== TaskType.INBOX && {
+          taskType: { from: task.taskType, to: TaskType.INBOX },
+        }),
+        ...(task.isNextAction && { isNextAction: { from: true, to: false } }),
+      },
+    })),
+    ...projects.map((project) => ({
+      projectId: project.id,
+      type: TaskEventType.RESURFACED,
+      changes: { startDate: { from: project.startDate, to: null } },
+    })),
+  ]);
+
+  return { taskIds, projectIds };
+}
+
+/** Bring back what is due for every user with deferred tasks or projects whose day has come. */
+export async function resurfaceAllDeferred(db: PrismaClient, now = new Date()) {
+  const due = { deletedAt: null, startDate: { lte: now } };
+  const [tasks, projects] = await Promise.all([
+    db.task.findMany({
+      where: { ...due, completed: false },
+      distinct: ["userId"],
+      select: { userId: true },
+    }),
+    db.project.findMany({
+      where: due,
+      distinct: ["userId"],
+      select: { userId: true },
+    }),
+  ]);
+
+  const userIds = new Set([...tasks, ...projects].map((record) => record.userId));
+  for (const userId of userIds) {
+    await resurfaceDeferred(db, userId, now);
+  }
+}
+
+const globalForWorker = globalThis as unknown as {
+  ticklerWorker: ReturnType<typeof setInterval> | undefined;
+};
+
+// Periodically bring back deferred tasks and projects, once per server process
+export function startTicklerWorker(db: PrismaClient) {
+  if (globalForWorker.ticklerWorker) return;
+
+  let running = false;
+  globalForWorker.ticklerWorker = setInterval(() => {
+    if (running) return;
+    running = true;
+
+    void (async () => {
+      try {
+        await resurfaceAllDeferred(db);
+      } catch (error) {
+        console.error("Failed to resurface deferred tasks:", error);
+      } finally {
+        running = false;
+      }
+    })();
+  }, WORKER_INTERVAL_MS);
+}
@@ -0,0 +1,182 @@
+import { TodoistConflictStrategy, type Prisma } from "@prisma/client";
+import type { TodoistSyncItem } from "~/server/services/todoist";
+
+export const CONFLICT_FIELDS = [
+  "title",
+  "description",
+  "priority",
+  "dueDate",
+  "recurrence",
+  "labels",
+] as const;
+
+export type ConflictField = (typeof CONFLICT_FIELDS)[number];
+
+/** Comparable values of the task fields that are edited on both sides. */
+export type TaskSnapshot = {
+  title: string;
+  description: string;
+  priority: number;
+  dueDate: string | null; // YYYY-MM-DD
+  recurrence: string | null;
+  labels: string[];
+};
+
+export interface FieldConflict<F extends ConflictField = ConflictField> {
+  field: F;
+  localValue: TaskSnapshot[F];
+  remoteValue: TaskSnapshot[F];
+  baseValue: TaskSnapshot[F] | null;
+}
+
+export interface TaskMerge {
+  /** Remote values to write locally */
+  takeRemote: Partial<TaskSnapshot>;
+  /** Local values that won a conflict and must be pushed to Todoist */
+  pushLocal: Partial<TaskSnapshot>;
+  /** Fields left for the user to decide */
+  conflicts: FieldConflict[];
+  /** Every field edited on both sides, however it was settled */
+  conflicting: ConflictField[];
+}
+
+const toDateString = (date: Date | null) => (date ? date.toISOString().split("T")[0]! : null);
+
+export const toTaskSnapshot = (task: {
+  title: string;
+  description: string | null;
+  priority: number;
+  dueDate: Date | null;
+  recurrence: string | null;
+  labels: { name: string }[];
+}): TaskSnapshot => ({
+  title: task.title,
+  description: task.description ?? "",
+  priority: task.priority,
+  dueDate: toDateString(task.dueDate),
+  recurrence: task.recurrence,
+  labels: task.labels.map((label) => label.name).sort(),
+});
+
+export const toRemoteSnapshot = (item: TodoistSyncItem): TaskSnapshot => ({
+  title: item.content,
+  description: item.description ?? "",
+  priority: 5 - item.priority, // Todoist uses reversed priority (4 = highest)
+  dueDate: toDateString(item.due?.date ? new Date(item.due.date) : null),
+  recurrence: item.due?.is_recurring ? item.due.string : null,
+  labels: [...item.labels].sort(),
+});
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Three-way merge of a linked task against its Todoist item, using the snapshot taken at the
+ * last sync as the common base.
+ *
+ * A field changed on one side only takes that side's value; local edits are already queued in the
+ * outbox. A field changed differently on both sides is settled by the user's strategy, `ASK` keeps
+ * the local value until the user picks one. Without a base (tasks synced before snapshots existed)
+ * Todoist wins, as it always used to.
+ */
+export function mergeTaskFields({
+  local,
+  remote,
+  base,
+  strategy,
+  localUpdatedAt,
+  remoteUpdatedAt,
+}: {
+  local: TaskSnapshot;
+  remote: TaskSnapshot;
+  base: TaskSnapshot | null;
+  strategy: TodoistConflictStrategy;
+  localUpdatedAt: Date;
+  remoteUpdatedAt: Date | null;
+}): TaskMerge {
+  const merge: TaskMerge = { takeRemote: {}, pushLocal: {}, conflicts: [], conflicting: [] };
+  const take = <F extends ConflictField>(target: Partial<TaskSnapshot>, field: F, value: TaskSnapshot[F]) => {
+    target[field] = value;
+  };
+
+  for (const field of CONFLICT_FIELDS) {
+    if (isSame(local[field], remote[field])) continue;
+
+    if (!base) {
+      take(merge.takeRemote, field, remote[field]);
+      continue;
+    }
+
+    // Snapshots taken before a field was tracked count it as empty
+    const baseValue = base[field] ?? null;
+    const localChanged = !isSame(local[field], baseValue);
+    const remoteChanged = !isSame(remote[field], baseValue);
+
+    if (!localChanged) {
+      take(merge.takeRemote, field, remote[field]);
+      continue;
+    }
+    if (!remoteChanged) continue;
+
+    merge.conflicting.push(field);
+    if (strategy === TodoistConflictStrategy.REMOTE) {
+      take(merge.takeRemote, field, remote[field]);
+    } else if (strategy === TodoistConflictStrategy.LOCAL) {
+      take(merge.pushLocal, field, local[field]);
+    } else if (strategy === TodoistConflictStrategy.NEWEST) {
+      if (remoteUpdatedAt && remoteUpdatedAt > localUpdatedAt) {
+        take(merge.takeRemote, field, remote[field]);
+      } else {
+        take(merge.pushLocal, field, local[field]);
+      }
+    } else {
+      merge.conflicts.push({
+        field,
+        localValue: local[field],
+        remoteValue: remote[field],
+        baseValue,
+      });
+    }
+  }
+
+  // Todoist sets the date and the rule together, so push both when either wins locally
+  if (merge.pushLocal.dueDate !== undefined || merge.pushLocal.recurrence !== undefined) {
+    merge.pushLocal.dueDate = local.dueDate;
+    merge.pushLocal.recurrence = local.recurrence;
+  }
+
+  return merge;
+}
+
+// Local task columns for snapshot values, labels are written separately
+export const toTaskFieldData = (values: Partial<TaskSnapshot>) => ({
+  ...(values.title !== undefined && { title: values.title }),
+  ...(values.description !== undefined && { description: values.description }),
+  ...(values.priority !== undefined && { priority: values.priority }),
+  ...(values.dueDate !== undefined && {
+    dueDate: values.dueDate ? new Date(values.dueDate) : null,
+  }),
+  ...(values.recurrence !== undefined && { recurrence: values.recurrence }),
+});
+
+/**
+ * Todoist due fields for a date and rule. Todoist keeps the rule in the due string, so a recurring
+ * task is sent as "<rule> starting <date>"; a plain due date would make it non-recurring.
+ */
+export const toTodoistDue = (dueDate: string | null, recurrence: string | null) =>
+  recurrence
+    ? {
+        due_string: dueDate
+          ? `${recurrence.replace(/\s+starting\s.*$/i, "")} starting ${dueDate}`
+          : recurrence,
+      }
+    : { due_date: dueDate };
+
+// Todoist update request body for snapshot values
+export const toTodoistTaskUpdate = (values: Partial<TaskSnapshot>): Prisma.InputJsonObject => ({
+  ...(values.title !== undefined && { content: values.title }),
+  ...(values.description !== undefined && { description: values.description }),
+  ...(values.priority !== undefined && { priority: 5 - values.priority }),
+  ...((values.dueDate !== undefined || values.recurrence !== undefined) &&
+    toTodoistDue(values.dueDate ?? null, values.recurrence ?? null)),
+  ...(values.labels !== undefined && { labels: values.labels }),
+});
@@ -0,0 +1,476 @@
+import {
+  TodoistEntityType,
+  TodoistOperation,
+  type Prisma,
+  type PrismaClient,
+  type TodoistOutboxEntry,
+} from "@prisma/client";
+import {
+  TodoistApiError,
+  createTodoistService,
+  type TodoistCreateLabel,
+  type TodoistCreateProject,
+  type TodoistCreateSection,
+  type TodoistCreateTask,
+  type TodoistService,
+  type TodoistTaskDestination,
+  type TodoistUpdateComment,
+  type TodoistUpdateLabel,
+  type TodoistUpdateProject,
+  type TodoistUpdateSection,
+  type TodoistUpdateTask,
+} from "~/server/services/todoist";
+import { toTaskSnapshot } from "~/server/services/todoist-conflicts";
+
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const WORKER_INTERVAL_MS = 15 * 1000;
+
+/** Attempts before an entry is marked as failed and left for the user to retry or discard. */
+export const MAX_ATTEMPTS = 10;
+
+// Changes that are done once the record is gone from Todoist
+const DONE_WHEN_MISSING = new Set<TodoistOperation>([
+  TodoistOperation.UPDATE,
+  TodoistOperation.CLOSE,
+  TodoistOperation.DELETE,
+]);
+
+export interface TodoistChange {
+  entityType: TodoistEntityType;
+  operation: TodoistOperation;
+  entityId: string;
+  todoistId?: string | null;
+  payload?: Prisma.InputJsonObject;
+}
+
+export interface TodoistDrainResult {
+  pushed: number;
+  failed: number;
+  pending: number;
+}
+
+// Wait 30s, 1m, 2m, ... between attempts, capped at an hour
+export const getRetryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** attempts, MAX_RETRY_DELAY_MS);
+
+// Whether a record is queued to be created in Todoist but has not been pushed yet
+export async function hasPendingTodoistCreate(
+  db: PrismaClient,
+  userId: string,
+  entityType: TodoistEntityType,
+  entityId: string,
+) {
+  const create = await db.todoistOutboxEntry.findFirst({
+    where: { userId, entityType, entityId, operation: TodoistOperation.CREATE },
+    select: { id: true },
+  });
+  return !!create;
+}
+
+/**
+ * Queue a local change to be pushed to Todoist by the outbox worker.
+ *
+ * Changes to records without a Todoist id are only queued while their own create is still
+ * pending; deleting such a record drops its queued changes instead, since Todoist never saw it.
+ */
+export async function enqueueTodoistChange(
+  db: PrismaClient,
+  userId: string,
+  change: TodoistChange,
+): Promise<TodoistOutboxEntry | null> {
+  if (change.operation !== TodoistOperation.CREATE && !change.todoistId) {
+    if (!(await hasPendingTodoistCreate(db, userId, change.entityType, change.entityId))) {
+      return null;
+    }
+
+    if (change.operation === TodoistOperation.DELETE) {
+      await db.todoistOutboxEntry.deleteMany({
+        where: { userId, entityType: change.entityType, entityId: change.entityId },
+      });
+      return null;
+    }
+  }
+
+  return db.todoistOutboxEntry.create({
+    data: {
+      entityType: change.entityType,
+      operation: change.operation,
+      entityId: change.entityId,
+      todoistId: change.todoistId,
+      payload: change.payload,
+      userId,
+    },
+  });
+}
+
+// Find the Todoist id of a record whose create may have been pushed after the change was queued
+async function resolveTodoistId(db: PrismaClient, entry: TodoistOutboxEntry) {
+  if (entry.todoistId) return entry.todoistId;
+
+  const where = { id: entry.entityId };
+  const select = { todoistId: true };
+  const record =
+    entry.entityType === TodoistEntityType.TASK
+      ? await db.task.findUnique({ where, select })
+      : entry.entityType === TodoistEntityType.PROJECT
+        ? await db.project.findUnique({ where, select })
+        : entry.entityType === TodoistEntityType.LABEL
+          ? await db.label.findUnique({ where, select })
+          : entry.entityType === TodoistEntityType.COMMENT
+            ? await db.comment.findUnique({ where, select })
+            : await db.section.findUnique({ where, select });
+
+  if (!record) return null;
+  if (!record.todoistId) {
+    throw new Error(`Waiting for ${entry.entityType.toLowerCase()} to be created in Todoist`);
+  }
+  return record.todoistId;
+}
+
+// The Todoist id of a related record, failing while its own create is still queued
+async function linkedTodoistId(
+  db: PrismaClient,
+  userId: string,
+  entityType: TodoistEntityType,
+  record: { id: string; todoistId: string | null } | null,
+) {
+  if (!record) return undefined;
+  if (record.todoistId) return record.todoistId;
+  if (await hasPendingTodoistCreate(db, userId, entityType, record.id)) {
+    throw new Error(`Waiting for ${entityType.toLowerCase()} to be created in Todoist`);
+  }
+  return undefined;
+}
+
+async function markSynced(db: PrismaClient, entry: TodoistOutboxEntry) {
+  const args = { where: { id: entry.entityId }, data: { syncedAt: new Date() } };
+  if (entry.entityType === TodoistEntityType.TASK) await db.task.updateMany(args);
+  else if (entry.entityType === TodoistEntityType.PROJECT) await db.project.updateMany(args);
+  else if (entry.entityType === TodoistEntityType.LABEL) await db.label.updateMany(args);
+  else if (entry.entityType === TodoistEntityType.COMMENT) await db.comment.updateMany(args);
+  else await db.section.updateMany(args);
+}
+
+async function pushCreate(db: PrismaClient, todoist: TodoistService, entry: TodoistOutboxEntry) {
+  const syncedAt = new Date();
+
+  if (entry.entityType === TodoistEntityType.TASK) {
+    const task = await db.task.findUnique({
+      where: { id: entry.entityId },
+      select: {
+        title: true,
+        description: true,
+        priority: true,
+        dueDate: true,
+        recurrence: true,
+        labels: { select: { name: true } },
+        project: { select: { id: true, todoistId: true } },
+        section: { select: { id: true, todoistId: true } },
+        parent: { select: { id: true, todoistId: true } },
+      },
+    });
+    if (!task) return;
+
+    // Creating before the project, section or parent would put the task in the wrong place
+    const created = await todoist.createTask({
+      ...(entry.payload as unknown as TodoistCreateTask),
+      project_id: await linkedTodoistId(db, entry.userId, TodoistEntityType.PROJECT, task.project),
+      section_id: await linkedTodoistId(db, entry.userId, TodoistEntityType.SECTION, task.section),
+      parent_id: await linkedTodoistId(db, entry.userId, TodoistEntityType.TASK, task.parent),
+    });
+    // Todoist now matches the local task, which becomes the base for conflict detection
+    await db.task.update({
+      where: { id: entry.entityId },
+      data: { todoistId: created.id, syncedAt, syncSnapshot: toTaskSnapshot(task) },
+    });
+    return;
+  }
+
+  if (entry.entityType === TodoistEntityType.PROJECT) {
+    const project = await db.project.findUnique({
+      where: { id: entry.entityId },
+      select: { parent: { select: { id: true, todoistId: true } } },
+    });
+    if (!project) return;
+
+    const created = await todoist.createProject({
+      ...(entry.payload as unknown as TodoistCreateProject),
+      parent_id: await linkedTodoistId(db, entry.userId, TodoistEntityType.PROJECT, project.parent),
+    });
+    await db.project.update({
+      where: { id: entry.entityId },
+      data: { todoistId: created.id, syncedAt },
+    });
+    return;
+  }
+
+  if (entry.entityType === TodoistEntityType.LABEL) {
+    const created = await todoist.createLabel(entry.payload as unknown as TodoistCreateLabel);
+    await db.label.updateMany({
+      where: { id: entry.entityId },
+      data: { todoistId: created.id, syncedAt },
+    });
+    return;
+  }
+
+  if (entry.entityType === TodoistEntityType.COMMENT) {
+    const comment = await db.comment.findUnique({
+      where: { id: entry.entityId },
+      select: {
+        task: { select: { todoistId: true } },
+        project: { select: { todoistId: true } },
+      },
+    });
+    if (!comment) return;
+
+    const parent = comment.task ?? comment.project;
+    if (!parent?.todoistId) {
+      throw new Error(`Waiting for ${comment.task ? "task" : "project"} to be created in Todoist`);
+    }
+
+    const created = await todoist.createComment({
+      ...(entry.payload as unknown as TodoistUpdateComment),
+      ...(comment.task ? { task_id: parent.todoistId } : { project_id: parent.todoistId }),
+    });
+    await db.comment.update({
+      where: { id: entry.entityId },
+      data: { todoistId: created.id, syncedAt },
+    });
+    return;
+  }
+
+  const section = await db.section.findUnique({
+    where: { id: entry.entityId },
+    select: { project: { select: { todoistId: true } } },
+  });
+  if (!section) return;
+  if (!section.project.todoistId) {
+    throw new Error("Waiting for project to be created in Todoist");
+  }
+
+  const created = await todoist.createSection({
+    ...(entry.payload as unknown as Omit<TodoistCreateSection, "project_id">),
+    project_id: section.project.todoistId,
+  });
+  await db.section.update({ where: { id: entry.entityId }, data: { todoistId: created.id, syncedAt } });
+}
+
+// Where a moved task lives now, read when pushing since its new parent may have reached Todoist
+// after the move was queued
+async function resolveMoveDestination(
+  db: PrismaClient,
+  todoist: TodoistService,
+  entry: TodoistOutboxEntry,
+): Promise<TodoistTaskDestination | null> {
+  const task = await db.task.findUnique({
+    where: { id: entry.entityId },
+    select: {
+      parent: { select: { todoistId: true } },
+      section: { select: { id: true, todoistId: true } },
+      project: { select: { id: true, todoistId: true } },
+    },
+  });
+  if (!task) return null;
+
+  if (task.parent) {
+    if (!task.parent.todoistId) {
+      throw new Error("Waiting for parent task to be created in Todoist");
+    }
+    return { parent_id: task.parent.todoistId };
+  }
+  const sectionId = await linkedTodoistId(db, entry.userId, TodoistEntityType.SECTION, task.section);
+  if (sectionId) return { section_id: sectionId };
+  const projectId = await linkedTodoistId(db, entry.userId, TodoistEntityType.PROJECT, task.project);
+  if (projectId) return { project_id: projectId };
+
+  // Tasks outside of linked projects belong in the Todoist inbox
+  const inbox = (await todoist.getProjects()).find((project) => project.is_inbox_project);
+  return inbox ? { project_id: inbox.id } : null;
+}
+
+async function pushEntry(db: PrismaClient, todoist: TodoistService, entry: TodoistOutboxEntry) {
+  if (entry.operation === TodoistOperation.CREATE) {
+    return pushCreate(db, todoist, entry);
+  }
+
+  const todoistId = await resolveTodoistId(db, entry);
+  if (!todoistId) return; // Deleted locally before Todoist knew about it
+
+  try {
+    await pushChange(db, todoist, entry, todoistId);
+  } catch (error) {
+    // Deleted in Todoist in the meantime, so there is nothing left to change there
+    if (
+      error instanceof TodoistApiError &&
+      error.status === 404 &&
+      DONE_WHEN_MISSING.has(entry.operation)
+    ) {
+      return;
+    }
+    throw error;
+  }
+
+  if (entry.operation !== TodoistOperation.DELETE) {
+    await markSynced(db, entry);
+  }
+}
+
+async function pushChange(
+  db: PrismaClient,
+  todoist: TodoistService,
+  entry: TodoistOutboxEntry,
+  todoistId: string,
+) {
+  switch (`${entry.entityType}:${entry.operation}`) {
+    case "TASK:UPDATE":
+      await todoist.updateTask(todoistId, entry.payload as TodoistUpdateTask);
+      break;
+    case "TASK:MOVE": {
+      const destination = await resolveMoveDestination(db, todoist, entry);
+      if (destination) await todoist.moveTask(todoistId, destination);
+      break;
+    }
+    case "TASK:CLOSE":
+      await todoist.closeTask(todoistId);
+      break;
+    case "TASK:REOPEN":
+      await todoist.reopenTask(todoistId);
+      break;
+    case "TASK:DELETE":
+      await todoist.deleteTask(todoistId);
+      break;
+    case "PROJECT:UPDATE":
+      await todoist.updateProject(todoistId, entry.payload as TodoistUpdateProject);
+      break;
+    case "PROJECT:DELETE":
+      await todoist.deleteProject(todoistId);
+      break;
+    case "SECTION:UPDATE":
+      await todoist.updateSection(todoistId, entry.payload as TodoistUpdateSection);
+      break;
+    case "SECTION:DELETE":
+      await todoist.deleteSection(todoistId);
+      break;
+    case "LABEL:UPDATE":
+      await todoist.updateLabel(todoistId, entry.payload as TodoistUpdateLabel);
+      break;
+    case "LABEL:DELETE":
+      await todoist.deleteLabel(todoistId);
+      break;
+    case "COMMENT:UPDATE":
+      await todoist.updateComment(todoistId, entry.payload as unknown as TodoistUpdateComment);
+      break;
+    case "COMMENT:DELETE":
+      await todoist.deleteComment(todoistId);
+      break;
+    default:
+      throw new Error(`Unsupported Todoist operation ${entry.operation} for ${entry.entityType}`);
+  }
+}
+
+/**
+ * Push a user's queued changes to Todoist in the order they were made.
+ *
+ * A failed entry holds back the later changes to the same record so they never overtake it (an
+ * update cannot run before the create it depends on), while other records carry on. It is retried
+ * with exponential backoff and keeps its error for the UI; after `MAX_ATTEMPTS` it is marked as
+ * failed and waits for the user. `force` ignores the backoff and retries failed entries, e.g. for
+ * a manual retry.
+ */
+export async function drainTodoistOutbox(
+  db: PrismaClient,
+  userId: string,
+  options: { todoist?: TodoistService | null; force?: boolean } = {},
+): Promise<TodoistDrainResult> {
+  const result: TodoistDrainResult = { pushed: 0, failed: 0, pending: 0 };
+
+  let todoist = options.todoist;
+  if (todoist === undefined) {
+    const user = await db.user.findUnique({
+      where: { id: userId },
+      select: { todoistApiToken: true },
+    });
+    todoist = createTodoistService(user?.todoistApiToken ?? undefined);
+  }
+
+  const entries = await db.todoistOutboxEntry.findMany({
+    where: { userId },
+    orderBy: { createdAt: "asc" },
+  });
+
+  if (!todoist) {
+    result.pending = entries.filter((entry) => !entry.failedAt).length;
+    return result;
+  }
+
+  // Records with an earlier change still queued, whose later changes have to wait
+  const blocked = new Set<string>();
+  const now = new Date();
+  for (const entry of entries) {
+    const key = `${entry.entityType}:${entry.entityId}`;
+    if (entry.failedAt && !options.force) {
+      blocked.add(key);
+      continue;
+    }
+    if (blocked.has(key) || (!options.force && entry.nextAttemptAt > now)) {
+      blocked.add(key);
+      result.pending++;
+      continue;
+    }
+
+    try {
+      await pushEntry(db, todoist, entry);
+      await db.todoistOutboxEntry.deleteMany({ where: { id: entry.id } });
+      result.pushed++;
+    } catch (error) {
+      const givenUp = entry.attempts + 1 >= MAX_ATTEMPTS;
+      await db.todoistOutboxEntry.update({
+        where: { id: entry.id },
+        data: {
+          attempts: { increment: 1 },
+          lastError: error instanceof Error ? error.message : String(error),
+          nextAttemptAt: new Date(now.getTime() + getRetryDelay(entry.attempts)),
+          ...(givenUp && { failedAt: now }),
+        },
+      });
+      blocked.add(key);
+      result.failed++;
+      if (!givenUp) result.pending++;
+    }
+  }
+
+  return result;
+}
+
+const globalForWorker = globalThis as unknown as {
+  todoistOutboxWorker: ReturnType<typeof setInterval> | undefined;
+};
+
+// Periodically drain the outbox of every user with changes due, once per server process
+export function startTodoistOutboxWorker(db: PrismaClient) {
+  if (globalForWorker.todoistOutboxWorker) return;
+
+  let running = false;
+  globalForWorker.todoistOutboxWorker = setInterval(() => {
+    if (running) return;
+    running = true;
+
+    void (async () => {
+      try {
+        const due = await db.todoistOutboxEntry.findMany({
+          where: { nextAttemptAt: { lte: new Date() }, failedAt: null },
+          distinct: ["userId"],
+          select: { userId: true },
+        });
+        for (const { userId } of due) {
+          await drainTodoistOutbox(db, userId);
+        }
+      } catch (error) {
+        console.error("Failed to drain Todoist outbox:", error);
+      } finally {
+        running = false;
+      }
+    })();
+  }, WORKER_INTERVAL_MS);
+}
@@ -0,0 +1,1020 @@
+import {
+  ProjectStatus,
+  TaskEventType,
+  TodoistConflictStrategy,
+  TodoistEntityType,
+  TodoistOperation,
+  TodoistRemovalPolicy,
+  type Prisma,
+  type PrismaClient,
+} from "@prisma/client";
+import {
+  TodoistSyncTokenError,
+  type TodoistResourceType,
+  type TodoistService,
+  type TodoistSyncItem,
+  type TodoistSyncProject,
+  type TodoistSyncResponse,
+  type TodoistSyncSection,
+} from "~/server/services/todoist";
+import {
+  mergeTaskFields,
+  toRemoteSnapshot,
+  toTaskFieldData,
+  toTaskSnapshot,
+  toTodoistTaskUpdate,
+  type ConflictField,
+  type FieldConflict,
+  type TaskMerge,
+  type TaskSnapshot,
+} from "~/server/services/todoist-conflicts";
+import { enqueueTodoistChange } from "~/server/services/todoist-outbox";
+import { trashProject, trashSection, trashTask } from "~/server/services/trash";
+import { toLabelConnections } from "~/server/services/labels";
+import {
+  diffFields,
+  recordTaskEvents,
+  syncedEvent,
+  type FieldChanges,
+  type TaskEventSubject,
+} from "~/server/services/task-events";
+
+const TRASHED_NOTE = "Moved to the trash after it was removed from Todoist";
+
+const RESOURCE_TYPES: TodoistResourceType[] = [
+  "projects",
+  "sections",
+  "items",
+  "notes",
+  "project_notes",
+];
+
+export interface TodoistRemovalCounts {
+  completed: number;
+  deleted: number;
+}
+
+type SyncCounts = { imported: number; updated: number } & TodoistRemovalCounts;
+
+export interface TodoistSyncResult {
+  fullSync: boolean;
+  conflicts: number;
+  /** Changes left out of a partial apply; the sync token only advances when this is 0 */
+  skipped: number;
+  projects: SyncCounts;
+  sections: Omit<SyncCounts, "completed">;
+  tasks: SyncCounts;
+  comments: Omit<SyncCounts, "completed">;
+}
+
+export interface TodoistLabelSyncResult {
+  imported: number;
+  updated: number;
+}
+
+export interface TodoistSyncChange {
+  /** Identifies the change when applying a subset, e.g. `task:<todoist id>` */
+  key: string;
+  name: string;
+  action: "create" | "update" | "complete" | "delete";
+  /** Local fields the change overwrites */
+  fields: string[];
+  /** Fields edited both locally and in Todoist */
+  conflicts: ConflictField[];
+}
+
+export interface TodoistSyncPreview {
+  fullSync: boolean;
+  projects: TodoistSyncChange[];
+  sections: TodoistSyncChange[];
+  tasks: TodoistSyncChange[];
+}
+
+// A remote record to write locally. Updates without visible changes have no `change` and are
+// always applied, since they only refresh order and sync bookkeeping.
+interface PlannedUpsert<T> {
+  remote: T;
+  localId?: string;
+  change: TodoistSyncChange | null;
+  /** Local values the change overwrites, for the record's activity history */
+  changes?: FieldChanges;
+}
+
+interface PlannedTaskUpsert extends PlannedUpsert<TodoistSyncItem> {
+  completes: boolean;
+  merge?: TaskMerge;
+}
+
+// A Todoist comment on a task or a project
+interface RemoteComment {
+  id: string;
+  content: string;
+  postedAt: string;
+  isDeleted: boolean;
+  taskTodoistId?: string;
+  projectTodoistId?: string;
+}
+
+interface PlannedRemoval {
+  localId: string;
+  /** Todoist deleted the record, rather than leaving it out of a full sync */
+  unlink: boolean;
+  change: TodoistSyncChange;
+}
+
+interface TodoistSyncPlan {
+  changes: TodoistSyncResponse;
+  policy: TodoistRemovalPolicy;
+  projects: PlannedUpsert<TodoistSyncProject>[];
+  removedProjects: PlannedRemoval[];
+  sections: PlannedUpsert<TodoistSyncSection>[];
+  removedSections: PlannedRemoval[];
+  tasks: PlannedTaskUpsert[];
+  removedTasks: PlannedRemoval[];
+}
+
+/**
+ * Apply the user's removal policy to local tasks whose Todoist counterpart is gone. Deleting moves
+ * them to the trash.
+ *
+ * Pass `unlink` when Todoist reported the tasks as deleted (rather than merely missing) so later
+ * updates are not pushed to tasks that no longer exist, nor a deletion once they are purged.
+ */
+export async function applyRemovedTasks(
+  db: PrismaClient,
+  where: Prisma.TaskWhereInput,
+  policy: TodoistRemovalPolicy,
+  unlink = false,
+): Promise<TodoistRemovalCounts> {
+  if (policy === TodoistRemovalPolicy.DELETE) {
+    const tasks = await db.task.findMany({
+      where: { ...where, deletedAt: null },
+      select: { id: true },
+    });
+    const deletedAt = new Date();
+    for (const task of tasks) await trashTask(db, task.id, deletedAt);
+    if (unlink && tasks.length) {
+      await db.task.updateMany({
+        where: { id: { in: tasks.map((task) => task.id) } },
+        data: { todoistId: null },
+      });
+    }
+    return { completed: 0, deleted: tasks.length };
+  }
+
+  const { count } = await db.task.updateMany({
+    where,
+    data: { completed: true, ...(unlink && { todoistId: null }) },
+  });
+  return { completed: count, deleted: 0 };
+}
+
+// Same as applyRemovedTasks, completing a project sets its status instead
+export async function applyRemovedProjects(
+  db: PrismaClient,
+  where: Prisma.ProjectWhereInput,
+  policy: TodoistRemovalPolicy,
+  unlink = false,
+): Promise<TodoistRemovalCounts> {
+  if (policy === TodoistRemovalPolicy.DELETE) {
+    const projects = await db.project.findMany({
+      where: { ...where, deletedAt: null },
+      select: { id: true },
+    });
+    const deletedAt = new Date();
+    for (const project of projects) await trashProject(db, project.id, deletedAt);
+    if (unlink && projects.length) {
+      await db.project.updateMany({
+        where: { id: { in: projects.map((project) => project.id) } },
+        data: { todoistId: null },
+      });
+    }
+    return { completed: 0, deleted: projects.length };
+  }
+
+  const { count } = await db.project.updateMany({
+    where,
+    data: { status: ProjectStatus.COMPLETED, ...(unlink && { todoistId: null }) },
+  });
+  return { completed: count, deleted: 0 };
+}
+
+const addRemovals = (counts: TodoistRemovalCounts, removed: TodoistRemovalCounts) => {
+  counts.completed += removed.completed;
+  counts.deleted += removed.deleted;
+};
+
+const toChange = (
+  key: string,
+  name: string,
+  action: TodoistSyncChange["action"],
+  fields: string[] = [],
+  conflicts: ConflictField[] = [],
+): TodoistSyncChange => ({ key, name, action, fields, conflicts });
+
+// Log what a sync changed on an existing record; refreshes that changed nothing are left out
+const syncedChanges = (userId: string, changes: FieldChanges = {}) =>
+  Object.keys(changes).length > 0 && { events: syncedEvent(userId, changes) };
+
+// Fetch everything changed since the stored token, starting over when Todoist rejects it
+async function fetchChanges(
+  todoist: TodoistService,
+  syncToken: string | null,
+): Promise<TodoistSyncResponse> {
+  try {
+    return await todoist.sync(syncToken ?? "*", RESOURCE_TYPES);
+  } catch (error) {
+    if (error instanceof TodoistSyncTokenError) {
+      return todoist.sync("*", RESOURCE_TYPES);
+    }
+    throw error;
+  }
+}
+
+// Map Todoist ids to local ids for records that are already linked
+const toIdMap = (records: { id: string; todoistId: string | null }[]) =>
+  new Map(records.map((record) => [record.todoistId!, record.id]));
+
+const deletedIds = (resources: { id: string; is_deleted: boolean }[] = []) =>
+  resources.filter((resource) => resource.is_deleted).map((resource) => resource.id);
+
+const toProjectData = (project: TodoistSyncProject, syncedAt: Date) => ({
+  name: project.name,
+  color: project.color,
+  isFavorite: project.is_favorite,
+  isInboxProject: project.inbox_project ?? false,
+  viewStyle: project.view_style,
+  order: project.child_order,
+  syncedAt,
+});
+
+const toSectionData = (section: TodoistSyncSection, syncedAt: Date) => ({
+  name: section.name,
+  order: section.section_order,
+  syncedAt,
+});
+
+// Fields that always follow Todoist; the snapshot becomes the base for the next merge
+const toTaskData = (item: TodoistSyncItem, syncedAt: Date) => ({
+  completed: item.checked,
+  order: item.child_order,
+  syncedAt,
+  syncSnapshot: toRemoteSnapshot(item),
+});
+
+// Keep the time of day that the snapshot's date drops
+const toDueDate = (item: TodoistSyncItem) => (item.due?.date ? new Date(item.due.date) : null);
+
+// Editable fields taken from Todoist
+const toRemoteFieldData = (item: TodoistSyncItem, values: Partial<TaskSnapshot>) => ({
+  ...toTaskFieldData(values),
+  ...(values.dueDate !== undefined && { dueDate: toDueDate(item) }),
+});
+
+const toConflictValues = (conflict: FieldConflict) => ({
+  localValue: JSON.stringify(conflict.localValue),
+  remoteValue: JSON.stringify(conflict.remoteValue),
+  baseValue: JSON.stringify(conflict.baseValue),
+});
+
+const toRemoteComments = (changes: TodoistSyncResponse): RemoteComment[] => [
+  ...(changes.notes ?? []).map((note) => ({
+    id: note.id,
+    content: note.content,
+    postedAt: note.posted_at,
+    isDeleted: note.is_deleted,
+    taskTodoistId: note.item_id,
+  })),
+  ...(changes.project_notes ?? []).map((note) => ({
+    id: note.id,
+    content: note.content,
+    postedAt: note.posted_at,
+    isDeleted: note.is_deleted,
+    projectTodoistId: note.project_id,
+  })),
+];
+
+/**
+ * Write Todoist comments on linked tasks and projects. Todoist's text always wins, and comments
+ * on records that are not linked (e.g. left out of a partial apply) are skipped.
+ */
+async function applyComments(
+  db: PrismaClient,
+  userId: string,
+  changes: TodoistSyncResponse,
+  syncedAt: Date,
+): Promise<TodoistSyncResult["comments"]> {
+  const counts = { imported: 0, updated: 0, deleted: 0 };
+  const comments = toRemoteComments(changes);
+  if (comments.length === 0) return counts;
+
+  const deleted = comments.filter((comment) => comment.isDeleted).map((comment) => comment.id);
+  if (deleted.length) {
+    const { count } = await db.comment.deleteMany({
+      where: { userId, todoistId: { in: deleted } },
+    });
+    counts.deleted = count;
+  }
+
+  const active = comments.filter((comment) => !comment.isDeleted);
+  const taskIds = toIdMap(
+    await db.task.findMany({
+      where: {
+        userId,
+        todoistId: { in: active.flatMap((c) => (c.taskTodoistId ? [c.taskTodoistId] : [])) },
+      },
+      select: { id: true, todoistId: true },
+    }),
+  );
+  const projectIds = toIdMap(
+    await db.project.findMany({
+      where: {
+        userId,
+        todoistId: {
+          in: active.flatMap((c) => (c.projectTodoistId ? [c.projectTodoistId] : [])),
+        },
+      },
+      select: { id: true, todoistId: true },
+    }),
+  );
+  const existing = await db.comment.findMany({
+    where: { userId, todoistId: { in: active.map((comment) => comment.id) } },
+    select: { id: true, todoistId: true, content: true },
+  });
+  const linkedComments = new Map(existing.map((comment) => [comment.todoistId!, comment]));
+
+  await db.$transaction(
+    active.flatMap((comment) => {
+      const linked = linkedComments.get(comment.id);
+      if (linked) {
+        if (linked.content === comment.content) return [];
+        counts.updated++;
+        return [
+          db.comment.update({
+            where: { id: linked.id },
+            data: { content: comment.content, syncedAt },
+          }),
+        ];
+      }
+
+      const taskId = comment.taskTodoistId ? taskIds.get(comment.taskTodoistId) : undefined;
+      const projectId = comment.projectTodoistId
+        ? projectIds.get(comment.projectTodoistId)
+        : undefined;
+      if (!taskId && !projectId) return [];
+
+      counts.imported++;
+      return [
+        db.comment.create({
+          data: {
+            content: comment.content,
+            todoistId: comment.id,
+            createdAt: new Date(comment.postedAt),
+            syncedAt,
+            userId,
+            ...(taskId ? { taskId } : { projectId }),
+          },
+        }),
+      ];
+    }),
+  );
+
+  return counts;
+}
+
+// Read everything needed to apply the changes and work out what each one will do, without writing
+async function planTodoistSync(
+  db: PrismaClient,
+  userId: string,
+  todoist: TodoistService,
+): Promise<TodoistSyncPlan> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: {
+      todoistSyncToken: true,
+      todoistRemovalPolicy: true,
+      todoistConflictStrategy: true,
+    },
+  });
+  const policy = user?.todoistRemovalPolicy ?? TodoistRemovalPolicy.COMPLETE;
+  const strategy = user?.todoistConflictStrategy ?? TodoistConflictStrategy.REMOTE;
+  const removalAction = policy === TodoistRemovalPolicy.DELETE ? "delete" : "complete";
+
+  const changes = await fetchChanges(todoist, user?.todoistSyncToken ?? null);
+  const remoteProjects = (changes.projects ?? []).filter((p) => !p.is_deleted);
+  const remoteSections = (changes.sections ?? []).filter((s) => !s.is_deleted);
+  const remoteItems = (changes.items ?? []).filter((i) => !i.is_deleted);
+
+  // Step 1: Projects
+  const existingProjects = await db.project.findMany({
+    where: { userId, todoistId: { in: remoteProjects.map((p) => p.id) } },
+    select: {
+      id: true,
+      todoistId: true,
+      name: true,
+      color: true,
+      isFavorite: true,
+      deletedAt: true,
+    },
+  });
+  const linkedProjects = new Map(existingProjects.map((project) => [project.todoistId!, project]));
+  // Records in the trash keep their Todoist id and are left as they are until restored, rather
+  // than being created again. Todoist hears about them once they are purged
+  const pulledProjects = remoteProjects.filter(
+    (remote) => !linkedProjects.get(remote.id)?.deletedAt,
+  );
+  const projects = pulledProjects.map((remote): PlannedUpsert<TodoistSyncProject> => {
+    const key = `project:${remote.id}`;
+    const existing = linkedProjects.get(remote.id);
+    if (!existing) return { remote, change: toChange(key, remote.name, "create") };
+
+    const changes = diffFields(existing, {
+      name: remote.name,
+      color: remote.color,
+      isFavorite: remote.is_favorite,
+    });
+    const fields = Object.keys(changes);
+    return {
+      remote,
+      localId: existing.id,
+      change: fields.length ? toChange(key, remote.name, "update", fields) : null,
+      changes,
+    };
+  });
+
+  const deletedProjectIds = new Set(deletedIds(changes.projects));
+  const removedProjects = (
+    await db.project.findMany({
+      where: {
+        userId,
+        deletedAt: null,
+        OR: [
+          { todoistId: { in: [...deletedProjectIds] } },
+          ...(changes.full_sync
+            ? [
+                {
+                  todoistId: { not: null, notIn: remoteProjects.map((p) => p.id) },
+                  status: { notIn: [ProjectStatus.COMPLETED, ProjectStatus.ARCHIVED] },
+                },
+              ]
+            : []),
+        ],
+      },
+      select: { id: true, todoistId: true, name: true },
+    })
+  ).map((project) => ({
+    localId: project.id,
+    unlink: deletedProjectIds.has(project.todoistId!),
+    change: toChange(`project:${project.todoistId}`, project.name, removalAction),
+  }));
+
+  // Step 2: Sections, skipping those whose project is unknown
+  const knownProjectIds = new Set([
+    ...pulledProjects.map((p) => p.id),
+    ...(
+      await db.project.findMany({
+        where: {
+          userId,
+          deletedAt: null,
+          todoistId: { in: remoteSections.map((s) => s.project_id) },
+        },
+        select: { todoistId: true },
+      })
+    ).map((project) => project.todoistId!),
+  ]);
+  const existingSections = await db.section.findMany({
+    where: {
+      todoistId: { in: remoteSections.map((s) => s.id) },
+      project: { userId },
+    },
+    select: { id: true, todoistId: true, name: true, deletedAt: true },
+  });
+  const linkedSections = new Map(existingSections.map((section) => [section.todoistId!, section]));
+  const sections = remoteSections
+    .filter(
+      (remote) =>
+        knownProjectIds.has(remote.project_id) && !linkedSections.get(remote.id)?.deletedAt,
+    )
+    .map((remote): PlannedUpsert<TodoistSyncSection> => {
+      const key = `section:${remote.id}`;
+      const existing = linkedSections.get(remote.id);
+      if (!existing) return { remote, change: toChange(key, remote.name, "create") };
+
+      const changes = diffFields(existing, { name: remote.name });
+      const fields = Object.keys(changes);
+      return {
+        remote,
+        localId: existing.id,
+        change: fields.length ? toChange(key, remote.name, "update", fields) : null,
+        changes,
+      };
+    });
+
+  // Sections have nothing to complete, so they are always removed
+  const removedSections = (
+    await db.section.findMany({
+      where: {
+        project: { userId },
+        deletedAt: null,
+        OR: [
+          { todoistId: { in: deletedIds(changes.sections) } },
+          ...(changes.full_sync
+            ? [{ todoistId: { not: null, notIn: remoteSections.map((s) => s.id) } }]
+            : []),
+        ],
+      },
+      select: { id: true, todoistId: true, name: true },
+    })
+  ).map((section) => ({
+    localId: section.id,
+    unlink: true,
+    change: toChange(`section:${section.todoistId}`, section.name, "delete"),
+  }));
+
+  // Step 3: Tasks
+  const existingTasks = await db.task.findMany({
+    where: { userId, todoistId: { in: remoteItems.map((i) => i.id) } },
+    select: {
+      id: true,
+      todoistId: true,
+      completed: true,
+      title: true,
+      description: true,
+      priority: true,
+      dueDate: true,
+      recurrence: true,
+      updatedAt: true,
+      syncSnapshot: true,
+      deletedAt: true,
+      labels: { select: { name: true } },
+    },
+  });
+  const linkedTasks = new Map(existingTasks.map((task) => [task.todoistId!, task]));
+  // Trashed tasks are left alone like trashed projects
+  const pulledItems = remoteItems.filter((remote) => !linkedTasks.get(remote.id)?.deletedAt);
+  const tasks = pulledItems.map((remote): PlannedTaskUpsert => {
+    const key = `task:${remote.id}`;
+    const existing = linkedTasks.get(remote.id);
+    if (!existing) {
+      return { remote, completes: false, change: toChange(key, remote.content, "create") };
+    }
+
+    const local = toTaskSnapshot(existing);
+    const merge = mergeTaskFields({
+      local,
+      remote: toRemoteSnapshot(remote),
+      base: existing.syncSnapshot as TaskSnapshot | null,
+      strategy,
+      localUpdatedAt: existing.updatedAt,
+      remoteUpdatedAt: remote.updated_at ? new Date(remote.updated_at) : null,
+    });
+    const completes = remote.checked && !existing.completed;
+    const fields = [
+      ...Object.keys(merge.takeRemote),
+      ...(remote.checked !== existing.completed ? ["completed"] : []),
+    ];
+    const visible = fields.length > 0 || merge.conflicting.length > 0;
+    return {
+      remote,
+      localId: existing.id,
+      completes,
+      merge,
+      change: visible
+        ? toChange(key, existing.title, completes ? "complete" : "update", fields, merge.conflicting)
+        : null,
+      changes: diffFields(
+        { ...local, completed: existing.completed },
+        { ...merge.takeRemote, completed: remote.checked },
+      ),
+    };
+  });
+
+  const deletedTaskIds = new Set(deletedIds(changes.items));
+  const removedTasks = (
+    await db.task.findMany({
+      where: {
+        userId,
+        deletedAt: null,
+        OR: [
+          { todoistId: { in: [...deletedTaskIds] } },
+          ...(changes.full_sync
+            ? [
+                {
+                  completed: false,
+                  todoistId: { not: null, notIn: remoteItems.map((i) => i.id) },
+                },
+              ]
+            : []),
+        ],
+      },
+      select: { id: true, todoistId: true, title: true },
+    })
+  ).map((task) => ({
+    localId: task.id,
+    unlink: deletedTaskIds.has(task.todoistId!),
+    change: toChange(`task:${task.todoistId}`, task.title, removalAction),
+  }));
+
+  return {
+    changes,
+    policy,
+    projects,
+    removedProjects,
+    sections,
+    removedSections,
+    tasks,
+    removedTasks,
+  };
+}
+
+const listChanges = (planned: { change: TodoistSyncChange | null }[]) =>
+  planned.flatMap((entry) => (entry.change ? [entry.change] : []));
+
+/**
+ * Work out what syncing with Todoist would change locally, without writing anything.
+ *
+ * The stored sync token is left alone, so applying afterwards fetches the same changes (plus
+ * anything changed in Todoist since). Change keys are stable between the two.
+ */
+export async function previewTodoistSync(
+  db: PrismaClient,
+  userId: string,
+  todoist: TodoistService,
+): Promise<TodoistSyncPreview> {
+  const plan = await planTodoistSync(db, userId, todoist);
+
+  return {
+    fullSync: plan.changes.full_sync,
+    projects: listChanges([...plan.projects, ...plan.removedProjects]),
+    sections: listChanges([...plan.sections, ...plan.removedSections]),
+    tasks: listChanges([...plan.tasks, ...plan.removedTasks]),
+  };
+}
+
+/**
+ * Pull changes from Todoist with the Sync API and apply them locally.
+ *
+ * Only resources changed since the user's stored sync token are fetched. Lookups are batched per
+ * resource type and writes are applied in one transaction per type, so large accounts no longer
+ * need one query per item.
+ *
+ * Items Todoist reports as deleted are handled with the user's removal policy. A full sync only
+ * returns active items, so linked records missing from it (deleted, completed or archived
+ * remotely) get the same treatment but keep their Todoist id in case they come back.
+ *
+ * Pass `only` with keys from `previewTodoistSync` to apply a subset. The sync token then stays
+ * put, so the changes left out show up again on the next sync. Comments are not previewed; they
+ * are applied with every sync.
+ */
+export async function syncTodoistChanges(
+  db: PrismaClient,
+  userId: string,
+  todoist: TodoistService,
+  options: { only?: string[] } = {},
+): Promise<TodoistSyncResult> {
+  const plan = await planTodoistSync(db, userId, todoist);
+  const { changes, policy } = plan;
+  const only = options.only && new Set(options.only);
+  const syncedAt = new Date();
+  const result: TodoistSyncResult = {
+    fullSync: changes.full_sync,
+    conflicts: 0,
+    skipped: 0,
+    projects: { imported: 0, updated: 0, completed: 0, deleted: 0 },
+    sections: { imported: 0, updated: 0, deleted: 0 },
+    tasks: { imported: 0, updated: 0, completed: 0, deleted: 0 },
+    comments: { imported: 0, updated: 0, deleted: 0 },
+  };
+
+  const selected = <T extends { change: TodoistSyncChange | null }>(planned: T[]) =>
+    planned.filter((entry) => {
+      if (!only || !entry.change || only.has(entry.change.key)) return true;
+      result.skipped++;
+      return false;
+    });
+
+  const applyRemovals = async (
+    removals: PlannedRemoval[],
+    remove: (where: { id: { in: string[] } }, unlink: boolean) => Promise<TodoistRemovalCounts>,
+    toSubject: (id: string) => TaskEventSubject,
+  ) => {
+    const counts: TodoistRemovalCounts = { completed: 0, deleted: 0 };
+    for (const unlink of [true, false]) {
+      const ids = removals.filter((removal) => removal.unlink === unlink).map((r) => r.localId);
+      if (ids.length) addRemovals(counts, await remove({ id: { in: ids } }, unlink));
+    }
+    await recordTaskEvents(
+      db,
+      userId,
+      removals.map((removal) => ({
+        ...toSubject(removal.localId),
+        ...(policy === TodoistRemovalPolicy.COMPLETE
+          ? { type: TaskEventType.SYNCED, note: "Completed after it was removed from Todoist" }
+          : { type: TaskEventType.DELETED, note: TRASHED_NOTE }),
+      })),
+    );
+    return counts;
+  };
+
+  // Step 1: Projects
+  await db.$transaction(
+    selected(plan.projects).map(({ remote, localId, changes }) => {
+      const data = toProjectData(remote, syncedAt);
+      if (localId) {
+        result.projects.updated++;
+        return db.project.update({
+          where: { id: localId },
+          data: { ...data, ...syncedChanges(userId, changes) },
+        });
+      }
+      result.projects.imported++;
+      return db.project.create({
+        data: { ...data, todoistId: remote.id, userId, events: syncedEvent(userId) },
+      });
+    }),
+  );
+
+  addRemovals(
+    result.projects,
+    await applyRemovals(
+      selected(plan.removedProjects),
+      (where, unlink) => applyRemovedProjects(db, { userId, ...where }, policy, unlink),
+      (projectId) => ({ projectId }),
+    ),
+  );
+
+  // Sections and tasks may reference projects that did not change in this sync
+  const projectIds = toIdMap(
+    await db.project.findMany({
+      where: {
+        userId,
+        todoistId: {
+          in: [
+            ...plan.sections.map(({ remote }) => remote.project_id),
+            ...plan.tasks.map(({ remote }) => remote.project_id),
+          ],
+        },
+      },
+      select: { id: true, todoistId: true },
+    }),
+  );
+
+  // Step 2: Sections
+  await db.$transaction(
+    selected(plan.sections).flatMap(({ remote, localId, changes }) => {
+      // The project's own create may have been left out
+      const projectId = projectIds.get(remote.project_id);
+      if (!projectId) return [];
+
+      const data = toSectionData(remote, syncedAt);
+      if (localId) {
+        result.sections.updated++;
+        return [
+          db.section.update({
+            where: { id: localId },
+            data: { ...data, projectId, ...syncedChanges(userId, changes) },
+          }),
+        ];
+      }
+      result.sections.imported++;
+      return [
+        db.section.create({
+          data: { ...data, todoistId: remote.id, projectId, events: syncedEvent(userId) },
+        }),
+      ];
+    }),
+  );
+
+  const removedSectionIds = selected(plan.removedSections).map((removal) => removal.localId);
+  if (removedSectionIds.length) {
+    const deletedAt = new Date();
+    for (const sectionId of removedSectionIds) await trashSection(db, sectionId, deletedAt);
+    await db.section.updateMany({
+      where: { id: { in: removedSectionIds }, project: { userId } },
+      data: { todoistId: null },
+    });
+    await recordTaskEvents(
+      db,
+      userId,
+      removedSectionIds.map((sectionId) => ({
+        sectionId,
+        type: TaskEventType.DELETED,
+        note: TRASHED_NOTE,
+      })),
+    );
+    result.sections.deleted = removedSectionIds.length;
+  }
+
+  // Step 3: Tasks
+  const sectionIds = toIdMap(
+    await db.section.findMany({
+      where: {
+        todoistId: {
+          in: plan.tasks.flatMap(({ remote }) => (remote.section_id ? [remote.section_id] : [])),
+        },
+        project: { userId },
+      },
+      select: { id: true, todoistId: true },
+    }),
+  );
+  const localWins: { todoistId: string; taskId: string; values: Partial<TaskSnapshot> }[] = [];
+  const plannedTasks = selected(plan.tasks);
+
+  await db.$transaction(
+    plannedTasks.flatMap(({ remote: item, localId, completes, merge, changes }) => {
+      const data = {
+        ...toTaskData(item, syncedAt),
+        projectId: projectIds.get(item.project_id) ?? null,
+        sectionId: item.section_id ? (sectionIds.get(item.section_id) ?? null) : null,
+      };
+      if (localId && merge) {
+        result.tasks.updated++;
+        if (completes) result.tasks.completed++;
+
+        const { takeRemote, pushLocal, conflicts } = merge;
+        if (Object.keys(pushLocal).length > 0) {
+          localWins.push({ todoistId: item.id, taskId: localId, values: pushLocal });
+        }
+        result.conflicts += conflicts.length;
+
+        return [
+          ...(takeRemote.labels
+            ? [
+                db.task.update({
+                  where: { id: localId },
+                  data: { labels: { set: [] } }, // This disconnects all labels
+                }),
+              ]
+            : []),
+          db.task.update({
+            where: { id: localId },
+            data: {
+              ...data,
+              ...toRemoteFieldData(item, takeRemote),
+              ...(takeRemote.labels && {
+                labels: { connectOrCreate: toLabelConnections(userId, takeRemote.labels) },
+              }),
+              ...syncedChanges(userId, changes),
+            },
+          }),
+          ...conflicts.map((conflict) =>
+            db.syncConflict.upsert({
+              where: { taskId_field: { taskId: localId, field: conflict.field } },
+              create: {
+                field: conflict.field,
+                ...toConflictValues(conflict),
+                taskId: localId,
+                userId,
+              },
+              update: toConflictValues(conflict),
+            }),
+          ),
+        ];
+      }
+      const remote = toRemoteSnapshot(item);
+      result.tasks.imported++;
+      return [
+        db.task.create({
+          data: {
+            ...data,
+            title: remote.title,
+            description: remote.description,
+            priority: remote.priority,
+            dueDate: toDueDate(item),
+            recurrence: remote.recurrence,
+            todoistId: item.id,
+            userId,
+            labels: { connectOrCreate: toLabelConnections(userId, item.labels) },
+            events: syncedEvent(userId),
+          },
+        }),
+      ];
+    }),
+  );
+
+  await linkTodoistParents(db, userId, plannedTasks.map(({ remote }) => remote));
+
+  // Conflicts settled in favour of local values still have to reach Todoist
+  for (const { todoistId, taskId, values } of localWins) {
+    await enqueueTodoistChange(db, userId, {
+      entityType: TodoistEntityType.TASK,
+      operation: TodoistOperation.UPDATE,
+      entityId: taskId,
+      todoistId,
+      payload: toTodoistTaskUpdate(values),
+    });
+  }
+
+  addRemovals(
+    result.tasks,
+    await applyRemovals(
+      selected(plan.removedTasks),
+      (where, unlink) => applyRemovedTasks(db, { userId, ...where }, policy, unlink),
+      (taskId) => ({ taskId }),
+    ),
+  );
+
+  // Step 4: Comments, once the tasks and projects they are on exist
+  result.comments = await applyComments(db, userId, changes, syncedAt);
+
+  // Only advance the token once every change has been applied
+  if (result.skipped === 0) {
+    await db.user.update({
+      where: { id: userId },
+      data: {
+        todoistSyncToken: changes.sync_token,
+        todoistLastSyncAt: syncedAt,
+      },
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Nest linked tasks under the tasks Todoist has them under. This runs once the tasks are written,
+ * since a subtask can arrive in the same sync as its parent. Returns how many tasks were moved.
+ */
+export async function linkTodoistParents(
+  db: PrismaClient,
+  userId: string,
+  items: { id: string; parent_id?: string | null }[],
+) {
+  if (items.length === 0) return 0;
+
+  const todoistIds = new Set(items.flatMap((item) => [item.id, ...(item.parent_id ? [item.parent_id] : [])]));
+  const tasks = await db.task.findMany({
+    where: { userId, deletedAt: null, todoistId: { in: [...todoistIds] } },
+    select: { id: true, todoistId: true, parentId: true },
+  });
+  const linked = new Map(tasks.map((task) => [task.todoistId!, task]));
+
+  const updates = items.flatMap((item) => {
+    const task = linked.get(item.id);
+    if (!task) return [];
+    // Parents that are not linked here leave the subtask at the top level
+    const parentId = item.parent_id ? (linked.get(item.parent_id)?.id ?? null) : null;
+    if (parentId === task.parentId) return [];
+    return [db.task.update({ where: { id: task.id }, data: { parentId } })];
+  });
+  if (updates.length > 0) await db.$transaction(updates);
+
+  return updates.length;
+}
+
+/**
+ * Mirror the user's Todoist labels onto their local labels.
+ *
+ * Labels are linked by Todoist id, falling back to the name for labels that existed on both sides
+ * before they were linked. A label renamed in Todoist is renamed here unless the new name is
+ * already taken, so its tasks keep it when their label names are synced.
+ */
+export async function syncTodoistLabels(
+  db: PrismaClient,
+  userId: string,
+  todoist: TodoistService,
+): Promise<TodoistLabelSyncResult> {
+  const remoteLabels = await todoist.getLabels();
+  const existingLabels = await db.label.findMany({
+    where: {
+      userId,
+      OR: [
+        { todoistId: { in: remoteLabels.map((label) => label.id) } },
+        { name: { in: remoteLabels.map((label) => label.name) } },
+      ],
+    },
+    select: { id: true, todoistId: true, name: true },
+  });
+  const linkedLabels = new Map(existingLabels.map((label) => [label.todoistId, label]));
+  const namedLabels = new Map(existingLabels.map((label) => [label.name, label]));
+
+  const syncedAt = new Date();
+  const result: TodoistLabelSyncResult = { imported: 0, updated: 0 };
+
+  await db.$transaction(
+    remoteLabels.map((label) => {
+      const data = {
+        todoistId: label.id,
+        color: label.color,
+        order: label.order,
+        isFavorite: label.is_favorite,
+        syncedAt,
+      };
+      const existing = linkedLabels.get(label.id) ?? namedLabels.get(label.name);
+      if (existing) {
+        const nameTaken = namedLabels.has(label.name) && namedLabels.get(label.name) !== existing;
+        result.updated++;
+        return db.label.update({
+          where: { id: existing.id },
+          data: { ...data, ...(!nameTaken && { name: label.name }) },
+        });
+      }
+      result.imported++;
+      return db.label.create({
+        data: { ...data, name: label.name, userId },
+      });
+    }),
+  );
+
+  return result;
+}
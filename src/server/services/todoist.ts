@@ -9,6 +9,7 @@ export interface TodoistTask {
     date: string;
     datetime?: string;
     string: string;
+    is_recurring: boolean;
     timezone?: string;
   };
   labels?: string[];
@@ -16,6 +17,7 @@ export interface TodoistTask {
   created_at: string;
   project_id?: string;
   section_id?: string;
+  parent_id?: string | null;
   order?: number;
   url?: string;
 }
@@ -60,6 +62,7 @@ export interface TodoistCreateTask {
   labels?: string[];
   project_id?: string;
   section_id?: string;
+  parent_id?: string;
   order?: number;
 }
 
@@ -73,6 +76,12 @@ export interface TodoistUpdateTask {
   labels?: string[];
 }
 
+// Where a task is moved to: under another task, or to the top level of a project or section
+export type TodoistTaskDestination =
+  | { parent_id: string }
+  | { project_id: string }
+  | { section_id: string };
+
 export interface TodoistCreateProject {
   name: string;
   parent_id?: string;
@@ -101,9 +110,142 @@ export interface TodoistUpdateSection {
   order?: number;
 }
 
+export interface TodoistCreateLabel {
+  name: string;
+  color?: string;
+  order?: number;
+  is_favorite?: boolean;
+}
+
+export type TodoistUpdateLabel = Partial<TodoistCreateLabel>;
+
+export interface TodoistComment {
+  id: string;
+  task_id: string | null;
+  project_id: string | null;
+  content: string;
+  posted_at: string;
+}
+
+// What a comment is on: a task or a whole project
+export type TodoistCommentParent = { task_id: string } | { project_id: string };
+
+export type TodoistCreateComment = { content: string } & TodoistCommentParent;
+
+export interface TodoistUpdateComment {
+  content: string;
+}
+
+export type TodoistResourceType =
+  | "projects"
+  | "sections"
+  | "items"
+  | "labels"
+  | "notes"
+  | "project_notes";
+
+export interface TodoistSyncDue {
+  date: string;
+  string: string;
+  is_recurring: boolean;
+  timezone?: string | null;
+}
+
+export interface TodoistSyncProject {
+  id: string;
+  name: string;
+  color: string;
+  parent_id: string | null;
+  child_order: number;
+  is_favorite: boolean;
+  is_archived: boolean;
+  is_deleted: boolean;
+  inbox_project?: boolean;
+  view_style: string;
+}
+
+export interface TodoistSyncSection {
+  id: string;
+  name: string;
+  project_id: string;
+  section_order: number;
+  is_archived: boolean;
+  is_deleted: boolean;
+}
+
+export interface TodoistSyncItem {
+  id: string;
+  content: string;
+  description: string;
+  priority: number;
+  due: TodoistSyncDue | null;
+  labels: string[];
+  project_id: string;
+  section_id: string | null;
+  parent_id: string | null;
+  child_order: number;
+  checked: boolean;
+  is_deleted: boolean;
+  added_at: string;
+  updated_at?: string;
+}
+
+// Comment on a task
+export interface TodoistSyncNote {
+  id: string;
+  item_id: string;
+  content: string;
+  posted_at: string;
+  is_deleted: boolean;
+}
+
+// Comment on a project
+export interface TodoistSyncProjectNote {
+  id: string;
+  project_id: string;
+  content: string;
+  posted_at: string;
+  is_deleted: boolean;
+}
+
+export interface TodoistSyncResponse {
+  sync_token: string;
+  full_sync: boolean;
+  projects?: TodoistSyncProject[];
+  sections?: TodoistSyncSection[];
+  items?: TodoistSyncItem[];
+  labels?: TodoistLabel[];
+  notes?: TodoistSyncNote[];
+  project_notes?: TodoistSyncProjectNote[];
+}
+
+/**
+ * Thrown when Todoist rejects a stored sync token, so callers can fall back to a full sync.
+ */
+export class TodoistSyncTokenError extends Error {
+  constructor() {
+    super("Todoist sync token is invalid");
+    this.name = "TodoistSyncTokenError";
+  }
+}
+
+/**
+ * Thrown when a Todoist REST request fails, with the response status.
+ */
+export class TodoistApiError extends Error {
+  constructor(
+    public status: number,
+    statusText: string,
+  ) {
+    super(`Todoist API error: ${statusText}`);
+    this.name = "TodoistApiError";
+  }
+}
+
 export class TodoistService {
   private apiKey: string;
   private baseUrl = "https://api.todoist.com/rest/v2";
+  private syncUrl = "https://api.todoist.com/sync/v9/sync";
 
   constructor(apiKey: string) {
     this.apiKey = apiKey;
@@ -124,7 +266,7 @@ export class TodoistService {
     });
 
     if (!response.ok) {
-      throw new Error(`Todoist API error: ${response.statusText}`);
+      throw new TodoistApiError(response.status, response.statusText);
     }
 
     if (response.status === 204) {
@@ -134,6 +276,40 @@ export class TodoistService {
     return response.json() as Promise<T>;
   }
 
+  /**
+   * Fetch resources changed since `syncToken` using the Sync API. Pass "*" to fetch everything.
+   */
+  async sync(
+    syncToken: string,
+    resourceTypes: TodoistResourceType[],
+  ): Promise<TodoistSyncResponse> {
+    const response = await fetch(this.syncUrl, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({
+        sync_token: syncToken,
+        resource_types: JSON.stringify(resourceTypes),
+      }).toString(),
+    });
+
+    if (!response.ok) {
+      if (syncToken !== "*" && response.status === 400) {
+        const error = (await response.json().catch(() => null)) as {
+          error_tag?: string;
+        } | null;
+        if (error?.error_tag?.includes("SYNC_TOKEN")) {
+          throw new TodoistSyncTokenError();
+        }
+      }
+      throw new Error(`Todoist API error: ${response.statusText}`);
+    }
+
+    return response.json() as Promise<TodoistSyncResponse>;
+  }
+
   async getTasks(): Promise<TodoistTask[]> {
     return this.request<TodoistTask[]>("GET", "/tasks");
   }
@@ -150,6 +326,36 @@ export class TodoistService {
     return this.request<TodoistTask>("POST", `/tasks/${id}`, task);
   }
 
+  /**
+   * Move a task under another task or to the top level of a project or section, with its subtasks.
+   * The REST API cannot change a task's parent, so this sends an `item_move` command to the Sync API.
+   */
+  async moveTask(id: string, destination: TodoistTaskDestination): Promise<void> {
+    const response = await fetch(this.syncUrl, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({
+        commands: JSON.stringify([
+          { type: "item_move", uuid: crypto.randomUUID(), args: { id, ...destination } },
+        ]),
+      }).toString(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Todoist API error: ${response.statusText}`);
+    }
+
+    // Commands fail one by one, with the error in their status instead of the response status
+    const result = (await response.json()) as { sync_status?: Record<string, unknown> };
+    const status = Object.values(result.sync_status ?? {})[0];
+    if (status !== undefined && status !== "ok") {
+      throw new Error(`Todoist API error: ${JSON.stringify(status)}`);
+    }
+  }
+
   async deleteTask(id: string): Promise<void> {
     await this.request<void>("DELETE", `/tasks/${id}`);
   }
@@ -213,6 +419,36 @@ export class TodoistService {
   async getLabel(id: string): Promise<TodoistLabel> {
     return this.request<TodoistLabel>("GET", `/labels/${id}`);
   }
+
+  async createLabel(label: TodoistCreateLabel): Promise<TodoistLabel> {
+    return this.request<TodoistLabel>("POST", "/labels", label);
+  }
+
+  async updateLabel(id: string, label: TodoistUpdateLabel): Promise<TodoistLabel> {
+    return this.request<TodoistLabel>("POST", `/labels/${id}`, label);
+  }
+
+  async deleteLabel(id: string): Promise<void> {
+    await this.request<void>("DELETE", `/labels/${id}`);
+  }
+
+  // Comments
+  async getComments(parent: TodoistCommentParent): Promise<TodoistComment[]> {
+    const query = new URLSearchParams(parent).toString();
+    return this.request<TodoistComment[]>("GET", `/comments?${query}`);
+  }
+
+  async createComment(comment: TodoistCreateComment): Promise<TodoistComment> {
+    return this.request<TodoistComment>("POST", "/comments", comment);
+  }
+
+  async updateComment(id: string, comment: TodoistUpdateComment): Promise<TodoistComment> {
+    return this.request<TodoistComment>("POST", `/comments/${id}`, comment);
+  }
+
+  async deleteComment(id: string): Promise<void> {
+    await this.request<void>("DELETE", `/comments/${id}`);
+  }
 }
 
 export function createTodoistService(apiKey?: string): TodoistService | null {
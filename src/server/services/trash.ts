@@ -0,0 +1,358 @@
+import {
+  TodoistEntityType,
+  TodoistOperation,
+  type PrismaClient,
+  type Project,
+  type Section,
+  type Task,
+} from "@prisma/client";
+import { createAttachmentStorage, type AttachmentStorage } from "./attachment-storage";
+import { purgeOrphanedAttachments } from "./attachments";
+import { getDescendantIds } from "./subtasks";
+import { enqueueTodoistChange } from "./todoist-outbox";
+
+/**
+ * Soft deletion. Deleting a task, section or project moves it to the trash with everything in it,
+ * all stamped with the same `deletedAt`, so restoring it brings back exactly what went with it.
+ * Todoist only hears about a deletion once the item is purged from the trash.
+ */
+
+export type TrashItemType = "TASK" | "SECTION" | "PROJECT";
+
+export interface TrashItem {
+  type: TrashItemType;
+  id: string;
+  name: string;
+  project: string | null;
+  deletedAt: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WORKER_INTERVAL_MS = 60 * 60 * 1000;
+
+const deletedTogether = (deletedAt: Date | null | undefined, other: Date | null) =>
+  !!deletedAt && !!other && deletedAt.getTime() === other.getTime();
+
+/** Move a task and its subtasks to the trash. Returns the ids of the trashed tasks. */
+export async function trashTask(db: PrismaClient, taskId: string, deletedAt = new Date()) {
+  const ids = [taskId, ...(await getDescendantIds(db, taskId))];
+  await db.task.updateMany({
+    where: { id: { in: ids }, deletedAt: null },
+    data: { deletedAt },
+  });
+  return ids;
+}
+
+/** Move a section and its tasks to the trash. */
+export async function trashSection(db: PrismaClient, sectionId: string, deletedAt = new Date()) {
+  await db.$transaction([
+    db.section.update({ where: { id: sectionId }, data: { deletedAt } }),
+    db.task.updateMany({ where: { sectionId, deletedAt: null }, data: { deletedAt } }),
+  ]);
+}
+
+/** Move a project, its sections and its tasks to the trash. */
+export async function trashProject(db: PrismaClient, projectId: string, deletedAt = new Date()) {
+  await db.$transaction([
+    db.project.update({ where: { id: projectId }, data: { deletedAt } }),
+    db.section.updateMany({ where: { projectId, deletedAt: null }, data: { deletedAt } }),
+    db.task.updateMany({ where: { projectId, deletedAt: null }, data: { deletedAt } }),
+  ]);
+}
+
+/**
+ * Restore a task and the subtasks deleted with it. A task whose parent, section or project is
+ * still in the trash is restored outside of it.
+ */
+export async function restoreTask(
+  db: PrismaClient,
+  task: Pick<Task, "id" | "deletedAt" | "parentId" | "projectId" | "sectionId">,
+) {
+  const ids = [task.id, ...(await getDescendantIds(db, task.id))];
+  const [parent, project, section] = await Promise.all([
+    task.parentId
+      ? db.task.findUnique({ where: { id: task.parentId }, select: { deletedAt: true } })
+      : null,
+    task.projectId
+      ? db.project.findUnique({ where: { id: task.projectId }, select: { deletedAt: true } })
+      : null,
+    task.sectionId
+      ? db.section.findUnique({ where: { id: task.sectionId }, select: { deletedAt: true } })
+      : null,
+  ]);
+
+  await db.$transaction([
+    db.task.updateMany({
+      where: { id: { in: ids }, deletedAt: task.deletedAt },
+      data: {
+        deletedAt: null,
+        ...(project?.deletedAt && { projectId: null, sectionId: null }),
+        ...(section?.deletedAt && { sectionId: null }),
+      },
+    }),
+    ...(parent?.deletedAt
+      ? [db.task.update({ where: { id: task.id }, data: { parentId: null } })]
+      : []),
+  ]);
+}
+
+/** Restore a section and the tasks deleted with it. Its project must not be in the trash. */
+export async function restoreSection(db: PrismaClient, section: Pick<Section, "id" | "deletedAt">) {
+  await db.$transaction([
+    db.section.update({ where: { id: section.id }, data: { deletedAt: null } }),
+    db.task.updateMany({
+      where: { sectionId: section.id, deletedAt: section.deletedAt },
+      data: { deletedAt: null },
+    }),
+  ]);
+}
+
+/** Restore a project and the sections and tasks deleted with it. */
+export async function restoreProject(db: PrismaClient, project: Pick<Project, "id" | "deletedAt">) {
+  await db.$transaction([
+    db.project.update({ where: { id: project.id }, data: { deletedAt: null } }),
+    db.section.updateMany({
+      where: { projectId: project.id, deletedAt: project.deletedAt },
+      data: { deletedAt: null },
+    }),
+    db.task.updateMany({
+      where: { projectId: project.id, deletedAt: project.deletedAt },
+      data: { deletedAt: null },
+    }),
+  ]);
+}
+
+// Todoist deletes the tasks inside a deleted task, section or project itself, so changes still
+// queued for them would only fail
+async function dropQueuedTaskChanges(db: PrismaClient, userId: string, taskIds: string[]) {
+  if (taskIds.length === 0) return;
+  await db.todoistOutboxEntry.deleteMany({
+    where: { userId, entityType: TodoistEntityType.TASK, entityId: { in: taskIds } },
+  });
+}
+
+/** Delete a trashed task and its subtasks for good. */
+export async function purgeTask(
+  db: PrismaClient,
+  userId: string,
+  task: Pick<Task, "id" | "todoistId">,
+) {
+  const subtaskIds = await getDescendantIds(db, task.id);
+  await db.task.delete({ where: { id: task.id } });
+
+  await dropQueuedTaskChanges(db, userId, subtaskIds);
+  await enqueueTodoistChange(db, userId, {
+    entityType: TodoistEntityType.TASK,
+    operation: TodoistOperation.DELETE,
+    entityId: task.id,
+    todoistId: task.todoistId,
+  });
+}
+
+/** Delete a trashed section and the tasks deleted with it for good. */
+export async function purgeSection(
+  db: PrismaClient,
+  userId: string,
+  section: Pick<Section, "id" | "todoistId" | "deletedAt">,
+) {
+  const where = { sectionId: section.id, deletedAt: section.deletedAt };
+  const tasks = await db.task.findMany({ where, select: { id: true } });
+  await db.$transaction([
+    db.task.deleteMany({ where }),
+    db.section.delete({ where: { id: section.id } }),
+  ]);
+
+  await dropQueuedTaskChanges(db, userId, tasks.map((task) => task.id));
+
+  await enqueueTodoistChange(db, userId, {
+    entityType: TodoistEntityType.SECTION,
+    operation: TodoistOperation.DELETE,
+    entityId: section.id,
+    todoistId: section.todoistId,
+  });
+}
+
+/** Delete a trashed project with the sections and tasks deleted with it for good. */
+export async function purgeProject(
+  db: PrismaClient,
+  userId: string,
+  project: Pick<Project, "id" | "todoistId" | "deletedAt">,
+) {
+  const where = { projectId: project.id, deletedAt: project.deletedAt };
+  const tasks = await db.task.findMany({ where, select: { id: true } });
+  await db.$transaction([
+    db.task.deleteMany({ where }),
+    db.project.delete({ where: { id: project.id } }),
+  ]);
+
+  await dropQueuedTaskChanges(db, userId, tasks.map((task) => task.id));
+
+  await enqueueTodoistChange(db, userId, {
+    entityType: TodoistEntityType.PROJECT,
+    operation: TodoistOperation.DELETE,
+    entityId: project.id,
+    todoistId: project.todoistId,
+  });
+}
+
+/**
+ * Delete everything in the user's trash for good, or only what was deleted before a date.
+ * Returns how many items were purged, counting what was deleted with them once.
+ */
+export async function purgeTrash(db: PrismaClient, userId: string, deletedBefore?: Date) {
+  const deletedAt = deletedBefore ? { lt: deletedBefore } : { not: null };
+  let purged = 0;
+
+  // Containers first, so the tasks inside them go with them
+  const projects = await db.project.findMany({
+    where: { userId, deletedAt },
+    select: { id: true, todoistId: true, deletedAt: true },
+  });
+  for (const project of projects) {
+    await purgeProject(db, userId, project);
+    purged++;
+  }
+
+  const sections = await db.section.findMany({
+    where: { project: { userId }, deletedAt },
+    select: { id: true, todoistId: true, deletedAt: true },
+  });
+  for (const section of sections) {
+    await purgeSection(db, userId, section);
+    purged++;
+  }
+
+  const tasks = await db.task.findMany({
+    where: { userId, deletedAt },
+    select: { id: true, todoistId: true, parentId: true },
+  });
+  const taskIds = new Set(tasks.map((task) => task.id));
+  for (const task of tasks.filter((task) => !task.parentId || !taskIds.has(task.parentId))) {
+    await purgeTask(db, userId, task);
+    purged++;
+  }
+
+  return purged;
+}
+
+/** Purge what has been in the trash for longer than the retention period. */
+export async function purgeExpiredTrash(
+  db: PrismaClient,
+  userId: string,
+  retentionDays: number,
+  now = new Date(),
+) {
+  return purgeTrash(db, userId, new Date(now.getTime() - retentionDays * DAY_MS));
+}
+
+/**
+ * Purge the expired trash of every user, along with the files attached to what was purged.
+ * Returns how many items were purged.
+ */
+export async function purgeAllExpiredTrash(
+  db: PrismaClient,
+  storage: AttachmentStorage,
+  now = new Date(),
+) {
+  const users = await db.user.findMany({ select: { id: true, trashRetentionDays: true } });
+  let purged = 0;
+  for (const user of users) {
+    purged += await purgeExpiredTrash(db, user.id, user.trashRetentionDays, now);
+    await purgeOrphanedAttachments(db, storage, user.id);
+  }
+  return purged;
+}
+
+const globalForWorker = globalThis as unknown as {
+  trashWorker: ReturnType<typeof setInterval> | undefined;
+};
+
+// Periodically purge what has been in the trash for too long, once per server process
+export function startTrashWorker(db: PrismaClient) {
+  if (globalForWorker.trashWorker) return;
+
+  const storage = createAttachmentStorage();
+  let running = false;
+  globalForWorker.trashWorker = setInterval(() => {
+    if (running) return;
+    running = true;
+
+    void (async () => {
+      try {
+        await purgeAllExpiredTrash(db, storage);
+      } catch (error) {
+        console.error("Failed to purge expired trash:", error);
+      } finally {
+        running = false;
+      }
+    })();
+  }, WORKER_INTERVAL_MS);
+}
+
+/**
+ * The items in the user's trash, newest first. Items deleted together with their project,
+ * section or parent task are listed under that instead.
+ */
+export async function getTrashItems(db: PrismaClient, userId: string): Promise<TrashItem[]> {
+  const [projects, sections, tasks] = await Promise.all([
+    db.project.findMany({
+      where: { userId, deletedAt: { not: null } },
+      select: { id: true, name: true, deletedAt: true },
+    }),
+    db.section.findMany({
+      where: { project: { userId }, deletedAt: { not: null } },
+      select: {
+        id: true,
+        name: true,
+        deletedAt: true,
+        project: { select: { name: true, deletedAt: true } },
+      },
+    }),
+    db.task.findMany({
+      where: { userId, deletedAt: { not: null } },
+      select: {
+        id: true,
+        title: true,
+        deletedAt: true,
+        parent: { select: { deletedAt: true } },
+        project: { select: { name: true, deletedAt: true } },
+        section: { select: { deletedAt: true } },
+      },
+    }),
+  ]);
+
+  const items: TrashItem[] = [
+    ...projects.map((project) => ({
+      type: "PROJECT" as const,
+      id: project.id,
+      name: project.name,
+      project: null,
+      deletedAt: project.deletedAt!,
+    })),
+    ...sections
+      .filter((section) => !deletedTogether(section.project.deletedAt, section.deletedAt))
+      .map((section) => ({
+        type: "SECTION" as const,
+        id: section.id,
+        name: section.name,
+        project: section.project.name,
+        deletedAt: section.deletedAt!,
+      })),
+    ...tasks
+      .filter(
+        (task) =>
+          !deletedTogether(task.parent?.deletedAt, task.deletedAt) &&
+          !deletedTogether(task.section?.deletedAt, task.deletedAt) &&
+          !deletedTogether(task.project?.deletedAt, task.deletedAt),
+      )
+      .map((task) => ({
+        type: "TASK" as const,
+        id: task.id,
+        name: task.title,
+        project: task.project?.name ?? null,
+        deletedAt: task.deletedAt!,
+      })),
+  ];
+
+  return items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+}